@@ -0,0 +1,16 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }))
+vi.mock('@/app/api/auth/[...nextauth]/route', () => ({ authOptions: {} }))
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: vi.fn() }))
+
+import { representativeScopeFilter } from '@/lib/auth-permissions'
+
+describe('representativeScopeFilter', () => {
+  it('matches each assigned branch/year pair, not their cross combinations', () => {
+    expect(representativeScopeFilter([
+      { branch_id: 'cse', year_id: 'y1' },
+      { branch_id: 'ece', year_id: 'y2' }
+    ])).toBe('and(branch_id.eq.cse,year_id.eq.y1),and(branch_id.eq.ece,year_id.eq.y2)')
+  })
+})
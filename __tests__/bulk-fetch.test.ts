@@ -33,6 +33,8 @@ function makeSimpleBuilder<T>(result: QueryResult<T>) {
     gte: () => builder,
     lte: () => builder,
     is: () => builder,
+    not: () => builder,
+    or: () => builder,
     in: () => builder,
     maybeSingle: () => result,
     then: (resolve: any) => resolve(result),
@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest'
+import { zipSync, strToU8 } from 'fflate'
+
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: vi.fn() }))
+
+import { BULK_IMPORT_MAX_EXPANDED_BYTES, readArchive } from '@/lib/bulk-import'
+
+// Rewrite the uncompressed size every central directory entry declares
+function declareSizes(zip: Uint8Array, size: number): Uint8Array {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength)
+  for (let i = 0; i + 46 <= zip.length; i++) {
+    if (view.getUint32(i, true) === 0x02014b50) view.setUint32(i + 24, size, true)
+  }
+  return zip
+}
+
+describe('readArchive', () => {
+  it('unpacks files and picks up a top-level manifest', () => {
+    const archive = readArchive(zipSync({
+      'manifest.csv': strToU8('file,subject,category,unit\nnotes/u1.pdf,dbms,notes,1\n'),
+      'notes/u1.pdf': strToU8('%PDF-1.4')
+    }))
+    expect(archive.manifestText).toContain('notes/u1.pdf')
+    expect(archive.files.has('notes/u1.pdf')).toBe(true)
+  })
+
+  it('refuses an archive whose entries would expand past the cap, before inflating them', () => {
+    const entries: Record<string, Uint8Array> = {}
+    const perEntry = 20 * 1024 * 1024
+    const count = Math.ceil(BULK_IMPORT_MAX_EXPANDED_BYTES / perEntry) + 1
+    for (let i = 0; i < count; i++) entries[`file-${i}.pdf`] = strToU8('%PDF-1.4')
+    const zip = declareSizes(zipSync(entries), perEntry)
+    expect(() => readArchive(zip)).toThrow(/expands to more than/)
+  })
+
+  it('lists files over the per-file limit instead of inflating them', () => {
+    const zip = declareSizes(zipSync({ 'big.pdf': strToU8('%PDF-1.4') }), 200 * 1024 * 1024)
+    const archive = readArchive(zip)
+    expect(archive.oversized.has('big.pdf')).toBe(true)
+    expect(archive.files.size).toBe(0)
+  })
+})
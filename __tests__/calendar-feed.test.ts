@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: vi.fn() }))
+
+import { buildCalendarFeed, escapeIcsText, foldIcsLine } from '@/lib/calendar-feed'
+
+describe('escapeIcsText', () => {
+  it('escapes separators, backslashes and newlines', () => {
+    expect(escapeIcsText('Lab; bring record, pen\\pencil\nRoom 204')).toBe('Lab\\; bring record\\, pen\\\\pencil\\nRoom 204')
+  })
+})
+
+describe('foldIcsLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldIcsLine('SUMMARY:Exam: DBMS')).toBe('SUMMARY:Exam: DBMS')
+  })
+
+  it('folds at 75 octets without splitting multi-byte characters', () => {
+    const line = `DESCRIPTION:${'é'.repeat(100)}`
+    const folded = foldIcsLine(line).split('\r\n')
+    expect(folded.length).toBeGreaterThan(1)
+    for (const part of folded) expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75)
+    expect(folded.map((p, i) => (i === 0 ? p : p.slice(1))).join('')).toBe(line)
+  })
+})
+
+describe('buildCalendarFeed', () => {
+  it('renders exams and reminders as all-day events', () => {
+    const ics = buildCalendarFeed([
+      { uid: 'exam-1', date: '2025-11-20', summary: 'Exam: Operating Systems', category: 'Exam' },
+      { uid: 'reminder-2', date: '2025-11-30', summary: 'Submit assignment', description: 'Unit 3, questions 1-5', category: 'Reminder' }
+    ], { now: new Date('2025-11-01T10:00:00Z') })
+
+    const lines = ics.split('\r\n')
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(lines.filter(l => l === 'BEGIN:VEVENT')).toHaveLength(2)
+    expect(lines).toContain('DTSTAMP:20251101T100000Z')
+    expect(lines).toContain('DTSTART;VALUE=DATE:20251120')
+    expect(lines).toContain('DTEND;VALUE=DATE:20251121')
+    expect(lines).toContain('DESCRIPTION:Unit 3\\, questions 1-5')
+    expect(lines.some(l => /^UID:reminder-2@/.test(l))).toBe(true)
+  })
+
+  it('uses the timetable slot and venue when an exam has them', () => {
+    const ics = buildCalendarFeed([{
+      uid: 'exam-4', date: '2025-11-24', startTime: '14:00', endTime: '17:00',
+      summary: 'Mid 1 exam: DBMS', location: 'Block A, Room 204', category: 'Exam'
+    }])
+    const lines = ics.split('\r\n')
+    expect(lines).toContain('DTSTART:20251124T140000')
+    expect(lines).toContain('DTEND:20251124T170000')
+    expect(lines).toContain('LOCATION:Block A\\, Room 204')
+    expect(lines).toContain('TRANSP:OPAQUE')
+  })
+
+  it('ends a month-end event on the first of the next month', () => {
+    const ics = buildCalendarFeed([{ uid: 'exam-3', date: '2025-12-31', summary: 'Exam: Compilers', category: 'Exam' }])
+    expect(ics).toContain('DTEND;VALUE=DATE:20260101')
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { detectCsvDelimiter, parseCsv, parseCsvRecords, toCsv } from '@/lib/csv'
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and embedded newlines', () => {
+    const rows = parseCsv('a,"b, c","say ""hi"""\r\n1,"line1\nline2",3\n')
+    expect(rows).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', 'line1\nline2', '3'],
+    ])
+  })
+
+  it('drops blank lines and a leading BOM, keeps empty cells', () => {
+    expect(parseCsv('\uFEFFx,y\n\n,2\n\r\n')).toEqual([['x', 'y'], ['', '2']])
+  })
+
+  it('throws on an unterminated quote', () => {
+    expect(() => parseCsv('a,"b\n')).toThrow(/Unterminated/)
+  })
+
+  it('reads tab-separated text pasted from a spreadsheet', () => {
+    const text = 'Subject\tDate\nDBMS, Lab\t24-11-2025\n'
+    expect(detectCsvDelimiter(text)).toBe('\t')
+    expect(detectCsvDelimiter('a,b\tc\n')).toBe(',')
+    expect(parseCsv(text, '\t')).toEqual([['Subject', 'Date'], ['DBMS, Lab', '24-11-2025']])
+  })
+})
+
+describe('parseCsvRecords', () => {
+  it('normalizes headers and pads short rows', () => {
+    const { headers, records } = parseCsvRecords('File Name,Subject,unit\nnotes.pdf, DBMS \nq.pdf,OS,2')
+    expect(headers).toEqual(['file_name', 'subject', 'unit'])
+    expect(records).toEqual([
+      { file_name: 'notes.pdf', subject: 'DBMS', unit: '' },
+      { file_name: 'q.pdf', subject: 'OS', unit: '2' },
+    ])
+  })
+})
+
+describe('toCsv', () => {
+  it('quotes only cells that need it and round-trips', () => {
+    const rows = [['row', 'error'], [1, 'bad, "file"'], [2, null]]
+    const text = toCsv(rows)
+    expect(text).toBe('row,error\r\n1,"bad, ""file"""\r\n2,')
+    expect(parseCsv(text)).toEqual([['row', 'error'], ['1', 'bad, "file"'], ['2', '']])
+  })
+})
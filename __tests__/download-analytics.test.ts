@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { inserts, rpcCalls, rpcData, userContext } = vi.hoisted(() => ({
+  inserts: [] as Record<string, unknown>[][],
+  rpcCalls: [] as [string, Record<string, unknown>][],
+  rpcData: { counts: [] as Record<string, unknown>[], daily: [] as Record<string, unknown>[] },
+  userContext: { current: null as Record<string, unknown> | null }
+}))
+
+vi.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: () => ({
+    from: () => ({
+      insert: async (rows: Record<string, unknown>[]) => {
+        inserts.push(rows)
+        return { error: rows.some(r => r.resource_id === 'broken') ? { message: 'insert failed' } : null }
+      }
+    }),
+    rpc: async (name: string, args: Record<string, unknown>) => {
+      rpcCalls.push([name, args])
+      return { data: name === 'resource_download_counts' ? rpcData.counts : rpcData.daily, error: null }
+    }
+  })
+}))
+vi.mock('@/lib/auth-permissions', () => ({ getCurrentUserContext: async () => userContext.current }))
+
+import { getDownloadStats, recordResourceDownloads } from '@/lib/download-analytics'
+import { GET as downloadStats } from '@/app/api/admin/resources/downloads/route'
+
+const student = { email: 'Student@Example.com', role: 'student' as const, branchId: 'cse', yearId: 'y1', semesterId: 's1' }
+
+const countRow = (resource_id: string, subject: string, unit: number, downloads: string) => ({
+  resource_id, title: resource_id, category: 'notes', subject, unit, branch_id: 'cse', year_id: 'y1',
+  downloads, unique_users: downloads, last_downloaded_at: null
+})
+
+describe('recordResourceDownloads', () => {
+  beforeEach(() => {
+    inserts.length = 0
+  })
+
+  it('inserts one row per resource in a single write', async () => {
+    await recordResourceDownloads(['r1', 'r2'], student, 'export')
+
+    expect(inserts).toHaveLength(1)
+    expect(inserts[0]).toEqual([
+      expect.objectContaining({ resource_id: 'r1', user_email: 'student@example.com', branch_id: 'cse', source: 'export' }),
+      expect.objectContaining({ resource_id: 'r2', user_email: 'student@example.com', branch_id: 'cse', source: 'export' })
+    ])
+  })
+
+  it('skips empty batches and never fails the download', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    await recordResourceDownloads([], student, 'secure_file')
+    expect(inserts).toHaveLength(0)
+
+    await expect(recordResourceDownloads(['broken'], student, 'secure_file')).resolves.toBeUndefined()
+  })
+})
+
+describe('getDownloadStats', () => {
+  beforeEach(() => {
+    rpcCalls.length = 0
+    rpcData.counts = [countRow('r1', 'DBMS', 1, '2'), countRow('r2', 'DBMS', 2, '0'), countRow('r3', 'OS', 1, '5')]
+    rpcData.daily = [{ day: '2025-11-01', downloads: '7', unique_users: '3' }]
+  })
+
+  it('totals downloads per subject and lists units nobody opened', async () => {
+    const classes = [{ branch_id: 'cse', year_id: 'y1' }]
+    const stats = await getDownloadStats({ from: new Date('2025-11-01'), to: new Date('2025-11-08'), classes })
+
+    expect(rpcCalls.map(([name, args]) => [name, args.p_classes])).toEqual([
+      ['resource_download_counts', classes],
+      ['resource_download_daily', classes]
+    ])
+    expect(stats.byResource.map(r => [r.resource_id, r.downloads])).toEqual([['r3', 5], ['r1', 2], ['r2', 0]])
+    expect(stats.bySubject).toEqual([
+      { subject: 'OS', downloads: 5, resources: 1, unopened_units: [] },
+      { subject: 'DBMS', downloads: 2, resources: 2, unopened_units: [2] }
+    ])
+    expect(stats.byDay).toEqual([{ day: '2025-11-01', downloads: 7, unique_users: 3 }])
+  })
+})
+
+describe('GET /api/admin/resources/downloads', () => {
+  const request = (query = '') => downloadStats(new Request(`http://localhost/api/admin/resources/downloads${query}`))
+
+  beforeEach(() => {
+    rpcCalls.length = 0
+    rpcData.counts = [countRow('r1', 'DBMS', 1, '4'), countRow('r2', 'DBMS', 2, '0')]
+    rpcData.daily = []
+  })
+
+  it('reports totals and unopened resources', async () => {
+    userContext.current = { email: 'admin@example.com', role: 'admin' }
+
+    const body = await (await request('?days=7')).json()
+
+    expect(body.range.days).toBe(7)
+    expect(body.totals).toEqual({ downloads: 4, resources: 2, unopened: 1 })
+    expect(body.unopenedResources.map((r: { resource_id: string }) => r.resource_id)).toEqual(['r2'])
+    expect(rpcCalls[0][1].p_classes).toBeNull()
+  })
+
+  it('limits representatives to their assigned classes', async () => {
+    userContext.current = {
+      email: 'rep@example.com',
+      role: 'representative',
+      representatives: [
+        { branch_id: 'cse', year_id: 'y1', active: true },
+        { branch_id: 'ece', year_id: 'y2', active: true },
+        { branch_id: 'mech', year_id: 'y3', active: false }
+      ]
+    }
+
+    expect((await request()).status).toBe(200)
+    expect(rpcCalls[0][1].p_classes).toEqual([{ branch_id: 'cse', year_id: 'y1' }, { branch_id: 'ece', year_id: 'y2' }])
+
+    expect((await request('?branch_id=mech')).status).toBe(403)
+  })
+
+  it('refuses students', async () => {
+    userContext.current = { email: 's@example.com', role: 'student' }
+
+    expect((await request()).status).toBe(403)
+  })
+})
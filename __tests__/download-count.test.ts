@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Readable } from 'stream'
+
+const { downloads } = vi.hoisted(() => ({ downloads: [] as Record<string, unknown>[] }))
+
+const student = { id: 'u1', email: 's@example.com', name: 'S', role: 'student', branchId: 'cse', yearId: 'y1', semesterId: 's1' }
+const resourceId = '5f0c6a2e-8d1b-4c3a-9e2f-1a2b3c4d5e6f'
+const resource = {
+  id: resourceId,
+  url: null,
+  drive_link: null,
+  file_path: 'secure-resources/notes.pdf',
+  storage_location: 'Supabase Storage',
+  restricted: false,
+  pdf_rendition_path: null,
+  secure_link_max_uses: null,
+  moderation_status: 'approved',
+  submitted_by: null,
+  branch_id: 'cse',
+  year_id: 'y1',
+  semester_id: 's1'
+}
+
+vi.mock('next-auth/next', () => ({ getServerSession: async () => ({ user: { email: student.email } }) }))
+vi.mock('@/app/api/auth/[...nextauth]/route', () => ({ authOptions: {} }))
+vi.mock('@/lib/auth-permissions', () => ({ getCurrentUserContext: async () => student }))
+vi.mock('@/lib/audit', () => ({ logAudit: vi.fn() }))
+vi.mock('@/lib/rate-limit', () => ({
+  rateLimit: async () => ({ allowed: true, limit: 20, remaining: 19, windowMs: 60000, resetMs: 60000 }),
+  rateLimitHeaders: () => ({}),
+  rateLimitExceededResponse: () => new Response(null, { status: 429 })
+}))
+vi.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: () => ({
+    from: (table: string) => {
+      const builder: any = {
+        select: () => builder,
+        eq: () => builder,
+        is: () => builder,
+        insert: async (rows: Record<string, unknown>[] | Record<string, unknown>) => {
+          if (table === 'resource_downloads') downloads.push(...(Array.isArray(rows) ? rows : [rows]))
+          return { error: null }
+        },
+        maybeSingle: async () => ({ data: { id: student.id, email: student.email, name: student.name, role: 'student' }, error: null }),
+        single: async () => ({ data: resource, error: null })
+      }
+      return builder
+    },
+    rpc: () => ({
+      single: async () => ({ data: { status: 'ok', resource_id: resourceId, file_id: resource.file_path, uses_remaining: null }, error: null })
+    })
+  })
+}))
+vi.mock('@/lib/files', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/files')>()),
+  statResourceFile: async () => ({ size: 5, mimeType: 'application/pdf', fileName: 'notes.pdf', etag: null, lastModified: null }),
+  openResourceFileStream: async () => ({ stream: Readable.from([Buffer.from('%PDF-')]), mimeType: 'application/pdf', fileName: 'notes.pdf' })
+}))
+
+import { GET as openResource } from '@/app/api/resources/[id]/file/route'
+import { GET as secureFile } from '@/app/api/secure-file/[token]/route'
+
+describe('resource download counting', () => {
+  beforeEach(() => {
+    downloads.length = 0
+    vi.stubEnv('JWT_SECRET', 'secret')
+    vi.stubEnv('NEXTAUTH_URL', 'https://app.example')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('records one download when a student opens a resource', async () => {
+    const redirect = await openResource(new Request(`https://app.example/api/resources/${resourceId}/file`), { params: { id: resourceId } })
+    expect(redirect.status).toBe(302)
+    const location = redirect.headers.get('location')!
+    const token = new URL(location).pathname.split('/').pop()!
+
+    const response = await secureFile(new Request(location), { params: { token } })
+
+    expect(response.status).toBe(200)
+    expect(downloads).toEqual([expect.objectContaining({ resource_id: resourceId, user_email: 's@example.com', source: 'secure_file' })])
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createHash } from 'crypto'
+
+const { db, drive, storage } = vi.hoisted(() => ({
+  db: { resources: [] as Record<string, any>[], migrations: [] as Record<string, any>[] },
+  drive: { files: new Map<string, { buffer: Buffer; md5: string }>(), deleted: [] as string[] },
+  storage: { objects: new Map<string, Buffer>(), uploads: 0 }
+}))
+
+const driveIdOf = (url: string | null | undefined) => url?.match(/\/file\/d\/([a-zA-Z0-9_-]+)/)?.[1] || null
+const now = () => new Date().toISOString()
+
+vi.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: () => ({
+    from: (table: string) => {
+      const eq: Record<string, unknown> = {}
+      let op: 'select' | 'update' | 'upsert' = 'select'
+      let payload: Record<string, any> = {}
+      let head = false
+      let or = ''
+      let neq: unknown = null
+      let limit = Infinity
+      const liveDriveResources = () => db.resources.filter(r => !r.deleted_at && (driveIdOf(r.drive_link) || driveIdOf(r.url)))
+      const withResource = (m: Record<string, any>) => ({ ...m, resources: db.resources.find(r => r.id === m.resource_id) })
+
+      const run = () => {
+        if (table === 'resources') {
+          if (op === 'update') {
+            const row = db.resources.find(r => r.id === eq.id)
+            if (row) Object.assign(row, payload)
+            return { data: row ? { id: row.id } : null, error: null }
+          }
+          if (neq) {
+            const id = or.match(/drive_link\.ilike\.%(.+?)%/)![1]
+            return { count: liveDriveResources().filter(r => r.id !== neq && [r.drive_link, r.url].some(u => u?.includes(id))).length, error: null }
+          }
+          const unclaimed = liveDriveResources().filter(r => !db.migrations.some(m => m.resource_id === r.id))
+          return head ? { count: unclaimed.length, error: null } : { data: unclaimed.slice(0, limit), error: null }
+        }
+
+        if (op === 'upsert') {
+          if (db.migrations.some(m => m.resource_id === payload.resource_id)) return { data: [], error: null }
+          const row = { status: 'copying', attempts: 1, drive_deleted_at: null, error: null, ...payload, updated_at: now() }
+          db.migrations.push(row)
+          return { data: [row], error: null }
+        }
+        const rows = db.migrations.filter(m => Object.entries(eq).every(([k, v]) => m[k] === v))
+        if (op === 'update') {
+          rows.forEach(m => Object.assign(m, payload, { updated_at: now() }))
+          return { data: rows, error: null }
+        }
+        if (or) {
+          const staleBefore = or.match(/updated_at\.lt\.([^)]+)/)![1]
+          const retries = db.migrations.filter(m => m.status === 'failed' || (m.status === 'copying' && m.updated_at < staleBefore))
+          return { data: retries.slice(0, limit).map(withResource), error: null }
+        }
+        return head ? { count: rows.length, error: null } : { data: rows.slice(0, limit).map(withResource), error: null }
+      }
+
+      const builder: any = {
+        select: (_columns: string, options?: { head?: boolean }) => { head = Boolean(options?.head); return builder },
+        update: (row: Record<string, unknown>) => { op = 'update'; payload = row; return builder },
+        upsert: (row: Record<string, unknown>) => { op = 'upsert'; payload = row; return builder },
+        eq: (column: string, value: unknown) => { eq[column] = value; return builder },
+        neq: (_column: string, value: unknown) => { neq = value; return builder },
+        or: (filter: string) => { or = filter; return builder },
+        // Only the migration columns are plain equality; the resource filters are modelled in run()
+        is: (column: string, value: unknown) => { if (table !== 'resources' && !column.includes('.')) eq[column] = value; return builder },
+        order: () => builder,
+        limit: (n: number) => { limit = n; return builder },
+        maybeSingle: async () => run(),
+        then: (resolve: any) => resolve(run())
+      }
+      return builder
+    }
+  })
+}))
+vi.mock('@/lib/storage/drive', () => ({
+  tryParseDriveIdFromUrl: (url: string) => driveIdOf(url),
+  driveStorage: {
+    stat: async (id: string) => {
+      const file = drive.files.get(id)
+      return file ? { size: file.buffer.length, mimeType: 'application/pdf', fileName: `${id}.pdf`, etag: file.md5, lastModified: null } : null
+    },
+    download: async (id: string) => {
+      const file = drive.files.get(id)
+      return file ? { buffer: file.buffer, mimeType: 'application/pdf' } : null
+    },
+    delete: async (id: string) => { drive.deleted.push(id) }
+  }
+}))
+vi.mock('@/lib/storage/supabase', () => ({
+  supabaseStorage: {
+    upload: async (buffer: Buffer, options: { fileName: string }) => {
+      const key = `secure-resources/${++storage.uploads}-${options.fileName}`
+      storage.objects.set(key, buffer)
+      return { key, url: key }
+    },
+    download: async (key: string) => {
+      const buffer = storage.objects.get(key)
+      return buffer ? { buffer, mimeType: 'application/pdf' } : null
+    },
+    delete: async (key: string) => { storage.objects.delete(key) }
+  }
+}))
+vi.mock('@/lib/files', () => ({
+  MAX_DOWNLOAD_SIZE_BYTES: 1024 * 1024,
+  resourceFileUrl: (id: string) => `/api/resources/${id}/file`
+}))
+vi.mock('@/lib/resource-versions', () => ({ tryRecordResourceVersion: vi.fn() }))
+vi.mock('@/lib/audit', () => ({ logAudit: vi.fn() }))
+
+import { getDriveMigrationProgress, runDriveMigrationBatch } from '@/lib/drive-migration'
+
+const admin = { email: 'root@example.com', role: 'yeshh' as const }
+
+function driveFile(id: string, content: string) {
+  const buffer = Buffer.from(content)
+  drive.files.set(id, { buffer, md5: createHash('md5').update(buffer).digest('hex') })
+}
+
+function driveResource(id: string, fileId: string) {
+  return { id, title: id, url: null, drive_link: `https://drive.google.com/file/d/${fileId}/view`, file_path: null, file_type: 'application/pdf', content_hash: null, deleted_at: null }
+}
+
+describe('runDriveMigrationBatch', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    db.resources = [driveResource('r1', 'file1'), driveResource('r2', 'file2')]
+    db.migrations = []
+    drive.files.clear()
+    drive.deleted = []
+    storage.objects.clear()
+    driveFile('file1', 'unit 1 notes')
+    driveFile('file2', 'unit 2 notes')
+  })
+
+  it('copies one batch at a time and resumes with the resources not yet migrated', async () => {
+    expect(await runDriveMigrationBatch({ limit: 1 }, admin)).toEqual({ processed: 1, migrated: 1, failed: 0, originalsDeleted: 0, remaining: 1 })
+
+    const r1 = db.resources.find(r => r.id === 'r1')!
+    expect(r1).toMatchObject({ url: '/api/resources/r1/file', drive_link: null, storage_location: 'Supabase Storage' })
+    expect(storage.objects.get(r1.file_path)!.toString()).toBe('unit 1 notes')
+    expect(db.migrations[0]).toMatchObject({ resource_id: 'r1', status: 'done', size_bytes: 12, drive_file_id: 'file1' })
+
+    expect(await runDriveMigrationBatch({ limit: 1 }, admin)).toMatchObject({ processed: 1, migrated: 1, remaining: 0 })
+    expect(await runDriveMigrationBatch({ limit: 1 }, admin)).toMatchObject({ processed: 0 })
+    expect(drive.deleted).toEqual([])
+  })
+
+  it('keeps the resource on Drive when the copy does not match, and retries it only on request', async () => {
+    drive.files.get('file1')!.md5 = 'not-the-md5'
+
+    expect(await runDriveMigrationBatch({ limit: 5 }, admin)).toMatchObject({ processed: 2, migrated: 1, failed: 1 })
+    expect(db.resources.find(r => r.id === 'r1')).toMatchObject({ drive_link: expect.stringContaining('file1'), file_path: null })
+    expect(db.migrations.find(m => m.resource_id === 'r1')).toMatchObject({ status: 'failed', error: 'MD5 mismatch reading from Drive' })
+    expect(await runDriveMigrationBatch({ limit: 5 }, admin)).toMatchObject({ processed: 0 })
+
+    driveFile('file1', 'unit 1 notes')
+    expect(await runDriveMigrationBatch({ limit: 5, retryFailed: true }, admin)).toMatchObject({ processed: 1, migrated: 1 })
+    expect(db.migrations.find(m => m.resource_id === 'r1')).toMatchObject({ status: 'done', attempts: 2 })
+  })
+
+  it('takes over claims left behind by a batch that died mid-copy', async () => {
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+    db.migrations = [
+      { resource_id: 'r1', status: 'copying', drive_file_id: 'file1', attempts: 1, updated_at: hourAgo },
+      { resource_id: 'r2', status: 'copying', drive_file_id: 'file2', attempts: 1, updated_at: now() }
+    ]
+
+    expect(await runDriveMigrationBatch({ limit: 5, retryFailed: true }, admin)).toMatchObject({ processed: 1, migrated: 1 })
+    expect(db.migrations.map(m => [m.resource_id, m.status])).toEqual([['r1', 'done'], ['r2', 'copying']])
+  })
+
+  it('deletes Drive originals only when no other resource still links them', async () => {
+    // A deleted copy of file1 doesn't keep it; file2 is still the link of a resource whose own copy failed
+    db.resources.push({ ...driveResource('r3', 'file1'), deleted_at: '2025-11-01' }, driveResource('r4', 'file2'))
+    db.migrations.push({ resource_id: 'r4', status: 'failed', drive_file_id: 'file2', attempts: 1, drive_deleted_at: null, updated_at: now() })
+
+    expect(await runDriveMigrationBatch({ limit: 5, deleteOriginals: true }, admin)).toMatchObject({ originalsDeleted: 1 })
+    expect(drive.deleted).toEqual(['file1'])
+    expect(await getDriveMigrationProgress()).toMatchObject({ done: 2, originalsKept: 1 })
+  })
+})
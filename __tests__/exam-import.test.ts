@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest'
+
+const { planExamImport, applyExamImport, sendPushToClass } = vi.hoisted(() => ({
+  planExamImport: vi.fn(),
+  applyExamImport: vi.fn(),
+  sendPushToClass: vi.fn()
+}))
+
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: vi.fn() }))
+vi.mock('@/lib/admin-auth', () => ({ requirePermission: async () => ({ email: 'admin@example.com', role: 'admin' }) }))
+vi.mock('@/lib/audit', () => ({ logAudit: vi.fn() }))
+vi.mock('@/lib/exam-import', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/exam-import')>()),
+  planExamImport,
+  applyExamImport
+}))
+vi.mock('@/lib/push', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/push')>()),
+  sendPushToClass
+}))
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: (task: () => unknown) => task()
+}))
+
+import { normalizeImportDate, normalizeImportTime, readExamTimetable } from '@/lib/exam-import'
+import { POST } from '@/app/api/admin/exams/import/route'
+
+describe('readExamTimetable', () => {
+  it('reads CSV with aliased headers and numbers rows like the spreadsheet', () => {
+    const rows = readExamTimetable('Subject,Date,Start,End,Type,Room,Branch Code,Batch Year\nDBMS,24-11-2025,10:00 AM,1:00 PM,Mid 1,A-204,CSE,2023\n')
+    expect(rows).toHaveLength(1)
+    expect(rows[0]).toMatchObject({
+      row: 2,
+      subject: 'DBMS',
+      exam_date: '24-11-2025',
+      start_time: '10:00 AM',
+      end_time: '1:00 PM',
+      exam_type: 'Mid 1',
+      venue: 'A-204',
+      branch: 'CSE',
+      year: '2023'
+    })
+  })
+
+  it('reads cells pasted from a spreadsheet', () => {
+    const rows = readExamTimetable('subject\texam_date\ttime\nOperating Systems\t2025-11-25\t2:00 PM - 5:00 PM')
+    expect(rows[0]).toMatchObject({ subject: 'Operating Systems', exam_date: '2025-11-25', time: '2:00 PM - 5:00 PM' })
+  })
+
+  it('rejects a timetable without the required columns', () => {
+    expect(() => readExamTimetable('subject,venue\nDBMS,A-204')).toThrow('missing column(s): exam_date')
+  })
+})
+
+describe('normalizeImportDate', () => {
+  it('converts day-first dates and leaves ISO dates alone', () => {
+    expect(normalizeImportDate('4/11/2025')).toBe('2025-11-04')
+    expect(normalizeImportDate('24.11.2025')).toBe('2025-11-24')
+    expect(normalizeImportDate('2025-11-24')).toBe('2025-11-24')
+  })
+})
+
+describe('normalizeImportTime', () => {
+  it('converts 12-hour and dotted times to HH:MM', () => {
+    expect(normalizeImportTime('2:00 PM')).toBe('14:00')
+    expect(normalizeImportTime('12:30 am')).toBe('00:30')
+    expect(normalizeImportTime('12:00 P.M.')).toBe('12:00')
+    expect(normalizeImportTime('9.30')).toBe('09:30')
+  })
+
+  it('passes unrecognised values through for validation to reject', () => {
+    expect(normalizeImportTime('noon')).toBe('noon')
+  })
+})
+
+describe('POST /api/admin/exams/import', () => {
+  it('pushes the new exams to each class once the timetable is imported', async () => {
+    const exam = (subject: string, exam_date: string, branch: string) => ({ subject, exam_date, branch, year: 2023 })
+    planExamImport.mockResolvedValue({
+      rows: [
+        { row: 2, action: 'create', exam: exam('DBMS', '2025-11-24', 'CSE') },
+        { row: 3, action: 'create', exam: exam('Compilers', '2025-11-26', 'CSE') },
+        { row: 4, action: 'update', existingId: 'e1', exam: exam('Networks', '2025-11-25', 'CSE') },
+        { row: 5, action: 'create', exam: exam('Machines', '2025-11-24', 'EEE') }
+      ],
+      summary: { create: 3, update: 1, error: 0 }
+    })
+    applyExamImport.mockResolvedValue({ created: 3, updated: 1 })
+
+    const response = await POST(new Request('http://localhost/api/admin/exams/import', {
+      method: 'POST',
+      body: JSON.stringify({ text: 'subject,exam_date\nDBMS,2025-11-24', commit: true })
+    }))
+
+    expect(response.status).toBe(200)
+    expect(sendPushToClass).toHaveBeenCalledTimes(2)
+    expect(sendPushToClass).toHaveBeenCalledWith('CSE', 2023, expect.objectContaining({ title: '2 new exams', body: 'DBMS (2025-11-24), Compilers (2025-11-26)' }))
+    expect(sendPushToClass).toHaveBeenCalledWith('EEE', 2023, expect.objectContaining({ title: 'Exam: Machines' }))
+  })
+})
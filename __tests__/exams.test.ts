@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { formatExamTime, parseExamInput } from '@/lib/exams'
+
+describe('parseExamInput', () => {
+  it('accepts a full timetable entry and infers the sitting from the start time', () => {
+    const parsed = parseExamInput({
+      subject: 'DBMS',
+      exam_date: '2025-11-24',
+      start_time: '14:00:00',
+      end_time: '17:00',
+      exam_type: 'Mid-1',
+      venue: ' Block A ',
+      regulation: 'r23'
+    })
+    expect(parsed).toEqual({
+      ok: true,
+      value: {
+        subject: 'DBMS',
+        exam_date: '2025-11-24',
+        start_time: '14:00',
+        end_time: '17:00',
+        session: 'AN',
+        exam_type: 'mid-1',
+        venue: 'Block A',
+        regulation: 'R23'
+      }
+    })
+  })
+
+  it('requires subject and date unless patching', () => {
+    expect(parseExamInput({ subject: 'DBMS' })).toEqual({ ok: false, error: 'exam_date must be YYYY-MM-DD' })
+    expect(parseExamInput({ venue: 'Lab 3' }, { partial: true })).toEqual({ ok: true, value: { venue: 'Lab 3' } })
+  })
+
+  it('rejects unknown types, sessions and inverted times', () => {
+    const base = { subject: 'DBMS', exam_date: '2025-11-24' }
+    expect(parseExamInput({ ...base, exam_type: 'final' }).ok).toBe(false)
+    expect(parseExamInput({ ...base, session: 'EV' }).ok).toBe(false)
+    expect(parseExamInput({ ...base, start_time: '13:00', end_time: '10:00' })).toEqual({ ok: false, error: 'end_time must be after start_time' })
+    expect(parseExamInput({ ...base, start_time: '25:00' }).ok).toBe(false)
+  })
+})
+
+describe('formatExamTime', () => {
+  it('shows the time range with the sitting', () => {
+    expect(formatExamTime({ start_time: '10:00:00', end_time: '13:00:00', session: 'FN' })).toBe('10:00 AM – 1:00 PM (FN)')
+  })
+
+  it('falls back to the sitting name, or nothing', () => {
+    expect(formatExamTime({ session: 'AN' })).toBe('Afternoon')
+    expect(formatExamTime({})).toBeNull()
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseRange,
+  isContinuationRange,
+  checkConditionalRequest,
+  isRangeStillValid,
+  contentDisposition
+} from '@/lib/http-range'
+
+describe('parseRange', () => {
+  it('parses bounded, open-ended and suffix ranges', () => {
+    expect(parseRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 })
+    expect(parseRange('bytes=500-', 1000)).toEqual({ start: 500, end: 999 })
+    expect(parseRange('bytes=-200', 1000)).toEqual({ start: 800, end: 999 })
+    expect(parseRange('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 })
+  })
+
+  it('ignores missing, malformed and multi-range headers', () => {
+    expect(parseRange(null, 1000)).toBeNull()
+    expect(parseRange('items=0-1', 1000)).toBeNull()
+    expect(parseRange('bytes=5-1', 1000)).toBeNull()
+    expect(parseRange('bytes=0-1,5-9', 1000)).toBeNull()
+  })
+
+  it('reports ranges outside the file as unsatisfiable', () => {
+    expect(parseRange('bytes=1000-', 1000)).toBe('unsatisfiable')
+    expect(parseRange('bytes=-0', 1000)).toBe('unsatisfiable')
+  })
+})
+
+describe('isContinuationRange', () => {
+  it('treats anything not starting at byte 0 as a continuation', () => {
+    expect(isContinuationRange(null)).toBe(false)
+    expect(isContinuationRange('bytes=0-')).toBe(false)
+    expect(isContinuationRange('bytes=65536-131071')).toBe(true)
+    expect(isContinuationRange('bytes=-1024')).toBe(true)
+  })
+})
+
+describe('conditional requests', () => {
+  const validators = { etag: '"abc"', lastModified: new Date('2025-01-01T10:00:00Z') }
+
+  it('answers 304 for a matching If-None-Match or an unchanged If-Modified-Since', () => {
+    expect(checkConditionalRequest(new Headers({ 'If-None-Match': 'W/"abc", "xyz"' }), validators)).toBe(304)
+    expect(checkConditionalRequest(new Headers({ 'If-None-Match': '"other"' }), validators)).toBeNull()
+    expect(checkConditionalRequest(new Headers({ 'If-Modified-Since': 'Wed, 01 Jan 2025 10:00:00 GMT' }), validators)).toBe(304)
+    expect(checkConditionalRequest(new Headers({ 'If-Modified-Since': 'Wed, 01 Jan 2025 09:59:59 GMT' }), validators)).toBeNull()
+  })
+
+  it('answers 412 when If-Match fails', () => {
+    expect(checkConditionalRequest(new Headers({ 'If-Match': '"other"' }), validators)).toBe(412)
+    expect(checkConditionalRequest(new Headers({ 'If-Match': '"abc"' }), validators)).toBeNull()
+  })
+
+  it('honours If-Range only for an unchanged file', () => {
+    expect(isRangeStillValid(new Headers(), validators)).toBe(true)
+    expect(isRangeStillValid(new Headers({ 'If-Range': '"abc"' }), validators)).toBe(true)
+    expect(isRangeStillValid(new Headers({ 'If-Range': '"old"' }), validators)).toBe(false)
+    expect(isRangeStillValid(new Headers({ 'If-Range': 'Wed, 01 Jan 2025 10:00:00 GMT' }), validators)).toBe(true)
+  })
+})
+
+describe('contentDisposition', () => {
+  it('adds an ASCII fallback next to the UTF-8 file name', () => {
+    expect(contentDisposition('attachment', 'Unit 1 – "notes".pdf')).toBe(
+      `attachment; filename="Unit 1 _ _notes_.pdf"; filename*=UTF-8''Unit%201%20%E2%80%93%20%22notes%22.pdf`
+    )
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { db, getSettings, sendPushToAudience } = vi.hoisted(() => ({
+  db: { resource: null as Record<string, unknown> | null, notifications: [] as Record<string, unknown>[] },
+  getSettings: vi.fn(),
+  sendPushToAudience: vi.fn()
+}))
+
+vi.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: () => ({
+    from: (table: string) => {
+      const filters: Record<string, unknown> = {}
+      let update: Record<string, unknown> | null = null
+      const builder: any = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => { filters[column] = value; return builder },
+        update: (row: Record<string, unknown>) => { update = row; return builder },
+        insert: async (row: Record<string, unknown>) => {
+          if (table === 'notifications') db.notifications.push(row)
+          return { error: null }
+        },
+        maybeSingle: async () => {
+          const row = db.resource
+          const matches = row && Object.entries(filters).every(([k, v]) => row[k] === v)
+          if (!matches) return { data: null, error: null }
+          if (update) db.resource = { ...row, ...update }
+          return { data: db.resource, error: null }
+        }
+      }
+      return builder
+    }
+  })
+}))
+vi.mock('@/lib/admin-auth', () => ({
+  requireAdmin: async () => ({ email: 'admin@example.com', role: 'admin' }),
+  getSettings
+}))
+vi.mock('@/lib/audit', () => ({ logAudit: vi.fn() }))
+vi.mock('@/lib/push', () => ({ sendPushToAudience, resourcePushPayload: (r: { id: string }) => ({ title: 'New resource', body: '', url: '/resources', tag: `resource-${r.id}` }) }))
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: (task: () => unknown) => task()
+}))
+
+import { requiresRepApproval } from '@/lib/moderation'
+import { POST as moderate } from '@/app/api/admin/resources/[id]/moderate/route'
+
+function decide(body: Record<string, unknown>) {
+  return moderate(new Request('http://localhost/api/admin/resources/r1/moderate', { method: 'POST', body: JSON.stringify(body) }), { params: { id: 'r1' } })
+}
+
+describe('requiresRepApproval', () => {
+  it('holds uploads in the configured categories only while approval is on', async () => {
+    getSettings.mockResolvedValue({ require_rep_approval: true, rep_approval_categories: ['papers'] })
+    expect(await requiresRepApproval('Papers')).toBe(true)
+    expect(await requiresRepApproval('notes')).toBe(false)
+
+    getSettings.mockResolvedValue({ require_rep_approval: true, rep_approval_categories: [] })
+    expect(await requiresRepApproval('notes')).toBe(true)
+
+    getSettings.mockResolvedValue({ require_rep_approval: false, rep_approval_categories: [] })
+    expect(await requiresRepApproval('papers')).toBe(false)
+  })
+})
+
+describe('POST /api/admin/resources/[id]/moderate', () => {
+  beforeEach(() => {
+    db.resource = { id: 'r1', title: 'Mid 1 paper', moderation_status: 'pending', submitted_by: 'rep@example.com', archived: false, branch_id: 'cse', year_id: 'y1', deleted_at: null }
+    db.notifications = []
+    sendPushToAudience.mockReset()
+  })
+
+  it('publishes an approved upload, tells the uploader and pushes it to the class', async () => {
+    const response = await decide({ decision: 'approve' })
+
+    expect(response.status).toBe(200)
+    expect(db.resource).toMatchObject({ moderation_status: 'approved', moderated_by: 'admin@example.com' })
+    expect(db.notifications).toEqual([expect.objectContaining({ recipient_email: 'rep@example.com', type: 'resource_approved' })])
+    expect(sendPushToAudience).toHaveBeenCalledWith({ branchId: 'cse', yearId: 'y1' }, expect.objectContaining({ tag: 'resource-r1' }))
+  })
+
+  it('needs a reason to reject, and sends it to the uploader without a push', async () => {
+    expect((await decide({ decision: 'reject' })).status).toBe(400)
+    expect(db.resource).toMatchObject({ moderation_status: 'pending' })
+
+    const response = await decide({ decision: 'reject', reason: 'Wrong regulation' })
+
+    expect(response.status).toBe(200)
+    expect(db.resource).toMatchObject({ moderation_status: 'rejected', moderation_reason: 'Wrong regulation' })
+    expect(db.notifications).toEqual([expect.objectContaining({ type: 'resource_rejected', body: 'Reason: Wrong regulation' })])
+    expect(sendPushToAudience).not.toHaveBeenCalled()
+  })
+
+  it('refuses to decide twice', async () => {
+    await decide({ decision: 'approve' })
+
+    const response = await decide({ decision: 'reject', reason: 'Duplicate' })
+
+    expect(response.status).toBe(409)
+    expect(db.resource).toMatchObject({ moderation_status: 'approved' })
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { mkdirSync, rmSync, writeFileSync } from 'fs'
+import path from 'path'
+
+// A stand-in for soffice: "converts" by copying the input next to it as input.pdf, or fails on demand
+const fake = vi.hoisted(() => {
+  const dir = `${process.env.TMPDIR || '/tmp'}/fake-soffice-${process.pid}`
+  process.env.LIBREOFFICE_PATH = `${dir}/soffice`
+  return { dir }
+})
+
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: vi.fn() }))
+vi.mock('@/lib/admin-auth', () => ({ getSettings: vi.fn() }))
+
+import { convertOfficeToPdf, isConvertibleOfficeFile } from '@/lib/office-convert'
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+beforeAll(() => {
+  mkdirSync(fake.dir, { recursive: true })
+  writeFileSync(path.join(fake.dir, 'soffice'), [
+    '#!/bin/sh',
+    'for arg; do last="$arg"; done',
+    'while [ "$1" != "--outdir" ]; do shift; done',
+    'if grep -q BROKEN "$last"; then echo "Error: source file could not be loaded" >&2; exit 1; fi',
+    'cp "$last" "$2/input.pdf"'
+  ].join('\n'), { mode: 0o755 })
+})
+
+afterAll(() => {
+  rmSync(fake.dir, { recursive: true, force: true })
+})
+
+describe('isConvertibleOfficeFile', () => {
+  it('accepts Word and PowerPoint files by type or extension', () => {
+    expect(isConvertibleOfficeFile(DOCX, 'notes.docx')).toBe(true)
+    expect(isConvertibleOfficeFile(null, 'slides.PPTX')).toBe(true)
+    expect(isConvertibleOfficeFile('application/vnd.ms-powerpoint', null)).toBe(true)
+  })
+
+  it('leaves PDFs, images and spreadsheets alone', () => {
+    expect(isConvertibleOfficeFile('application/pdf', 'notes.pdf')).toBe(false)
+    expect(isConvertibleOfficeFile('image/png', 'board.png')).toBe(false)
+    expect(isConvertibleOfficeFile(null, 'marks.xlsx')).toBe(false)
+  })
+})
+
+describe('convertOfficeToPdf', () => {
+  it('returns the PDF LibreOffice writes to the output directory', async () => {
+    const pdf = await convertOfficeToPdf(Buffer.from('%PDF-1.4 converted'), 'Unit 1.docx')
+    expect(pdf.toString()).toBe('%PDF-1.4 converted')
+  })
+
+  it('reports LibreOffice errors', async () => {
+    await expect(convertOfficeToPdf(Buffer.from('BROKEN'), 'bad.pptx')).rejects.toThrow(/source file could not be loaded/)
+  })
+
+  it('keeps converting after a failed run', async () => {
+    const results = await Promise.allSettled([
+      convertOfficeToPdf(Buffer.from('BROKEN'), 'a.docx'),
+      convertOfficeToPdf(Buffer.from('second'), 'b.docx')
+    ])
+    expect(results[0].status).toBe('rejected')
+    expect(results[1]).toEqual({ status: 'fulfilled', value: Buffer.from('second') })
+  })
+})
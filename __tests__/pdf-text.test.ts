@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { upserts } = vi.hoisted(() => {
+  // Read when lib/pdf-text loads; OCR needs language data that tests can't download
+  process.env.PDF_OCR_ENABLED = 'false'
+  return { upserts: [] as Record<string, unknown>[] }
+})
+
+vi.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: () => ({
+    from: () => ({ upsert: async (row: Record<string, unknown>) => { upserts.push(row); return { error: null } } })
+  })
+}))
+vi.mock('@/lib/files', () => ({ downloadResourceFile: vi.fn() }))
+
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+import { extractPdfText, indexResourceText } from '@/lib/pdf-text'
+
+async function handout(): Promise<Buffer> {
+  const doc = await PDFDocument.create()
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  doc.addPage([595, 842]).drawText('Normalization of relational schemas: 1NF, 2NF and 3NF', { x: 50, y: 780, size: 14, font })
+  // A scanned page: no text layer
+  doc.addPage([595, 842])
+  return Buffer.from(await doc.save())
+}
+
+describe('extractPdfText', () => {
+  it('reads the text layer and counts every page', async () => {
+    const result = await extractPdfText(await handout())
+
+    expect(result.pageCount).toBe(2)
+    expect(result.method).toBe('text')
+    expect(result.text).toContain('Normalization of relational schemas')
+  }, 30_000)
+})
+
+describe('indexResourceText', () => {
+  beforeEach(() => {
+    upserts.length = 0
+  })
+
+  it('stores the extracted text for search', async () => {
+    expect(await indexResourceText('r1', await handout())).toBe(true)
+
+    expect(upserts).toEqual([expect.objectContaining({ resource_id: 'r1', status: 'done', page_count: 2, method: 'text', error: null })])
+    expect(upserts[0].content).toContain('3NF')
+  }, 30_000)
+
+  it('records a failure for the backfill to retry instead of throwing', async () => {
+    expect(await indexResourceText('r2', Buffer.from('not a pdf'))).toBe(false)
+
+    expect(upserts).toEqual([expect.objectContaining({ resource_id: 'r2', status: 'failed' })])
+  }, 30_000)
+})
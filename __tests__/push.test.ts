@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { sendNotification, from } = vi.hoisted(() => ({ sendNotification: vi.fn(), from: vi.fn() }))
+
+vi.mock('web-push', () => ({ default: { sendNotification } }))
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: () => ({ from }) }))
+
+import { examPushPayload, parsePushSubscription, resourcePushPayload, sendPushToAudience } from '@/lib/push'
+
+const keys = { p256dh: 'BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM', auth: 'tBHItJI5svbpez7KI4CCXg' }
+
+describe('parsePushSubscription', () => {
+  it('accepts a browser subscription', () => {
+    expect(parsePushSubscription({ endpoint: 'https://fcm.googleapis.com/fcm/send/abc', expirationTime: null, keys }))
+      .toEqual({ endpoint: 'https://fcm.googleapis.com/fcm/send/abc', ...keys })
+  })
+
+  it('rejects non-https endpoints and missing or malformed keys', () => {
+    expect(parsePushSubscription({ endpoint: 'http://push.example/abc', keys })).toBeNull()
+    expect(parsePushSubscription({ endpoint: 'https://push.example/abc', keys: { auth: keys.auth } })).toBeNull()
+    expect(parsePushSubscription({ endpoint: 'https://push.example/abc', keys: { ...keys, auth: 'not base64!' } })).toBeNull()
+    expect(parsePushSubscription('https://push.example/abc')).toBeNull()
+  })
+})
+
+describe('push payloads', () => {
+  it('links a resource to its subject page', () => {
+    expect(resourcePushPayload({ id: 'r1', name: 'Unit 4 notes', category: 'notes', subject: 'dbms' })).toEqual({
+      title: 'New in DBMS',
+      body: 'Unit 4 notes',
+      url: '/resources/notes/dbms',
+      tag: 'resource-r1'
+    })
+  })
+
+  it('describes when and where an exam is', () => {
+    const payload = examPushPayload({ id: 'e1', subject: 'DBMS', exam_date: '2025-11-24', start_time: '10:00', end_time: '13:00', session: 'FN', exam_type: 'mid-1', venue: 'Block A' })
+    expect(payload.title).toBe('Mid 1 exam: DBMS')
+    expect(payload.body).toBe('2025-11-24 · 10:00 AM – 1:00 PM (FN) · Block A')
+  })
+})
+
+describe('sendPushToAudience', () => {
+  const subscriptions = [
+    { id: 's1', endpoint: 'https://push.example/1', ...keys },
+    { id: 's2', endpoint: 'https://push.example/2', ...keys }
+  ]
+  const deleted: string[][] = []
+
+  beforeEach(() => {
+    vi.stubEnv('VAPID_PUBLIC_KEY', 'public')
+    vi.stubEnv('VAPID_PRIVATE_KEY', 'private')
+    vi.stubEnv('VAPID_SUBJECT', 'mailto:admin@example.com')
+    deleted.length = 0
+    from.mockImplementation(() => {
+      const builder: any = {
+        select: () => builder,
+        limit: () => builder,
+        eq: () => builder,
+        delete: () => ({ in: (_col: string, ids: string[]) => { deleted.push(ids); return Promise.resolve({ error: null }) } }),
+        then: (resolve: any) => resolve({ data: subscriptions, error: null })
+      }
+      return builder
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    sendNotification.mockReset()
+  })
+
+  it('sends to every subscription and drops the ones the push service reports gone', async () => {
+    sendNotification.mockResolvedValueOnce({ statusCode: 201 }).mockRejectedValueOnce(Object.assign(new Error('Gone'), { statusCode: 410 }))
+    const result = await sendPushToAudience({ branchId: 'b1', yearId: 'y1' }, { title: 'New in DBMS', body: 'Unit 4 notes', url: '/resources/notes/dbms' })
+    expect(result).toEqual({ sent: 1, removed: 1, failed: 0 })
+    expect(deleted).toEqual([['s2']])
+    expect(sendNotification).toHaveBeenCalledWith(
+      { endpoint: 'https://push.example/1', keys },
+      expect.stringContaining('"title":"New in DBMS"'),
+      expect.objectContaining({ vapidDetails: { subject: 'mailto:admin@example.com', publicKey: 'public', privateKey: 'private' } })
+    )
+  })
+
+  it('does nothing without VAPID keys', async () => {
+    vi.stubEnv('VAPID_PRIVATE_KEY', '')
+    expect(await sendPushToAudience({ branchId: null, yearId: null }, { title: 't', body: 'b', url: '/' })).toEqual({ sent: 0, removed: 0, failed: 0 })
+    expect(sendNotification).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@/lib/redis', () => ({ redis: null }))
+
+import { rateLimit, rateLimitHeaders, RATE_LIMIT_POLICIES } from '@/lib/rate-limit'
+
+describe('rateLimit (in-process fallback)', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('blocks once the policy limit is reached within the window', async () => {
+    const { limit } = RATE_LIMIT_POLICIES.download
+    for (let i = 0; i < limit; i++) {
+      expect((await rateLimit('download', 'a@example.com')).allowed).toBe(true)
+    }
+    const blocked = await rateLimit('download', 'A@example.com')
+    expect(blocked.allowed).toBe(false)
+    expect(blocked.remaining).toBe(0)
+    expect(blocked.resetMs).toBe(RATE_LIMIT_POLICIES.download.windowMs)
+  })
+
+  it('slides the window rather than resetting it all at once', async () => {
+    const { windowMs } = RATE_LIMIT_POLICIES.export
+    for (let i = 0; i < 4; i++) await rateLimit('export', 'b@example.com')
+    vi.advanceTimersByTime(windowMs / 2)
+    expect((await rateLimit('export', 'b@example.com')).allowed).toBe(true)
+    expect((await rateLimit('export', 'b@example.com')).allowed).toBe(false)
+
+    // The first four hits expire; the one made halfway through still counts
+    vi.advanceTimersByTime(windowMs / 2)
+    const result = await rateLimit('export', 'b@example.com')
+    expect(result.allowed).toBe(true)
+    expect(result.remaining).toBe(3)
+  })
+
+  it('keeps separate buckets per policy and identifier', async () => {
+    for (let i = 0; i < RATE_LIMIT_POLICIES.promotion.limit; i++) await rateLimit('promotion', 'c@example.com')
+    expect((await rateLimit('promotion', 'c@example.com')).allowed).toBe(false)
+    expect((await rateLimit('promotion', 'd@example.com')).allowed).toBe(true)
+    expect((await rateLimit('profile', 'c@example.com')).allowed).toBe(true)
+  })
+})
+
+describe('rateLimitHeaders', () => {
+  it('adds Retry-After only when the request is blocked', () => {
+    const base = { limit: 20, remaining: 5, windowMs: 60000, resetMs: 12500 }
+    expect(rateLimitHeaders({ ...base, allowed: true })).toEqual({
+      'RateLimit-Limit': '20',
+      'RateLimit-Remaining': '5',
+      'RateLimit-Reset': '13',
+      'RateLimit-Policy': '20;w=60',
+    })
+    expect(rateLimitHeaders({ ...base, allowed: false, remaining: 0 })['Retry-After']).toBe('13')
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { describeRecurrenceRule, expandRecurrence, formatRecurrenceRule, parseRecurrenceRule, recurrenceEndDate, type RecurrenceRule } from '@/lib/recurrence'
+import { expandReminders, loadReminderRows, reminderWindow } from '@/lib/reminders'
+
+function rule(text: string): RecurrenceRule {
+  const parsed = parseRecurrenceRule(text)
+  if (!parsed.ok) throw new Error(parsed.error)
+  return parsed.value
+}
+
+describe('parseRecurrenceRule', () => {
+  it('parses and canonicalises a weekly rule', () => {
+    const parsed = rule('RRULE:freq=weekly;byday=FR,MO;interval=2;until=20260301T000000Z')
+    expect(parsed).toEqual({ freq: 'WEEKLY', interval: 2, byDay: ['MO', 'FR'], count: null, until: '2026-03-01' })
+    expect(formatRecurrenceRule(parsed)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20260301')
+    expect(describeRecurrenceRule(parsed)).toBe('Every 2 weeks on Monday, Friday until 2026-03-01')
+  })
+
+  it('rejects rules the dashboard cannot express', () => {
+    expect(parseRecurrenceRule('FREQ=YEARLY')).toMatchObject({ ok: false })
+    expect(parseRecurrenceRule('FREQ=MONTHLY;BYDAY=MO')).toEqual({ ok: false, error: 'BYDAY is only supported for weekly rules' })
+    expect(parseRecurrenceRule('FREQ=DAILY;COUNT=3;UNTIL=20260101')).toEqual({ ok: false, error: 'Use either COUNT or UNTIL, not both' })
+    expect(parseRecurrenceRule('FREQ=DAILY;BYHOUR=9')).toEqual({ ok: false, error: "Unsupported rule part 'BYHOUR'" })
+  })
+})
+
+describe('expandRecurrence', () => {
+  it('lists every Monday in the window, starting from the first occurrence', () => {
+    // 2025-11-05 is a Wednesday, so the first Monday is the 10th
+    expect(expandRecurrence('2025-11-05', rule('FREQ=WEEKLY;BYDAY=MO'), { from: '2025-11-01', to: '2025-11-30' }))
+      .toEqual(['2025-11-10', '2025-11-17', '2025-11-24'])
+  })
+
+  it('defaults weekly rules to the weekday of the start and honours intervals and exclusions', () => {
+    expect(expandRecurrence('2025-11-03', rule('FREQ=WEEKLY;INTERVAL=2'), { from: '2025-11-01', to: '2025-12-31', exdates: ['2025-12-01'] }))
+      .toEqual(['2025-11-03', '2025-11-17', '2025-12-15', '2025-12-29'])
+  })
+
+  it('counts occurrences from the start, even before the window', () => {
+    expect(expandRecurrence('2025-11-01', rule('FREQ=DAILY;COUNT=5'), { from: '2025-11-04', to: '2025-12-31' }))
+      .toEqual(['2025-11-04', '2025-11-05'])
+  })
+
+  it('skips months without the start day and stops at UNTIL', () => {
+    expect(expandRecurrence('2025-10-31', rule('FREQ=MONTHLY;UNTIL=20260331'), { from: '2025-10-01', to: '2026-12-31' }))
+      .toEqual(['2025-10-31', '2025-12-31', '2026-01-31', '2026-03-31'])
+  })
+})
+
+describe('recurrenceEndDate', () => {
+  it('ends a series on its UNTIL date or its last counted occurrence', () => {
+    expect(recurrenceEndDate('2025-11-03', rule('FREQ=WEEKLY;UNTIL=20251215'))).toBe('2025-12-15')
+    expect(recurrenceEndDate('2025-11-05', rule('FREQ=WEEKLY;BYDAY=MO,FR;COUNT=3'))).toBe('2025-11-14')
+    expect(recurrenceEndDate('2025-10-31', rule('FREQ=MONTHLY;COUNT=3'))).toBe('2026-01-31')
+    expect(recurrenceEndDate('2025-11-03', rule('FREQ=DAILY'))).toBeNull()
+  })
+})
+
+describe('loadReminderRows', () => {
+  function client() {
+    const queries: string[][] = []
+    const supabase = {
+      from: () => {
+        const filters: string[] = []
+        queries.push(filters)
+        const builder: any = {
+          select: () => builder,
+          order: () => builder,
+          limit: () => builder,
+          is: (column: string, value: unknown) => { filters.push(`${column} is ${value}`); return builder },
+          not: (column: string, op: string, value: unknown) => { filters.push(`${column} not ${op} ${value}`); return builder },
+          gte: (column: string, value: unknown) => { filters.push(`${column} >= ${value}`); return builder },
+          lte: (column: string, value: unknown) => { filters.push(`${column} <= ${value}`); return builder },
+          or: (filter: string) => { filters.push(`or(${filter})`); return builder },
+          eq: (column: string, value: unknown) => { filters.push(`${column} = ${value}`); return builder },
+          then: (resolve: any) => resolve({ data: [{ id: `row-${queries.indexOf(filters)}` }], error: null })
+        }
+        return builder
+      }
+    }
+    return { supabase: supabase as unknown as SupabaseClient, queries }
+  }
+
+  it('loads upcoming one-shot reminders and unfinished series separately', async () => {
+    const { supabase, queries } = client()
+    const result = await loadReminderRows(supabase, { from: '2025-11-01', to: '2025-12-31' }, { branch: 'CSE', year: 2, limit: 20 })
+
+    expect(result.data?.map(r => r.id)).toEqual(['row-0', 'row-1'])
+    expect(queries[0]).toEqual(['deleted_at is null', 'recurrence_rule is null', 'due_date >= 2025-11-01', 'branch = CSE', 'year = 2'])
+    expect(queries[1]).toEqual([
+      'deleted_at is null',
+      'recurrence_rule not is null',
+      'due_date <= 2025-12-31',
+      'or(recurrence_end_date.is.null,recurrence_end_date.gte.2025-11-01)',
+      'branch = CSE',
+      'year = 2'
+    ])
+  })
+})
+
+describe('expandReminders', () => {
+  it('replaces a series with its occurrences and keeps one-shot reminders', () => {
+    const rows = [
+      { id: 'quiz', title: 'Quiz', due_date: '2025-11-03', recurrence_rule: 'FREQ=WEEKLY;BYDAY=MO', recurrence_exdates: ['2025-11-10'] },
+      { id: 'moved', title: 'Quiz (moved)', due_date: '2025-11-11', recurrence_parent_id: 'quiz', occurrence_date: '2025-11-10' },
+      { id: 'record', title: 'Lab record', due_date: '2025-11-07' }
+    ]
+    const result = expandReminders(rows, { from: '2025-11-01', to: '2025-11-17' })
+    expect(result.map(r => [r.id, r.due_date, r.series_id])).toEqual([
+      ['quiz', '2025-11-03', 'quiz'],
+      ['record', '2025-11-07', null],
+      ['moved', '2025-11-11', 'quiz'],
+      ['quiz', '2025-11-17', 'quiz']
+    ])
+  })
+})
+
+describe('reminderWindow', () => {
+  it('defaults to the coming 60 days and caps long windows at a year', () => {
+    expect(reminderWindow(null, null, new Date('2025-11-01T10:00:00Z'))).toEqual({ from: '2025-11-01', to: '2025-12-31' })
+    expect(reminderWindow('2025-01-01', '2030-01-01')).toEqual({ from: '2025-01-01', to: '2026-01-02' })
+    expect(reminderWindow('2025-12-01', '2025-11-01')).toBeNull()
+    expect(reminderWindow('1/11/2025')).toBeNull()
+  })
+})
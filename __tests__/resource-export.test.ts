@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest'
+import { unzipSync, strFromU8 } from 'fflate'
+
+const { openResourceFileStream } = vi.hoisted(() => ({ openResourceFileStream: vi.fn() }))
+
+vi.mock('@/lib/files', () => ({
+  openResourceFileStream,
+  determineFileExtension: () => 'pdf'
+}))
+
+import { createResourceZipStream, type ExportableResource } from '@/lib/resource-export'
+
+async function readZip(stream: ReadableStream<Uint8Array>): Promise<Record<string, string>> {
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer())
+  return Object.fromEntries(Object.entries(unzipSync(bytes)).map(([name, data]) => [name, strFromU8(data)]))
+}
+
+describe('createResourceZipStream', () => {
+  it('leaves restricted files out of the archive and lists them as not included', async () => {
+    openResourceFileStream.mockImplementation(async () => ({
+      stream: (async function* () { yield new TextEncoder().encode('unit 1 notes') })(),
+      mimeType: 'application/pdf',
+      fileName: 'notes.pdf'
+    }))
+    const base = { category: 'notes', subject: 'dbms', unit: 1, drive_link: null }
+    const resources: ExportableResource[] = [
+      { ...base, id: 'r1', name: 'Notes', url: 'https://example.com/notes.pdf' },
+      { ...base, id: 'r2', name: 'Question bank', url: 'https://drive.google.com/file/d/abc/view', restricted: true }
+    ]
+
+    const files = await readZip(createResourceZipStream(resources, { bySubject: false, byCategory: false }))
+
+    expect(files['Unit 1/Notes.pdf']).toBe('unit 1 notes')
+    expect(Object.keys(files)).toHaveLength(2)
+    expect(files['NOT-INCLUDED.txt']).toContain('Question bank (restricted')
+    expect(files['NOT-INCLUDED.txt']).not.toContain('drive.google.com')
+    expect(openResourceFileStream).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { db, userContext } = vi.hoisted(() => ({
+  db: { resource: {} as Record<string, unknown>, versions: [] as Record<string, any>[] },
+  userContext: { current: null as Record<string, unknown> | null }
+}))
+
+vi.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: () => ({
+    from: (table: string) => {
+      const filters: Record<string, unknown> = {}
+      let update: Record<string, unknown> | null = null
+      const matching = () => db.versions
+        .filter(v => Object.entries(filters).every(([k, value]) => v[k] === value))
+        .sort((a, b) => b.version_number - a.version_number)
+      const builder: any = {
+        select: () => builder,
+        order: () => builder,
+        limit: () => builder,
+        eq: (column: string, value: unknown) => { filters[column] = value; return builder },
+        update: (row: Record<string, unknown>) => { update = row; return builder },
+        insert: async (row: Record<string, any>) => {
+          db.versions.push({ id: `v${db.versions.length + 1}`, ...row })
+          return { error: null }
+        },
+        maybeSingle: async () => ({ data: table === 'resources' ? db.resource : matching()[0] ?? null, error: null }),
+        single: async () => {
+          if (update) db.resource = { ...db.resource, ...update }
+          return { data: db.resource, error: null }
+        },
+        then: (resolve: any) => resolve({ data: matching(), count: matching().length, error: null })
+      }
+      return builder
+    }
+  })
+}))
+vi.mock('@/lib/auth-permissions', () => ({
+  getCurrentUserContext: async () => userContext.current,
+  canUserManageResource: () => true
+}))
+vi.mock('@/lib/audit', () => ({ logAudit: vi.fn() }))
+vi.mock('@/lib/pdf-text', () => ({ indexStoredResourceText: vi.fn() }))
+vi.mock('@/lib/thumbnails', () => ({ canGenerateThumbnail: vi.fn(), clearResourceThumbnail: vi.fn(), generateStoredResourceThumbnail: vi.fn() }))
+vi.mock('@/lib/office-convert', () => ({ clearPdfRendition: vi.fn(), convertStoredResourceToPdf: vi.fn(), isConvertibleOfficeFile: vi.fn() }))
+vi.mock('@/lib/files', () => ({ determineFileExtension: vi.fn(), deleteResourceFile: vi.fn() }))
+
+import { diffSnapshots, recordResourceVersion, snapshotResource } from '@/lib/resource-versions'
+import { POST as restore } from '@/app/api/admin/resources/[id]/versions/[version]/restore/route'
+
+const admin = { email: 'Admin@example.com', role: 'admin' }
+const original = { id: 'r1', title: 'Unit 1 notes', unit: 1, url: 'https://example.com/v1.pdf', branch_id: 'cse', year_id: 'y1', updated_at: '2025-11-01' }
+
+describe('snapshots', () => {
+  it('only compares versioned fields', () => {
+    const before = snapshotResource(original)
+    const after = snapshotResource({ ...original, title: 'Unit 1 notes (revised)', updated_at: '2025-11-02' })
+    expect(diffSnapshots(before, after)).toEqual([{ field: 'title', from: 'Unit 1 notes', to: 'Unit 1 notes (revised)' }])
+  })
+})
+
+describe('recordResourceVersion', () => {
+  beforeEach(() => {
+    db.versions = []
+  })
+
+  it('records a baseline for resources created before versioning, then the edit', async () => {
+    const version = await recordResourceVersion({ resourceId: 'r1', before: original, after: { ...original, unit: 2 }, actor: admin })
+
+    expect(version).toBe(2)
+    expect(db.versions.map(v => [v.version_number, v.change_type, v.changed_fields])).toEqual([
+      [1, 'create', []],
+      [2, 'metadata', ['unit']]
+    ])
+    expect(db.versions[1].created_by_email).toBe('admin@example.com')
+  })
+
+  it('marks a new file as a file change and skips edits that change nothing versioned', async () => {
+    await recordResourceVersion({ resourceId: 'r1', after: original, actor: admin })
+    expect(await recordResourceVersion({ resourceId: 'r1', before: original, after: { ...original, updated_at: 'x' }, actor: admin })).toBeNull()
+
+    await recordResourceVersion({ resourceId: 'r1', before: original, after: { ...original, url: 'https://example.com/v2.pdf' }, actor: admin })
+    expect(db.versions.at(-1)).toMatchObject({ version_number: 2, change_type: 'file', url: 'https://example.com/v2.pdf' })
+  })
+})
+
+describe('POST /api/admin/resources/[id]/versions/[version]/restore', () => {
+  const restoreVersion = (version: string) =>
+    restore(new Request('http://localhost', { method: 'POST' }), { params: { id: 'r1', version } })
+
+  beforeEach(async () => {
+    userContext.current = admin
+    db.versions = []
+    db.resource = { ...original }
+    await recordResourceVersion({ resourceId: 'r1', after: original, actor: admin })
+    db.resource = { ...original, title: 'Renamed', year_id: 'y2' }
+    await recordResourceVersion({ resourceId: 'r1', before: original, after: db.resource, actor: admin })
+  })
+
+  it('writes the old version back and records the rollback as a new version', async () => {
+    const response = await restoreVersion('1')
+
+    expect(response.status).toBe(200)
+    expect(db.resource).toMatchObject({ title: 'Unit 1 notes', year_id: 'y1' })
+    expect(db.versions.at(-1)).toMatchObject({ version_number: 3, change_type: 'restore', restored_from: 1 })
+    expect(db.versions.at(-1)!.changed_fields).toEqual(expect.arrayContaining(['title', 'year_id']))
+  })
+
+  it('refuses a no-op restore and lets representatives not move resources between classes', async () => {
+    expect((await restoreVersion('2')).status).toBe(409)
+
+    userContext.current = { email: 'rep@example.com', role: 'representative' }
+    expect((await restoreVersion('1')).status).toBe(403)
+    expect(db.resource).toMatchObject({ title: 'Renamed' })
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+
+const { makeDriveFilePrivate } = vi.hoisted(() => ({ makeDriveFilePrivate: vi.fn() }))
+
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: vi.fn() }))
+vi.mock('@/lib/storage/drive', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/storage/drive')>()),
+  makeDriveFilePrivate
+}))
+
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { localDiskStorage } from '@/lib/storage/local'
+import { locateResourceFile } from '@/lib/storage'
+import { makeResourceFilePrivate, resourceLinks } from '@/lib/files'
+
+const id = '5f0c6a2e-8d1b-4c3a-9e2f-1a2b3c4d5e6f'
+
+describe('makeResourceFilePrivate', () => {
+  let root: string
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'pecup-restricted-'))
+    vi.stubEnv('LOCAL_STORAGE_DIR', root)
+    vi.stubEnv('NEXTAUTH_URL', 'https://app.example')
+  })
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('removes the public Drive permission and points the row at the secure file endpoint', async () => {
+    const moved = await makeResourceFilePrivate({ id, url: 'https://drive.google.com/file/d/abc123/view', drive_link: 'https://drive.google.com/file/d/abc123/view' })
+
+    expect(makeDriveFilePrivate).toHaveBeenCalledWith('abc123')
+    expect(moved).toEqual({
+      fields: {
+        url: `https://app.example/api/resources/${id}/file`,
+        drive_link: null,
+        file_path: 'https://drive.google.com/file/d/abc123/view?usp=sharing',
+        storage_location: 'Google Drive'
+      },
+      copied: false
+    })
+  })
+
+  it('copies a public object to private storage', async () => {
+    const stored = await localDiskStorage.upload(Buffer.from('question bank'), { fileName: 'qb.pdf', visibility: 'public' })
+
+    const moved = await makeResourceFilePrivate({ id, url: stored.url })
+
+    expect(moved?.copied).toBe(true)
+    expect(moved?.fields.url).toBe(`https://app.example/api/resources/${id}/file`)
+    const copy = locateResourceFile({ url: moved!.fields.url, file_path: moved!.fields.file_path })
+    expect(copy?.key).toMatch(/^private\//)
+    expect((await localDiskStorage.download(copy!.key))?.buffer.toString()).toBe('question bank')
+  })
+
+  it('returns null for an external link it cannot protect', async () => {
+    expect(await makeResourceFilePrivate({ id, url: 'https://example.com/paper.pdf' })).toBeNull()
+  })
+})
+
+describe('resourceLinks', () => {
+  it('leaves out the stored links of restricted resources', () => {
+    expect(resourceLinks({ restricted: true, url: 'https://drive.google.com/file/d/abc/view', drive_link: 'https://drive.google.com/file/d/abc/view' }))
+      .toEqual({ url: null, drive_link: null })
+    expect(resourceLinks({ restricted: false, url: 'https://example.com/a.pdf', drive_link: null }))
+      .toEqual({ url: 'https://example.com/a.pdf', drive_link: null })
+  })
+})
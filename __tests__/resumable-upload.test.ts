@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { from } = vi.hoisted(() => ({ from: vi.fn() }))
+
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: () => ({ from }) }))
+vi.mock('@/lib/admin-auth', () => ({ getSettings: vi.fn() }))
+
+import { UPLOAD_CHUNK_BYTES, claimCompletedUpload } from '@/lib/resumable-upload'
+
+// A single upload_sessions row; the update only applies while its status matches the filter
+function uploadSessionsTable(row: { id: string; owner_email: string; status: string }) {
+  from.mockImplementation(() => {
+    let patch: Record<string, unknown> = {}
+    const filters: Record<string, unknown> = {}
+    const builder = {
+      update: (values: Record<string, unknown>) => { patch = values; return builder },
+      eq: (column: string, value: unknown) => { filters[column] = value; return builder },
+      select: async () => {
+        const matches = Object.entries(filters).every(([column, value]) => row[column as keyof typeof row] === value)
+        if (!matches) return { data: [], error: null }
+        Object.assign(row, patch)
+        return { data: [{ ...row }], error: null }
+      }
+    }
+    return builder
+  })
+}
+
+describe('claimCompletedUpload', () => {
+  beforeEach(() => from.mockReset())
+
+  it('lets only one request claim a completed upload', async () => {
+    uploadSessionsTable({ id: 'u1', owner_email: 'rep@example.com', status: 'completed' })
+    const [first, second] = await Promise.all([
+      claimCompletedUpload('u1', 'Rep@example.com'),
+      claimCompletedUpload('u1', 'rep@example.com')
+    ])
+    expect([first, second].filter(Boolean)).toHaveLength(1)
+    expect((first || second)?.status).toBe('consumed')
+  })
+
+  it("won't claim another user's upload", async () => {
+    uploadSessionsTable({ id: 'u1', owner_email: 'rep@example.com', status: 'completed' })
+    expect(await claimCompletedUpload('u1', 'other@example.com')).toBeNull()
+  })
+})
+
+describe('UPLOAD_CHUNK_BYTES', () => {
+  it("fits in a single request body on Vercel and is a multiple of Drive's 256KiB", () => {
+    expect(UPLOAD_CHUNK_BYTES).toBeLessThanOrEqual(4.5 * 1024 * 1024)
+    expect(UPLOAD_CHUNK_BYTES % (256 * 1024)).toBe(0)
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: vi.fn() }))
+
+import { resolveSearchScope } from '@/lib/search'
+import type { UserContext } from '@/lib/types/auth'
+
+describe('resolveSearchScope', () => {
+  it('scopes a representative to their assigned branch/year pairs only', async () => {
+    const rep = {
+      id: 'u1',
+      email: 'rep@example.com',
+      name: 'Rep',
+      role: 'representative',
+      representatives: [
+        { branch_id: 'cse', year_id: 'y1' },
+        { branch_id: 'ece', year_id: 'y2' }
+      ]
+    } as unknown as UserContext
+
+    const scope = await resolveSearchScope(rep)
+    expect(scope?.unrestricted).toBe(false)
+    expect(scope?.classes).toEqual([
+      { branch_id: 'cse', year_id: 'y1' },
+      { branch_id: 'ece', year_id: 'y2' }
+    ])
+  })
+
+  it('returns null for a student without academic context', async () => {
+    const student = { id: 'u2', email: 's@example.com', name: 'S', role: 'student' } as UserContext
+    expect(await resolveSearchScope(student)).toBeNull()
+  })
+})
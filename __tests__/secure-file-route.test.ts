@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createHmac } from 'crypto'
+import { Readable } from 'stream'
+
+const { rateLimit, consumeSecureFileToken, checkSecureFileToken, recordResourceDownloads, statResourceFile, openResourceFileStream } = vi.hoisted(() => ({
+  rateLimit: vi.fn(),
+  consumeSecureFileToken: vi.fn(),
+  checkSecureFileToken: vi.fn(),
+  recordResourceDownloads: vi.fn(),
+  statResourceFile: vi.fn(),
+  openResourceFileStream: vi.fn()
+}))
+
+const student = { id: 'u1', email: 's@example.com', name: 'S', role: 'student', branchId: 'cse', yearId: 'y1', semesterId: 's1' }
+const resource = { id: 'r1', url: null, drive_link: null, file_path: 'secure-resources/lecture.mp4', restricted: false, pdf_rendition_path: null, moderation_status: 'approved', submitted_by: null, branch_id: 'cse', year_id: 'y1', semester_id: 's1' }
+
+vi.mock('next-auth/next', () => ({ getServerSession: async () => ({ user: { email: student.email } }) }))
+vi.mock('@/app/api/auth/[...nextauth]/route', () => ({ authOptions: {} }))
+vi.mock('@/lib/auth-permissions', () => ({ getCurrentUserContext: async () => student }))
+vi.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: () => ({
+    from: () => {
+      const builder: any = {
+        select: () => builder,
+        eq: () => builder,
+        is: () => builder,
+        maybeSingle: async () => ({ data: { id: student.id, email: student.email, name: student.name, role: 'student' }, error: null }),
+        single: async () => ({ data: resource, error: null })
+      }
+      return builder
+    }
+  })
+}))
+vi.mock('@/lib/rate-limit', () => ({
+  rateLimit,
+  rateLimitHeaders: () => ({}),
+  rateLimitExceededResponse: () => new Response(null, { status: 429 })
+}))
+vi.mock('@/lib/secure-file-tokens', () => ({ consumeSecureFileToken, checkSecureFileToken }))
+vi.mock('@/lib/download-analytics', () => ({ recordResourceDownloads }))
+vi.mock('@/lib/pdf-watermark', () => ({ watermarkPdf: vi.fn() }))
+vi.mock('@/lib/files', () => ({
+  MAX_DOWNLOAD_SIZE_BYTES: 100 * 1024 * 1024,
+  statResourceFile,
+  openResourceFileStream,
+  downloadResourceFile: vi.fn(),
+  isModerationVisible: () => true
+}))
+
+import { GET } from '@/app/api/secure-file/[token]/route'
+
+function signToken(payload: Record<string, unknown>): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`
+  return `${unsigned}.${createHmac('sha256', 'secret').update(unsigned).digest('base64url')}`
+}
+
+function download(range: string, query = '') {
+  const token = signToken({ fileId: resource.file_path, rid: resource.id, jti: 'jti-1', exp: Math.floor(Date.now() / 1000) + 600 })
+  return GET(new Request(`https://app.example/api/secure-file/${token}${query}`, { headers: { range } }), { params: { token } })
+}
+
+function stubFile() {
+  statResourceFile.mockResolvedValue({ size: 1000, mimeType: 'video/mp4', fileName: 'lecture.mp4', etag: null, lastModified: null })
+}
+
+describe('GET /api/secure-file/[token] range continuations', () => {
+  beforeEach(() => {
+    vi.stubEnv('JWT_SECRET', 'secret')
+    rateLimit.mockResolvedValue({ allowed: true, limit: 20, remaining: 19, windowMs: 60000, resetMs: 60000 })
+    consumeSecureFileToken.mockResolvedValue({ status: 'ok', resourceId: resource.id, fileId: resource.file_path, usesRemaining: null })
+    openResourceFileStream.mockImplementation(async () => ({ stream: Readable.from([Buffer.alloc(999)]), mimeType: 'video/mp4' }))
+    stubFile()
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.clearAllMocks()
+  })
+
+  it('counts a first request that opens mid-file as a new download', async () => {
+    checkSecureFileToken.mockResolvedValue('not_started')
+
+    const response = await download('bytes=1-')
+
+    expect(response.status).toBe(206)
+    expect(rateLimit).toHaveBeenCalledWith('download', 's@example.com')
+    expect(consumeSecureFileToken).toHaveBeenCalledWith('jti-1', 's@example.com')
+    expect(recordResourceDownloads).toHaveBeenCalledOnce()
+  })
+
+  it('refuses a link whose uses are spent even when the request claims to continue', async () => {
+    checkSecureFileToken.mockResolvedValue('not_started')
+    consumeSecureFileToken.mockResolvedValue({ status: 'exhausted', resourceId: resource.id, fileId: resource.file_path, usesRemaining: 0 })
+
+    const response = await download('bytes=1-')
+
+    expect(response.status).toBe(410)
+    expect(openResourceFileStream).not.toHaveBeenCalled()
+  })
+
+  it('lets a started download seek under the looser limit without counting another use', async () => {
+    checkSecureFileToken.mockResolvedValue('ok')
+
+    const response = await download('bytes=500-')
+
+    expect(response.status).toBe(206)
+    expect(rateLimit).toHaveBeenCalledWith('download_range', 's@example.com')
+    expect(consumeSecureFileToken).not.toHaveBeenCalled()
+    expect(recordResourceDownloads).not.toHaveBeenCalled()
+  })
+
+  it('rate limits continuations too', async () => {
+    checkSecureFileToken.mockResolvedValue('ok')
+    rateLimit.mockResolvedValue({ allowed: false, limit: 300, remaining: 0, windowMs: 60000, resetMs: 1000 })
+
+    expect((await download('bytes=500-')).status).toBe(429)
+  })
+})
+
+describe('GET /api/secure-file/[token] restricted files', () => {
+  beforeEach(() => {
+    vi.stubEnv('JWT_SECRET', 'secret')
+    rateLimit.mockResolvedValue({ allowed: true, limit: 20, remaining: 19, windowMs: 60000, resetMs: 60000 })
+    consumeSecureFileToken.mockResolvedValue({ status: 'ok', resourceId: resource.id, fileId: resource.file_path, usesRemaining: null })
+    Object.assign(resource, { restricted: true, file_path: 'secure-resources/slides.pptx', pdf_rendition_path: 'secure-resources/renditions/slides.pdf' })
+  })
+
+  afterEach(() => {
+    Object.assign(resource, { restricted: false, file_path: 'secure-resources/lecture.mp4', pdf_rendition_path: null })
+    vi.unstubAllEnvs()
+    vi.clearAllMocks()
+  })
+
+  it('serves the PDF rendition even when the original is asked for', async () => {
+    statResourceFile.mockResolvedValue({ size: 1000, mimeType: 'application/pdf', fileName: 'slides.pdf', etag: null, lastModified: null })
+
+    await download('', '?original=1')
+
+    expect(statResourceFile).toHaveBeenCalledWith({ file_path: 'secure-resources/renditions/slides.pdf' })
+  })
+
+  it('refuses a restricted file that is not a PDF instead of serving it unwatermarked', async () => {
+    Object.assign(resource, { pdf_rendition_path: null })
+    statResourceFile.mockResolvedValue({ size: 1000, mimeType: 'application/vnd.ms-powerpoint', fileName: 'slides.pptx', etag: null, lastModified: null })
+
+    const response = await download('')
+
+    expect(response.status).toBe(403)
+    expect(openResourceFileStream).not.toHaveBeenCalled()
+    expect(recordResourceDownloads).not.toHaveBeenCalled()
+  })
+})
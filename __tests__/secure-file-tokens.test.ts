@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { from } = vi.hoisted(() => ({ from: vi.fn() }))
+
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: () => ({ from }) }))
+vi.mock('@/lib/audit', () => ({ logAudit: vi.fn() }))
+
+import { checkSecureFileToken, SECURE_FILE_CONTINUATION_MS } from '@/lib/secure-file-tokens'
+
+const future = () => new Date(Date.now() + 60 * 60 * 1000).toISOString()
+
+function tokenRow(row: Record<string, unknown>) {
+  from.mockImplementation(() => {
+    const builder: any = {
+      select: () => builder,
+      eq: () => builder,
+      maybeSingle: async () => ({ data: { issued_to: 's@example.com', expires_at: future(), revoked_at: null, ...row }, error: null })
+    }
+    return builder
+  })
+}
+
+describe('checkSecureFileToken', () => {
+  beforeEach(() => from.mockReset())
+
+  it("doesn't let a link that was never used continue a download", async () => {
+    tokenRow({ use_count: 0, last_used_at: null })
+    expect(await checkSecureFileToken('jti-1', 's@example.com')).toBe('not_started')
+  })
+
+  it('lets a download continue shortly after it was started', async () => {
+    tokenRow({ use_count: 1, last_used_at: new Date(Date.now() - 1000).toISOString() })
+    expect(await checkSecureFileToken('jti-1', 'S@example.com')).toBe('ok')
+  })
+
+  it('treats a continuation long after the last use as a new download', async () => {
+    tokenRow({ use_count: 1, last_used_at: new Date(Date.now() - SECURE_FILE_CONTINUATION_MS - 1000).toISOString() })
+    expect(await checkSecureFileToken('jti-1', 's@example.com')).toBe('not_started')
+  })
+
+  it('refuses revoked links and other users', async () => {
+    tokenRow({ use_count: 1, last_used_at: new Date().toISOString(), revoked_at: new Date().toISOString() })
+    expect(await checkSecureFileToken('jti-1', 's@example.com')).toBe('revoked')
+    tokenRow({ use_count: 1, last_used_at: new Date().toISOString() })
+    expect(await checkSecureFileToken('jti-1', 'other@example.com')).toBe('not_found')
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { from, createSignedUrl, issueSecureFileToken } = vi.hoisted(() => ({
+  from: vi.fn(),
+  createSignedUrl: vi.fn(),
+  issueSecureFileToken: vi.fn()
+}))
+
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: () => ({ from }) }))
+vi.mock('@/lib/secure-file-tokens', () => ({ issueSecureFileToken }))
+vi.mock('@/lib/download-analytics', () => ({ recordResourceDownloads: vi.fn() }))
+vi.mock('@/lib/storage', () => ({
+  locateResourceFile: ({ file_path }: { file_path: string }) => ({ provider: { name: 'supabase', createSignedUrl }, key: file_path }),
+  selectUploadProvider: vi.fn()
+}))
+
+import { generateSecureFileUrl } from '@/lib/files'
+import type { UserContext } from '@/lib/types/auth'
+
+const resourceId = '5f0c6a2e-8d1b-4c3a-9e2f-1a2b3c4d5e6f'
+const student = { id: 'u1', email: 's@example.com', name: 'S', role: 'student', branchId: 'cse', yearId: 'y1', semesterId: 's1' } as UserContext
+
+function resourcesRow(row: Record<string, unknown>) {
+  from.mockImplementation(() => {
+    const builder: any = {
+      select: () => builder,
+      eq: () => builder,
+      is: () => builder,
+      single: async () => ({ data: row, error: null })
+    }
+    return builder
+  })
+}
+
+describe('generateSecureFileUrl', () => {
+  beforeEach(() => {
+    vi.stubEnv('JWT_SECRET', 'secret')
+    vi.stubEnv('NEXTAUTH_URL', 'https://app.example')
+    issueSecureFileToken.mockResolvedValue('jti-1')
+    createSignedUrl.mockResolvedValue('https://storage.example/signed')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.clearAllMocks()
+  })
+
+  it('issues a registered proxy token for a use-limited file even when the backend can sign URLs', async () => {
+    resourcesRow({
+      file_path: 'secure-resources/paper.pdf',
+      storage_location: 'Supabase Storage',
+      branch_id: 'cse',
+      year_id: 'y1',
+      semester_id: 's1',
+      secure_link_max_uses: 1,
+      restricted: false,
+      pdf_rendition_path: null,
+      moderation_status: 'approved',
+      submitted_by: null
+    })
+
+    const signed = await generateSecureFileUrl(resourceId, student)
+
+    expect(createSignedUrl).not.toHaveBeenCalled()
+    expect(issueSecureFileToken).toHaveBeenCalledWith(expect.objectContaining({ resourceId, issuedTo: 's@example.com', maxUses: 1 }))
+    expect(signed?.url).toMatch(/^https:\/\/app\.example\/api\/secure-file\//)
+    const payload = JSON.parse(Buffer.from(signed!.url.split('/').pop()!.split('.')[1], 'base64url').toString())
+    expect(payload).toMatchObject({ jti: 'jti-1', rid: resourceId, fileId: 'secure-resources/paper.pdf' })
+  })
+
+  it('registers links without a use limit too, so they can be revoked', async () => {
+    resourcesRow({
+      file_path: 'secure-resources/notes.pdf',
+      storage_location: 'Supabase Storage',
+      branch_id: 'cse',
+      year_id: 'y1',
+      semester_id: 's1',
+      secure_link_max_uses: null,
+      restricted: false,
+      pdf_rendition_path: null,
+      moderation_status: 'approved',
+      submitted_by: null
+    })
+
+    await generateSecureFileUrl(resourceId, student)
+
+    expect(createSignedUrl).not.toHaveBeenCalled()
+    expect(issueSecureFileToken).toHaveBeenCalledOnce()
+  })
+
+  it('hides pending uploads from students but not from their uploader', async () => {
+    const pending = {
+      file_path: 'secure-resources/draft.pdf',
+      storage_location: 'Supabase Storage',
+      branch_id: 'cse',
+      year_id: 'y1',
+      semester_id: 's1',
+      secure_link_max_uses: null,
+      restricted: false,
+      pdf_rendition_path: null,
+      moderation_status: 'pending',
+      submitted_by: 'Rep@example.com'
+    }
+    const rep = { id: 'u2', email: 'rep@example.com', name: 'R', role: 'representative', representativeAssignments: [{ branch_id: 'cse', year_id: 'y1' }] } as unknown as UserContext
+    resourcesRow(pending)
+
+    expect(await generateSecureFileUrl(resourceId, student)).toBeNull()
+    expect(await generateSecureFileUrl(resourceId, rep)).not.toBeNull()
+    expect(issueSecureFileToken).toHaveBeenCalledOnce()
+  })
+})
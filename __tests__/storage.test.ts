@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: vi.fn() }))
+vi.mock('next-auth/next', () => ({ getServerSession: async () => ({ user: { email: 's@example.com' } }) }))
+vi.mock('@/app/api/auth/[...nextauth]/route', () => ({ authOptions: {} }))
+
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { localDiskStorage, publicLocalKey } from '@/lib/storage/local'
+import { locateResourceFile } from '@/lib/storage'
+import { GET as getLocalFile } from '@/app/api/storage/local/[...key]/route'
+
+async function readAll(stream: AsyncIterable<Uint8Array>): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk))
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+describe('local storage provider', () => {
+  let root: string
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'pecup-storage-'))
+    process.env.LOCAL_STORAGE_DIR = root
+  })
+  afterAll(async () => {
+    delete process.env.LOCAL_STORAGE_DIR
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('stores, stats, streams ranges and deletes a file', async () => {
+    const stored = await localDiskStorage.upload(Buffer.from('hello world'), { fileName: 'notes unit 1.pdf', visibility: 'public' })
+    expect(stored.key).toMatch(/^public\/\d+-notes_unit_1\.pdf$/)
+    expect(localDiskStorage.keyFromUrl(stored.url)).toBe(stored.key)
+
+    const stat = await localDiskStorage.stat(stored.key)
+    expect(stat).toMatchObject({ size: 11, mimeType: 'application/pdf' })
+    expect(stat?.etag).toMatch(/^W\//)
+
+    const part = await localDiskStorage.openStream(stored.key, { start: 6, end: 10 })
+    expect(await readAll(part.stream)).toBe('world')
+
+    await localDiskStorage.delete(stored.key)
+    expect(await localDiskStorage.stat(stored.key)).toBeNull()
+    // Already gone is not an error
+    await expect(localDiskStorage.delete(stored.key)).resolves.toBeUndefined()
+  })
+
+  it('keeps private uploads apart and refuses keys outside the root', async () => {
+    const stored = await localDiskStorage.upload(Buffer.from('x'), { fileName: 'a.txt', visibility: 'private' })
+    expect(stored.key.startsWith('private/')).toBe(true)
+    await expect(localDiskStorage.stat('../outside.txt')).rejects.toThrow('Invalid local storage key')
+  })
+
+  it('only maps URL segments to keys under public/', () => {
+    expect(publicLocalKey(['public', '1-notes%20unit%201.pdf'])).toBe('public/1-notes unit 1.pdf')
+    expect(publicLocalKey(['public', '..%2Fprivate%2F1-a.txt'])).toBeNull()
+    expect(publicLocalKey(['public', '..', 'private', '1-a.txt'])).toBeNull()
+    expect(publicLocalKey(['public', '', '1-a.txt'])).toBeNull()
+    expect(publicLocalKey(['public', '%E0%A4%A'])).toBeNull()
+    expect(publicLocalKey(['private', '1-a.txt'])).toBeNull()
+    expect(publicLocalKey(['public'])).toBeNull()
+  })
+
+  it("won't serve a private file through an encoded path from the public route", async () => {
+    process.env.STORAGE_PROVIDER = 'local'
+    try {
+      const secret = await localDiskStorage.upload(Buffer.from('secret'), { fileName: 'secret.txt', visibility: 'private' })
+      const encoded = encodeURIComponent(`../${secret.key}`)
+      const response = await getLocalFile(new Request(`http://localhost/api/storage/local/public/${encoded}`), { params: { key: ['public', encoded] } })
+      expect(response.status).toBe(403)
+    } finally {
+      delete process.env.STORAGE_PROVIDER
+    }
+  })
+
+  it('sends the whole file when a resumed download names an older version (If-Range)', async () => {
+    process.env.STORAGE_PROVIDER = 'local'
+    try {
+      const stored = await localDiskStorage.upload(Buffer.from('hello world'), { fileName: 'resume.txt', visibility: 'public' })
+      const segments = stored.key.split('/')
+      const get = (ifRange: string) => getLocalFile(
+        new Request(`http://localhost/api/storage/local/${stored.key}`, { headers: { range: 'bytes=6-', 'if-range': ifRange } }),
+        { params: { key: segments } }
+      )
+
+      // Local ETags are weak, which If-Range never matches, so clients resume by date
+      const resumed = await get((await localDiskStorage.stat(stored.key))!.lastModified!.toUTCString())
+      expect(resumed.status).toBe(206)
+      expect(await resumed.text()).toBe('world')
+
+      const changed = await get(new Date(Date.now() - 86400000).toUTCString())
+      expect(changed.status).toBe(200)
+      expect(await changed.text()).toBe('hello world')
+    } finally {
+      delete process.env.STORAGE_PROVIDER
+    }
+  })
+
+  it('lists stored objects across folders', async () => {
+    const a = await localDiskStorage.upload(Buffer.from('abc'), { fileName: 'list-a.txt', visibility: 'public' })
+    const b = await localDiskStorage.upload(Buffer.from('de'), { fileName: 'list-b.txt', visibility: 'private' })
+    const listed = new Map<string, number | null>()
+    for await (const object of localDiskStorage.list()) listed.set(object.key, object.size)
+    expect(listed.get(a.key)).toBe(3)
+    expect(listed.get(b.key)).toBe(2)
+  })
+})
+
+describe('locateResourceFile', () => {
+  it('recognises Drive links, public Storage URLs, local URLs and bare secure paths', () => {
+    expect(locateResourceFile({ drive_link: 'https://drive.google.com/file/d/abc_123/view' })).toMatchObject({
+      provider: { name: 'drive' },
+      key: 'abc_123'
+    })
+    expect(locateResourceFile({ url: 'https://x.supabase.co/storage/v1/object/public/resources/1-a.pdf' })).toMatchObject({
+      provider: { name: 'supabase' },
+      key: 'resources/1-a.pdf'
+    })
+    expect(locateResourceFile({ url: 'http://localhost:3000/api/storage/local/public/1-a.pdf' })).toMatchObject({
+      provider: { name: 'local' },
+      key: 'public/1-a.pdf'
+    })
+    expect(locateResourceFile({ file_path: '1-a.pdf' })).toMatchObject({
+      provider: { name: 'supabase' },
+      key: 'secure-resources/1-a.pdf'
+    })
+    expect(locateResourceFile({ url: 'https://example.com/notes.pdf' })).toBeNull()
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/lib/supabase', () => ({ createSupabaseAdmin: vi.fn() }))
+vi.mock('@/lib/admin-auth', () => ({ getSettings: vi.fn() }))
+
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+import { createCanvas } from '@napi-rs/canvas'
+import { renderThumbnail, THUMBNAIL_WIDTH } from '@/lib/thumbnails'
+
+async function imageSize(buffer: Buffer) {
+  const { loadImage } = await import('@napi-rs/canvas')
+  const image = await loadImage(buffer)
+  return { width: image.width, height: image.height }
+}
+
+describe('renderThumbnail', () => {
+  it('renders the first page of a PDF as a WebP preview', async () => {
+    const doc = await PDFDocument.create()
+    const font = await doc.embedFont(StandardFonts.Helvetica)
+    doc.addPage([595, 842]).drawText('Unit 3 notes', { x: 50, y: 780, size: 24, font })
+    doc.addPage([595, 842])
+    const pdf = Buffer.from(await doc.save())
+
+    const preview = await renderThumbnail(pdf, 'application/pdf')
+    expect(preview?.subarray(8, 12).toString('latin1')).toBe('WEBP')
+    const size = await imageSize(preview!)
+    expect(size.width).toBe(THUMBNAIL_WIDTH)
+    // pdf.js rounds the viewport, so allow a pixel either way
+    expect(Math.abs(size.height - 842 * (THUMBNAIL_WIDTH / 595))).toBeLessThan(1.5)
+  }, 30_000)
+
+  it('downscales large images and leaves small ones at their size', async () => {
+    const large = await createCanvas(1200, 600).encode('png')
+    expect(await imageSize((await renderThumbnail(large, 'image/png'))!)).toEqual({ width: THUMBNAIL_WIDTH, height: THUMBNAIL_WIDTH / 2 })
+
+    const small = await createCanvas(100, 50).encode('jpeg')
+    expect(await imageSize((await renderThumbnail(small, 'image/jpeg'))!)).toEqual({ width: 100, height: 50 })
+  })
+
+  it('has no preview for other file types', async () => {
+    expect(await renderThumbnail(Buffer.from('not an image'), 'video/mp4')).toBeNull()
+  })
+})
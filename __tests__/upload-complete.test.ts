@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const { from, quarantined, queryUpstreamOffset, resolveCompletedUrl, hashCompletedUpload, discardCompletedUpload } = vi.hoisted(() => ({
+  from: vi.fn(),
+  quarantined: [] as Record<string, unknown>[],
+  queryUpstreamOffset: vi.fn(),
+  resolveCompletedUrl: vi.fn(),
+  hashCompletedUpload: vi.fn(),
+  discardCompletedUpload: vi.fn()
+}))
+
+vi.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: () => ({
+    from,
+    storage: { from: () => ({ upload: async () => ({ error: null }) }) }
+  })
+}))
+vi.mock('@/lib/admin-auth', () => ({ getSettings: vi.fn() }))
+vi.mock('@/lib/auth-permissions', () => ({ requirePermission: async () => ({ email: 'rep@example.com' }) }))
+vi.mock('@/lib/resumable-upload', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/resumable-upload')>()),
+  queryUpstreamOffset,
+  resolveCompletedUrl,
+  hashCompletedUpload,
+  discardCompletedUpload
+}))
+
+import { supabaseStorage } from '@/lib/storage/supabase'
+import { POST } from '@/app/api/uploads/[id]/complete/route'
+
+const session = {
+  id: 'u1',
+  owner_email: 'rep@example.com',
+  backend: 'storage',
+  bucket: 'resources',
+  object_path: '1-notes.docx',
+  drive_file_id: null,
+  filename: 'notes.docx',
+  mime_type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  size_bytes: 64,
+  visibility: 'public',
+  status: 'uploading'
+}
+
+function storedFile(content: Buffer) {
+  vi.spyOn(supabaseStorage, 'openStream').mockResolvedValue({
+    stream: (async function* () { yield content })(),
+    mimeType: session.mime_type,
+    fileName: session.filename
+  })
+}
+
+describe('POST /api/uploads/[id]/complete', () => {
+  beforeEach(() => {
+    quarantined.length = 0
+    from.mockImplementation((table: string) => {
+      const builder: any = {
+        select: () => builder,
+        eq: () => builder,
+        update: () => builder,
+        maybeSingle: async () => ({ data: { ...session }, error: null }),
+        insert: async (row: Record<string, unknown>) => { if (table === 'quarantined_uploads') quarantined.push(row); return { error: null } },
+        then: (resolve: any) => resolve({ error: null })
+      }
+      return builder
+    })
+    queryUpstreamOffset.mockResolvedValue({ received: session.size_bytes, complete: true })
+    resolveCompletedUrl.mockResolvedValue('https://x.supabase.co/storage/v1/object/public/resources/1-notes.docx')
+    hashCompletedUpload.mockResolvedValue('abc')
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.clearAllMocks()
+  })
+
+  it('rejects and deletes an assembled file that fails the scan, before it gets a public link', async () => {
+    storedFile(Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from('....word/vbaProject.bin....')]))
+
+    const response = await POST(new Request('http://localhost/api/uploads/u1/complete', { method: 'POST' }), { params: { id: 'u1' } })
+
+    expect(response.status).toBe(422)
+    expect((await response.json()).error).toBe('File rejected by virus scan')
+    expect(discardCompletedUpload).toHaveBeenCalledWith(expect.objectContaining({ id: 'u1' }))
+    expect(resolveCompletedUrl).not.toHaveBeenCalled()
+    expect(quarantined).toEqual([expect.objectContaining({ file_name: 'notes.docx', signature: 'Office.Macro.OOXML', uploaded_by: 'rep@example.com' })])
+  })
+
+  it('completes a clean upload', async () => {
+    storedFile(Buffer.from('plain document'))
+
+    const response = await POST(new Request('http://localhost/api/uploads/u1/complete', { method: 'POST' }), { params: { id: 'u1' } })
+
+    expect(response.status).toBe(200)
+    expect(resolveCompletedUrl).toHaveBeenCalledOnce()
+    expect(discardCompletedUpload).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+const { quarantined } = vi.hoisted(() => ({ quarantined: [] as Record<string, unknown>[] }))
+
+vi.mock('@/lib/supabase', () => ({
+  createSupabaseAdmin: () => ({ from: () => ({ insert: async (row: Record<string, unknown>) => { quarantined.push(row); return { error: null } } }) })
+}))
+
+import net from 'net'
+import type { AddressInfo } from 'net'
+import { createHash } from 'crypto'
+import { createClamAvScanner, detectOfficeMacros, scanStoredUpload } from '@/lib/virus-scan'
+
+// Minimal clamd stand-in: reads an INSTREAM request and answers with the given reply
+function fakeClamd(reply: (payload: Buffer) => string): Promise<net.Server> {
+  return new Promise((resolve) => {
+    const server = net.createServer((socket) => {
+      const chunks: Buffer[] = []
+      socket.on('data', (data) => {
+        chunks.push(data)
+        const all = Buffer.concat(chunks)
+        const command = 'zINSTREAM\0'
+        if (all.length < command.length || all.toString('latin1', 0, command.length) !== command) return
+        const payload: Buffer[] = []
+        let offset = command.length
+        while (offset + 4 <= all.length) {
+          const size = all.readUInt32BE(offset)
+          if (size === 0) {
+            socket.end(`stream: ${reply(Buffer.concat(payload))}\0`)
+            return
+          }
+          if (offset + 4 + size > all.length) return
+          payload.push(all.subarray(offset + 4, offset + 4 + size))
+          offset += 4 + size
+        }
+      })
+    })
+    server.listen(0, '127.0.0.1', () => resolve(server))
+  })
+}
+
+describe('ClamAV scanner', () => {
+  let server: net.Server | null = null
+  afterEach(() => new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve())))
+
+  it('streams the file and reports clean and infected replies', async () => {
+    server = await fakeClamd((payload) => payload.includes('EICAR') ? 'Eicar-Test-Signature FOUND' : 'OK')
+    const scanner = createClamAvScanner({ host: '127.0.0.1', port: (server.address() as AddressInfo).port })
+
+    await expect(scanner.scan(Buffer.alloc(200 * 1024, 1))).resolves.toEqual({ clean: true })
+    await expect(scanner.scan(Buffer.from('X5O!P%@AP EICAR test'))).resolves.toEqual({ clean: false, signature: 'Eicar-Test-Signature' })
+  })
+
+  it('rejects when clamd answers with an error', async () => {
+    server = await fakeClamd(() => 'INSTREAM size limit exceeded. ERROR')
+    const scanner = createClamAvScanner({ host: '127.0.0.1', port: (server.address() as AddressInfo).port })
+    await expect(scanner.scan(Buffer.from('data'))).rejects.toThrow('Unexpected ClamAV reply')
+  })
+})
+
+describe('scanStoredUpload', () => {
+  let server: net.Server | null = null
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()))
+  })
+
+  it('streams a large stored upload to ClamAV and records a detection without buffering the file', async () => {
+    server = await fakeClamd((payload) => payload.includes('EICAR') ? 'Eicar-Test-Signature FOUND' : 'OK')
+    vi.stubEnv('CLAMAV_HOST', '127.0.0.1')
+    vi.stubEnv('CLAMAV_PORT', String((server.address() as AddressInfo).port))
+    const parts = [Buffer.alloc(100 * 1024, 1), Buffer.from('X5O!P%@AP EICAR test')]
+    const open = async () => (async function* () { yield* parts })()
+
+    const result = await scanStoredUpload(open, 'lecture.mp4', { size: 30 * 1024 * 1024, mimeType: 'video/mp4', uploadedBy: 'rep@example.com' })
+
+    expect(result).toMatchObject({ ok: false, scanner: 'clamav' })
+    expect(quarantined.at(-1)).toMatchObject({
+      file_name: 'lecture.mp4',
+      signature: 'Eicar-Test-Signature',
+      sha256: createHash('sha256').update(Buffer.concat(parts)).digest('hex'),
+      object_path: null
+    })
+  })
+
+  it('finds vbaProject.bin in a large Office file without a content scanner, even split across chunks', async () => {
+    const parts = [
+      Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.alloc(100 * 1024, 1), Buffer.from('ppt/vbaPro')]),
+      Buffer.from('ject.bin....')
+    ]
+    const open = async () => (async function* () { yield* parts })()
+
+    const result = await scanStoredUpload(open, 'slides.pptx', { size: 30 * 1024 * 1024, uploadedBy: 'rep@example.com' })
+
+    expect(result).toMatchObject({ ok: false, scanner: 'macro-check' })
+    expect(quarantined.at(-1)).toMatchObject({ file_name: 'slides.pptx', signature: 'Office.Macro.OOXML' })
+  })
+
+  it('passes a large plain Office file without a content scanner', async () => {
+    const open = async () => (async function* () { yield Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from('word/document.xml')]) })()
+
+    expect(await scanStoredUpload(open, 'notes.docx', { size: 30 * 1024 * 1024 })).toEqual({ ok: true, scanner: 'none' })
+  })
+})
+
+describe('detectOfficeMacros', () => {
+  it('flags macro-enabled formats and OOXML files carrying vbaProject.bin', () => {
+    expect(detectOfficeMacros(Buffer.from('anything'), 'notes.docm')).toBe('Office.MacroEnabledFormat')
+    const zip = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from('....word/vbaProject.bin....')])
+    expect(detectOfficeMacros(zip, 'notes.docx')).toBe('Office.Macro.OOXML')
+  })
+
+  it('passes plain documents', () => {
+    const zip = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from('....word/document.xml....')])
+    expect(detectOfficeMacros(zip, 'notes.docx')).toBeNull()
+    expect(detectOfficeMacros(Buffer.from('%PDF-1.7'), 'notes.pdf')).toBeNull()
+  })
+})
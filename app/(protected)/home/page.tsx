@@ -14,10 +14,16 @@ import { useProfile, ProfileContextType, EnhancedProfileDynamicData } from '@/li
 import { useSession } from 'next-auth/react'
 import Loader from '@/components/Loader'
 import { triggerSideCannons } from '@/components/ui/button'
+import { EXAM_TYPE_LABELS, formatExamTime, type ExamSession, type ExamType } from '@/lib/exams'
 
 type Exam = {
   subject: string
   exam_date: string
+  start_time?: string | null
+  end_time?: string | null
+  session?: ExamSession | null
+  exam_type?: ExamType | null
+  venue?: string | null
   branch: string
   year: string
 }
@@ -450,17 +456,25 @@ export default function HomePage() {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {dynamicData.upcomingExams.map((exam: Exam, idx: number) => (
+                {dynamicData.upcomingExams.map((exam: Exam, idx: number) => {
+                  const time = formatExamTime(exam)
+                  return (
                   <div key={`${exam.subject}-${exam.exam_date}-${idx}`} className="flex items-center justify-between border-l-4 border-primary pl-4">
                     <div>
-                      <h3 className="font-medium">{exam.subject}</h3>
+                      <h3 className="font-medium">
+                        {exam.subject}
+                        {exam.exam_type && <span className="ml-2 text-xs font-normal text-muted-foreground">{EXAM_TYPE_LABELS[exam.exam_type]}</span>}
+                      </h3>
                       <p className="text-sm text-muted-foreground flex items-center gap-1">
                         <Clock className="h-3 w-3" /> {exam.exam_date && !isNaN(new Date(exam.exam_date).getTime()) ? new Date(exam.exam_date).toDateString() : "Date unavailable"}
+                        {time && <> · {time}</>}
                       </p>
+                      {exam.venue && <p className="text-xs text-muted-foreground">{exam.venue}</p>}
                     </div>
                     <Badge variant="outline">{exam.branch} • {exam.year}</Badge>
                   </div>
-                ))}
+                  )
+                })}
               </div>
             </CardContent>
           </Card>
@@ -480,7 +494,7 @@ export default function HomePage() {
             <CardContent>
               <div className="space-y-3">
                 {dynamicData.upcomingReminders.map((r: Reminder) => (
-                  <div key={r.id} className="border-l-4 border-primary pl-4">
+                  <div key={`${r.id}:${r.due_date}`} className="border-l-4 border-primary pl-4">
                     <h3 className="font-medium">{r.title}</h3>
                     <p className="text-sm text-muted-foreground">Due {r.due_date && typeof r.due_date === "string" && !isNaN(new Date(r.due_date).getTime()) ? new Date(r.due_date).toDateString() : "Invalid date"}</p>
                   </div>
@@ -0,0 +1,127 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+
+type FeedStatus = {
+  active: boolean
+  createdAt: string | null
+  lastUsedAt: string | null
+}
+
+export function CalendarFeedCard() {
+  const [status, setStatus] = useState<FeedStatus | null>(null)
+  // Only known right after creating a link; the server keeps just its hash
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/calendar/feed')
+      .then(async (res) => {
+        const json = await res.json()
+        if (!res.ok) throw new Error(json?.error || 'Failed to load calendar feed')
+        setStatus(json)
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : 'Failed to load calendar feed'))
+  }, [])
+
+  async function createLink() {
+    setBusy(true)
+    setError(null)
+    setCopied(false)
+    try {
+      const res = await fetch('/api/calendar/feed', { method: 'POST' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json?.error || 'Failed to create calendar link')
+      setFeedUrl(json.url)
+      setStatus({ active: true, createdAt: new Date().toISOString(), lastUsedAt: null })
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to create calendar link')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function revokeLink() {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/calendar/feed', { method: 'DELETE' })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json?.error || 'Failed to revoke calendar link')
+      setFeedUrl(null)
+      setStatus({ active: false, createdAt: null, lastUsedAt: null })
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to revoke calendar link')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function copyLink() {
+    if (!feedUrl) return
+    await navigator.clipboard.writeText(feedUrl)
+    setCopied(true)
+  }
+
+  const webcalUrl = feedUrl ? feedUrl.replace(/^https?:\/\//, 'webcal://') : null
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Calendar</CardTitle>
+        <CardDescription>Subscribe to your exams and reminders in Google Calendar or any calendar app</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {feedUrl ? (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+              <Button type="button" variant="secondary" onClick={copyLink}>{copied ? 'Copied' : 'Copy'}</Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Copy this link now; it won&apos;t be shown again. Anyone with it can see your exam and reminder dates.
+            </p>
+            <div className="flex flex-wrap gap-3 text-sm">
+              <a
+                className="underline"
+                href={`https://calendar.google.com/calendar/r?cid=${encodeURIComponent(webcalUrl!)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                Add to Google Calendar
+              </a>
+              <a className="underline" href={webcalUrl!}>Open in calendar app</a>
+            </div>
+          </div>
+        ) : status?.active ? (
+          <p className="text-sm text-muted-foreground">
+            A subscription link is active
+            {status.lastUsedAt ? `, last fetched ${new Date(status.lastUsedAt).toLocaleString()}` : ''}.
+            Create a new link if you lost it; the old one stops working.
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground">No subscription link yet.</p>
+        )}
+        <div className="flex gap-3">
+          <Button type="button" onClick={createLink} disabled={busy || !status}>
+            {status?.active ? 'Create new link' : 'Create link'}
+          </Button>
+          {status?.active && (
+            <Button type="button" variant="outline" onClick={revokeLink} disabled={busy}>Revoke</Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+
+type PushStatus = {
+  enabled: boolean
+  publicKey: string | null
+  devices: number
+}
+
+// The VAPID key is base64url; PushManager wants the raw bytes
+function urlBase64ToUint8Array(base64url: string): Uint8Array<ArrayBuffer> {
+  const base64 = (base64url + '='.repeat((4 - (base64url.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/')
+  const raw = atob(base64)
+  // Backed by a plain ArrayBuffer, as applicationServerKey takes a BufferSource
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length))
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i)
+  return bytes
+}
+
+function isPushSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window
+}
+
+export function PushNotificationsCard() {
+  const [status, setStatus] = useState<PushStatus | null>(null)
+  // Whether this browser is subscribed, as opposed to other devices of the account
+  const [subscribed, setSubscribed] = useState(false)
+  const [supported, setSupported] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setSupported(isPushSupported())
+    fetch('/api/push/subscription')
+      .then(async (res) => {
+        const json = await res.json()
+        if (!res.ok) throw new Error(json?.error || 'Failed to load push notifications')
+        setStatus(json)
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : 'Failed to load push notifications'))
+    if (isPushSupported()) {
+      navigator.serviceWorker.getRegistration()
+        .then((registration) => registration?.pushManager.getSubscription())
+        .then((subscription) => setSubscribed(Boolean(subscription)))
+        .catch(() => setSubscribed(false))
+    }
+  }, [])
+
+  async function enable() {
+    if (!status?.publicKey) return
+    setBusy(true)
+    setError(null)
+    try {
+      const permission = await Notification.requestPermission()
+      if (permission !== 'granted') throw new Error('Notifications are blocked for this site in your browser settings')
+      const registration = await navigator.serviceWorker.register('/sw.js')
+      await navigator.serviceWorker.ready
+      const subscription = await registration.pushManager.getSubscription() || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(status.publicKey)
+      })
+      const res = await fetch('/api/push/subscription', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(subscription.toJSON())
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json?.error || 'Failed to turn on notifications')
+      setSubscribed(true)
+      setStatus({ ...status, devices: status.devices + 1 })
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to turn on notifications')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function disable() {
+    setBusy(true)
+    setError(null)
+    try {
+      const registration = await navigator.serviceWorker.getRegistration()
+      const subscription = await registration?.pushManager.getSubscription()
+      if (subscription) {
+        const res = await fetch('/api/push/subscription', {
+          method: 'DELETE',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ endpoint: subscription.endpoint })
+        })
+        const json = await res.json()
+        if (!res.ok) throw new Error(json?.error || 'Failed to turn off notifications')
+        await subscription.unsubscribe()
+        if (status) setStatus({ ...status, devices: Math.max(0, status.devices - json.removed) })
+      }
+      setSubscribed(false)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to turn off notifications')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>Get a push when new notes, reminders, exams or updates are posted for your class</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {!supported ? (
+          <p className="text-sm text-muted-foreground">
+            This browser doesn&apos;t support push notifications. On iPhone, add PEC.UP to your home screen first.
+          </p>
+        ) : status && !status.enabled ? (
+          <p className="text-sm text-muted-foreground">Push notifications aren&apos;t available yet.</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {subscribed ? 'Notifications are on for this device.' : 'Notifications are off for this device.'}
+              {status && status.devices > (subscribed ? 1 : 0) && ` They are on for ${status.devices - (subscribed ? 1 : 0)} other device(s).`}
+            </p>
+            <div className="flex gap-3">
+              {subscribed ? (
+                <Button type="button" variant="outline" onClick={disable} disabled={busy}>Turn off</Button>
+              ) : (
+                <Button type="button" onClick={enable} disabled={busy || !status?.publicKey}>Turn on</Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -11,6 +11,8 @@ import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Skeleton } from '@/components/ui/skeleton'
+import { CalendarFeedCard } from './_components/CalendarFeedCard'
+import { PushNotificationsCard } from './_components/PushNotificationsCard'
 
 type BranchType = 'CSE' | 'AIML' | 'DS' | 'AI' | 'ECE' | 'EEE' | 'MEC' | 'CE'
 const BRANCHES: BranchType[] = ['CSE', 'AIML', 'DS', 'AI', 'ECE', 'EEE', 'MEC', 'CE']
@@ -223,6 +225,8 @@ export default function ProfilePage() {
           </form>
         </CardContent>
       </Card>
+      <CalendarFeedCard />
+      <PushNotificationsCard />
     </div>
   )
 }
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import { requireAdmin } from '@/lib/admin-auth'
 import { logAudit } from '@/lib/audit'
+import { parseExamInput } from '@/lib/exams'
 
 export const runtime = 'nodejs'
 
@@ -11,9 +12,9 @@ export async function PATCH(request: Request, { params }: { params: { id: string
   const id = params.id
   try {
     const update = await request.json()
-    const allowed = ['subject', 'exam_date', 'description', 'year', 'branch']
-    const sanitized: Record<string, any> = {}
-    for (const k of allowed) if (k in update) sanitized[k] = update[k]
+    const parsed = parseExamInput(update, { partial: true })
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 })
+    const sanitized = parsed.value
     const { data: before } = await supabase.from('exams').select('*').eq('id', id).maybeSingle()
     const { data, error } = await supabase.from('exams').update(sanitized).eq('id', id).select('*').maybeSingle()
     if (error) throw error
@@ -0,0 +1,73 @@
+import { NextResponse, after } from 'next/server'
+import { requirePermission } from '@/lib/admin-auth'
+import { logAudit } from '@/lib/audit'
+import { readExamTimetable, planExamImport, applyExamImport, type ExamImportPlan, type PlannedExam } from '@/lib/exam-import'
+import { sendPushToClass, examTimetablePushPayload } from '@/lib/push'
+
+export const runtime = 'nodejs'
+
+const DEBUG_PREFIX = '[API DEBUG ExamImport]'
+
+/**
+ * POST /api/admin/exams/import
+ * JSON body: { text: CSV or tab-separated cells pasted from a spreadsheet, commit?: boolean }
+ * Columns: subject, exam_date, and optionally start_time, end_time (or time as "10:00 AM - 1:00 PM"),
+ * session, exam_type, venue, regulation, branch, year, semester.
+ * Without commit the validated plan is returned as a preview. With commit, a timetable with no errors
+ * is written in one transaction; otherwise nothing is written.
+ */
+export async function POST(request: Request) {
+  const userContext = await requirePermission('write', 'exams')
+  const auditRole = userContext.role === 'representative' ? 'admin' : userContext.role as 'admin' | 'yeshh'
+
+  const body = await request.json().catch(() => null)
+  const text = typeof body?.text === 'string' ? body.text : ''
+  if (!text.trim()) return NextResponse.json({ error: 'text is required' }, { status: 400 })
+
+  let plan: ExamImportPlan
+  try {
+    const rows = readExamTimetable(text)
+    if (rows.length === 0) return NextResponse.json({ error: 'Timetable has no rows' }, { status: 400 })
+    plan = await planExamImport(rows, userContext)
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    console.warn(`${DEBUG_PREFIX} Rejected timetable from ${userContext.email}:`, message)
+    return NextResponse.json({ error: 'Invalid timetable', reason: message }, { status: 400 })
+  }
+
+  if (!body.commit) return NextResponse.json({ committed: false, ...plan })
+  if (plan.summary.error > 0) {
+    return NextResponse.json({ error: 'Fix the rows with errors before importing', committed: false, ...plan }, { status: 400 })
+  }
+
+  try {
+    const result = await applyExamImport(plan)
+    await logAudit({
+      actor_email: userContext.email,
+      actor_role: auditRole,
+      action: 'bulk_import',
+      entity: 'exam',
+      message: `Imported timetable: ${result.created} created, ${result.updated} updated`,
+      after_data: { rows: plan.rows.map(r => ({ row: r.row, action: r.action, id: r.existingId, ...r.exam })) }
+    })
+    // One push per class for the exams the timetable added, as edits to existing exams aren't announced
+    const newExams = new Map<string, PlannedExam[]>()
+    for (const { action, exam } of plan.rows) {
+      if (action !== 'create' || !exam) continue
+      const key = `${exam.branch ?? ''}:${exam.year ?? ''}`
+      newExams.set(key, [...(newExams.get(key) || []), exam])
+    }
+    after(() => Promise.all([...newExams.values()].map(exams => sendPushToClass(exams[0].branch, exams[0].year, examTimetablePushPayload(exams)))))
+    return NextResponse.json({ committed: true, ...plan, ...result })
+  } catch (err) {
+    await logAudit({
+      actor_email: userContext.email,
+      actor_role: auditRole,
+      action: 'bulk_import',
+      entity: 'exam',
+      success: false,
+      message: err instanceof Error ? err.message : String(err)
+    })
+    return NextResponse.json({ error: 'Failed to import timetable' }, { status: 500 })
+  }
+}
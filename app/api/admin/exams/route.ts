@@ -1,9 +1,12 @@
-import { NextResponse } from 'next/server'
+import { NextResponse, after } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/app/api/auth/[...nextauth]/route'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import { requireAdmin, getCurrentUserContext, requirePermission } from '@/lib/admin-auth'
 import { logAudit } from '@/lib/audit'
+import { sendPushToClass, examPushPayload } from '@/lib/push'
+import { EXAM_COLUMNS, parseExamInput } from '@/lib/exams'
+import { getYearIdByBatchYear, getSemesterId } from '@/lib/lookup-mappers'
 
 export const runtime = 'nodejs'
 
@@ -29,11 +32,15 @@ export async function GET(request: Request) {
 
   let query = supabase
     .from('exams')
-    .select('id,subject,exam_date,year,branch', { count: 'exact' })
+    .select(EXAM_COLUMNS, { count: 'exact' })
     .order(sort, { ascending: order === 'asc' })
+  // Same-day exams in timetable order
+  if (sort === 'exam_date') query = query.order('start_time', { ascending: true, nullsFirst: false })
 
   const year = toInt(url.searchParams.get('year'))
   const branch = url.searchParams.get('branch')
+  const examType = url.searchParams.get('exam_type')
+  const semesterId = url.searchParams.get('semester_id')
 
   // Apply representative scope filtering
   if (userContext.role === 'representative') {
@@ -64,6 +71,8 @@ export async function GET(request: Request) {
   // Apply URL parameter filters
   if (year) query = query.eq('year', year)
   if (branch) query = query.eq('branch', branch)
+  if (examType) query = query.eq('exam_type', examType)
+  if (semesterId) query = query.eq('semester_id', semesterId)
 
   const { data, error, count } = await query.range(from, to)
   if (error) return NextResponse.json({ error: 'Failed to list exams' }, { status: 500 })
@@ -75,15 +84,21 @@ export async function POST(request: Request) {
   const supabase = createSupabaseAdmin()
   try {
     const body = await request.json()
-    const subject = String(body.subject || '')
-    const exam_date = String(body.exam_date || '')
-    if (!subject || !exam_date) return NextResponse.json({ error: 'subject and exam_date are required' }, { status: 400 })
+    const parsed = parseExamInput(body)
+    if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 })
     const payload = {
-      subject,
-      exam_date,
+      ...parsed.value,
       year: body.year ? toInt(body.year) : null,
       branch: body.branch || null,
     }
+    // The form picks a semester number; store the semester of that batch
+    const semesterNumber = toInt(body.semester)
+    if (!payload.semester_id && semesterNumber) {
+      const yearId = payload.year ? await getYearIdByBatchYear(payload.year) : null
+      const semesterId = yearId ? await getSemesterId(yearId, semesterNumber) : null
+      if (!semesterId) return NextResponse.json({ error: 'Unknown semester for this year' }, { status: 400 })
+      payload.semester_id = semesterId
+    }
     // Scope enforcement for representatives
     if (userContext.role === 'representative') {
       // Representatives must specify branch and year, and it must be within their scope
@@ -129,6 +144,7 @@ export async function POST(request: Request) {
       entity_id: data.id, 
       after_data: payload 
     })
+    after(() => sendPushToClass(payload.branch, payload.year, examPushPayload({ id: data.id, ...payload })))
     return NextResponse.json({ id: data.id, ...payload })
   } catch (err: any) {
     const auditRole = userContext.role === 'representative' ? 'admin' : userContext.role as 'admin' | 'yeshh'
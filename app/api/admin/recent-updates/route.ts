@@ -1,9 +1,10 @@
-import { NextResponse } from 'next/server'
+import { NextResponse, after } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/app/api/auth/[...nextauth]/route'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import { requireAdmin, getCurrentUserContext, requirePermission } from '@/lib/admin-auth'
 import { logAudit } from '@/lib/audit'
+import { sendPushToClass, recentUpdatePushPayload } from '@/lib/push'
 
 export const runtime = 'nodejs'
 
@@ -110,6 +111,7 @@ export async function POST(request: Request) {
       entity_id: data.id, 
       after_data: payload 
     })
+    after(() => sendPushToClass(payload.branch, payload.year, recentUpdatePushPayload({ id: data.id, ...payload })))
     return NextResponse.json({ id: data.id, ...payload })
   } catch (err: any) {
     const auditRole = userContext.role === 'representative' ? 'admin' : userContext.role as 'admin' | 'superadmin'
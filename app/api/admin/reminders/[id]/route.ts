@@ -2,9 +2,27 @@ import { NextResponse } from 'next/server'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import { requireAdmin } from '@/lib/admin-auth'
 import { logAudit } from '@/lib/audit'
+import { expandRecurrence, formatRecurrenceRule, parseRecurrenceRule, recurrenceEndDate } from '@/lib/recurrence'
 
 export const runtime = 'nodejs'
 
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+type SeriesRow = { due_date: string; recurrence_rule: string | null; recurrence_exdates: string[] | null }
+
+// Whether `date` is a (not yet skipped or edited) occurrence of the series
+function isOccurrence(series: SeriesRow, date: string): boolean {
+  if (!series.recurrence_rule || !DATE_RE.test(date)) return false
+  const rule = parseRecurrenceRule(series.recurrence_rule)
+  if (!rule.ok) return false
+  return expandRecurrence(series.due_date.slice(0, 10), rule.value, { from: date, to: date, exdates: series.recurrence_exdates || [] }).length > 0
+}
+
+/**
+ * PATCH /api/admin/reminders/[id]
+ * Updates a reminder, or the whole series for a recurring one. With `occurrence_date`, only that
+ * occurrence changes: it is split off into its own reminder and excluded from the series.
+ */
 export async function PATCH(request: Request, { params }: { params: { id: string } }) {
   const admin = await requireAdmin('admin')
   const supabase = createSupabaseAdmin()
@@ -15,6 +33,57 @@ export async function PATCH(request: Request, { params }: { params: { id: string
     const sanitized: Record<string, any> = {}
     for (const k of allowed) if (k in update) sanitized[k] = update[k]
     const { data: before } = await supabase.from('reminders').select('*').eq('id', id).maybeSingle()
+    if (!before) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+    if (update.occurrence_date) {
+      const occurrenceDate = String(update.occurrence_date)
+      if (!isOccurrence(before, occurrenceDate)) {
+        return NextResponse.json({ error: 'occurrence_date is not an occurrence of this reminder' }, { status: 400 })
+      }
+      const { data: occurrence, error } = await supabase
+        .from('reminders')
+        .insert({
+          title: before.title,
+          description: before.description,
+          icon_type: before.icon_type,
+          status: before.status,
+          year: before.year,
+          branch: before.branch,
+          due_date: occurrenceDate,
+          ...sanitized,
+          recurrence_parent_id: id,
+          occurrence_date: occurrenceDate
+        })
+        .select('*')
+        .single()
+      if (error) throw error
+      const { error: seriesError } = await supabase.rpc('add_reminder_exdate', { p_reminder_id: id, p_date: occurrenceDate })
+      if (seriesError) {
+        // Don't leave the occurrence listed twice
+        await supabase.from('reminders').delete().eq('id', occurrence.id)
+        throw seriesError
+      }
+      await logAudit({ actor_email: admin.email, actor_role: admin.role, action: 'update', entity: 'reminder', entity_id: occurrence.id, after_data: occurrence, message: `Edited occurrence ${occurrenceDate} of series ${id}` })
+      return NextResponse.json(occurrence)
+    }
+
+    if ('recurrence_rule' in update) {
+      if (!update.recurrence_rule) {
+        sanitized.recurrence_rule = null
+      } else {
+        if (before.recurrence_parent_id) return NextResponse.json({ error: 'An edited occurrence cannot repeat' }, { status: 400 })
+        const rule = parseRecurrenceRule(String(update.recurrence_rule))
+        if (!rule.ok) return NextResponse.json({ error: `Invalid recurrence_rule: ${rule.error}` }, { status: 400 })
+        sanitized.recurrence_rule = formatRecurrenceRule(rule.value)
+      }
+    }
+    if ('recurrence_rule' in sanitized || 'due_date' in sanitized) {
+      // Keep the series end in step with its rule and first occurrence
+      const ruleText = 'recurrence_rule' in sanitized ? sanitized.recurrence_rule : before.recurrence_rule
+      const rule = ruleText ? parseRecurrenceRule(ruleText) : null
+      const start = String(sanitized.due_date ?? before.due_date).slice(0, 10)
+      sanitized.recurrence_end_date = rule?.ok ? recurrenceEndDate(start, rule.value) : null
+    }
     const { data, error } = await supabase.from('reminders').update(sanitized).eq('id', id).select('*').maybeSingle()
     if (error) throw error
     await logAudit({ actor_email: admin.email, actor_role: admin.role, action: 'update', entity: 'reminder', entity_id: id, before_data: before, after_data: data })
@@ -25,12 +94,27 @@ export async function PATCH(request: Request, { params }: { params: { id: string
   }
 }
 
-export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+/**
+ * DELETE /api/admin/reminders/[id]
+ * Deletes a reminder, or a whole series with its edited occurrences. With ?occurrence=YYYY-MM-DD,
+ * only that occurrence of the series is skipped.
+ */
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
   const admin = await requireAdmin('admin')
   const supabase = createSupabaseAdmin()
   const id = params.id
+  const occurrenceDate = new URL(request.url).searchParams.get('occurrence')
   try {
     const { data: before } = await supabase.from('reminders').select('*').eq('id', id).maybeSingle()
+    if (occurrenceDate) {
+      if (!before || !isOccurrence(before, occurrenceDate)) {
+        return NextResponse.json({ error: 'occurrence is not an occurrence of this reminder' }, { status: 400 })
+      }
+      const { error } = await supabase.rpc('add_reminder_exdate', { p_reminder_id: id, p_date: occurrenceDate })
+      if (error) throw error
+      await logAudit({ actor_email: admin.email, actor_role: admin.role, action: 'update', entity: 'reminder', entity_id: id, before_data: before, message: `Skipped occurrence ${occurrenceDate}` })
+      return NextResponse.json({ success: true })
+    }
     const { error } = await supabase.from('reminders').delete().eq('id', id)
     if (error) throw error
     await logAudit({ actor_email: admin.email, actor_role: admin.role, action: 'delete', entity: 'reminder', entity_id: id, before_data: before })
@@ -40,5 +124,3 @@ export async function DELETE(_request: Request, { params }: { params: { id: stri
     return NextResponse.json({ error: 'Failed to delete reminder' }, { status: 500 })
   }
 }
-
-
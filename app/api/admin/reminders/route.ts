@@ -1,9 +1,12 @@
-import { NextResponse } from 'next/server'
+import { NextResponse, after } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/app/api/auth/[...nextauth]/route'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import { requireAdmin, getCurrentUserContext, requirePermission } from '@/lib/admin-auth'
 import { logAudit } from '@/lib/audit'
+import { sendPushToClass, reminderPushPayload } from '@/lib/push'
+import { formatRecurrenceRule, parseRecurrenceRule, recurrenceEndDate } from '@/lib/recurrence'
+import { REMINDER_COLUMNS } from '@/lib/reminders'
 
 export const runtime = 'nodejs'
 
@@ -39,7 +42,7 @@ export async function GET(request: Request) {
 
   let query = supabase
     .from('reminders')
-    .select('id,title,due_date,description,icon_type,status,year,branch', { count: 'exact' })
+    .select(REMINDER_COLUMNS, { count: 'exact' })
     .is('deleted_at', null)
     .order(sort, { ascending: order === 'asc' })
 
@@ -73,6 +76,15 @@ export async function POST(request: Request) {
     if (isNaN(dateObj.getTime())) {
       return NextResponse.json({ error: 'due_date must be a valid date' }, { status: 400 })
     }
+    // Recurring reminders repeat from due_date by an RRULE, e.g. FREQ=WEEKLY;BYDAY=MO
+    let recurrence_rule: string | null = null
+    let recurrence_end_date: string | null = null
+    if (body.recurrence_rule) {
+      const rule = parseRecurrenceRule(String(body.recurrence_rule))
+      if (!rule.ok) return NextResponse.json({ error: `Invalid recurrence_rule: ${rule.error}` }, { status: 400 })
+      recurrence_rule = formatRecurrenceRule(rule.value)
+      recurrence_end_date = recurrenceEndDate(due_date, rule.value)
+    }
     const payload = {
       title,
       due_date,
@@ -81,6 +93,8 @@ export async function POST(request: Request) {
       status: body.status ? String(body.status) : null,
       year: body.year ? toInt(body.year) : null,
       branch: body.branch || null,
+      recurrence_rule,
+      recurrence_end_date,
     }
     // Scope enforcement for representatives
     if (userContext.role === 'representative') {
@@ -127,6 +141,7 @@ export async function POST(request: Request) {
       entity_id: data.id, 
       after_data: payload 
     })
+    after(() => sendPushToClass(payload.branch, payload.year, reminderPushPayload({ id: data.id, ...payload })))
     return NextResponse.json({ id: data.id, ...payload })
   } catch (err: any) {
     const auditRole = userContext.role === 'representative' ? 'admin' : userContext.role as 'admin' | 'superadmin'
@@ -0,0 +1,86 @@
+import { NextResponse, after } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { logAudit } from '@/lib/audit'
+import { createNotification } from '@/lib/notifications'
+import { sendPushToAudience, resourcePushPayload } from '@/lib/push'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/admin/resources/[id]/moderate
+ * Body: { decision: 'approve' | 'reject', reason?: string }
+ * A reason is required when rejecting; the uploader is notified either way.
+ */
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const admin = await requireAdmin('admin')
+  const supabase = createSupabaseAdmin()
+  const id = params.id
+
+  const body = await request.json().catch(() => null)
+  const decision = body?.decision
+  const reason = typeof body?.reason === 'string' ? body.reason.trim().slice(0, 1000) : ''
+  if (decision !== 'approve' && decision !== 'reject') {
+    return NextResponse.json({ error: "decision must be 'approve' or 'reject'" }, { status: 400 })
+  }
+  if (decision === 'reject' && !reason) {
+    return NextResponse.json({ error: 'A reason is required when rejecting' }, { status: 400 })
+  }
+
+  const { data: before } = await supabase.from('resources').select('*').eq('id', id).maybeSingle()
+  if (!before || before.deleted_at) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  if (before.moderation_status !== 'pending') {
+    return NextResponse.json({ error: `Resource is already ${before.moderation_status}` }, { status: 409 })
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('resources')
+      .update({
+        moderation_status: decision === 'approve' ? 'approved' : 'rejected',
+        moderation_reason: reason || null,
+        moderated_by: admin.email,
+        moderated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('moderation_status', 'pending')
+      .select('*')
+      .maybeSingle()
+    if (error) throw error
+    if (!data) return NextResponse.json({ error: 'Resource was moderated by someone else' }, { status: 409 })
+
+    const title = data.title || data.name || 'Your upload'
+    if (data.submitted_by) {
+      await createNotification({
+        recipientEmail: data.submitted_by,
+        type: decision === 'approve' ? 'resource_approved' : 'resource_rejected',
+        title: decision === 'approve' ? `"${title}" was approved` : `"${title}" was rejected`,
+        body: decision === 'approve'
+          ? 'It is now visible to students.'
+          : `Reason: ${reason}`,
+        link: '/dev-dashboard',
+        data: { resourceId: id, decision, reason: reason || null }
+      })
+    }
+    // Held back until now, so students hear about it on approval
+    if (decision === 'approve' && !data.archived) {
+      after(() => sendPushToAudience({ branchId: data.branch_id, yearId: data.year_id }, resourcePushPayload(data)))
+    }
+
+    await logAudit({
+      actor_email: admin.email,
+      actor_role: admin.role,
+      action: decision === 'approve' ? 'moderation_approve' : 'moderation_reject',
+      entity: 'resource',
+      entity_id: id,
+      message: reason || undefined,
+      before_data: before,
+      after_data: data
+    })
+    return NextResponse.json({ resource: data })
+  } catch (err) {
+    console.error(`[API DEBUG ResourcesModeration POST] Failed to moderate ${id}:`, err)
+    await logAudit({ actor_email: admin.email, actor_role: admin.role, action: `moderation_${decision}`, entity: 'resource', entity_id: id, success: false, message: err instanceof Error ? err.message : String(err) })
+    return NextResponse.json({ error: 'Failed to moderate resource' }, { status: 500 })
+  }
+}
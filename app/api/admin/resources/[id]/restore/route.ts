@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUserContext, canUserManageResource } from '@/lib/auth-permissions'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { logAudit } from '@/lib/audit'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/admin/resources/[id]/restore
+ * Take a resource out of the trash (admins, or representatives for their branch/year)
+ */
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const supabase = createSupabaseAdmin()
+  const { data: row } = await supabase.from('resources').select('*').eq('id', params.id).maybeSingle()
+  if (!row) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  if (!canUserManageResource(userContext, row)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+  if (!row.deleted_at) return NextResponse.json({ error: 'Resource is not in the trash' }, { status: 409 })
+
+  const auditRole = userContext.role === 'yeshh' ? 'yeshh' : 'admin'
+  const { data, error } = await supabase
+    .from('resources')
+    .update({ deleted_at: null, deleted_by: null })
+    .eq('id', params.id)
+    .select('*')
+    .single()
+  if (error) {
+    console.error('[API DEBUG ResourcesTrash RESTORE] Failed to restore resource:', error)
+    await logAudit({ actor_email: userContext.email, actor_role: auditRole, action: 'restore', entity: 'resource', entity_id: params.id, success: false, message: error.message })
+    return NextResponse.json({ error: 'Failed to restore resource' }, { status: 500 })
+  }
+
+  await logAudit({ actor_email: userContext.email, actor_role: auditRole, action: 'restore', entity: 'resource', entity_id: params.id, before_data: row, after_data: data })
+  return NextResponse.json({ resource: data })
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUserContext, canUserManageResource } from '@/lib/auth-permissions'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { revokeResourceFileTokens } from '@/lib/secure-file-tokens'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/admin/resources/[id]/revoke-links
+ * Body (optional): { reason }
+ * Revoke every outstanding secure file link for a resource (admins, or representatives for their branch/year)
+ */
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const supabase = createSupabaseAdmin()
+  const { data: row } = await supabase.from('resources').select('*').eq('id', params.id).maybeSingle()
+  if (!row) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  if (!canUserManageResource(userContext, row)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const reason = typeof body?.reason === 'string' && body.reason.trim() ? body.reason.trim().slice(0, 500) : 'revoked manually'
+  const actor = { email: userContext.email, role: userContext.role === 'yeshh' ? 'yeshh' as const : 'admin' as const }
+
+  try {
+    const revoked = await revokeResourceFileTokens(params.id, actor, reason)
+    return NextResponse.json({ revoked })
+  } catch (error) {
+    console.error('[API DEBUG RevokeLinks POST] Failed to revoke links:', error)
+    return NextResponse.json({ error: 'Failed to revoke links' }, { status: 500 })
+  }
+}
@@ -1,44 +1,24 @@
-import { NextResponse } from 'next/server'
+import { NextResponse, after } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/app/api/auth/[...nextauth]/route'
-import { google } from 'googleapis'
-import { Readable } from 'stream'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import { requireAdmin, getSettings } from '@/lib/admin-auth'
 import { logAudit } from '@/lib/audit'
 import { validateFile } from '@/lib/file-validation'
-import { tryParseDriveIdFromUrl, tryParseStoragePathFromUrl } from '@/lib/files'
+import { scanUpload } from '@/lib/virus-scan'
+import { indexResourceText } from '@/lib/pdf-text'
+import { generateResourceThumbnail } from '@/lib/thumbnails'
+import { clearPdfRendition, convertResourceToPdf, isConvertibleOfficeFile } from '@/lib/office-convert'
+import { sha256Hex } from '@/lib/content-hash'
+import { tryRecordResourceVersion } from '@/lib/resource-versions'
+import { getTrashRetentionDays, purgeDateFor } from '@/lib/trash'
+import { tryRevokeResourceFileTokens } from '@/lib/secure-file-tokens'
+import { deleteResourceFile, makeResourceFilePrivate, resourceFileUrl, storeResourceFile } from '@/lib/files'
+import { STORAGE_LOCATION_LABELS } from '@/lib/storage'
 
 export const runtime = 'nodejs'
 const MAX_UPLOAD_BYTES = 25 * 1024 * 1024
 
-async function deleteUnderlying(url: string) {
-  const driveId = tryParseDriveIdFromUrl(url)
-  const storagePath = tryParseStoragePathFromUrl(url)
-  if (driveId) {
-    let credentials
-    try {
-      const rawB64 = process.env.GOOGLE_APPLICATION_CREDENTIALS_B64
-      const rawJson = process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON
-      let raw = rawJson || '{}'
-      if (rawB64) raw = Buffer.from(rawB64, 'base64').toString('utf8')
-      credentials = JSON.parse(raw)
-    } catch (e) {
-      console.error('Failed to parse Google credentials in deleteUnderlying:', e)
-      throw new Error('Google Drive configuration error')
-    }
-    const auth = new google.auth.GoogleAuth({ credentials, scopes: ['https://www.googleapis.com/auth/drive'] })
-    const drive = google.drive({ version: 'v3', auth })
-    await drive.files.delete({ fileId: driveId })
-    return
-  }
-  if (storagePath) {
-    const supabase = createSupabaseAdmin()
-    await supabase.storage.from(storagePath.bucket).remove([storagePath.path])
-    return
-  }
-}
-
 export async function PATCH(request: Request, { params }: { params: { id: string } }) {
   const admin = await requireAdmin('admin')
   const supabase = createSupabaseAdmin()
@@ -47,6 +27,7 @@ export async function PATCH(request: Request, { params }: { params: { id: string
     const contentType = request.headers.get('content-type') || ''
     const { data: before } = await supabase.from('resources').select('*').eq('id', id).maybeSingle()
     if (!before) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    if (before.deleted_at) return NextResponse.json({ error: 'Restore the resource from the trash before editing it' }, { status: 409 })
 
     let update: any = {}
     let file: File | null = null
@@ -59,12 +40,18 @@ export async function PATCH(request: Request, { params }: { params: { id: string
     }
 
     // Clean update fields
-    const allowed = ['category', 'subject', 'unit', 'name', 'description', 'type', 'year', 'branch', 'archived']
+    const allowed = ['category', 'subject', 'unit', 'name', 'description', 'type', 'year', 'branch', 'archived', 'restricted', 'secure_link_max_uses']
     const sanitized: Record<string, any> = {}
     for (const k of allowed) if (k in update) sanitized[k] = update[k]
     if (sanitized.subject) sanitized.subject = String(sanitized.subject).toLowerCase()
     if (sanitized.unit) sanitized.unit = Number.parseInt(String(sanitized.unit), 10)
     if (typeof sanitized.archived !== 'undefined') sanitized.archived = Boolean(sanitized.archived)
+    if (typeof sanitized.restricted !== 'undefined') sanitized.restricted = sanitized.restricted === true || sanitized.restricted === 'true'
+    if ('secure_link_max_uses' in sanitized) {
+      // Empty or 0 clears the limit; applies to links generated from now on
+      const maxUses = Number.parseInt(String(sanitized.secure_link_max_uses ?? ''), 10)
+      sanitized.secure_link_max_uses = Number.isInteger(maxUses) && maxUses > 0 ? maxUses : null
+    }
 
     // Enforce scope for non-yeshh
     try {
@@ -90,11 +77,11 @@ export async function PATCH(request: Request, { params }: { params: { id: string
       }
     } catch {}
 
+    let replacedPdf: Buffer | null = null
+    let movedToPrivate: Awaited<ReturnType<typeof makeResourceFilePrivate>> = null
+    let replacedFile: { buffer: Buffer; mime: string; name: string } | null = null
     if (file) {
-      // Replace flow: delete old first, then upload new
-      if (before.url) {
-        try { await deleteUnderlying(before.url) } catch (e) { return NextResponse.json({ error: 'Failed to delete previous file' }, { status: 500 }) }
-      }
+      // Replace flow: the previous file stays in storage as part of the old version
       const originalName = (file as any).name as string
       const clientMime = (file as any).type as string | undefined
       const size = (file as any).size as number | undefined
@@ -103,25 +90,35 @@ export async function PATCH(request: Request, { params }: { params: { id: string
       const validation = validateFile(buffer, originalName, clientMime)
       if (!validation.ok) return NextResponse.json({ error: 'Unsupported file type', reason: validation.reason }, { status: 415 })
       const effectiveMime = (validation.detectedMime || clientMime || '').toLowerCase()
+      const scan = await scanUpload(buffer, originalName, { mimeType: effectiveMime, uploadedBy: admin.email })
+      if (!scan.ok) return NextResponse.json({ error: 'File rejected by virus scan', reason: scan.reason }, { status: scan.unavailable ? 503 : 422 })
       const is_pdf = effectiveMime === 'application/pdf' || originalName.toLowerCase().endsWith('.pdf')
+      if (is_pdf) replacedPdf = buffer
+      replacedFile = { buffer, mime: effectiveMime, name: originalName }
+      sanitized.content_hash = sha256Hex(buffer)
 
       const settings = await getSettings()
-      if (is_pdf && settings?.pdf_to_drive) {
-        const auth = new google.auth.GoogleAuth({ credentials: JSON.parse(process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON || '{}'), scopes: ['https://www.googleapis.com/auth/drive'] })
-        const drive = google.drive({ version: 'v3', auth })
-        const { data } = await drive.files.create({ requestBody: { name: originalName, parents: [settings.drive_folder_id || process.env.GOOGLE_DRIVE_FOLDER_ID as string] }, media: { mimeType: effectiveMime || 'application/pdf', body: Readable.from(buffer) }, fields: 'id,webViewLink' })
-        await drive.permissions.create({ fileId: data.id!, requestBody: { role: 'reader', type: 'anyone' } })
-        sanitized.url = data.webViewLink || `https://drive.google.com/file/d/${data.id}/view?usp=sharing`
-        sanitized.is_pdf = true
+      const restricted = 'restricted' in sanitized ? sanitized.restricted : before.restricted
+      const stored = await storeResourceFile(buffer, originalName, effectiveMime, { isPdf: is_pdf, settings, visibility: restricted ? 'private' : 'public' })
+      if (restricted) {
+        sanitized.url = resourceFileUrl(id)
+        sanitized.drive_link = null
+        sanitized.file_path = stored.url
+        sanitized.storage_location = STORAGE_LOCATION_LABELS[stored.location]
       } else {
-        const bucket = settings?.storage_bucket || 'resources'
-        const path = `${Date.now()}-${originalName}`
-        const { error } = await supabase.storage.from(bucket).upload(path, buffer, { contentType: effectiveMime || undefined, duplex: 'half' as any })
-        if (error) return NextResponse.json({ error: 'Storage upload failed' }, { status: 500 })
-        const { data } = supabase.storage.from(bucket).getPublicUrl(path)
-        sanitized.url = data.publicUrl
-        sanitized.is_pdf = false
+        sanitized.url = stored.url
+        sanitized.drive_link = stored.location === 'drive' ? stored.url : null
       }
+      sanitized.is_pdf = is_pdf
+      sanitized.file_type = effectiveMime || null
+    } else if (sanitized.restricted === true && !before.restricted) {
+      // A file becoming restricted must stop being readable through its old public link
+      const moved = await makeResourceFilePrivate(before)
+      if (!moved) {
+        return NextResponse.json({ error: 'Only files stored by the portal can be restricted, not external links' }, { status: 400 })
+      }
+      Object.assign(sanitized, moved.fields)
+      movedToPrivate = moved
     }
 
     const { data, error } = await supabase
@@ -130,7 +127,28 @@ export async function PATCH(request: Request, { params }: { params: { id: string
       .eq('id', id)
       .select('*')
       .maybeSingle()
-    if (error) throw error
+    if (error) {
+      if (movedToPrivate?.copied) await deleteResourceFile({ file_path: movedToPrivate.fields.file_path }).catch(() => {})
+      throw error
+    }
+    // The public original of a file copied to private storage would otherwise stay readable
+    if (movedToPrivate?.copied) await deleteResourceFile(before)
+    if (file) {
+      // Re-extract text for the new file; a non-PDF replacement drops the old text
+      const pdf = replacedPdf
+      if (pdf) after(() => indexResourceText(id, pdf))
+      else await supabase.from('resource_texts').delete().eq('resource_id', id)
+      const replaced = replacedFile
+      // Office files get a fresh PDF rendition (and preview from it); anything else drops the old rendition
+      if (replaced && isConvertibleOfficeFile(replaced.mime, replaced.name)) {
+        after(() => convertResourceToPdf(id, replaced.buffer, replaced.name))
+      } else if (replaced) {
+        await clearPdfRendition(id, before.pdf_rendition_path)
+        after(() => generateResourceThumbnail(id, replaced.buffer, replaced.mime))
+      }
+    }
+    if (data) await tryRecordResourceVersion({ resourceId: id, before, after: data, actor: admin })
+    if (sanitized.archived === true && !before.archived) await tryRevokeResourceFileTokens(id, admin, 'resource archived')
     await logAudit({ actor_email: admin.email, actor_role: admin.role, action: 'update', entity: 'resource', entity_id: id, before_data: before, after_data: data })
     return NextResponse.json(data)
   } catch (err: any) {
@@ -161,35 +179,16 @@ export async function DELETE(_request: Request, { params }: { params: { id: stri
         }
       }
     } catch {}
-    let hardDeleted = false
-    if (row.url) {
-      try {
-        const driveId = tryParseDriveIdFromUrl(row.url)
-        const storage = tryParseStoragePathFromUrl(row.url)
-        if (driveId) {
-          const auth = new google.auth.GoogleAuth({ credentials: JSON.parse(process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON || '{}'), scopes: ['https://www.googleapis.com/auth/drive'] })
-          const drive = google.drive({ version: 'v3', auth })
-          await drive.files.delete({ fileId: driveId })
-        } else if (storage) {
-          await supabase.storage.from(storage.bucket).remove([storage.path])
-        }
-        hardDeleted = true
-      } catch (e) {
-        hardDeleted = false
-      }
-    }
-
-    if (hardDeleted) {
-      const { error } = await supabase.from('resources').delete().eq('id', id)
-      if (error) throw error
-      await logAudit({ actor_email: admin.email, actor_role: admin.role, action: 'delete', entity: 'resource', entity_id: id })
-      return NextResponse.json({ success: true })
-    }
+    if (row.deleted_at) return NextResponse.json({ error: 'Resource is already in the trash' }, { status: 409 })
 
-    const { error } = await supabase.from('resources').update({ deleted_at: new Date().toISOString() }).eq('id', id)
+    // Move to the trash; files are removed when the purge job runs after the retention period
+    const deletedAt = new Date().toISOString()
+    const { error } = await supabase.from('resources').update({ deleted_at: deletedAt, deleted_by: admin.email }).eq('id', id)
     if (error) throw error
-    await logAudit({ actor_email: admin.email, actor_role: admin.role, action: 'soft_delete', entity: 'resource', entity_id: id, success: false, message: 'Blob deletion failed; soft-deleted row' })
-    return NextResponse.json({ success: true, softDeleted: true })
+    await tryRevokeResourceFileTokens(id, admin, 'resource moved to trash')
+    const retentionDays = await getTrashRetentionDays()
+    await logAudit({ actor_email: admin.email, actor_role: admin.role, action: 'soft_delete', entity: 'resource', entity_id: id, before_data: row })
+    return NextResponse.json({ success: true, softDeleted: true, purgeAt: purgeDateFor(deletedAt, retentionDays) })
   } catch (err: any) {
     await logAudit({ actor_email: admin.email, actor_role: admin.role, action: 'delete', entity: 'resource', entity_id: id, success: false, message: err?.message })
     return NextResponse.json({ error: 'Failed to delete resource' }, { status: 500 })
@@ -0,0 +1,115 @@
+import { NextResponse, after } from 'next/server'
+import { getCurrentUserContext, canUserManageResource } from '@/lib/auth-permissions'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { logAudit } from '@/lib/audit'
+import { indexStoredResourceText } from '@/lib/pdf-text'
+import { canGenerateThumbnail, clearResourceThumbnail, generateStoredResourceThumbnail } from '@/lib/thumbnails'
+import { clearPdfRendition, convertStoredResourceToPdf, isConvertibleOfficeFile } from '@/lib/office-convert'
+import { determineFileExtension } from '@/lib/files'
+import {
+  getResourceVersion,
+  recordResourceVersion,
+  snapshotResource,
+  diffSnapshots
+} from '@/lib/resource-versions'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/admin/resources/[id]/versions/[version]/restore
+ * Roll a resource back to an earlier version. The rollback itself is recorded as a new version,
+ * so it can be undone the same way.
+ */
+export async function POST(_request: Request, { params }: { params: { id: string; version: string } }) {
+  const DEBUG_PREFIX = '[API DEBUG ResourceVersions RESTORE]'
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const versionNumber = Number.parseInt(params.version, 10)
+  if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+    return NextResponse.json({ error: 'Invalid version' }, { status: 400 })
+  }
+
+  const supabase = createSupabaseAdmin()
+  const { data: before } = await supabase.from('resources').select('*').eq('id', params.id).maybeSingle()
+  if (!before) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  if (!canUserManageResource(userContext, before)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const version = await getResourceVersion(params.id, versionNumber)
+  if (!version) return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+
+  const changes = diffSnapshots(snapshotResource(before), version.snapshot)
+  if (changes.length === 0) {
+    return NextResponse.json({ error: 'Resource already matches this version' }, { status: 409 })
+  }
+  // Representatives can't move resources between branches/years, including by rollback
+  if (userContext.role === 'representative' && changes.some(c => c.field === 'branch_id' || c.field === 'year_id')) {
+    return NextResponse.json({ error: 'Representatives cannot change resource branch/year assignments' }, { status: 403 })
+  }
+
+  const auditRole = userContext.role === 'yeshh' ? 'yeshh' : 'admin'
+  try {
+    const update: Record<string, unknown> = {}
+    for (const change of changes) update[change.field] = change.to
+
+    const { data, error } = await supabase
+      .from('resources')
+      .update(update)
+      .eq('id', params.id)
+      .select('*')
+      .single()
+    if (error) throw error
+
+    const newVersion = await recordResourceVersion({
+      resourceId: params.id,
+      before,
+      after: data,
+      changeType: 'restore',
+      restoredFrom: versionNumber,
+      actor: { email: userContext.email, role: userContext.role || 'admin' }
+    })
+
+    // Search text and preview follow the file
+    if (changes.some(c => c.field === 'url')) {
+      if (data.is_pdf) after(() => indexStoredResourceText(params.id, { url: data.url, drive_link: data.drive_link }))
+      else await supabase.from('resource_texts').delete().eq('resource_id', params.id)
+      const location = { url: data.url, drive_link: data.drive_link }
+      if (isConvertibleOfficeFile(data.file_type, null)) {
+        const fileName = `${data.title || params.id}.${determineFileExtension(data.file_type)}`
+        after(() => convertStoredResourceToPdf(params.id, location, fileName))
+      } else {
+        await clearPdfRendition(params.id, data.pdf_rendition_path)
+        if (data.is_pdf || canGenerateThumbnail(data.file_type)) after(() => generateStoredResourceThumbnail(params.id, location))
+        else await clearResourceThumbnail(params.id, data.thumbnail_path)
+      }
+    }
+
+    await logAudit({
+      actor_email: userContext.email,
+      actor_role: auditRole,
+      action: 'restore_version',
+      entity: 'resource',
+      entity_id: params.id,
+      message: `Restored version ${versionNumber} as version ${newVersion}`,
+      before_data: before,
+      after_data: data
+    })
+    console.log(`${DEBUG_PREFIX} ${userContext.email} restored resource ${params.id} to version ${versionNumber}`)
+
+    return NextResponse.json({ resource: data, version: newVersion, restoredFrom: versionNumber, changes })
+  } catch (error) {
+    console.error(`${DEBUG_PREFIX} Failed to restore resource ${params.id}:`, error)
+    await logAudit({
+      actor_email: userContext.email,
+      actor_role: auditRole,
+      action: 'restore_version',
+      entity: 'resource',
+      entity_id: params.id,
+      success: false,
+      message: error instanceof Error ? error.message : String(error)
+    })
+    return NextResponse.json({ error: 'Failed to restore version' }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUserContext, canUserManageResource } from '@/lib/auth-permissions'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getResourceVersion, listResourceVersions, diffSnapshots } from '@/lib/resource-versions'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/admin/resources/[id]/versions/diff?from=2&to=5
+ * Metadata differences between two versions. `to` defaults to the current version.
+ */
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const url = new URL(request.url)
+  const from = Number.parseInt(url.searchParams.get('from') || '', 10)
+  const toParam = url.searchParams.get('to')
+  if (!Number.isInteger(from) || from < 1) {
+    return NextResponse.json({ error: 'from must be a version number' }, { status: 400 })
+  }
+
+  const supabase = createSupabaseAdmin()
+  const { data: resource } = await supabase
+    .from('resources')
+    .select('id, branch_id, year_id')
+    .eq('id', params.id)
+    .maybeSingle()
+  if (!resource) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  if (!canUserManageResource(userContext, resource)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  let to = toParam ? Number.parseInt(toParam, 10) : NaN
+  if (!toParam) {
+    const versions = await listResourceVersions(params.id)
+    to = versions[0]?.version_number ?? NaN
+  }
+  if (!Number.isInteger(to) || to < 1) {
+    return NextResponse.json({ error: 'to must be a version number' }, { status: 400 })
+  }
+
+  const [fromVersion, toVersion] = await Promise.all([
+    getResourceVersion(params.id, from),
+    getResourceVersion(params.id, to)
+  ])
+  if (!fromVersion || !toVersion) return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+
+  const changes = diffSnapshots(fromVersion.snapshot, toVersion.snapshot)
+  return NextResponse.json({
+    from: { version: fromVersion.version_number, created_at: fromVersion.created_at, created_by_email: fromVersion.created_by_email },
+    to: { version: toVersion.version_number, created_at: toVersion.created_at, created_by_email: toVersion.created_by_email },
+    fileChanged: changes.some(c => c.field === 'url' || c.field === 'content_hash'),
+    changes
+  })
+}
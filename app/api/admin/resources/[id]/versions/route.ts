@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUserContext, canUserManageResource } from '@/lib/auth-permissions'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { listResourceVersions } from '@/lib/resource-versions'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/admin/resources/[id]/versions
+ * Version history for a resource, newest first (admins, or representatives for their branch/year)
+ */
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const supabase = createSupabaseAdmin()
+  const { data: resource } = await supabase
+    .from('resources')
+    .select('id, title, name, branch_id, year_id')
+    .eq('id', params.id)
+    .maybeSingle()
+  if (!resource) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  if (!canUserManageResource(userContext, resource)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const versions = await listResourceVersions(params.id)
+    return NextResponse.json({
+      resource: { id: resource.id, title: resource.title || resource.name },
+      currentVersion: versions[0]?.version_number ?? null,
+      versions
+    })
+  } catch (error) {
+    console.error('[API DEBUG ResourceVersions GET] Failed to list versions:', error)
+    return NextResponse.json({ error: 'Failed to fetch versions' }, { status: 500 })
+  }
+}
@@ -0,0 +1,113 @@
+import { NextResponse, after } from 'next/server'
+import { requireAdmin, getSettings } from '@/lib/admin-auth'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { logAudit } from '@/lib/audit'
+import { rateLimit, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { indexResourceText } from '@/lib/pdf-text'
+import { generateResourceThumbnail } from '@/lib/thumbnails'
+import { convertResourceToPdf, isConvertibleOfficeFile } from '@/lib/office-convert'
+import {
+  BULK_IMPORT_MAX_ARCHIVE_BYTES,
+  readArchive,
+  readManifest,
+  findArchiveFile,
+  importManifestRow,
+  type ImportArchive,
+  type ImportRowResult,
+  type ManifestRow
+} from '@/lib/bulk-import'
+
+export const runtime = 'nodejs'
+
+const DEBUG_PREFIX = '[API DEBUG BulkImport]'
+
+/**
+ * POST /api/admin/resources/bulk-import
+ * multipart/form-data: archive (ZIP of files), manifest (CSV; optional when the ZIP has one top-level .csv)
+ * Manifest columns: file, subject, category, unit, and optionally title, branch, year, semester, description, type.
+ * Rows are imported one by one; the response reports success or the failure reason for each row.
+ */
+export async function POST(request: Request) {
+  const admin = await requireAdmin('admin')
+
+  const limit = await rateLimit('upload', admin.email)
+  if (!limit.allowed) return rateLimitExceededResponse(limit)
+
+  // Refuse oversized bodies before buffering them; the form adds a little on top of the archive
+  if (Number(request.headers.get('content-length') || 0) > BULK_IMPORT_MAX_ARCHIVE_BYTES + 512 * 1024) {
+    return NextResponse.json({ error: 'Archive too large', maxBytes: BULK_IMPORT_MAX_ARCHIVE_BYTES }, { status: 413 })
+  }
+
+  const form = await request.formData().catch(() => null)
+  const archiveFile = form?.get('archive')
+  const manifestFile = form?.get('manifest')
+  if (!(archiveFile instanceof File)) {
+    return NextResponse.json({ error: 'archive (ZIP file) is required' }, { status: 400 })
+  }
+  if (archiveFile.size > BULK_IMPORT_MAX_ARCHIVE_BYTES) {
+    return NextResponse.json({ error: 'Archive too large', maxBytes: BULK_IMPORT_MAX_ARCHIVE_BYTES }, { status: 413 })
+  }
+
+  let archive: ImportArchive
+  let rows: ManifestRow[]
+  try {
+    archive = readArchive(new Uint8Array(await archiveFile.arrayBuffer()))
+    const manifestText = manifestFile instanceof File ? await manifestFile.text() : archive.manifestText
+    if (!manifestText) {
+      return NextResponse.json({ error: 'Upload a manifest CSV or include exactly one .csv at the top of the ZIP' }, { status: 400 })
+    }
+    rows = readManifest(manifestText)
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    console.warn(`${DEBUG_PREFIX} Rejected import from ${admin.email}:`, message)
+    return NextResponse.json({ error: 'Invalid import', reason: message }, { status: 400 })
+  }
+  if (rows.length === 0) {
+    return NextResponse.json({ error: 'Manifest has no rows' }, { status: 400 })
+  }
+
+  const supabase = createSupabaseAdmin()
+  const [settings, { data: profile }] = await Promise.all([
+    getSettings().catch(() => null),
+    supabase.from('profiles').select('id').eq('email', admin.email).maybeSingle()
+  ])
+
+  console.log(`${DEBUG_PREFIX} ${admin.email} importing ${rows.length} rows from ${archive.files.size} files`)
+  const results: ImportRowResult[] = []
+  for (const row of rows) {
+    const found = row.file ? findArchiveFile(archive, row.file) : { error: 'Missing file' }
+    if ('error' in found) {
+      results.push({ row: row.row, file: row.file, status: 'failed', error: found.error })
+      continue
+    }
+
+    const result = await importManifestRow(row, found.data, {
+      actor: admin,
+      settings,
+      profileId: profile?.id || null,
+      onPdfCreated: (resourceId, buffer) => after(() => indexResourceText(resourceId, buffer)),
+      onFileCreated: (resourceId, buffer, mimeType, fileName) => after(() => isConvertibleOfficeFile(mimeType, fileName)
+        ? convertResourceToPdf(resourceId, buffer, fileName)
+        : generateResourceThumbnail(resourceId, buffer, mimeType))
+    })
+    results.push(result)
+  }
+
+  const created = results.filter(r => r.status === 'created')
+  await logAudit({
+    actor_email: admin.email,
+    actor_role: admin.role,
+    action: 'bulk_import',
+    entity: 'resource',
+    success: created.length > 0,
+    message: `Imported ${created.length} of ${rows.length} rows from ${archiveFile.name}`,
+    after_data: { created: created.map(r => r.id), failed: results.filter(r => r.status === 'failed') }
+  })
+
+  return NextResponse.json({
+    total: rows.length,
+    created: created.length,
+    failed: rows.length - created.length,
+    results
+  })
+}
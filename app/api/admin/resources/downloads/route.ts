@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUserContext } from '@/lib/auth-permissions'
+import { getDownloadStats, type DownloadScopeClass } from '@/lib/download-analytics'
+
+export const runtime = 'nodejs'
+
+const MAX_LISTED_RESOURCES = 50
+
+/**
+ * GET /api/admin/resources/downloads?days=30&branch_id=&year_id=
+ * Download counts per resource, per subject and per day over the last `days` days.
+ * Admins see everything (optionally filtered); representatives see their assigned branch/year pairs.
+ */
+export async function GET(request: Request) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!['admin', 'yeshh', 'representative'].includes(userContext.role || '')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const url = new URL(request.url)
+  const days = Math.min(365, Math.max(1, parseInt(url.searchParams.get('days') || '30', 10) || 30))
+  const to = new Date()
+  const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000)
+
+  const branchFilter = url.searchParams.get('branch_id') || null
+  const yearFilter = url.searchParams.get('year_id') || null
+  let classes: DownloadScopeClass[] | null = branchFilter || yearFilter ? [{ branch_id: branchFilter, year_id: yearFilter }] : null
+  if (userContext.role === 'representative') {
+    const assignments = (userContext.representatives || []).filter(rep => rep.active)
+    if (assignments.length === 0) return NextResponse.json({ error: 'No active representative assignment' }, { status: 403 })
+    // Matched as pairs, so CSE/Y1 and ECE/Y2 don't also grant CSE/Y2 and ECE/Y1
+    classes = assignments
+      .filter(rep => (!branchFilter || rep.branch_id === branchFilter) && (!yearFilter || rep.year_id === yearFilter))
+      .map(rep => ({ branch_id: rep.branch_id, year_id: rep.year_id }))
+    if (classes.length === 0) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const { byResource, bySubject, byDay } = await getDownloadStats({ from, to, classes })
+    const unopened = byResource.filter(r => r.downloads === 0)
+    return NextResponse.json({
+      range: { from: from.toISOString(), to: to.toISOString(), days },
+      totals: {
+        downloads: byResource.reduce((sum, r) => sum + r.downloads, 0),
+        resources: byResource.length,
+        unopened: unopened.length
+      },
+      topResources: byResource.filter(r => r.downloads > 0).slice(0, MAX_LISTED_RESOURCES),
+      unopenedResources: unopened.slice(0, MAX_LISTED_RESOURCES),
+      bySubject,
+      byDay
+    })
+  } catch (error) {
+    console.error('[API DEBUG ResourceDownloads GET] Failed to load stats:', error)
+    return NextResponse.json({ error: 'Failed to load download stats' }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { getDriveMigrationProgress, runDriveMigrationBatch } from '@/lib/drive-migration'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+const DEFAULT_BATCH = 5
+const MAX_BATCH = 25
+
+/**
+ * GET /api/admin/resources/drive-migration
+ * Progress of moving Drive-hosted resources into the secure Storage bucket, with recent failures
+ */
+export async function GET() {
+  try {
+    await requireAdmin('yeshh')
+  } catch {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    return NextResponse.json(await getDriveMigrationProgress())
+  } catch (error) {
+    console.error('[drive-migration] Failed to load progress:', error)
+    return NextResponse.json({ error: 'Failed to load migration progress' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/resources/drive-migration
+ * Copies one batch of Drive files into Storage, verifying size and hash before each resource is repointed.
+ * Call repeatedly until `remaining` is 0; an interrupted run resumes with the resources not yet done.
+ * Body: { limit?: number, retryFailed?: boolean, deleteOriginals?: boolean }
+ */
+export async function POST(request: Request) {
+  let admin
+  try {
+    admin = await requireAdmin('yeshh')
+  } catch {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const limit = Math.min(MAX_BATCH, Math.max(1, Number.parseInt(String(body?.limit ?? DEFAULT_BATCH), 10) || DEFAULT_BATCH))
+
+  try {
+    const result = await runDriveMigrationBatch({
+      limit,
+      retryFailed: Boolean(body?.retryFailed),
+      deleteOriginals: Boolean(body?.deleteOriginals)
+    }, admin)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('[drive-migration] Batch failed:', error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Migration batch failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { logAudit } from '@/lib/audit'
+import { getLinkHealthReport, runLinkCheck, scanOrphanedObjects } from '@/lib/link-check'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+const DEFAULT_BATCH = 100
+const MAX_BATCH = 500
+
+/**
+ * GET /api/admin/resources/link-check
+ * Latest link check results: counts by status, broken resources and storage objects nothing references
+ */
+export async function GET() {
+  try {
+    await requireAdmin('admin')
+  } catch {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    return NextResponse.json(await getLinkHealthReport())
+  } catch (error) {
+    console.error('[link-check] Failed to load report:', error)
+    return NextResponse.json({ error: 'Failed to load link report' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/resources/link-check
+ * Runs a check now instead of waiting for the nightly cron.
+ * Body: { task: 'links' | 'orphans', limit?: number }
+ */
+export async function POST(request: Request) {
+  let admin
+  try {
+    admin = await requireAdmin('admin')
+  } catch {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const task = body?.task === 'orphans' ? 'orphans' : 'links'
+  const limit = Math.min(MAX_BATCH, Math.max(1, Number.parseInt(String(body?.limit ?? DEFAULT_BATCH), 10) || DEFAULT_BATCH))
+
+  try {
+    const result = task === 'orphans' ? await scanOrphanedObjects() : await runLinkCheck(limit)
+    await logAudit({
+      actor_email: admin.email,
+      actor_role: admin.role,
+      action: 'link_check',
+      entity: 'resource',
+      success: true,
+      message: task === 'orphans' ? 'Scanned storage for orphaned objects' : 'Checked resource links',
+      after_data: result
+    })
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error(`[link-check] ${task} run failed:`, error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Link check failed' }, { status: 500 })
+  }
+}
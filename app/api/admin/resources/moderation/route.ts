@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/admin/resources/moderation
+ * Representative uploads waiting for approval, oldest first
+ */
+export async function GET(request: Request) {
+  await requireAdmin('admin')
+  const supabase = createSupabaseAdmin()
+  const url = new URL(request.url)
+  const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10))
+  const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get('limit') || '50', 10)))
+  const from = (page - 1) * limit
+
+  const { data, error, count } = await supabase
+    .from('resources')
+    .select('id, title, name, description, category, subject, unit, url, drive_link, file_type, year, branch, semester, submitted_by, created_at', { count: 'exact' })
+    .eq('moderation_status', 'pending')
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true })
+    .range(from, from + limit - 1)
+
+  if (error) {
+    console.error('[API DEBUG ResourcesModeration GET] Failed to load queue:', error)
+    return NextResponse.json({ error: 'Failed to load moderation queue' }, { status: 500 })
+  }
+  return NextResponse.json({ data, meta: { page, limit, count: count || 0, totalPages: count ? Math.ceil(count / limit) : 1 } })
+}
@@ -1,14 +1,24 @@
-import { NextResponse } from 'next/server'
+import { NextResponse, after } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/app/api/auth/[...nextauth]/route'
-import { google } from 'googleapis'
-import { Readable } from 'stream'
 import { promises as fs } from 'fs'
+import { randomUUID } from 'crypto'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import { requireAdmin, getSettings, getCurrentUserContext, canManageResources, requirePermission } from '@/lib/admin-auth'
 import { logAudit } from '@/lib/audit'
 import { validateFile, getFileExtension } from '@/lib/file-validation'
-import { tryParseDriveIdFromUrl, tryParseStoragePathFromUrl } from '@/lib/files'
+import { scanUpload } from '@/lib/virus-scan'
+import { storeResourceFile, resourceFileUrl } from '@/lib/files'
+import { STORAGE_LOCATION_LABELS } from '@/lib/storage'
+import { indexResourceText, indexStoredResourceText } from '@/lib/pdf-text'
+import { canGenerateThumbnail, generateResourceThumbnail, generateStoredResourceThumbnail } from '@/lib/thumbnails'
+import { convertResourceToPdf, convertStoredResourceToPdf, isConvertibleOfficeFile } from '@/lib/office-convert'
+import { claimCompletedUpload, markUploadConsumed, releaseUploadClaim, discardCompletedUpload } from '@/lib/resumable-upload'
+import { sha256Hex, findDuplicateResource } from '@/lib/content-hash'
+import { tryRecordResourceVersion } from '@/lib/resource-versions'
+import { requiresRepApproval } from '@/lib/moderation'
+import { rateLimit, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { sendPushToAudience, resourcePushPayload } from '@/lib/push'
 
 export const runtime = 'nodejs'
 
@@ -53,7 +63,8 @@ export async function GET(request: Request) {
 
   let query = supabase
     .from('resources')
-    .select('id,name,category,subject,unit,type,date,is_pdf,url,year,branch,archived,semester', { count: 'exact' })
+    .select('id,name,category,subject,unit,type,date,is_pdf,url,year,branch,archived,semester,moderation_status,moderation_reason', { count: 'exact' })
+    .is('deleted_at', null)
     .order(sort, { ascending: order === 'asc' })
 
   // Optional filters
@@ -72,6 +83,8 @@ export async function GET(request: Request) {
   const archivedParam = url.searchParams.get('archived')
   if (archivedParam === 'true') query = query.eq('archived', true)
   if (archivedParam === 'false') query = query.eq('archived', false)
+  const moderation = url.searchParams.get('moderation')
+  if (moderation === 'pending' || moderation === 'approved' || moderation === 'rejected') query = query.eq('moderation_status', moderation)
 
   // Apply role-based filtering
   if (userContext) {
@@ -99,50 +112,6 @@ export async function GET(request: Request) {
   return NextResponse.json({ data, meta: { page, limit, count, totalPages: count ? Math.ceil(count / limit) : 1, sort, order } })
 }
 
-async function uploadToDrive(fileBuffer: Buffer, fileName: string, mime: string, description?: string) {
-  const settings = await getSettings()
-  const driveFolderId = settings?.drive_folder_id || process.env.GOOGLE_DRIVE_FOLDER_ID
-  if (!driveFolderId) throw new Error('Drive folder id not configured')
-  // Support base64 JSON (e.g. on Vercel) or local key file
-  const rawB64 = process.env.GOOGLE_APPLICATION_CREDENTIALS_B64
-  const keyFile = process.env.GOOGLE_APPLICATION_CREDENTIALS
-  let auth: any
-  if (rawB64) {
-    // Decode and parse service account JSON
-    const raw = Buffer.from(rawB64, 'base64').toString('utf8')
-    const creds = JSON.parse(raw)
-    creds.private_key = creds.private_key.replace(/\\n/g, '\n')
-    auth = new google.auth.GoogleAuth({ credentials: creds, scopes: ['https://www.googleapis.com/auth/drive'] })
-  } else if (keyFile) {
-    // Load from file path
-    auth = new google.auth.GoogleAuth({ keyFilename: keyFile, scopes: ['https://www.googleapis.com/auth/drive'] })
-  } else {
-    throw new Error('Google Drive configuration error: no credentials provided')
-  }
-  const drive = google.drive({ version: 'v3', auth })
-  const fileReadable = Readable.from(fileBuffer)
-  const { data } = await drive.files.create({
-    requestBody: { name: fileName, parents: [driveFolderId], description },
-    media: { mimeType: mime || 'application/pdf', body: fileReadable },
-    fields: 'id,webViewLink',
-  })
-  if (!data.id) throw new Error('Drive upload failed')
-  await drive.permissions.create({ fileId: data.id, requestBody: { role: 'reader', type: 'anyone' } })
-  const url = data.webViewLink ?? `https://drive.google.com/file/d/${data.id}/view?usp=sharing`
-  return { url }
-}
-
-async function uploadToStorage(fileBuffer: Buffer, fileName: string, mime?: string) {
-  const settings = await getSettings()
-  const bucket = settings?.storage_bucket || 'resources'
-  const supabase = createSupabaseAdmin()
-  const uploadPath = `${Date.now()}-${fileName}`
-  const { error } = await supabase.storage.from(bucket).upload(uploadPath, fileBuffer, { contentType: mime || undefined, duplex: 'half' as any })
-  if (error) throw error
-  const { data } = supabase.storage.from(bucket).getPublicUrl(uploadPath)
-  return { url: data.publicUrl }
-}
-
 export async function POST(request: Request) {
   const REQ_DEBUG_PREFIX = '[API DEBUG AdminResources POST]';
   console.log(`${REQ_DEBUG_PREFIX} Received POST request at ${new Date().toISOString()}`);
@@ -205,6 +174,12 @@ export async function POST(request: Request) {
       console.log(`${REQ_DEBUG_PREFIX} Parsed JSON payload: keys: ${Object.keys(payload).join(', ')}`);
     }
 
+    // Files sent in parts were counted when their upload was started (POST /api/uploads)
+    if (file || !payload.upload_id) {
+      const limit = await rateLimit('upload', userContext.email);
+      if (!limit.allowed) return rateLimitExceededResponse(limit);
+    }
+
     const unit = toInt(payload.unit);
     if (!unit || unit < 1) {
       console.error(`${REQ_DEBUG_PREFIX} Invalid unit value: ${payload.unit}`);
@@ -236,9 +211,21 @@ export async function POST(request: Request) {
       console.log(`${REQ_DEBUG_PREFIX} Representative authorized to manage resources for branchId: ${branchId}, yearId: ${yearId}.`);
     }
 
+    // Restricted files are stored privately and only ever opened through /api/resources/[id]/file
+    const restricted = payload.restricted === true || payload.restricted === 'true';
     let url: string | undefined;
+    let storedPrivately: { filePath: string; storageLocation: string } | null = null;
     let is_pdf = false;
     let detectedMime: string | null = null;
+    let pdfBuffer: Buffer | null = null;
+    let fileBuffer: Buffer | null = null;
+    let fileName: string | null = null;
+    let claimedUploadId: string | null = null;
+    let contentHash: string | null = null;
+    // Representatives may not re-upload a file that already exists for the same subject offering
+    const checkDuplicate = async (hash: string) => userContext.role === 'representative'
+      ? findDuplicateResource({ contentHash: hash, subject: String(payload.subject).toLowerCase(), branchId, yearId, semesterId })
+      : null;
 
     if (file) {
       console.log(`${REQ_DEBUG_PREFIX} File detected for upload.`);
@@ -259,23 +246,67 @@ export async function POST(request: Request) {
       }
       console.log(`${REQ_DEBUG_PREFIX} File validation successful. Detected MIME: ${validation.detectedMime}.`);
       const effectiveMime = (validation.detectedMime || clientMime || '').toLowerCase();
+      const scan = await scanUpload(buffer, originalName, { mimeType: effectiveMime, uploadedBy: userContext.email });
+      if (!scan.ok) {
+        console.error(`${REQ_DEBUG_PREFIX} Virus scan rejected the file:`, scan.reason);
+        return NextResponse.json({ error: 'File rejected by virus scan', reason: scan.reason }, { status: scan.unavailable ? 503 : 422 });
+      }
       detectedMime = effectiveMime;
       is_pdf = effectiveMime === 'application/pdf' || originalName.toLowerCase().endsWith('.pdf');
       console.log(`${REQ_DEBUG_PREFIX} Effective MIME: ${effectiveMime}, Is PDF: ${is_pdf}.`);
+      if (is_pdf) pdfBuffer = buffer;
+      fileBuffer = buffer;
+      fileName = originalName;
+
+      contentHash = sha256Hex(buffer);
+      const existing = await checkDuplicate(contentHash);
+      if (existing) {
+        console.warn(`${REQ_DEBUG_PREFIX} Duplicate upload rejected; matches resource ${existing.id}.`);
+        return NextResponse.json({ error: 'This file has already been uploaded for this subject', existing }, { status: 409 });
+      }
 
       const settings = await getSettings();
-      if (is_pdf && settings?.pdf_to_drive) {
-        console.log(`${REQ_DEBUG_PREFIX} Uploading PDF to Google Drive.`);
-        const uploaded = await uploadToDrive(buffer, originalName, effectiveMime, payload.description || undefined);
-        url = uploaded.url;
-        console.log(`${REQ_DEBUG_PREFIX} Google Drive upload successful. URL: ${url}`);
-      } else {
-        console.log(`${REQ_DEBUG_PREFIX} Uploading to Supabase Storage.`);
-        const uploaded = await uploadToStorage(buffer, originalName, effectiveMime);
-        url = uploaded.url;
-        console.log(`${REQ_DEBUG_PREFIX} Supabase Storage upload successful. URL: ${url}`);
+      const stored = await storeResourceFile(buffer, originalName, effectiveMime, {
+        isPdf: is_pdf,
+        settings,
+        description: payload.description || undefined,
+        visibility: restricted ? 'private' : 'public'
+      });
+      url = stored.url;
+      if (restricted) storedPrivately = { filePath: stored.url, storageLocation: STORAGE_LOCATION_LABELS[stored.location] };
+      console.log(`${REQ_DEBUG_PREFIX} Upload to ${stored.location} successful. URL: ${url}`);
+    } else if (payload.upload_id) {
+      // File was sent in parts through /api/uploads and is already stored
+      const upload = await claimCompletedUpload(String(payload.upload_id), userContext.email);
+      if (!upload || !upload.file_url) {
+        console.error(`${REQ_DEBUG_PREFIX} Upload ${payload.upload_id} not found, not completed or already used.`);
+        return NextResponse.json({ error: 'Upload not found, not completed or already used' }, { status: 400 });
+      }
+      if (restricted && upload.visibility !== 'private') {
+        console.error(`${REQ_DEBUG_PREFIX} Upload ${upload.id} for a restricted resource was not started as private.`);
+        await releaseUploadClaim(upload.id);
+        return NextResponse.json({ error: "Restricted files must be uploaded with visibility 'private'" }, { status: 400 });
       }
+      contentHash = upload.content_hash;
+      const existing = contentHash ? await checkDuplicate(contentHash) : null;
+      if (existing) {
+        console.warn(`${REQ_DEBUG_PREFIX} Duplicate chunked upload ${upload.id}; matches resource ${existing.id}. Discarding stored copy.`);
+        await discardCompletedUpload(upload);
+        return NextResponse.json({ error: 'This file has already been uploaded for this subject', existing }, { status: 409 });
+      }
+      url = upload.file_url;
+      detectedMime = upload.mime_type;
+      is_pdf = upload.mime_type === 'application/pdf';
+      claimedUploadId = upload.id;
+      fileName = upload.filename;
+      if (restricted) {
+        storedPrivately = { filePath: upload.file_url, storageLocation: STORAGE_LOCATION_LABELS[upload.backend === 'drive' ? 'drive' : 'supabase'] };
+      }
+      console.log(`${REQ_DEBUG_PREFIX} Using chunked upload ${upload.id}: ${url}`);
     } else if (payload.url) {
+      if (restricted) {
+        return NextResponse.json({ error: 'Only uploaded files can be restricted, not external links' }, { status: 400 });
+      }
       url = String(payload.url);
       is_pdf = url.toLowerCase().includes('drive.google.com') || url.toLowerCase().endsWith('.pdf');
       console.log(`${REQ_DEBUG_PREFIX} URL provided: ${url}, Is PDF: ${is_pdf}.`);
@@ -294,9 +325,14 @@ export async function POST(request: Request) {
       year: payload.year ? toInt(payload.year) : null,
       branch: payload.branch || null,
       archived: Boolean(payload.archived) || false,
+      restricted,
       semester: payload.semester ? toInt(payload.semester) : null,
       url: url!,
       is_pdf,
+      content_hash: contentHash,
+      submitted_by: userContext.email,
+      // Representative uploads wait for admin approval when moderation is on
+      moderation_status: userContext.role === 'representative' && await requiresRepApproval(String(payload.category)) ? 'pending' : 'approved',
     };
     console.log(`${REQ_DEBUG_PREFIX} Initial insertPayload:`, insertPayload);
 
@@ -353,6 +389,14 @@ export async function POST(request: Request) {
     insertPayload['title'] = payload.title ? String(payload.title) : String(payload.name);
     // For Drive uploads, store drive link separately if the url is a Drive link
     insertPayload['drive_link'] = url && url.toLowerCase().includes('drive.google.com') ? url : null;
+    if (storedPrivately) {
+      // The row links to the secure file endpoint; file_path is the private reference it resolves
+      insertPayload['id'] = randomUUID();
+      insertPayload['url'] = resourceFileUrl(insertPayload['id']);
+      insertPayload['drive_link'] = null;
+      insertPayload['file_path'] = storedPrivately.filePath;
+      insertPayload['storage_location'] = storedPrivately.storageLocation;
+    }
 
     // Debug: print resolved user and payload to help diagnose uuid insertion errors
     console.debug(`${REQ_DEBUG_PREFIX} Creating resource - userContext:`, { id: (userContext as any)?.id, email: userContext?.email, role: userContext?.role });
@@ -365,9 +409,35 @@ export async function POST(request: Request) {
     const { data, error } = await supabase.from('resources').insert(insertPayload).select('id').single();
     if (error) {
       console.error(`${REQ_DEBUG_PREFIX} Database insertion error:`, error);
+      if (claimedUploadId) await releaseUploadClaim(claimedUploadId);
       throw error;
     }
     console.log(`${REQ_DEBUG_PREFIX} Database insertion successful. New resource ID: ${data.id}.`);
+
+    if (claimedUploadId) await markUploadConsumed(claimedUploadId, data.id);
+    await tryRecordResourceVersion({ resourceId: data.id, after: insertPayload, actor: { email: userContext.email, role: userContext.role || 'admin' } });
+
+    // Extract PDF text for search once the response has been sent
+    const storedFile = storedPrivately ? { file_path: storedPrivately.filePath } : { url };
+    if (pdfBuffer) {
+      const buffer = pdfBuffer;
+      after(() => indexResourceText(data.id, buffer));
+    } else if (claimedUploadId && is_pdf) {
+      after(() => indexStoredResourceText(data.id, storedFile));
+    }
+
+    // Preview image for the subject page grid; Office files get theirs from the PDF rendition
+    const previewMime = detectedMime;
+    const officeName = fileName && isConvertibleOfficeFile(previewMime, fileName) ? fileName : null;
+    if (fileBuffer) {
+      const buffer = fileBuffer;
+      if (officeName) after(() => convertResourceToPdf(data.id, buffer, officeName));
+      else after(() => generateResourceThumbnail(data.id, buffer, previewMime));
+    } else if (claimedUploadId && officeName) {
+      after(() => convertStoredResourceToPdf(data.id, storedFile, officeName));
+    } else if (claimedUploadId && canGenerateThumbnail(previewMime)) {
+      after(() => generateStoredResourceThumbnail(data.id, storedFile));
+    }
     
     // Log the audit with proper role handling
     const auditRole = userContext.role === 'representative' ? 'admin' : userContext.role as 'admin' | 'yeshh';
@@ -380,6 +450,11 @@ export async function POST(request: Request) {
       after_data: insertPayload
     });
     console.log(`${REQ_DEBUG_PREFIX} Audit log created for resource ID: ${data.id}.`);
+
+    // Pending uploads are announced when an admin approves them
+    if (insertPayload.moderation_status === 'approved' && !insertPayload.archived) {
+      after(() => sendPushToAudience({ branchId, yearId }, resourcePushPayload({ id: data.id, ...insertPayload })));
+    }
     
     return NextResponse.json({ id: data.id, ...insertPayload });
   } catch (err: any) {
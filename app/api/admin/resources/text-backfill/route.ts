@@ -0,0 +1,146 @@
+import { NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin } from '@/lib/admin-auth'
+import { logAudit } from '@/lib/audit'
+import { downloadResourceFile } from '@/lib/files'
+import { sniffMimeFromMagicBytes } from '@/lib/file-validation'
+import { indexResourceText, markResourceTextSkipped } from '@/lib/pdf-text'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+const DEFAULT_BATCH = 10
+const MAX_BATCH = 50
+
+type BackfillCandidate = {
+  id: string
+  url: string | null
+  drive_link: string | null
+  file_path: string | null
+}
+
+/**
+ * GET /api/admin/resources/text-backfill
+ * Progress of PDF text extraction across resources
+ */
+export async function GET() {
+  try {
+    await requireAdmin('yeshh')
+  } catch {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const supabase = createSupabaseAdmin()
+  const statuses = ['done', 'failed', 'skipped', 'pending'] as const
+  const counts: Record<string, number> = {}
+  for (const status of statuses) {
+    const { count } = await supabase
+      .from('resource_texts')
+      .select('resource_id', { count: 'exact', head: true })
+      .eq('status', status)
+    counts[status] = count || 0
+  }
+
+  const { count: remaining } = await supabase
+    .from('resources')
+    .select('id, resource_texts!left(resource_id)', { count: 'exact', head: true })
+    .is('deleted_at', null)
+    .is('resource_texts', null)
+
+  return NextResponse.json({ ...counts, unprocessed: remaining || 0 })
+}
+
+/**
+ * POST /api/admin/resources/text-backfill
+ * One-off job: extracts text for existing resources that were uploaded before indexing existed.
+ * Processes one batch per call; call repeatedly until `remaining` is 0.
+ * Body: { limit?: number, retryFailed?: boolean }
+ */
+export async function POST(request: Request) {
+  let admin
+  try {
+    admin = await requireAdmin('yeshh')
+  } catch {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const limit = Math.min(MAX_BATCH, Math.max(1, Number.parseInt(String(body?.limit ?? DEFAULT_BATCH), 10) || DEFAULT_BATCH))
+  const retryFailed = Boolean(body?.retryFailed)
+
+  const supabase = createSupabaseAdmin()
+
+  let candidates: BackfillCandidate[] = []
+  if (retryFailed) {
+    const { data, error } = await supabase
+      .from('resources')
+      .select('id, url, drive_link, file_path, resource_texts!inner(status)')
+      .is('deleted_at', null)
+      .eq('resource_texts.status', 'failed')
+      .limit(limit)
+    if (error) {
+      console.error('[text-backfill] Failed to load failed resources:', error)
+      return NextResponse.json({ error: 'Failed to load resources' }, { status: 500 })
+    }
+    candidates = data || []
+  } else {
+    const { data, error } = await supabase
+      .from('resources')
+      .select('id, url, drive_link, file_path, resource_texts!left(resource_id)')
+      .is('deleted_at', null)
+      .is('resource_texts', null)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+    if (error) {
+      console.error('[text-backfill] Failed to load unprocessed resources:', error)
+      return NextResponse.json({ error: 'Failed to load resources' }, { status: 500 })
+    }
+    candidates = data || []
+  }
+
+  const results = { indexed: 0, failed: 0, skipped: 0 }
+  for (const resource of candidates) {
+    try {
+      const file = await downloadResourceFile(resource)
+      if (!file) {
+        await markResourceTextSkipped(resource.id, 'File unavailable or too large')
+        results.skipped++
+        continue
+      }
+      if (sniffMimeFromMagicBytes(file.buffer) !== 'application/pdf') {
+        await markResourceTextSkipped(resource.id, 'Not a PDF')
+        results.skipped++
+        continue
+      }
+      const ok = await indexResourceText(resource.id, file.buffer)
+      if (ok) results.indexed++
+      else results.failed++
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      console.error(`[text-backfill] Resource ${resource.id} failed:`, message)
+      await supabase.from('resource_texts').upsert({
+        resource_id: resource.id,
+        status: 'failed',
+        error: message.slice(0, 1000)
+      }, { onConflict: 'resource_id' })
+      results.failed++
+    }
+  }
+
+  const { count: remaining } = await supabase
+    .from('resources')
+    .select('id, resource_texts!left(resource_id)', { count: 'exact', head: true })
+    .is('deleted_at', null)
+    .is('resource_texts', null)
+
+  await logAudit({
+    actor_email: admin.email,
+    actor_role: admin.role,
+    action: 'text_backfill',
+    entity: 'resource',
+    message: `Processed ${candidates.length} resources`,
+    after_data: results
+  })
+
+  return NextResponse.json({ processed: candidates.length, ...results, remaining: remaining || 0 })
+}
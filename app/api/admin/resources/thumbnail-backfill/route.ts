@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { requireAdmin } from '@/lib/admin-auth'
+import { logAudit } from '@/lib/audit'
+import { downloadResourceFile } from '@/lib/files'
+import { canGenerateThumbnail, generateResourceThumbnail } from '@/lib/thumbnails'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+const DEFAULT_BATCH = 10
+const MAX_BATCH = 50
+
+type BackfillCandidate = {
+  id: string
+  url: string | null
+  drive_link: string | null
+  file_path: string | null
+  file_type: string | null
+  is_pdf: boolean | null
+}
+
+async function countUnprocessed(): Promise<number> {
+  const supabase = createSupabaseAdmin()
+  const { count } = await supabase
+    .from('resources')
+    .select('id', { count: 'exact', head: true })
+    .is('deleted_at', null)
+    .is('thumbnail_status', null)
+  return count || 0
+}
+
+/**
+ * GET /api/admin/resources/thumbnail-backfill
+ * Progress of preview generation across resources
+ */
+export async function GET() {
+  try {
+    await requireAdmin('yeshh')
+  } catch {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const supabase = createSupabaseAdmin()
+  const counts: Record<string, number> = {}
+  for (const status of ['done', 'failed', 'skipped'] as const) {
+    const { count } = await supabase
+      .from('resources')
+      .select('id', { count: 'exact', head: true })
+      .is('deleted_at', null)
+      .eq('thumbnail_status', status)
+    counts[status] = count || 0
+  }
+
+  return NextResponse.json({ ...counts, unprocessed: await countUnprocessed() })
+}
+
+/**
+ * POST /api/admin/resources/thumbnail-backfill
+ * One-off job: generates previews for resources uploaded before previews existed.
+ * Processes one batch per call; call repeatedly until `remaining` is 0.
+ * Body: { limit?: number, retryFailed?: boolean }
+ */
+export async function POST(request: Request) {
+  let admin
+  try {
+    admin = await requireAdmin('yeshh')
+  } catch {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const limit = Math.min(MAX_BATCH, Math.max(1, Number.parseInt(String(body?.limit ?? DEFAULT_BATCH), 10) || DEFAULT_BATCH))
+  const retryFailed = Boolean(body?.retryFailed)
+
+  const supabase = createSupabaseAdmin()
+  let query = supabase
+    .from('resources')
+    .select('id, url, drive_link, file_path, file_type, is_pdf')
+    .is('deleted_at', null)
+  query = retryFailed ? query.eq('thumbnail_status', 'failed') : query.is('thumbnail_status', null)
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit)
+  if (error) {
+    console.error('[thumbnail-backfill] Failed to load resources:', error)
+    return NextResponse.json({ error: 'Failed to load resources' }, { status: 500 })
+  }
+  const candidates: BackfillCandidate[] = data || []
+
+  const results = { generated: 0, failed: 0, skipped: 0 }
+  for (const resource of candidates) {
+    // Don't download videos and the like just to find out they have no preview
+    const mime = resource.is_pdf ? 'application/pdf' : resource.file_type
+    if (!canGenerateThumbnail(mime)) {
+      await supabase.from('resources').update({ thumbnail_status: 'skipped' }).eq('id', resource.id)
+      results.skipped++
+      continue
+    }
+    const file = await downloadResourceFile(resource).catch(() => null)
+    if (!file) {
+      await supabase.from('resources').update({ thumbnail_status: 'skipped' }).eq('id', resource.id)
+      results.skipped++
+      continue
+    }
+    const ok = await generateResourceThumbnail(resource.id, file.buffer, file.mimeType || mime)
+    if (ok) results.generated++
+    else results.failed++
+  }
+
+  await logAudit({
+    actor_email: admin.email,
+    actor_role: admin.role,
+    action: 'thumbnail_backfill',
+    entity: 'resource',
+    message: `Processed ${candidates.length} resources`,
+    after_data: results
+  })
+
+  return NextResponse.json({ processed: candidates.length, ...results, remaining: await countUnprocessed() })
+}
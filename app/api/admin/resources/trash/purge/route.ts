@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { purgeResource, purgeExpiredResources } from '@/lib/trash'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/admin/resources/trash/purge
+ * Body: { ids?: string[] }
+ * With ids, permanently deletes those trashed resources now; otherwise runs the expiry purge immediately.
+ */
+export async function POST(request: Request) {
+  const admin = await requireAdmin('yeshh')
+  const body = await request.json().catch(() => ({}))
+  const ids: string[] = Array.isArray(body?.ids) ? body.ids.filter((v: unknown): v is string => typeof v === 'string') : []
+
+  try {
+    if (ids.length === 0) {
+      const result = await purgeExpiredResources()
+      return NextResponse.json(result)
+    }
+
+    const supabase = createSupabaseAdmin()
+    const { data, error } = await supabase
+      .from('resources')
+      .select('*')
+      .in('id', ids.slice(0, 100))
+      .not('deleted_at', 'is', null)
+    if (error) throw error
+
+    let purged = 0
+    const failures: Array<{ id: string; error?: string }> = []
+    for (const resource of data || []) {
+      const result = await purgeResource(resource, admin)
+      if (result.ok) purged++
+      else failures.push({ id: resource.id, error: result.error })
+    }
+    return NextResponse.json({ purged, failed: failures.length, failures })
+  } catch (error) {
+    console.error('[API DEBUG ResourcesTrash PURGE] Purge failed:', error)
+    return NextResponse.json({ error: 'Failed to purge resources' }, { status: 500 })
+  }
+}
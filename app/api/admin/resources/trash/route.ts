@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUserContext, representativeScopeFilter } from '@/lib/auth-permissions'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getTrashRetentionDays, purgeDateFor } from '@/lib/trash'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/admin/resources/trash
+ * Trashed resources with the date each will be purged.
+ * Admins see everything; representatives see their assigned branch/year pairs.
+ */
+export async function GET(request: Request) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!['admin', 'yeshh', 'representative'].includes(userContext.role || '')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const url = new URL(request.url)
+  const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10))
+  const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get('limit') || '20', 10)))
+  const from = (page - 1) * limit
+
+  const supabase = createSupabaseAdmin()
+  let query = supabase
+    .from('resources')
+    .select('id, title, name, category, subject, unit, url, drive_link, file_type, branch_id, year_id, semester_id, deleted_at, deleted_by', { count: 'exact' })
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false })
+
+  if (userContext.role === 'representative') {
+    const assignments = (userContext.representatives || []).filter(rep => rep.active)
+    if (assignments.length === 0) return NextResponse.json({ data: [], meta: { page, limit, count: 0, totalPages: 1 } })
+    query = query.or(representativeScopeFilter(assignments))
+  }
+
+  const [{ data, error, count }, retentionDays] = await Promise.all([
+    query.range(from, from + limit - 1),
+    getTrashRetentionDays()
+  ])
+  if (error) {
+    console.error('[API DEBUG ResourcesTrash GET] Failed to list trash:', error)
+    return NextResponse.json({ error: 'Failed to fetch trash' }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    data: (data || []).map(row => ({ ...row, purge_at: purgeDateFor(row.deleted_at, retentionDays) })),
+    meta: { page, limit, count: count || 0, totalPages: count ? Math.ceil(count / limit) : 1, retentionDays }
+  })
+}
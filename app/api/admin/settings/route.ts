@@ -31,9 +31,23 @@ export async function PUT(request: Request) {
 
   try {
     const body = await request.json()
-    const allowedKeys = ['drive_folder_id', 'storage_bucket', 'pdf_to_drive', 'non_pdf_to_storage']
+    const allowedKeys = ['drive_folder_id', 'storage_bucket', 'pdf_to_drive', 'non_pdf_to_storage', 'trash_retention_days', 'require_rep_approval', 'rep_approval_categories']
     const update: Record<string, any> = {}
     for (const key of allowedKeys) if (key in body) update[key] = body[key]
+    if ('trash_retention_days' in update) {
+      const days = Number(update.trash_retention_days)
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        return NextResponse.json({ error: 'trash_retention_days must be between 1 and 365' }, { status: 400 })
+      }
+      update.trash_retention_days = days
+    }
+    if ('require_rep_approval' in update) update.require_rep_approval = Boolean(update.require_rep_approval)
+    if ('rep_approval_categories' in update) {
+      if (!Array.isArray(update.rep_approval_categories)) {
+        return NextResponse.json({ error: 'rep_approval_categories must be an array' }, { status: 400 })
+      }
+      update.rep_approval_categories = update.rep_approval_categories.map((c: unknown) => String(c).toLowerCase().trim()).filter(Boolean)
+    }
     update.updated_at = new Date().toISOString()
 
     const { data: before } = await supabase.from('settings').select('*').single()
@@ -4,6 +4,8 @@ import { authOptions } from '@/app/api/auth/[...nextauth]/route'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import { AcademicConfigManager } from '@/lib/academic-config'
 import { getOrSetCache } from '@/lib/redis'
+import { expandReminders, loadReminderRows, reminderWindow } from '@/lib/reminders'
+import { resourceLinks } from '@/lib/files'
 
 export const runtime = 'nodejs'
 
@@ -212,30 +214,28 @@ export async function GET() {
         // exams: filter by branch/year when available, then by date window
         let examsQuery = supabase
           .from('exams')
-          .select('subject, exam_date, year, branch')
+          .select('subject, exam_date, start_time, end_time, session, exam_type, venue, year, branch')
           .gte('exam_date', startDateStr)
           .lte('exam_date', endDateStr)
           .order('exam_date', { ascending: true })
+          .order('start_time', { ascending: true, nullsFirst: false })
         if (branchCode) examsQuery = examsQuery.eq('branch', branchCode)
         if (currentYear) examsQuery = examsQuery.eq('year', currentYear)
 
         // reminders: filter by context when available; else return latest upcoming by due_date
-        let remindersQuery = supabase
-          .from('reminders')
-          .select('*')
-          .is('deleted_at', null)
-          .gte('due_date', startDateStr)
-          .order('due_date', { ascending: true })
-          .limit(5)
-        if (branchCode && currentYear) {
-          remindersQuery = remindersQuery.eq('branch', branchCode).eq('year', currentYear)
-        }
+        // Recurring series that started earlier are expanded into their next occurrences
+        const remindersWindow = reminderWindow(startDateStr)!
+        const remindersQuery = loadReminderRows(supabase, remindersWindow, { branch: branchCode, year: currentYear, limit: 20 })
 
-        const [recentUpdates, upcomingExams, upcomingReminders] = await Promise.all([
+        const [recentUpdates, upcomingExams, reminderRows] = await Promise.all([
           recentUpdatesQuery,
           examsQuery,
           remindersQuery
         ])
+        const upcomingReminders = {
+          ...reminderRows,
+          data: reminderRows.data ? expandReminders(reminderRows.data, remindersWindow).slice(0, 5) : null
+        }
 
         return { recentUpdates, upcomingExams, upcomingReminders, usersCount }
       })
@@ -257,6 +257,8 @@ export async function GET() {
           .eq('branch_id', branchId)
           .eq('year_id', yearId)
           .or(`semester_id.eq.${semesterId},semester_id.is.null`)
+          .is('deleted_at', null)
+          .eq('moderation_status', 'approved')
           .order('unit', { ascending: true })
           .order('created_at', { ascending: false })
 
@@ -270,7 +272,8 @@ export async function GET() {
         (resources || []).forEach((r: any) => {
           if (!grouped[r.subject]) grouped[r.subject] = {}
           if (!grouped[r.subject][r.category]) grouped[r.subject][r.category] = []
-          grouped[r.subject][r.category].push(r)
+          // Restricted files have no direct link; they open through /api/resources/[id]/file
+          grouped[r.subject][r.category].push({ ...r, ...resourceLinks(r) })
         })
 
         return grouped
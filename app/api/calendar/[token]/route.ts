@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { buildCalendarFeed, loadCalendarEvents, resolveCalendarFeedToken } from '@/lib/calendar-feed'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/calendar/[token].ics
+ * iCalendar feed of the token owner's exams and reminders, for Google Calendar and other calendar apps.
+ * No session: the token in the URL is the credential.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: { token: string } }
+) {
+  const token = params.token.replace(/\.ics$/i, '')
+  try {
+    const email = await resolveCalendarFeedToken(token)
+    if (!email) return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 })
+
+    const events = await loadCalendarEvents(email)
+    return new NextResponse(buildCalendarFeed(events), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="pecup.ics"',
+        'Cache-Control': 'private, max-age=900'
+      }
+    })
+  } catch (error) {
+    console.error('Calendar feed error:', error instanceof Error ? error.message : error)
+    return NextResponse.json({ error: 'Failed to build calendar feed' }, { status: 500 })
+  }
+}
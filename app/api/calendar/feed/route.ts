@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUserContext } from '@/lib/auth-permissions'
+import {
+  calendarFeedUrl,
+  getCalendarFeedStatus,
+  issueCalendarFeedToken,
+  revokeCalendarFeedTokens
+} from '@/lib/calendar-feed'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/calendar/feed
+ * Whether the signed-in student has a live calendar subscription link
+ */
+export async function GET() {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    return NextResponse.json(await getCalendarFeedStatus(userContext.email))
+  } catch (error) {
+    console.error('Calendar feed GET error:', error)
+    return NextResponse.json({ error: 'Failed to load calendar feed' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/calendar/feed
+ * Create a subscription link, replacing (and revoking) any previous one. The URL is only returned here.
+ */
+export async function POST() {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const token = await issueCalendarFeedToken(userContext.email)
+    return NextResponse.json({ url: calendarFeedUrl(token) }, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    console.error('Calendar feed POST error:', error)
+    return NextResponse.json({ error: 'Failed to create calendar feed' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/calendar/feed
+ * Revoke the subscription link; subscribed calendars stop receiving updates
+ */
+export async function DELETE() {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const revoked = await revokeCalendarFeedTokens(userContext.email)
+    return NextResponse.json({ revoked })
+  } catch (error) {
+    console.error('Calendar feed DELETE error:', error)
+    return NextResponse.json({ error: 'Failed to revoke calendar feed' }, { status: 500 })
+  }
+}
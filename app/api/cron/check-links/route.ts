@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/cron-auth'
+import { runLinkCheck, scanOrphanedObjects } from '@/lib/link-check'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+/**
+ * GET /api/cron/check-links
+ * Scheduled job: re-check the resources checked longest ago, then look for orphaned storage objects
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const links = await runLinkCheck(200)
+    const orphans = await scanOrphanedObjects()
+    console.log(`[CRON check-links] Checked ${links.checked} links (${links.broken} broken), ${orphans.orphans} orphaned objects`)
+    return NextResponse.json({ links, orphans })
+  } catch (error) {
+    console.error('[CRON check-links] Run failed:', error)
+    return NextResponse.json({ error: 'Link check failed' }, { status: 500 })
+  }
+}
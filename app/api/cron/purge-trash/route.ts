@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/cron-auth'
+import { purgeExpiredResources } from '@/lib/trash'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/cron/purge-trash
+ * Scheduled job: permanently delete resources past the trash retention period
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await purgeExpiredResources()
+    console.log(`[CRON purge-trash] Purged ${result.purged}, failed ${result.failed} (retention ${result.retentionDays} days)`)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('[CRON purge-trash] Purge run failed:', error)
+    return NextResponse.json({ error: 'Purge failed' }, { status: 500 })
+  }
+}
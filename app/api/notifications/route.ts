@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUserContext } from '@/lib/auth-permissions'
+import { listNotifications, markNotificationsRead } from '@/lib/notifications'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/notifications?unread=true&limit=20
+ * The signed-in user's notifications, newest first, with the unread count
+ */
+export async function GET(request: Request) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const url = new URL(request.url)
+  try {
+    const result = await listNotifications(userContext.email, {
+      unreadOnly: url.searchParams.get('unread') === 'true',
+      limit: parseInt(url.searchParams.get('limit') || '20', 10) || 20
+    })
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Notifications GET error:', error)
+    return NextResponse.json({ error: 'Failed to fetch notifications' }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH /api/notifications
+ * Body: { ids?: string[] } — marks those notifications read, or all of them when ids is omitted
+ */
+export async function PATCH(request: Request) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const body = await request.json().catch(() => ({}))
+  const ids = Array.isArray(body?.ids) ? body.ids.filter((v: unknown): v is string => typeof v === 'string') : undefined
+  try {
+    await markNotificationsRead(userContext.email, ids)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Notifications PATCH error:', error)
+    return NextResponse.json({ error: 'Failed to update notifications' }, { status: 500 })
+  }
+}
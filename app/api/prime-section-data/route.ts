@@ -6,6 +6,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { createSupabaseAdmin } from '@/lib/supabase';
+import type { ExamSession, ExamType } from '@/lib/exams';
 const supabaseAdmin = createSupabaseAdmin();
 
 // Configuration
@@ -15,6 +16,11 @@ const UPCOMING_EXAM_DAYS_THRESHOLD = 4; // Days from today to look ahead
 interface Exam {
     subject: string;
     examDate: string; // YYYY-MM-DD format
+    startTime: string | null; // HH:MM
+    endTime: string | null;
+    session: ExamSession | null;
+    examType: ExamType | null;
+    venue: string | null;
 }
 
 interface Resource {
@@ -44,6 +50,7 @@ interface GroupedResources {
 interface PrimeSectionData {
     data: GroupedResources | null;
     triggeringSubjects: string[];
+    exams: Exam[];
 }
 
 // Helper function to check if a date is within the specified threshold
@@ -98,10 +105,11 @@ export async function GET(request: Request) {
         // Fetch upcoming exams from Supabase - get all exams since table doesn't have year/branch filtering yet
         const { data: examData, error: examError } = await supabaseAdmin
             .from('exams')
-            .select('subject, exam_date')
+            .select('subject, exam_date, start_time, end_time, session, exam_type, venue')
             .gte('exam_date', startDateStr)
             .lte('exam_date', endDateStr)
             .order('exam_date', { ascending: true })
+            .order('start_time', { ascending: true, nullsFirst: false })
 
         if (examError) {
             console.error('API Error: Failed to fetch exams:', examError);
@@ -112,7 +120,12 @@ export async function GET(request: Request) {
         const upcomingExamsData = (examData || [])
             .map(exam => ({
                 subject: exam.subject || '',
-                examDate: new Date(exam.exam_date).toISOString().split('T')[0]
+                examDate: new Date(exam.exam_date).toISOString().split('T')[0],
+                startTime: exam.start_time ? String(exam.start_time).slice(0, 5) : null,
+                endTime: exam.end_time ? String(exam.end_time).slice(0, 5) : null,
+                session: exam.session || null,
+                examType: exam.exam_type || null,
+                venue: exam.venue || null
             }));
 
         console.log(`API Prime: Found ${upcomingExamsData.length} exams within the ${UPCOMING_EXAM_DAYS_THRESHOLD}-day window.`);
@@ -178,6 +191,7 @@ export async function GET(request: Request) {
               .from('resources')
               .select('id, name, description, date, type, category, url, subject')
               .is('deleted_at', null)
+              .eq('moderation_status', 'approved')
               .in('subject', uniqueUpcomingSubjects)
               .order('date', { ascending: false });
 
@@ -308,7 +322,8 @@ export async function GET(request: Request) {
             data: Object.keys(groupedResources.notes).length > 0 || 
                   Object.keys(groupedResources.assignments).length > 0 || 
                   Object.keys(groupedResources.papers).length > 0 ? groupedResources : null,
-            triggeringSubjects: uniqueUpcomingSubjects
+            triggeringSubjects: uniqueUpcomingSubjects,
+            exams: examsToDisplay
         };
 
         const endTime = Date.now();
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { createSupabaseAdmin } from '@/lib/supabase';
 import { academicConfig } from '@/lib/academic-config';
+import { rateLimit, rateLimitExceededResponse } from '@/lib/rate-limit';
 
 // Helper function to sanitize payload for logging
 function sanitizeForLogging(payload: any): any {
@@ -144,6 +145,9 @@ export async function POST(request: Request) {
   const email = session?.user?.email?.toLowerCase();
   if (!email) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
+  const limit = await rateLimit('profile', email);
+  if (!limit.allowed) return rateLimitExceededResponse(limit);
+
   let body: any;
   try {
     body = await request.json();
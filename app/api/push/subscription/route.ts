@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUserContext } from '@/lib/auth-permissions'
+import {
+  countPushSubscriptions,
+  deletePushSubscriptions,
+  getVapidPublicKey,
+  isPushConfigured,
+  parsePushSubscription,
+  savePushSubscription
+} from '@/lib/push'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/push/subscription
+ * Whether push is available, the VAPID public key browsers subscribe with, and how many of the
+ * signed-in user's devices are subscribed
+ */
+export async function GET() {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    return NextResponse.json({
+      enabled: isPushConfigured(),
+      publicKey: getVapidPublicKey(),
+      devices: await countPushSubscriptions(userContext.email)
+    })
+  } catch (error) {
+    console.error('Push subscription GET error:', error)
+    return NextResponse.json({ error: 'Failed to load push notifications' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/push/subscription
+ * Body: the browser's PushSubscription (subscription.toJSON())
+ */
+export async function POST(request: Request) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!isPushConfigured()) return NextResponse.json({ error: 'Push notifications are not configured' }, { status: 503 })
+
+  const subscription = parsePushSubscription(await request.json().catch(() => null))
+  if (!subscription) return NextResponse.json({ error: 'Invalid push subscription' }, { status: 400 })
+
+  try {
+    await savePushSubscription(userContext.email, subscription, request.headers.get('user-agent'))
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Push subscription POST error:', error)
+    return NextResponse.json({ error: 'Failed to save push subscription' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/push/subscription
+ * Body: { endpoint?: string } — unsubscribes that device, or every device when omitted
+ */
+export async function DELETE(request: Request) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const body = await request.json().catch(() => ({}))
+  const endpoint = typeof body?.endpoint === 'string' ? body.endpoint : undefined
+  try {
+    const removed = await deletePushSubscriptions(userContext.email, endpoint)
+    return NextResponse.json({ removed })
+  } catch (error) {
+    console.error('Push subscription DELETE error:', error)
+    return NextResponse.json({ error: 'Failed to remove push subscription' }, { status: 500 })
+  }
+}
@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { createSupabaseAdmin } from '@/lib/supabase';
+import { REMINDER_COLUMNS, expandReminders, reminderWindow } from '@/lib/reminders';
 const supabaseAdmin = createSupabaseAdmin();
 
 // Define the structure for a reminder item
@@ -13,8 +14,16 @@ interface Reminder {
   description?: string;
   icon_type?: string;
   status?: string;
+  // Set for occurrences of a recurring reminder and occurrences edited on their own
+  series_id: string | null;
+  recurrence_rule: string | null;
 }
 
+/**
+ * GET /api/reminders
+ * Reminders for the caller's year and branch. Recurring reminders are listed once per occurrence
+ * between `from` and `to` (YYYY-MM-DD; default today and the following 60 days).
+ */
 export async function GET(request: Request) {
   console.log(`\nAPI Route (Reminders): Received request at ${new Date().toISOString()}`);
 
@@ -28,6 +37,10 @@ export async function GET(request: Request) {
     if (year && !/^\d+$/.test(year)) {
       return NextResponse.json({ error: 'Invalid year parameter' }, { status: 400 });
     }
+    const window = reminderWindow(searchParams.get('from'), searchParams.get('to'));
+    if (!window) {
+      return NextResponse.json({ error: 'from and to must be YYYY-MM-DD dates, from before to' }, { status: 400 });
+    }
 
     console.log(
       `API Route (Reminders): Querying Supabase for reminders${status ? ` with status=${status}` : ''}...`
@@ -55,7 +68,7 @@ export async function GET(request: Request) {
 
     let query = supabaseAdmin
       .from('reminders')
-      .select('id,title,due_date,description,icon_type,status')
+      .select(REMINDER_COLUMNS)
       .is('deleted_at', null)
       .order('due_date', { ascending: true });
 
@@ -81,13 +94,15 @@ export async function GET(request: Request) {
     console.log(`API Route (Reminders): Found ${reminders?.length || 0} reminders`);
 
     // Transform the data to match the expected format
-    const activeReminders: Reminder[] = (reminders || []).map(reminder => ({
+    const activeReminders: Reminder[] = expandReminders(reminders || [], window).map(reminder => ({
       id: reminder.id,
       title: reminder.title,
       due_date: reminder.due_date,
       description: reminder.description || '',
       icon_type: reminder.icon_type || '',
-      status: reminder.status || ''
+      status: reminder.status || '',
+      series_id: reminder.series_id,
+      recurrence_rule: reminder.recurrence_rule || null
     }));
 
     console.log(`API Route (Reminders): Returning ${activeReminders.length} reminders`);
@@ -2,12 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUserContext, canManageResources } from '@/lib/auth-permissions'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import { logAudit } from '@/lib/audit'
-import { tryParseDriveIdFromUrl, tryParseStoragePathFromUrl } from '@/lib/files'
-import { google } from 'googleapis'
+import { tryRecordResourceVersion } from '@/lib/resource-versions'
+import { getTrashRetentionDays, purgeDateFor } from '@/lib/trash'
+import { tryRevokeResourceFileTokens } from '@/lib/secure-file-tokens'
 
 /**
  * DELETE /api/representative/resources/[id]
- * Delete a resource (representatives can only delete resources they can manage)
+ * Move a resource to the trash (representatives can only delete resources they can manage)
  */
 export async function DELETE(
   request: NextRequest,
@@ -31,7 +32,7 @@ export async function DELETE(
       .from('resources')
       .select(`
         id, title, name, url, drive_link, file_type, is_pdf,
-        branch_id, year_id, semester_id, uploader_id,
+        branch_id, year_id, semester_id, uploader_id, deleted_at,
         branches:branch_id(id, name, code),
         years:year_id(id, batch_year, display_name)
       `)
@@ -51,64 +52,40 @@ export async function DELETE(
       )
     }
 
-    // Try to delete the actual file
-    let fileDeleteSuccess = false
-    let fileDeleteError = null
-
-    try {
-      const fileUrl = resource.drive_link || resource.url
-      
-      if (fileUrl) {
-        // Try Drive first
-        const driveId = tryParseDriveIdFromUrl(fileUrl)
-        if (driveId) {
-          await deleteDriveFile(driveId)
-          fileDeleteSuccess = true
-        } else {
-          // Try Supabase Storage
-          const storagePath = tryParseStoragePathFromUrl(fileUrl)
-          if (storagePath) {
-            await deleteStorageFile(storagePath)
-            fileDeleteSuccess = true
-          }
-        }
-      }
-    } catch (err) {
-      fileDeleteError = err instanceof Error ? err.message : 'Unknown file deletion error'
-      console.warn('File deletion failed, proceeding with DB deletion:', fileDeleteError)
+    if (resource.deleted_at) {
+      return NextResponse.json({ error: 'Resource is already in the trash' }, { status: 409 })
     }
 
-    // Delete from database
+    // Move to the trash; the purge job removes the file after the retention period
+    const deletedAt = new Date().toISOString()
     const { error: deleteError } = await supabase
       .from('resources')
-      .delete()
+      .update({ deleted_at: deletedAt, deleted_by: userContext.email })
       .eq('id', resourceId)
 
     if (deleteError) {
-      console.error('Error deleting resource from database:', deleteError)
+      console.error('Error moving resource to trash:', deleteError)
       return NextResponse.json({ error: 'Failed to delete resource' }, { status: 500 })
     }
 
+    await tryRevokeResourceFileTokens(resourceId, { email: userContext.email, role: 'admin' }, 'resource moved to trash')
+
     // Log the deletion
     await logAudit({
-      actorEmail: userContext.email,
-      actorRole: 'admin', // Representatives log as admin for audit purposes
-      action: 'delete',
+      actor_email: userContext.email,
+      actor_role: 'admin', // Representatives log as admin for audit purposes
+      action: 'soft_delete',
       entity: 'resource',
-      entityId: resourceId,
-      success: true,
-      message: `Representative deleted resource: ${resource.title || resource.name}`,
-      beforeData: resource,
-      afterData: {
-        fileDeleteSuccess,
-        fileDeleteError
-      }
+      entity_id: resourceId,
+      message: `Representative moved resource to trash: ${resource.title || resource.name}`,
+      before_data: resource
     })
 
+    const retentionDays = await getTrashRetentionDays()
     return NextResponse.json({
       success: true,
-      fileDeleteSuccess,
-      fileDeleteError
+      softDeleted: true,
+      purgeAt: purgeDateFor(deletedAt, retentionDays)
     })
   } catch (error) {
     console.error('Representative resource deletion error:', error)
@@ -150,6 +127,9 @@ export async function PATCH(
     if (fetchError || !currentResource) {
       return NextResponse.json({ error: 'Resource not found' }, { status: 404 })
     }
+    if (currentResource.deleted_at) {
+      return NextResponse.json({ error: 'Restore the resource from the trash before editing it' }, { status: 409 })
+    }
 
     // Check if representative can manage this resource
     const canManage = await canManageResources(currentResource.branch_id, currentResource.year_id)
@@ -180,6 +160,12 @@ export async function PATCH(
       return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 })
     }
 
+    // Editing a rejected upload sends it back to the moderation queue
+    if (currentResource.moderation_status === 'rejected') {
+      updateData.moderation_status = 'pending'
+      updateData.moderation_reason = null
+    }
+
     // Update the resource
     const { data: updatedResource, error: updateError } = await supabase
       .from('resources')
@@ -193,6 +179,16 @@ export async function PATCH(
       return NextResponse.json({ error: 'Failed to update resource' }, { status: 500 })
     }
 
+    await tryRecordResourceVersion({
+      resourceId,
+      before: currentResource,
+      after: updatedResource,
+      actor: { email: userContext.email, role: 'representative' }
+    })
+    if (updatedResource.archived && !currentResource.archived) {
+      await tryRevokeResourceFileTokens(resourceId, { email: userContext.email, role: 'admin' }, 'resource archived')
+    }
+
     // Log the update
     await logAudit({
       actorEmail: userContext.email,
@@ -215,47 +211,3 @@ export async function PATCH(
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
-
-// Helper functions for file deletion
-async function deleteDriveFile(driveId: string) {
-  let credentials;
-  try {
-    const rawB64 = process.env.GOOGLE_APPLICATION_CREDENTIALS_B64
-    const rawJson = process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON
-    let raw = rawJson || '{}'
-    if (rawB64) {
-      try {
-        raw = Buffer.from(rawB64, 'base64').toString('utf8')
-      } catch (e) {
-        console.error('Failed to decode GOOGLE_APPLICATION_CREDENTIALS_B64:', e)
-        throw e
-      }
-    }
-    credentials = JSON.parse(raw)
-    if (!credentials.client_email || !credentials.private_key) {
-      throw new Error('Invalid Google credentials')
-    }
-  } catch (err) {
-    throw new Error('Google Drive configuration error')
-  }
-  
-  const auth = new google.auth.GoogleAuth({
-    credentials,
-    scopes: ['https://www.googleapis.com/auth/drive']
-  })
-  const drive = google.drive({ version: 'v3', auth })
-  
-  await drive.files.delete({ fileId: driveId })
-}
-
-async function deleteStorageFile(storagePath: string) {
-  const supabase = createSupabaseAdmin()
-  const { data: settings } = await supabase.from('settings').select('*').single()
-  const bucket = settings?.storage_bucket || 'resources'
-  
-  const { error } = await supabase.storage
-    .from(bucket)
-    .remove([storagePath])
-  
-  if (error) throw error
-}
@@ -1,10 +1,20 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { getCurrentUserContext, requirePermission, canManageResources } from '@/lib/auth-permissions'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import { logAudit } from '@/lib/audit'
 import { validateFile } from '@/lib/file-validation'
-import { google } from 'googleapis'
-import { Readable } from 'stream'
+import { scanUpload } from '@/lib/virus-scan'
+import { indexResourceText, indexStoredResourceText } from '@/lib/pdf-text'
+import { canGenerateThumbnail, generateResourceThumbnail, generateStoredResourceThumbnail } from '@/lib/thumbnails'
+import { convertResourceToPdf, convertStoredResourceToPdf, isConvertibleOfficeFile } from '@/lib/office-convert'
+import { claimCompletedUpload, markUploadConsumed, releaseUploadClaim, discardCompletedUpload } from '@/lib/resumable-upload'
+import { sha256Hex, findDuplicateResource, DuplicateResource } from '@/lib/content-hash'
+import { tryRecordResourceVersion } from '@/lib/resource-versions'
+import { requiresRepApproval } from '@/lib/moderation'
+import { rateLimit, rateLimitExceededResponse } from '@/lib/rate-limit'
+import { getSettings } from '@/lib/admin-auth'
+import { storeResourceFile } from '@/lib/files'
+import { sendPushToAudience, resourcePushPayload } from '@/lib/push'
 
 export const runtime = 'nodejs'
 
@@ -15,6 +25,13 @@ function toInt(value: unknown): number | null {
   return Number.isFinite(n) ? n : null
 }
 
+function duplicateResponse(existing: DuplicateResource) {
+  return NextResponse.json({
+    error: 'This file has already been uploaded for this subject',
+    existing
+  }, { status: 409 })
+}
+
 /**
  * GET /api/representative/resources
  * Get resources that the representative can manage
@@ -59,6 +76,7 @@ export async function GET(request: NextRequest) {
       `, { count: 'exact' })
       .in('branch_id', assignedBranchIds)
       .in('year_id', assignedYearIds)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false })
 
     // Apply additional filters
@@ -135,6 +153,12 @@ export async function POST(request: NextRequest) {
       console.log(`${REQ_DEBUG_PREFIX} Parsed JSON payload: keys: ${Object.keys(payload).join(', ')}`);
     }
 
+    // Files sent in parts were counted when their upload was started (POST /api/uploads)
+    if (file || !payload.upload_id) {
+      const limit = await rateLimit('upload', userContext.email);
+      if (!limit.allowed) return rateLimitExceededResponse(limit);
+    }
+
     // Normalize ID fields to accept either snake_case or camelCase from clients
     const branchId = payload.branch_id || payload.branchId || payload.branch || null
     const yearId = payload.year_id || payload.yearId || payload.year || null
@@ -165,6 +189,12 @@ export async function POST(request: NextRequest) {
 
     let url: string | undefined;
     let fileType: string | undefined;
+    let pdfBuffer: Buffer | null = null;
+    let fileBuffer: Buffer | null = null;
+    let fileName: string | null = null;
+    let claimedUploadId: string | null = null;
+    let contentHash: string | null = null;
+    const offering = { subject: String(payload.subject || 'general'), branchId, yearId, semesterId };
 
     if (file) {
       console.log(`${REQ_DEBUG_PREFIX} File detected for upload.`);
@@ -187,22 +217,50 @@ export async function POST(request: NextRequest) {
       console.log(`${REQ_DEBUG_PREFIX} File validation successful. Detected MIME: ${validation.detectedMime}.`);
 
       const effectiveMime = (validation.detectedMime || clientMime || '').toLowerCase();
+      const scan = await scanUpload(buffer, originalName, { mimeType: effectiveMime, uploadedBy: userContext.email });
+      if (!scan.ok) {
+        console.error(`${REQ_DEBUG_PREFIX} Virus scan rejected the file:`, scan.reason);
+        return NextResponse.json({ error: 'File rejected by virus scan', reason: scan.reason }, { status: scan.unavailable ? 503 : 422 });
+      }
       const isPdf = effectiveMime === 'application/pdf' || originalName.toLowerCase().endsWith('.pdf');
       fileType = effectiveMime;
       console.log(`${REQ_DEBUG_PREFIX} Effective MIME: ${effectiveMime}, Is PDF: ${isPdf}.`);
+      if (isPdf) pdfBuffer = buffer;
+      fileBuffer = buffer;
+      fileName = originalName;
+
+      // Same notes re-uploaded by another section's rep: point at the existing resource instead of storing a copy
+      contentHash = sha256Hex(buffer);
+      const existing = await findDuplicateResource({ contentHash, ...offering });
+      if (existing) {
+        console.warn(`${REQ_DEBUG_PREFIX} Duplicate upload rejected; matches resource ${existing.id}.`);
+        return duplicateResponse(existing);
+      }
 
-      // Upload to appropriate storage
-      if (isPdf) {
-        console.log(`${REQ_DEBUG_PREFIX} Uploading PDF to Google Drive.`);
-        const uploaded = await uploadToDrive(buffer, originalName, effectiveMime, payload.description);
-        url = uploaded.url;
-        console.log(`${REQ_DEBUG_PREFIX} Google Drive upload successful. URL: ${url}`);
-      } else {
-        console.log(`${REQ_DEBUG_PREFIX} Uploading to Supabase Storage.`);
-        const uploaded = await uploadToStorage(buffer, originalName, effectiveMime);
-        url = uploaded.url;
-        console.log(`${REQ_DEBUG_PREFIX} Supabase Storage upload successful. URL: ${url}`);
+      // Upload to the backend chosen by the storage settings
+      const settings = await getSettings();
+      const stored = await storeResourceFile(buffer, originalName, effectiveMime, { isPdf, settings, description: payload.description || undefined });
+      url = stored.url;
+      console.log(`${REQ_DEBUG_PREFIX} Upload to ${stored.location} successful. URL: ${url}`);
+    } else if (payload.upload_id) {
+      // File was sent in parts through /api/uploads and is already stored
+      const upload = await claimCompletedUpload(String(payload.upload_id), userContext.email);
+      if (!upload || !upload.file_url) {
+        console.error(`${REQ_DEBUG_PREFIX} Upload ${payload.upload_id} not found, not completed or already used.`);
+        return NextResponse.json({ error: 'Upload not found, not completed or already used' }, { status: 400 });
+      }
+      contentHash = upload.content_hash;
+      const existing = contentHash ? await findDuplicateResource({ contentHash, ...offering }) : null;
+      if (existing) {
+        console.warn(`${REQ_DEBUG_PREFIX} Duplicate chunked upload ${upload.id}; matches resource ${existing.id}. Discarding stored copy.`);
+        await discardCompletedUpload(upload);
+        return duplicateResponse(existing);
       }
+      url = upload.file_url;
+      fileType = upload.mime_type;
+      claimedUploadId = upload.id;
+      fileName = upload.filename;
+      console.log(`${REQ_DEBUG_PREFIX} Using chunked upload ${upload.id}: ${url}`);
     } else if (payload.url) {
       url = String(payload.url);
       fileType = url.toLowerCase().includes('drive.google.com') ? 'application/pdf' : 'unknown';
@@ -212,6 +270,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Either file or url is required' }, { status: 400 });
     }
 
+    const category = payload.category || 'resource';
+    const needsApproval = await requiresRepApproval(String(category));
+
     const insertPayload = {
       title: String(payload.title),
       description: payload.description ? String(payload.description) : null,
@@ -224,10 +285,14 @@ export async function POST(request: NextRequest) {
       uploader_id: userContext.id,
       // Legacy fields for backward compatibility
       name: String(payload.title),
-      category: payload.category || 'resource',
+      category,
       subject: payload.subject || 'general',
       unit: payload.unit ? toInt(payload.unit) : 1,
-      is_pdf: fileType?.includes('pdf') || false
+      is_pdf: fileType?.includes('pdf') || false,
+      content_hash: contentHash,
+      // Held back from students until an admin approves it when moderation is on
+      moderation_status: needsApproval ? 'pending' : 'approved',
+      submitted_by: userContext.email
     };
     console.log(`${REQ_DEBUG_PREFIX} Insert payload prepared:`, insertPayload);
 
@@ -239,10 +304,35 @@ export async function POST(request: NextRequest) {
 
     if (error) {
       console.error(`${REQ_DEBUG_PREFIX} Error creating resource in database:`, error);
+      if (claimedUploadId) await releaseUploadClaim(claimedUploadId);
       return NextResponse.json({ error: 'Failed to create resource' }, { status: 500 });
     }
     console.log(`${REQ_DEBUG_PREFIX} Resource created successfully with ID: ${data.id}.`);
 
+    if (claimedUploadId) await markUploadConsumed(claimedUploadId, data.id);
+    await tryRecordResourceVersion({ resourceId: data.id, after: insertPayload, actor: { email: userContext.email, role: 'representative' } });
+
+    // Extract PDF text for search once the response has been sent
+    if (pdfBuffer) {
+      const buffer = pdfBuffer;
+      after(() => indexResourceText(data.id, buffer));
+    } else if (claimedUploadId && fileType === 'application/pdf') {
+      after(() => indexStoredResourceText(data.id, { url }));
+    }
+
+    // Preview image for the subject page grid; Office files get theirs from the PDF rendition
+    const previewMime = fileType || null;
+    const officeName = fileName && isConvertibleOfficeFile(previewMime, fileName) ? fileName : null;
+    if (fileBuffer) {
+      const buffer = fileBuffer;
+      if (officeName) after(() => convertResourceToPdf(data.id, buffer, officeName));
+      else after(() => generateResourceThumbnail(data.id, buffer, previewMime));
+    } else if (claimedUploadId && officeName) {
+      after(() => convertStoredResourceToPdf(data.id, { url }, officeName));
+    } else if (claimedUploadId && canGenerateThumbnail(previewMime)) {
+      after(() => generateStoredResourceThumbnail(data.id, { url }));
+    }
+
     // Log the action
     await logAudit({
       actorEmail: userContext.email,
@@ -256,6 +346,10 @@ export async function POST(request: NextRequest) {
     });
     console.log(`${REQ_DEBUG_PREFIX} Audit log created.`);
 
+    if (!needsApproval) {
+      after(() => sendPushToAudience({ branchId, yearId }, resourcePushPayload({ id: data.id, ...insertPayload })));
+    }
+
     return NextResponse.json({ id: data.id, ...insertPayload });
   } catch (error: any) {
     console.error(`${REQ_DEBUG_PREFIX} Representative resource creation error:`, error);
@@ -265,78 +359,3 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
-
-// Helper functions for file upload (duplicated from admin route for now)
-async function uploadToDrive(fileBuffer: Buffer, fileName: string, mime: string, description?: string) {
-  // Get settings
-  const supabase = createSupabaseAdmin()
-  const { data: settings } = await supabase.from('settings').select('*').single()
-  const driveFolderId = settings?.drive_folder_id || process.env.GOOGLE_DRIVE_FOLDER_ID
-  
-  if (!driveFolderId) throw new Error('Drive folder id not configured')
-  
-  let credentials;
-  try {
-    const rawB64 = process.env.GOOGLE_APPLICATION_CREDENTIALS_B64
-    const rawJson = process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON
-    let raw = rawJson || '{}'
-    if (rawB64) {
-      try {
-        raw = Buffer.from(rawB64, 'base64').toString('utf8')
-      } catch (e) {
-        console.error('Failed to decode GOOGLE_APPLICATION_CREDENTIALS_B64:', e)
-        throw e
-      }
-    }
-    credentials = JSON.parse(raw)
-    if (!credentials.client_email || !credentials.private_key) {
-      throw new Error('Invalid Google credentials: missing required fields')
-    }
-  } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : 'Failed to parse Google credentials'
-    console.error('Google credentials validation error:', errorMessage)
-    throw new Error('Google Drive configuration error')
-  }
-  
-  const auth = new google.auth.GoogleAuth({ 
-    credentials, 
-    scopes: ['https://www.googleapis.com/auth/drive'] 
-  })
-  const drive = google.drive({ version: 'v3', auth })
-  const fileReadable = Readable.from(fileBuffer)
-  
-  const { data } = await drive.files.create({
-    requestBody: { name: fileName, parents: [driveFolderId], description },
-    media: { mimeType: mime || 'application/pdf', body: fileReadable },
-    fields: 'id,webViewLink',
-  })
-  
-  if (!data.id) throw new Error('Drive upload failed')
-  
-  await drive.permissions.create({ 
-    fileId: data.id, 
-    requestBody: { role: 'reader', type: 'anyone' } 
-  })
-  
-  const url = data.webViewLink || `https://drive.google.com/file/d/${data.id}/view?usp=sharing`
-  return { url }
-}
-
-async function uploadToStorage(fileBuffer: Buffer, fileName: string, mime?: string) {
-  const supabase = createSupabaseAdmin()
-  const { data: settings } = await supabase.from('settings').select('*').single()
-  const bucket = settings?.storage_bucket || 'resources'
-  
-  const uploadPath = `${Date.now()}-${fileName}`
-  const { error } = await supabase.storage
-    .from(bucket)
-    .upload(uploadPath, fileBuffer, { 
-      contentType: mime || undefined, 
-      duplex: 'half' as any 
-    })
-  
-  if (error) throw error
-  
-  const { data } = supabase.storage.from(bucket).getPublicUrl(uploadPath)
-  return { url: data.publicUrl }
-}
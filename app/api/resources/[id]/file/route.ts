@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getCurrentUserContext } from '@/lib/auth-permissions'
+import { generateSecureFileUrl } from '@/lib/files'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const DEBUG_PREFIX = '[API DEBUG ResourceFile]'
+
+/**
+ * GET /api/resources/[id]/file
+ * Open a resource stored in private storage: checks access and redirects to a short-lived secure URL.
+ * This is the `url` saved on restricted resources and on resources whose files were moved out of Google Drive.
+ * Office files open as their PDF rendition; pass ?original=1 for the uploaded file.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const original = new URL(request.url).searchParams.get('original') === '1'
+    const signed = await generateSecureFileUrl(params.id, userContext, { original })
+    if (!signed) return NextResponse.json({ error: 'Resource not found' }, { status: 404 })
+    return NextResponse.redirect(signed.url, { status: 302, headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    console.error(`${DEBUG_PREFIX} Failed to open resource ${params.id}:`, error instanceof Error ? error.message : error)
+    return NextResponse.json({ error: 'Failed to open file' }, { status: 500 })
+  }
+}
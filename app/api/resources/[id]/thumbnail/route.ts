@@ -0,0 +1,60 @@
+import { createHash } from 'crypto'
+import { NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getCurrentUserContext } from '@/lib/auth-permissions'
+import { checkResourceAccess } from '@/lib/files'
+import { locateResourceFile } from '@/lib/storage'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const DEBUG_PREFIX = '[API DEBUG ResourceThumbnail]'
+// Previews are small; anything bigger than this isn't one of ours
+const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024
+
+/**
+ * GET /api/resources/[id]/thumbnail
+ * Preview image of a resource (first PDF page or downscaled image) for the subject page grid.
+ * Previews of restricted resources are only shown to users who can open the file itself.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const supabase = createSupabaseAdmin()
+  const { data: resource, error } = await supabase
+    .from('resources')
+    .select('thumbnail_path, restricted, branch_id, year_id, semester_id')
+    .eq('id', params.id)
+    .is('deleted_at', null)
+    .maybeSingle()
+  if (error) {
+    console.error(`${DEBUG_PREFIX} Failed to load resource ${params.id}:`, error.message)
+    return NextResponse.json({ error: 'Failed to load preview' }, { status: 500 })
+  }
+  if (!resource?.thumbnail_path) return NextResponse.json({ error: 'Preview not found' }, { status: 404 })
+  if (resource.restricted && !(await checkResourceAccess(resource, userContext))) {
+    return NextResponse.json({ error: 'Preview not found' }, { status: 404 })
+  }
+
+  // A regenerated preview gets a new path, so the path identifies the image
+  const etag = `"${createHash('sha1').update(resource.thumbnail_path).digest('hex')}"`
+  const headers = { 'Cache-Control': 'private, max-age=86400', ETag: etag }
+  if (request.headers.get('if-none-match') === etag) return new Response(null, { status: 304, headers })
+
+  const located = locateResourceFile({ file_path: resource.thumbnail_path })
+  if (!located) return NextResponse.json({ error: 'Preview not found' }, { status: 404 })
+  try {
+    const file = await located.provider.download(located.key, { maxBytes: MAX_THUMBNAIL_BYTES })
+    if (!file) return NextResponse.json({ error: 'Preview not found' }, { status: 404 })
+    return new Response(new Uint8Array(file.buffer), {
+      headers: { ...headers, 'Content-Type': 'image/webp', 'Content-Length': String(file.buffer.length) }
+    })
+  } catch (err) {
+    console.error(`${DEBUG_PREFIX} Failed to read preview for ${params.id}:`, err instanceof Error ? err.message : err)
+    return NextResponse.json({ error: 'Failed to load preview' }, { status: 500 })
+  }
+}
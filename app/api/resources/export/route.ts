@@ -0,0 +1,115 @@
+import { NextResponse, after } from 'next/server'
+import { getCurrentUserContext } from '@/lib/auth-permissions'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { checkResourceAccess } from '@/lib/files'
+import { rateLimit, rateLimitExceededResponse, rateLimitHeaders } from '@/lib/rate-limit'
+import { createResourceZipStream, EXPORT_MAX_FILES, type ExportableResource } from '@/lib/resource-export'
+import { recordResourceDownloads } from '@/lib/download-analytics'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const DEBUG_PREFIX = '[API DEBUG ResourceExport]'
+
+function toFileName(value: string): string {
+  return value.replace(/[^a-z0-9-]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'resources'
+}
+
+/**
+ * GET /api/resources/export
+ * Query: subject & category (either or both), or scope=semester for everything in the caller's semester.
+ * Optional: unit=1,2,3 to limit units; branch_id/year_id/semester_id for admins and representatives.
+ * Streams a ZIP with a folder per unit; each file passes the same access check as secure file URLs.
+ */
+export async function GET(request: Request) {
+  const userContext = await getCurrentUserContext()
+  if (!userContext) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { searchParams } = new URL(request.url)
+  const subject = searchParams.get('subject')?.trim().toLowerCase() || null
+  const category = searchParams.get('category')?.trim().toLowerCase() || null
+  const wholeSemester = searchParams.get('scope') === 'semester'
+  if (!subject && !wholeSemester) {
+    return NextResponse.json({ error: 'Specify a subject, or scope=semester to export the whole semester' }, { status: 400 })
+  }
+
+  const units = (searchParams.get('unit') || '')
+    .split(',')
+    .map(u => Number.parseInt(u, 10))
+    .filter(u => Number.isInteger(u) && u > 0)
+
+  // Students always export their own offering; staff may pick one
+  let branchId: string | null = null
+  let yearId: string | null = null
+  let semesterId: string | null = null
+  if (userContext.role === 'student') {
+    branchId = userContext.branchId || null
+    yearId = userContext.yearId || null
+    semesterId = userContext.semesterId || null
+    if (!branchId || !yearId || !semesterId) {
+      return NextResponse.json({ error: 'Complete your profile to download resources' }, { status: 403 })
+    }
+  } else {
+    const assignment = userContext.role === 'representative' ? userContext.representativeAssignments?.[0] : undefined
+    branchId = searchParams.get('branch_id') || assignment?.branch_id || null
+    yearId = searchParams.get('year_id') || assignment?.year_id || null
+    semesterId = searchParams.get('semester_id') || null
+  }
+  if (wholeSemester && !semesterId) {
+    return NextResponse.json({ error: 'semester_id is required to export a whole semester' }, { status: 400 })
+  }
+
+  const limit = await rateLimit('export', userContext.email)
+  if (!limit.allowed) return rateLimitExceededResponse(limit)
+
+  const supabase = createSupabaseAdmin()
+  let query = supabase
+    .from('resources')
+    .select('id, name, title, category, subject, unit, url, drive_link, file_path, restricted, created_at, branch_id, year_id, semester_id')
+    .is('deleted_at', null)
+    .eq('moderation_status', 'approved')
+    .order('subject', { ascending: true })
+    .order('category', { ascending: true })
+    .order('unit', { ascending: true })
+    .order('created_at', { ascending: true })
+    .limit(EXPORT_MAX_FILES + 1)
+  if (subject) query = query.eq('subject', subject)
+  if (category) query = query.eq('category', category)
+  if (units.length > 0) query = query.in('unit', units)
+  if (branchId) query = query.eq('branch_id', branchId)
+  if (yearId) query = query.eq('year_id', yearId)
+  if (semesterId) query = query.eq('semester_id', semesterId)
+
+  const { data, error } = await query
+  if (error) {
+    console.error(`${DEBUG_PREFIX} Query failed:`, error)
+    return NextResponse.json({ error: 'Failed to load resources' }, { status: 500 })
+  }
+  if ((data || []).length > EXPORT_MAX_FILES) {
+    return NextResponse.json({ error: `More than ${EXPORT_MAX_FILES} files match; narrow the export by category or unit` }, { status: 413 })
+  }
+
+  const resources: ExportableResource[] = []
+  for (const resource of data || []) {
+    if (await checkResourceAccess(resource, userContext)) resources.push(resource)
+  }
+  if (resources.length === 0) {
+    return NextResponse.json({ error: 'No downloadable resources found' }, { status: 404 })
+  }
+
+  const fileName = toFileName([subject, category, wholeSemester && !subject ? 'semester' : null, units.length > 0 ? `unit-${units.join('-')}` : null].filter(Boolean).join('-'))
+  console.log(`${DEBUG_PREFIX} Streaming ${resources.length} files to ${userContext.email} as ${fileName}.zip`)
+
+  after(() => recordResourceDownloads(resources.filter(r => !r.restricted).map(r => r.id), userContext, 'export'))
+
+  const stream = createResourceZipStream(resources, { bySubject: !subject, byCategory: !category })
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${fileName}.zip"`,
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+      ...rateLimitHeaders(limit),
+    },
+  })
+}
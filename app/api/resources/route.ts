@@ -8,6 +8,8 @@ import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { createSupabaseAdmin } from '@/lib/supabase';
 import { Resource, ResourceFilters } from '@/lib/types';
 import { academicConfig } from '@/lib/academic-config';
+import { resourceThumbnailUrl } from '@/lib/thumbnails';
+import { resourceLinks } from '@/lib/files';
 
 export async function GET(request: Request) {
   console.log(`\nAPI Route: Received request at ${new Date().toISOString()}`);
@@ -146,12 +148,17 @@ export async function GET(request: Request) {
         unit,
         date,
         is_pdf,
+        thumbnail_path,
+        pdf_rendition_path,
+        restricted,
         branch:branches(id, name, code),
         year:years(id, batch_year, display_name),
         semester:semesters(id, semester_number)
       `)
       .eq('category', category)
       .eq('subject', subject)
+      .is('deleted_at', null)
+      .eq('moderation_status', 'approved')
       .order('unit', { ascending: true })
       .order('created_at', { ascending: false });
 
@@ -233,8 +240,8 @@ export async function GET(request: Request) {
        name: resource.name,
        title: resource.name, // Keep both for compatibility
        description: resource.description || '',
-       drive_link: resource.drive_link,
-       url: resource.url,
+       // Restricted files have no direct link; they open through /api/resources/[id]/file
+       ...resourceLinks(resource),
        file_type: resource.type,
        type: resource.type,
        branch_id: resource.branch_id,
@@ -248,6 +255,9 @@ export async function GET(request: Request) {
        unit: resource.unit,
        date: resource.date || resource.created_at,
        is_pdf: resource.is_pdf,
+       thumbnail_url: resource.thumbnail_path ? resourceThumbnailUrl(resource.id) : null,
+       has_pdf_rendition: Boolean(resource.pdf_rendition_path),
+       restricted: Boolean(resource.restricted),
        // Include relationship data (now single objects)
        branch: Array.isArray(resource.branch) ? resource.branch[0] : resource.branch,
        year: Array.isArray(resource.year) ? resource.year[0] : resource.year,
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUserContext } from '@/lib/auth-permissions'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { resolveSearchScope } from '@/lib/search'
+
+export const runtime = 'nodejs'
+
+const MIN_QUERY_LENGTH = 2
+const MAX_QUERY_LENGTH = 200
+
+interface SearchRow {
+  id: string
+  title: string | null
+  description: string | null
+  category: string
+  subject: string
+  unit: number | null
+  type: string | null
+  url: string | null
+  drive_link: string | null
+  branch_id: string | null
+  year_id: string | null
+  semester_id: string | null
+  created_at: string
+  rank: number
+  title_highlight: string | null
+  snippet: string | null
+  total_count: number
+}
+
+/**
+ * GET /api/search?q=dijkstra&category=notes&page=1&limit=20
+ * Ranked full-text search over every resource the caller can access
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userContext = await getCurrentUserContext()
+    if (!userContext) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const url = new URL(request.url)
+    const q = (url.searchParams.get('q') || '').trim()
+    const category = url.searchParams.get('category')?.toLowerCase() || null
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10) || 1)
+    const limit = Math.min(50, Math.max(1, parseInt(url.searchParams.get('limit') || '20', 10) || 20))
+
+    if (q.length < MIN_QUERY_LENGTH) {
+      return NextResponse.json({ error: `Query must be at least ${MIN_QUERY_LENGTH} characters` }, { status: 400 })
+    }
+    if (q.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json({ error: `Query must be at most ${MAX_QUERY_LENGTH} characters` }, { status: 400 })
+    }
+
+    const emptyMeta = { page, limit, count: 0, totalPages: 0, query: q }
+
+    const scope = await resolveSearchScope(userContext)
+    if (!scope) {
+      console.warn(`[search] No academic context for ${userContext.email}, returning empty results`)
+      return NextResponse.json({ data: [], meta: emptyMeta })
+    }
+
+    const supabase = createSupabaseAdmin()
+    const { data, error } = await supabase.rpc('search_resources', {
+      p_query: q,
+      p_unrestricted: scope.unrestricted,
+      p_classes: scope.classes,
+      p_semester_id: scope.semesterId,
+      p_shared: scope.shared,
+      p_category: category,
+      p_limit: limit,
+      p_offset: (page - 1) * limit
+    })
+
+    if (error) {
+      console.error('[search] search_resources failed:', error)
+      return NextResponse.json({ error: 'Search failed' }, { status: 500 })
+    }
+
+    const rows = (data || []) as SearchRow[]
+    const count = rows.length > 0 ? Number(rows[0].total_count) : 0
+
+    return NextResponse.json({
+      data: rows,
+      meta: { ...emptyMeta, count, totalPages: Math.ceil(count / limit) }
+    })
+  } catch (error) {
+    console.error('[search] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,14 +1,29 @@
 // app/api/secure-file/[token]/route.ts
-// Secure file access endpoint for Google Drive files during migration
+// Secure file access endpoint: every resource link is a registered token served through here, so use limits,
+// revocation and watermarking of restricted files apply to all storage backends.
+// Supports Range requests (seeking, resumed downloads) and ETag / Last-Modified revalidation.
+// Office files with a PDF rendition are served as the PDF unless ?original=1 is given; restricted files
+// are always the watermarked PDF.
 
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '../../auth/[...nextauth]/route';
-import { google } from 'googleapis';
+import { Readable } from 'stream';
 import { createSupabaseAdmin } from '@/lib/supabase';
 import { UserContext } from '@/lib/types/auth';
 import jwt from 'jsonwebtoken';
-import { checkRateLimit } from '@/lib/files';
+import { rateLimit, rateLimitExceededResponse, rateLimitHeaders } from '@/lib/rate-limit';
+import { recordResourceDownloads } from '@/lib/download-analytics';
+import { consumeSecureFileToken, checkSecureFileToken, type SecureTokenStatus } from '@/lib/secure-file-tokens';
+import { statResourceFile, openResourceFileStream, downloadResourceFile, isModerationVisible, MAX_DOWNLOAD_SIZE_BYTES } from '@/lib/files';
+import { watermarkPdf } from '@/lib/pdf-watermark';
+import {
+  parseRange,
+  isContinuationRange,
+  isRangeStillValid,
+  checkConditionalRequest,
+  contentDisposition
+} from '@/lib/http-range';
 
 export async function GET(
   request: Request,
@@ -32,13 +47,6 @@ export async function GET(
       return NextResponse.json({ error: 'Invalid or expired token' }, { status: 403 });
     }
 
-    // 2.5. Rate limiting check
-    const rateLimitKey = session.user.email?.toLowerCase() || 'anonymous';
-    if (!checkRateLimit(rateLimitKey, 'secure-file-download', 20, 60000)) { // 20 downloads per minute
-      console.warn(`${DEBUG_PREFIX} Rate limit exceeded for user ${rateLimitKey}`);
-      return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 });
-    }
-
     // 3. Get user context and check permissions
     const supabase = createSupabaseAdmin();
 
@@ -71,30 +79,139 @@ export async function GET(
     }
 
     // 4. Check if user has access to this file (through resource permissions)
-    const hasAccess = await checkFileAccess(tokenData.fileId, userContext);
-    if (!hasAccess) {
+    const resource = await checkFileAccess(tokenData, userContext);
+    if (!resource) {
       console.warn(`${DEBUG_PREFIX} Access denied for user ${userContext.email} to file ${tokenData.fileId}`);
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
-    // 5. Serve the file from Google Drive
-    const fileBuffer = await downloadFromGoogleDrive(tokenData.fileId);
-    if (!fileBuffer) {
-      console.error(`${DEBUG_PREFIX} Failed to download file from Google Drive`);
+    // 4.2. Range requests that continue a download started within the last few minutes are neither
+    // counted as a use nor recorded again, and only fall under the looser download_range limit.
+    // Anything else (including a first request that opens with a Range) is a new download.
+    // Restricted files are watermarked per request, so every request is a full download.
+    const rangeHeader = resource.restricted ? null : request.headers.get('range');
+    let status: SecureTokenStatus | 'not_started' = isContinuationRange(rangeHeader)
+      ? await checkSecureFileToken(tokenData.jti, userContext.email)
+      : 'not_started';
+    const continuing = status === 'ok';
+    const rateLimitKey = userContext.email.toLowerCase();
+    const limit = await rateLimit(continuing ? 'download_range' : 'download', rateLimitKey); // shared across instances
+    if (!limit.allowed) {
+      console.warn(`${DEBUG_PREFIX} Rate limit exceeded for user ${rateLimitKey}`);
+      return rateLimitExceededResponse(limit);
+    }
+
+    // 4.5. Check the token against the registry (revocation and use limits); a new download counts as a use
+    if (status === 'not_started') {
+      status = (await consumeSecureFileToken(tokenData.jti, userContext.email)).status;
+    }
+    if (status !== 'ok') {
+      console.warn(`${DEBUG_PREFIX} Token ${tokenData.jti} refused: ${status}`);
+      if (status === 'revoked') {
+        return NextResponse.json({ error: 'This link has been revoked' }, { status: 410 });
+      }
+      if (status === 'exhausted') {
+        return NextResponse.json({ error: 'This link has already been used' }, { status: 410 });
+      }
+      return NextResponse.json({ error: 'Invalid or expired token' }, { status: 403 });
+    }
+
+    // 5. Look up the file and answer conditional requests
+    const url = new URL(request.url);
+    // Restricted files are only ever served as a watermarked PDF, so their original can't be requested
+    const wantsOriginal = url.searchParams.get('original') === '1' && !resource.restricted;
+    const source = resource.pdf_rendition_path && !wantsOriginal
+      ? { file_path: resource.pdf_rendition_path }
+      : resource;
+    const stat = await statResourceFile(source);
+    if (!stat) {
+      console.error(`${DEBUG_PREFIX} File for resource ${resource.id} not found in storage`);
+      return NextResponse.json({ error: 'File not available' }, { status: 404 });
+    }
+    if (stat.size > MAX_DOWNLOAD_SIZE_BYTES) {
+      console.error(`${DEBUG_PREFIX} File too large: ${stat.size} bytes`);
+      return NextResponse.json({ error: 'File too large' }, { status: 413 });
+    }
+
+    const disposition = url.searchParams.get('download') === '1' ? 'attachment' : 'inline';
+
+    // 5.5. Restricted PDFs are stamped with the student's identity; the result differs per download,
+    // so it is neither cacheable nor range-addressable
+    const isPdf = stat.mimeType === 'application/pdf' || stat.fileName.toLowerCase().endsWith('.pdf');
+    if (resource.restricted && !isPdf) {
+      console.warn(`${DEBUG_PREFIX} Refusing unwatermarkable restricted resource ${resource.id}`);
+      return NextResponse.json({ error: 'This restricted file is not available as a PDF yet' }, { status: 403 });
+    }
+    if (resource.restricted) {
+      const original = await downloadResourceFile(source);
+      if (!original) {
+        console.error(`${DEBUG_PREFIX} Failed to download restricted file for resource ${resource.id}`);
+        return NextResponse.json({ error: 'File not available' }, { status: 404 });
+      }
+      let stamped: Uint8Array;
+      try {
+        stamped = await watermarkPdf(original.buffer, {
+          email: userContext.email,
+          rollNumber: userContext.rollNumber,
+          downloadedAt: new Date()
+        });
+      } catch (watermarkError) {
+        console.error(`${DEBUG_PREFIX} Could not watermark resource ${resource.id}:`, watermarkError);
+        return NextResponse.json({ error: 'This file cannot be prepared for download' }, { status: 422 });
+      }
+
+      console.log(`${DEBUG_PREFIX} Serving watermarked file to ${userContext.email}`);
+      await recordResourceDownloads([resource.id], userContext, 'secure_file');
+      return new Response(Buffer.from(stamped), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': contentDisposition(disposition, stat.fileName),
+          'Content-Length': String(stamped.byteLength),
+          'Accept-Ranges': 'none',
+          'Cache-Control': 'private, no-store',
+          'X-Content-Type-Options': 'nosniff',
+          ...rateLimitHeaders(limit),
+        },
+      });
+    }
+
+    const headers: Record<string, string> = {
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, no-cache',
+      'X-Content-Type-Options': 'nosniff',
+      ...rateLimitHeaders(limit),
+    };
+    if (stat.etag) headers['ETag'] = stat.etag;
+    if (stat.lastModified) headers['Last-Modified'] = stat.lastModified.toUTCString();
+
+    const conditional = checkConditionalRequest(request.headers, stat);
+    if (conditional) return new Response(null, { status: conditional, headers });
+
+    const range = isRangeStillValid(request.headers, stat) ? parseRange(rangeHeader, stat.size) : null;
+    if (range === 'unsatisfiable') {
+      return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${stat.size}` } });
+    }
+
+    // 6. Stream the file (or the requested bytes) from its storage backend
+    const file = await openResourceFileStream(source, range || undefined);
+    if (!file) {
+      console.error(`${DEBUG_PREFIX} Failed to open file for resource ${resource.id}`);
       return NextResponse.json({ error: 'File not available' }, { status: 404 });
     }
 
-    // 6. Return file with appropriate headers
-    console.log(`${DEBUG_PREFIX} Successfully serving secure file to ${userContext.email}`);
+    console.log(`${DEBUG_PREFIX} Serving secure file to ${userContext.email}${range ? ` (bytes ${range.start}-${range.end})` : ''}`);
+    if (!continuing) await recordResourceDownloads([resource.id], userContext, 'secure_file');
 
-    return new Response(fileBuffer, {
-      headers: {
-        'Content-Type': 'application/pdf',
-        'Content-Disposition': 'inline; filename="document.pdf"',
-        'Cache-Control': 'private, no-cache',
-        'X-Content-Type-Options': 'nosniff',
-      },
-    });
+    headers['Content-Type'] = stat.mimeType || file.mimeType || 'application/octet-stream';
+    headers['Content-Disposition'] = contentDisposition(disposition, stat.fileName);
+    const body = Readable.toWeb(Readable.from(file.stream)) as ReadableStream<Uint8Array>;
+    if (range) {
+      headers['Content-Range'] = `bytes ${range.start}-${range.end}/${stat.size}`;
+      headers['Content-Length'] = String(range.end - range.start + 1);
+      return new Response(body, { status: 206, headers });
+    }
+    headers['Content-Length'] = String(stat.size);
+    return new Response(body, { headers });
 
   } catch (error: any) {
     // Log detailed error only in non-production environments
@@ -114,7 +231,7 @@ export async function GET(
 /**
  * Validate the secure access JWT token
  */
-function validateSecureToken(token: string): { fileId: string; expiresAt: Date } | null {
+function validateSecureToken(token: string): { fileId: string; resourceId: string | null; jti: string; expiresAt: Date } | null {
   try {
     const jwtSecret = process.env.JWT_SECRET;
     if (!jwtSecret) {
@@ -124,8 +241,8 @@ function validateSecureToken(token: string): { fileId: string; expiresAt: Date }
 
     const decoded = jwt.verify(token, jwtSecret, { algorithms: ['HS256'] }) as any;
 
-    if (!decoded.fileId || !decoded.exp) {
-      console.warn('Invalid JWT payload: missing fileId or exp');
+    if (!decoded.fileId || !decoded.exp || !decoded.jti) {
+      console.warn('Invalid JWT payload: missing fileId, jti or exp');
       return null;
     }
 
@@ -137,6 +254,8 @@ function validateSecureToken(token: string): { fileId: string; expiresAt: Date }
 
     return {
       fileId: decoded.fileId,
+      resourceId: typeof decoded.rid === 'string' ? decoded.rid : null,
+      jti: decoded.jti,
       expiresAt
     };
   } catch (error) {
@@ -151,121 +270,70 @@ function validateSecureToken(token: string): { fileId: string; expiresAt: Date }
   }
 }
 
+type SecureFileResource = {
+  id: string;
+  url: string | null;
+  drive_link: string | null;
+  file_path: string | null;
+  restricted: boolean;
+  pdf_rendition_path: string | null;
+  moderation_status: string | null;
+  submitted_by: string | null;
+  branch_id: string;
+  year_id: string;
+  semester_id: string;
+};
+
 /**
- * Check if user has access to the specific file
+ * Check if user has access to the specific file; returns the matching resource when allowed
  */
-async function checkFileAccess(fileId: string, userContext: UserContext): Promise<boolean> {
+async function checkFileAccess(
+  tokenData: { fileId: string; resourceId: string | null },
+  userContext: UserContext
+): Promise<SecureFileResource | null> {
   const supabase = createSupabaseAdmin();
 
   try {
-    // Find the resource that corresponds to this file
-    const { data: resource, error } = await supabase
+    // Find the resource that corresponds to this file (older tokens only carry the Drive file id)
+    let query = supabase
       .from('resources')
-      .select('branch_id, year_id, semester_id')
-      .eq('drive_link', `https://drive.google.com/file/d/${fileId}/view`)
-      .single();
+      .select('id, url, drive_link, file_path, restricted, pdf_rendition_path, moderation_status, submitted_by, branch_id, year_id, semester_id')
+      .is('deleted_at', null);
+    query = tokenData.resourceId
+      ? query.eq('id', tokenData.resourceId)
+      : query.eq('drive_link', `https://drive.google.com/file/d/${tokenData.fileId}/view`);
+    const { data: resource, error } = await query.single();
 
     if (error || !resource) {
-      console.warn('Resource not found for file ID:', fileId);
-      return false;
+      console.warn('Resource not found for file ID:', tokenData.fileId);
+      return null;
     }
+    if (!isModerationVisible(resource, userContext)) return null;
 
     // Check permissions based on user role
     if (userContext.role === 'admin' || userContext.role === 'superadmin') {
-      return true;
+      return resource;
     }
 
     if (userContext.role === 'student') {
-      return (
+      const allowed =
         userContext.branchId === resource.branch_id &&
         userContext.yearId === resource.year_id &&
-        userContext.semesterId === resource.semester_id
-      );
+        userContext.semesterId === resource.semester_id;
+      return allowed ? resource : null;
     }
 
     if (userContext.role === 'representative') {
-      return userContext.representativeAssignments?.some(assignment =>
+      const allowed = userContext.representativeAssignments?.some(assignment =>
         assignment.branch_id === resource.branch_id &&
         assignment.year_id === resource.year_id
-      ) || false;
+      );
+      return allowed ? resource : null;
     }
 
-    return false;
+    return null;
   } catch (error) {
     console.error('Error checking file access:', error);
-    return false;
-  }
-}
-
-/**
- * Download file from Google Drive using service account
- */
-async function downloadFromGoogleDrive(fileId: string): Promise<Buffer | null> {
-  try {
-    // Get Google Drive credentials
-    let credentials;
-    try {
-      const rawB64 = process.env.GOOGLE_APPLICATION_CREDENTIALS_B64;
-      const rawJson = process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON;
-
-      // Check if either env var is present
-      if (!rawB64 && !rawJson) {
-        console.error('Google credentials not found: Both GOOGLE_APPLICATION_CREDENTIALS_B64 and GOOGLE_APPLICATION_CREDENTIALS_JSON environment variables are missing');
-        return null;
-      }
-
-      let raw: string;
-      if (rawB64) {
-        raw = Buffer.from(rawB64, 'base64').toString('utf8');
-      } else {
-        raw = rawJson!;
-      }
-
-      credentials = JSON.parse(raw);
-
-      // Validate that the parsed object contains required fields
-      if (!credentials.client_email || !credentials.private_key) {
-        console.error('Invalid Google credentials: Missing required fields client_email or private_key');
-        return null;
-      }
-    } catch (e) {
-      console.error('Failed to parse Google credentials for secure file access. Raw value length:', process.env.GOOGLE_APPLICATION_CREDENTIALS_B64?.length || process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON?.length || 0);
-      console.error('Parse error:', e);
-      return null;
-    }
-
-    const auth = new google.auth.GoogleAuth({
-      credentials,
-      scopes: ['https://www.googleapis.com/auth/drive']
-    });
-    const drive = google.drive({ version: 'v3', auth });
-
-    // Check file size before downloading
-    const metadataResponse = await drive.files.get({
-      fileId: fileId,
-      fields: 'size'
-    });
-
-    const fileSize = parseInt(metadataResponse.data.size || '0');
-    const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB limit
-
-    if (fileSize > MAX_FILE_SIZE) {
-      console.error(`File too large: ${fileSize} bytes`);
-      return null;
-    }
-
-    // Download the file
-    const response = await drive.files.get({
-      fileId: fileId,
-      alt: 'media'
-    }, {
-      responseType: 'arraybuffer',
-      timeout: 30000 // 30 second timeout
-    });
-
-    return Buffer.from(response.data as ArrayBuffer);
-  } catch (error) {
-    console.error('Error downloading from Google Drive:', error);
     return null;
   }
 }
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getCurrentUserContext, canPromoteSemester } from '@/lib/auth-permissions'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import { logAudit } from '@/lib/audit'
+import { rateLimit, rateLimitExceededResponse } from '@/lib/rate-limit'
 
 /**
  * POST /api/semester-promotion
@@ -15,6 +16,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    const limit = await rateLimit('promotion', userContext.email)
+    if (!limit.allowed) return rateLimitExceededResponse(limit)
+
     const body = await request.json()
     const { branchId, yearId, fromSemesterId, toSemesterId, notes } = body
 
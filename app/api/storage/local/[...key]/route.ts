@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { Readable } from 'stream'
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+import { storageProviderOverride } from '@/lib/storage'
+import { localDiskStorage, publicLocalKey } from '@/lib/storage/local'
+import { parseRange, isRangeStillValid, checkConditionalRequest, contentDisposition } from '@/lib/http-range'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/storage/local/[...key]
+ * Serve a public file from the local disk storage provider (STORAGE_PROVIDER=local).
+ * Private files are only reachable through /api/secure-file.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { key: string[] } }
+) {
+  if (storageProviderOverride() !== 'local') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const key = publicLocalKey(params.key)
+  if (!key) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  try {
+    const stat = await localDiskStorage.stat(key)
+    if (!stat) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+    const headers: Record<string, string> = {
+      'Content-Type': stat.mimeType || 'application/octet-stream',
+      'Content-Disposition': contentDisposition('inline', stat.fileName),
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, no-cache'
+    }
+    if (stat.etag) headers['ETag'] = stat.etag
+    if (stat.lastModified) headers['Last-Modified'] = stat.lastModified.toUTCString()
+
+    const conditional = checkConditionalRequest(request.headers, stat)
+    if (conditional) return new Response(null, { status: conditional, headers })
+
+    // A resume against a file that has since changed gets the whole file (If-Range)
+    const range = isRangeStillValid(request.headers, stat) ? parseRange(request.headers.get('range'), stat.size) : null
+    if (range === 'unsatisfiable') {
+      return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${stat.size}` } })
+    }
+
+    const file = await localDiskStorage.openStream(key, range || undefined)
+    const body = Readable.toWeb(Readable.from(file.stream)) as ReadableStream<Uint8Array>
+    if (range) {
+      headers['Content-Range'] = `bytes ${range.start}-${range.end}/${stat.size}`
+      headers['Content-Length'] = String(range.end - range.start + 1)
+      return new Response(body, { status: 206, headers })
+    }
+    headers['Content-Length'] = String(stat.size)
+    return new Response(body, { status: 200, headers })
+  } catch (error) {
+    console.error('[API DEBUG LocalStorage] Failed to serve file:', error instanceof Error ? error.message : error)
+    return NextResponse.json({ error: 'Failed to read file' }, { status: 500 })
+  }
+}
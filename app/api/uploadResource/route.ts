@@ -1,15 +1,22 @@
 // app/api/uploadResource/route.ts
 
-import { NextResponse } from 'next/server';
+import { NextResponse, after } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '../auth/[...nextauth]/route';
-import { google } from 'googleapis';
-import { Readable } from 'stream';
 import { createSupabaseAdmin } from '@/lib/supabase';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { validateFile, getFileExtension } from '@/lib/file-validation';
+import { scanUpload } from '@/lib/virus-scan';
 import { getSettings } from '@/lib/admin-auth'; // Import getSettings
 import { ResourceCreateInput } from '@/lib/types'; // Import ResourceCreateInput
+import { indexResourceText, indexStoredResourceText } from '@/lib/pdf-text';
+import { canGenerateThumbnail, generateResourceThumbnail, generateStoredResourceThumbnail } from '@/lib/thumbnails';
+import { convertResourceToPdf, convertStoredResourceToPdf, isConvertibleOfficeFile } from '@/lib/office-convert';
+import { sha256Hex } from '@/lib/content-hash';
+import { storeResourceFile } from '@/lib/files';
+import { STORAGE_LOCATION_LABELS } from '@/lib/storage';
+import { rateLimit, rateLimitExceededResponse } from '@/lib/rate-limit';
+import { claimCompletedUpload, markUploadConsumed, releaseUploadClaim } from '@/lib/resumable-upload';
 
 // Define ResourceInsert based on ResourceCreateInput and actual DB schema
 interface ResourceInsert extends ResourceCreateInput {
@@ -18,6 +25,7 @@ interface ResourceInsert extends ResourceCreateInput {
   uploaded_by: string;
   storage_location: string;
   resource_type: string;
+  content_hash: string | null;
   unit: number;
   category: string;
   subject: string;
@@ -28,12 +36,8 @@ const DEBUG_PREFIX = '[API DEBUG UploadResource]';
 
 // Environment Variables
 const authorizedEmails = (process.env.AUTHORIZED_EMAILS || '').split(',').map(email => email.trim()).filter(Boolean);
-const GOOGLE_DRIVE_FOLDER_ID = process.env.GOOGLE_DRIVE_FOLDER_ID;
-const SCOPES = [
-  'https://www.googleapis.com/auth/drive.file',
-];
 
-// Upload constraints
+// Upload constraints; larger files are sent in parts through /api/uploads and passed as upload_id
 const MAX_UPLOAD_BYTES = 25 * 1024 * 1024; // 25MB hard limit to avoid memory blowups
 
 // Lazy initializer for Supabase admin client (no module-scope side effects)
@@ -53,51 +57,6 @@ async function getSupabaseAdmin(): Promise<SupabaseClient> {
   }
 }
 
-async function getGoogleAuthClient() {
-  const FN_DEBUG_PREFIX = `${DEBUG_PREFIX} [getGoogleAuthClient]`;
-  try {
-    console.log(`${FN_DEBUG_PREFIX} Attempting to get Google Auth Client...`);
-    const rawB64 = process.env.GOOGLE_APPLICATION_CREDENTIALS_B64
-    const credentialsJSON = process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON;
-    let raw = credentialsJSON || '{}'
-    if (rawB64) {
-      try {
-        raw = Buffer.from(rawB64, 'base64').toString('utf8')
-        console.log(`${FN_DEBUG_PREFIX} Decoded GOOGLE_APPLICATION_CREDENTIALS_B64 successfully.`)
-      } catch (e) {
-        console.error(`${FN_DEBUG_PREFIX} Failed to decode GOOGLE_APPLICATION_CREDENTIALS_B64:`, e)
-        throw new Error('Server configuration error: Invalid base64 Google credentials.');
-      }
-    }
-
-    if (!raw || typeof raw !== 'string' || raw.trim() === '') {
-      console.error(`${FN_DEBUG_PREFIX} API Setup Error: Google credentials not set or empty.`);
-      throw new Error('Server configuration error: Google credentials missing or invalid.');
-    }
-
-    let credentials;
-    try {
-      credentials = JSON.parse(raw);
-      console.log(`${FN_DEBUG_PREFIX} Successfully parsed Google credentials.`);
-    } catch (parseError: any) {
-      console.error(`${FN_DEBUG_PREFIX} API Setup Error: Failed to parse Google credentials JSON.`, parseError.message);
-      throw new Error('Server configuration error: Invalid Google credentials format.');
-    }
-
-    const auth = new google.auth.GoogleAuth({
-      credentials,
-      scopes: SCOPES,
-    });
-
-    console.log(`${FN_DEBUG_PREFIX} Google Auth Client obtained successfully.`);
-    return auth;
-
-  } catch (error: any) {
-    console.error(`${FN_DEBUG_PREFIX} Error during Google Auth Client initialization:`, error.message);
-    throw new Error(`Server configuration error during auth setup: ${error.message}`);
-  }
-}
-
 async function getAuthorizedUser() {
   const FN_DEBUG_PREFIX = `${DEBUG_PREFIX} [getAuthorizedUser]`;
   console.log(`${FN_DEBUG_PREFIX} Attempting to get server session...`);
@@ -148,6 +107,7 @@ export async function POST(request: Request) {
 
     // Extract form fields
     const file: File | null = formData.get('theFile') as File | null;
+    const uploadId = formData.get('upload_id') as string | null;
     const title = formData.get('title') as string | null;
     const description = formData.get('description') as string | null;
     const category = formData.get('category') as string | null;
@@ -155,12 +115,18 @@ export async function POST(request: Request) {
     const unitRaw = formData.get('unit') as string | null;
     const resourceType = formData.get('resourceType') as string | null;
 
-    console.log(`${REQ_DEBUG_PREFIX} Extracted form data: title='${title}', description='${description}', category='${category}', subject='${subject}', unitRaw='${unitRaw}', resourceType='${resourceType}', file presence=${!!file}`);
+    console.log(`${REQ_DEBUG_PREFIX} Extracted form data: title='${title}', description='${description}', category='${category}', subject='${subject}', unitRaw='${unitRaw}', resourceType='${resourceType}', file presence=${!!file}, upload_id='${uploadId}'`);
 
     // Input Validation
-    if (!file) {
+    if (!file && !uploadId) {
       console.error(`${REQ_DEBUG_PREFIX} Validation Error: Missing file.`);
-      return NextResponse.json({ error: 'File is required.' }, { status: 400 });
+      return NextResponse.json({ error: 'A file or upload_id is required.' }, { status: 400 });
+    }
+
+    // Files sent in parts were counted when their upload was started (POST /api/uploads)
+    if (file) {
+      const limit = await rateLimit('upload', authorizedUser.email);
+      if (!limit.allowed) return rateLimitExceededResponse(limit);
     }
     if (!title || !description || !category || !subject || !resourceType) {
       console.error(`${REQ_DEBUG_PREFIX} Validation Error: Missing required form fields.`);
@@ -183,34 +149,6 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Unit must be an integer between 1 and 12.' }, { status: 400 });
     }
 
-    // File Processing
-    const buffer = Buffer.from(await file.arrayBuffer());
-    const originalFilename = file.name;
-    const fileExtension = originalFilename.split('.').pop()?.toLowerCase() || '';
-    const clientMimeType = file.type;
-    console.log(`${REQ_DEBUG_PREFIX} File details: filename='${originalFilename}', extension='${fileExtension}', clientMimeType='${clientMimeType}', size=${file.size} bytes.`);
-
-    // Validate file type and size
-    if (file.size > MAX_UPLOAD_BYTES) {
-      console.error(`${REQ_DEBUG_PREFIX} Validation Error: File size (${file.size} bytes) exceeds limit (${MAX_UPLOAD_BYTES} bytes).`);
-      return NextResponse.json({ error: 'File size exceeds limit.' }, { status: 413 });
-    }
-
-    const validationResult = validateFile(buffer, originalFilename, clientMimeType);
-    if (!validationResult.ok) {
-      console.error(`${REQ_DEBUG_PREFIX} File Validation Failed:`, validationResult.reason);
-      return NextResponse.json({ error: validationResult.reason }, { status: 415 });
-    }
-    console.log(`${REQ_DEBUG_PREFIX} File validation successful. Detected MIME type: ${validationResult.detectedMime}.`);
-
-    const effectiveMimeType = validationResult.detectedMime || clientMimeType || 'application/octet-stream';
-    const isPdf = effectiveMimeType === 'application/pdf' || fileExtension === 'pdf';
-    const settings = await getSettings(); // Reinstated getSettings
-    console.log(`${REQ_DEBUG_PREFIX} Determined file as PDF: ${isPdf}. PDF to Drive setting: ${settings?.pdf_to_drive}.`);
-
-    let finalUrl: string;
-    let storageLocation: string;
-
     // Initialize Supabase admin at runtime (after auth) and handle failures
     let supabaseAdmin: SupabaseClient;
     try {
@@ -220,73 +158,80 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Server configuration error. Please try again later.' }, { status: 500 });
     }
 
-    if (isPdf && settings?.pdf_to_drive) {
-      // Upload PDFs to Google Drive (with restricted permissions)
-      console.log(`${REQ_DEBUG_PREFIX} Uploading PDF to Google Drive with secure permissions.`);
-
-      const authClient = await getGoogleAuthClient();
-      const drive = google.drive({ version: 'v3', auth: authClient });
-
-      if (!GOOGLE_DRIVE_FOLDER_ID) {
-        console.error(`${REQ_DEBUG_PREFIX} API Config Error: GOOGLE_DRIVE_FOLDER_ID not set.`);
-        throw new Error('Server configuration error: Drive folder ID missing.');
+    let buffer: Buffer | null = null;
+    let originalFilename: string;
+    let effectiveMimeType: string;
+    let isPdf: boolean;
+    let finalUrl: string;
+    let storageLocation: string;
+    let contentHash: string | null;
+    let claimedUploadId: string | null = null;
+
+    if (file) {
+      // File Processing
+      const fileBuffer = Buffer.from(await file.arrayBuffer());
+      originalFilename = file.name;
+      const fileExtension = originalFilename.split('.').pop()?.toLowerCase() || '';
+      const clientMimeType = file.type;
+      console.log(`${REQ_DEBUG_PREFIX} File details: filename='${originalFilename}', extension='${fileExtension}', clientMimeType='${clientMimeType}', size=${file.size} bytes.`);
+
+      // Validate file type and size
+      if (file.size > MAX_UPLOAD_BYTES) {
+        console.error(`${REQ_DEBUG_PREFIX} Validation Error: File size (${file.size} bytes) exceeds limit (${MAX_UPLOAD_BYTES} bytes).`);
+        return NextResponse.json({ error: 'File size exceeds limit.' }, { status: 413 });
       }
 
-      const fileReadableStream = Readable.from(buffer);
-
-      const driveFileMetadata = {
-        name: originalFilename,
-        parents: [GOOGLE_DRIVE_FOLDER_ID],
-        description: description,
-      };
-
-      const driveMedia = {
-        mimeType: effectiveMimeType || 'application/pdf',
-        body: fileReadableStream,
-      };
-
-      const driveUploadResponse = await drive.files.create({
-        requestBody: driveFileMetadata,
-        media: driveMedia,
-        fields: 'id, webViewLink'
-      });
-
-      const driveFileId = driveUploadResponse.data.id;
-      const driveFileWebViewLink = driveUploadResponse.data.webViewLink;
-      finalUrl = driveFileWebViewLink || `https://drive.google.com/file/d/${driveFileId}/view`;
-
-      if (!driveFileId) {
-        throw new Error('Failed to get file ID from Google Drive after upload.');
+      const validationResult = validateFile(fileBuffer, originalFilename, clientMimeType);
+      if (!validationResult.ok) {
+        console.error(`${REQ_DEBUG_PREFIX} File Validation Failed:`, validationResult.reason);
+        return NextResponse.json({ error: validationResult.reason }, { status: 415 });
       }
+      console.log(`${REQ_DEBUG_PREFIX} File validation successful. Detected MIME type: ${validationResult.detectedMime}.`);
 
-      // IMPORTANT: Do NOT set public permissions - files should only be accessible through secure URLs
-      // The file will be accessible only through the service account or explicit sharing
-
-      console.log(`${REQ_DEBUG_PREFIX} PDF uploaded to Google Drive with restricted permissions - ID: ${driveFileId}`);
-      storageLocation = 'Google Drive';
+      effectiveMimeType = validationResult.detectedMime || clientMimeType || 'application/octet-stream';
+      const scanResult = await scanUpload(fileBuffer, originalFilename, { mimeType: effectiveMimeType, uploadedBy: authorizedUser.email });
+      if (!scanResult.ok) {
+        console.error(`${REQ_DEBUG_PREFIX} Virus scan rejected the file:`, scanResult.reason);
+        return NextResponse.json({ error: scanResult.reason }, { status: scanResult.unavailable ? 503 : 422 });
+      }
+      isPdf = effectiveMimeType === 'application/pdf' || fileExtension === 'pdf';
+      const settings = await getSettings(); // Reinstated getSettings
+      console.log(`${REQ_DEBUG_PREFIX} Determined file as PDF: ${isPdf}. PDF to Drive setting: ${settings?.pdf_to_drive}.`);
+
+      // Uploads are private: Drive files get no public permission and Storage files go to the secure bucket,
+      // so they are only reachable through secure URLs
+      const stored = await storeResourceFile(fileBuffer, originalFilename, effectiveMimeType, {
+        isPdf,
+        settings,
+        description,
+        visibility: 'private'
+      });
+      finalUrl = stored.url;
+      storageLocation = STORAGE_LOCATION_LABELS[stored.location];
+      contentHash = sha256Hex(fileBuffer);
+      buffer = fileBuffer;
+      console.log(`${REQ_DEBUG_PREFIX} File uploaded to ${storageLocation} - Key: ${stored.key}`);
     } else {
-      // Upload files to secure Supabase Storage bucket
-      console.log(`${REQ_DEBUG_PREFIX} Uploading to secure Supabase Storage.`);
-
-      const fileName = `${Date.now()}-${originalFilename}`;
-
-      // Upload to secure bucket instead of public bucket
-      const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
-        .from('secure-resources')  // Use secure bucket
-        .upload(fileName, buffer, {
-          contentType: effectiveMimeType || undefined,
-          duplex: 'half'
-        });
-
-      if (uploadError) {
-        console.error(`${REQ_DEBUG_PREFIX} Secure Supabase Storage upload error:`, uploadError);
-        throw new Error(`Failed to upload file to secure storage: ${uploadError.message}`);
+      // File was sent in parts through /api/uploads and is already stored (and checked when it completed)
+      const upload = await claimCompletedUpload(String(uploadId), authorizedUser.email);
+      if (!upload || !upload.file_url) {
+        console.error(`${REQ_DEBUG_PREFIX} Upload ${uploadId} not found, not completed or already used.`);
+        return NextResponse.json({ error: 'Upload not found, not completed or already used.' }, { status: 400 });
       }
-
-      // Store the file path for secure URL generation later
-      finalUrl = fileName; // Store path, not public URL
-      console.log(`${REQ_DEBUG_PREFIX} File uploaded to secure Supabase Storage - Path: ${uploadData.path}`);
-      storageLocation = 'Supabase Storage';
+      // Same rule as direct uploads: the file must never have been on a public link
+      if (upload.visibility !== 'private') {
+        console.error(`${REQ_DEBUG_PREFIX} Upload ${upload.id} was not started as private.`);
+        await releaseUploadClaim(upload.id);
+        return NextResponse.json({ error: "Uploads for this route must be started with visibility 'private'." }, { status: 400 });
+      }
+      originalFilename = upload.filename;
+      effectiveMimeType = upload.mime_type;
+      isPdf = effectiveMimeType === 'application/pdf' || originalFilename.toLowerCase().endsWith('.pdf');
+      finalUrl = upload.file_url;
+      storageLocation = STORAGE_LOCATION_LABELS[upload.backend === 'drive' ? 'drive' : 'supabase'];
+      contentHash = upload.content_hash;
+      claimedUploadId = upload.id;
+      console.log(`${REQ_DEBUG_PREFIX} Using chunked upload ${upload.id} in ${storageLocation}: ${finalUrl}`);
     }
 
     // Database Insertion
@@ -305,6 +250,7 @@ export async function POST(request: Request) {
       file_mime_type: effectiveMimeType,
       uploaded_by: authorizedUser.id,
       storage_location: storageLocation,
+      content_hash: contentHash,
       // Assuming these are not directly from ResourceCreateInput or need mapping
       branch_id: 'default', // Placeholder, adjust as per your logic
       year_id: 'default', // Placeholder, adjust as per your logic
@@ -319,6 +265,7 @@ export async function POST(request: Request) {
 
     if (insertError) {
       console.error(`${REQ_DEBUG_PREFIX} Database Insertion Error:`, insertError.message);
+      if (claimedUploadId) await releaseUploadClaim(claimedUploadId);
       return NextResponse.json({ error: 'Failed to save resource to database.', details: insertError.message }, { status: 500 });
     }
     if (!insertData) {
@@ -326,6 +273,24 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Failed to retrieve resource ID after insert.' }, { status: 500 });
     }
     console.log(`${REQ_DEBUG_PREFIX} Database insertion successful. New resource ID: ${insertData.id}.`);
+    if (claimedUploadId) await markUploadConsumed(claimedUploadId, insertData.id);
+
+    // Extract PDF text for search once the response has been sent, and make the preview image for the
+    // subject page grid; Office files get theirs from the PDF rendition
+    const fileName = originalFilename;
+    const mimeType = effectiveMimeType;
+    const isOffice = isConvertibleOfficeFile(mimeType, fileName);
+    if (buffer) {
+      const fileBuffer = buffer;
+      if (isPdf) after(() => indexResourceText(insertData.id, fileBuffer));
+      if (isOffice) after(() => convertResourceToPdf(insertData.id, fileBuffer, fileName));
+      else after(() => generateResourceThumbnail(insertData.id, fileBuffer, mimeType));
+    } else {
+      const stored = { file_path: finalUrl };
+      if (isPdf) after(() => indexStoredResourceText(insertData.id, stored));
+      if (isOffice) after(() => convertStoredResourceToPdf(insertData.id, stored, fileName));
+      else if (canGenerateThumbnail(mimeType)) after(() => generateStoredResourceThumbnail(insertData.id, stored));
+    }
 
     // Success Response
     console.log(`${REQ_DEBUG_PREFIX} Process completed successfully for file: ${originalFilename}. Sending success response.`);
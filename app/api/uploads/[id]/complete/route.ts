@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth-permissions'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { UploadSession, queryUpstreamOffset, resolveCompletedUrl, hashCompletedUpload, scanCompletedUpload, discardCompletedUpload } from '@/lib/resumable-upload'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/uploads/[id]/complete
+ * Finalize an upload once every byte is stored upstream.
+ * The returned uploadId is then passed as `upload_id` to POST /api/admin/resources
+ * (or /api/representative/resources) instead of a file.
+ */
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  const DEBUG_PREFIX = '[API DEBUG Uploads COMPLETE]'
+
+  let userContext
+  try {
+    userContext = await requirePermission('write', 'resources')
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const supabase = createSupabaseAdmin()
+  const { data } = await supabase
+    .from('upload_sessions')
+    .select('*')
+    .eq('id', params.id)
+    .eq('owner_email', userContext.email.toLowerCase())
+    .maybeSingle()
+  if (!data) return NextResponse.json({ error: 'Upload not found' }, { status: 404 })
+
+  const session = data as UploadSession
+  if (session.status === 'completed' || session.status === 'consumed') {
+    return NextResponse.json({ uploadId: session.id, url: session.file_url, mimeType: session.mime_type, size: session.size_bytes, status: session.status })
+  }
+  if (session.status === 'aborted') return NextResponse.json({ error: 'Upload was aborted' }, { status: 410 })
+
+  try {
+    const upstream = await queryUpstreamOffset(session)
+    if (!upstream.complete) {
+      return NextResponse.json({ error: 'Upload is incomplete', received: upstream.received, size: session.size_bytes }, { status: 409 })
+    }
+
+    const finished: UploadSession = { ...session, received_bytes: session.size_bytes, drive_file_id: upstream.driveFileId || session.drive_file_id }
+    // Scanned before the file gets a public link or can be attached to a resource. A flagged file is
+    // deleted; when the scanner is unavailable the upload stays as it is and completing can be retried.
+    const scan = await scanCompletedUpload(finished)
+    if (!scan.ok) {
+      console.error(`${DEBUG_PREFIX} Virus scan rejected upload ${session.id}:`, scan.reason)
+      if (!scan.unavailable) await discardCompletedUpload(finished)
+      return NextResponse.json({ error: 'File rejected by virus scan', reason: scan.reason }, { status: scan.unavailable ? 503 : 422 })
+    }
+    const url = await resolveCompletedUrl(finished)
+    // Hashed here so the create route can check for duplicates without re-reading the file
+    const contentHash = await hashCompletedUpload(finished)
+
+    const { error } = await supabase
+      .from('upload_sessions')
+      .update({ status: 'completed', received_bytes: session.size_bytes, drive_file_id: finished.drive_file_id, file_url: url, content_hash: contentHash })
+      .eq('id', session.id)
+    if (error) throw error
+
+    console.log(`${DEBUG_PREFIX} Upload ${session.id} completed: ${url}`)
+    return NextResponse.json({ uploadId: session.id, url, mimeType: session.mime_type, size: session.size_bytes, status: 'completed' })
+  } catch (error) {
+    console.error(`${DEBUG_PREFIX} Failed to finalize upload ${session.id}:`, error)
+    return NextResponse.json({ error: 'Failed to finalize upload' }, { status: 500 })
+  }
+}
@@ -0,0 +1,171 @@
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth-permissions'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { validateFile } from '@/lib/file-validation'
+import {
+  UPLOAD_CHUNK_BYTES,
+  UploadSession,
+  appendUpstream,
+  queryUpstreamOffset,
+  abortUpstream
+} from '@/lib/resumable-upload'
+
+export const runtime = 'nodejs'
+
+async function loadOwnedSession(id: string): Promise<{ session: UploadSession } | NextResponse> {
+  let userContext
+  try {
+    userContext = await requirePermission('write', 'resources')
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const supabase = createSupabaseAdmin()
+  const { data } = await supabase
+    .from('upload_sessions')
+    .select('*')
+    .eq('id', id)
+    .eq('owner_email', userContext.email.toLowerCase())
+    .maybeSingle()
+  if (!data) return NextResponse.json({ error: 'Upload not found' }, { status: 404 })
+
+  const session = data as UploadSession
+  if (session.status === 'aborted') return NextResponse.json({ error: 'Upload was aborted' }, { status: 410 })
+  if (session.status === 'uploading' && new Date(session.expires_at).getTime() < Date.now()) {
+    return NextResponse.json({ error: 'Upload session expired' }, { status: 410 })
+  }
+  return { session }
+}
+
+function upstreamErrorStatus(error: unknown): number {
+  const message = error instanceof Error ? error.message : ''
+  if (message.includes('expired')) return 410
+  if (message.includes('Offset mismatch')) return 409
+  return 502
+}
+
+function statusBody(session: UploadSession) {
+  return {
+    uploadId: session.id,
+    status: session.status,
+    received: session.received_bytes,
+    size: session.size_bytes,
+    chunkSize: UPLOAD_CHUNK_BYTES,
+    complete: session.received_bytes >= session.size_bytes
+  }
+}
+
+/**
+ * GET /api/uploads/[id]
+ * Current offset, reconciled with the upstream store. Clients call this to resume after a dropped connection.
+ */
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const loaded = await loadOwnedSession(params.id)
+  if (loaded instanceof NextResponse) return loaded
+  const { session } = loaded
+
+  if (session.status !== 'uploading') return NextResponse.json(statusBody(session))
+
+  try {
+    const upstream = await queryUpstreamOffset(session)
+    if (upstream.received !== session.received_bytes || upstream.driveFileId) {
+      const supabase = createSupabaseAdmin()
+      await supabase
+        .from('upload_sessions')
+        .update({ received_bytes: upstream.received, drive_file_id: upstream.driveFileId || session.drive_file_id })
+        .eq('id', session.id)
+      session.received_bytes = upstream.received
+    }
+    return NextResponse.json(statusBody(session))
+  } catch (error) {
+    console.error(`[API DEBUG Uploads STATUS] Upstream status check failed for ${session.id}:`, error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Status check failed' }, { status: upstreamErrorStatus(error) })
+  }
+}
+
+/**
+ * PUT /api/uploads/[id]
+ * Append one part. Headers: Upload-Offset (must equal the current offset). Body: raw bytes.
+ * Every part except the last must be exactly `chunkSize` bytes.
+ */
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  const DEBUG_PREFIX = '[API DEBUG Uploads APPEND]'
+  const loaded = await loadOwnedSession(params.id)
+  if (loaded instanceof NextResponse) return loaded
+  const { session } = loaded
+
+  if (session.status !== 'uploading') {
+    return NextResponse.json({ error: 'Upload already completed', ...statusBody(session) }, { status: 409 })
+  }
+
+  const offset = Number(request.headers.get('upload-offset'))
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ error: 'Upload-Offset header is required' }, { status: 400 })
+  }
+  if (offset !== session.received_bytes) {
+    return NextResponse.json({ error: 'Offset mismatch', ...statusBody(session) }, { status: 409 })
+  }
+
+  const chunk = new Uint8Array(await request.arrayBuffer())
+  const isLast = offset + chunk.byteLength === session.size_bytes
+  if (chunk.byteLength === 0 || chunk.byteLength > UPLOAD_CHUNK_BYTES || offset + chunk.byteLength > session.size_bytes) {
+    return NextResponse.json({ error: `Part must be between 1 and ${UPLOAD_CHUNK_BYTES} bytes and within the file size` }, { status: 400 })
+  }
+  if (!isLast && chunk.byteLength !== UPLOAD_CHUNK_BYTES) {
+    return NextResponse.json({ error: `Only the last part may be smaller than ${UPLOAD_CHUNK_BYTES} bytes` }, { status: 400 })
+  }
+
+  const supabase = createSupabaseAdmin()
+
+  // Sniff magic bytes on the first part; abort the whole upload if the content isn't what was declared
+  if (offset === 0) {
+    const validation = validateFile(Buffer.from(chunk), session.filename, session.mime_type)
+    const mismatch = validation.detectedMime && validation.detectedMime !== session.mime_type
+    if (!validation.ok || mismatch) {
+      console.warn(`${DEBUG_PREFIX} First part rejected for ${session.id}:`, validation.reason || `detected ${validation.detectedMime}`)
+      await abortUpstream(session)
+      await supabase.from('upload_sessions').update({ status: 'aborted' }).eq('id', session.id)
+      return NextResponse.json({
+        error: 'Unsupported file type',
+        reason: validation.reason || `File content is ${validation.detectedMime}, not ${session.mime_type}`
+      }, { status: 415 })
+    }
+  }
+
+  try {
+    const result = await appendUpstream(session, offset, chunk)
+    const { error } = await supabase
+      .from('upload_sessions')
+      .update({ received_bytes: result.received, drive_file_id: result.driveFileId || session.drive_file_id })
+      .eq('id', session.id)
+    if (error) throw error
+
+    session.received_bytes = result.received
+    return NextResponse.json(statusBody(session))
+  } catch (error) {
+    console.error(`${DEBUG_PREFIX} Part at offset ${offset} failed for ${session.id}:`, error)
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Failed to store part' }, { status: upstreamErrorStatus(error) })
+  }
+}
+
+/**
+ * DELETE /api/uploads/[id]
+ * Abandon an unfinished upload
+ */
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  const loaded = await loadOwnedSession(params.id)
+  if (loaded instanceof NextResponse) return loaded
+  const { session } = loaded
+
+  if (session.status !== 'uploading') {
+    return NextResponse.json({ error: 'Only unfinished uploads can be aborted' }, { status: 409 })
+  }
+
+  await abortUpstream(session)
+  const supabase = createSupabaseAdmin()
+  await supabase.from('upload_sessions').update({ status: 'aborted' }).eq('id', session.id)
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth-permissions'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { validateFile } from '@/lib/file-validation'
+import { rateLimit, rateLimitExceededResponse } from '@/lib/rate-limit'
+import {
+  UPLOAD_CHUNK_BYTES,
+  MAX_RESUMABLE_UPLOAD_BYTES,
+  chooseUploadBackend,
+  createUpstreamSession
+} from '@/lib/resumable-upload'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/uploads
+ * Start a resumable chunked upload.
+ * Body: { filename, size, mimeType, visibility? } — visibility 'private' keeps the file off public links
+ * Returns the upload id and the part size every PUT (except the last) must use.
+ */
+export async function POST(request: Request) {
+  const DEBUG_PREFIX = '[API DEBUG Uploads INIT]'
+
+  let userContext
+  try {
+    userContext = await requirePermission('write', 'resources')
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const limit = await rateLimit('upload', userContext.email)
+  if (!limit.allowed) return rateLimitExceededResponse(limit)
+
+  try {
+    const body = await request.json().catch(() => null)
+    const filename = typeof body?.filename === 'string' ? body.filename.trim() : ''
+    const mimeType = typeof body?.mimeType === 'string' ? body.mimeType.toLowerCase() : ''
+    const size = Number(body?.size)
+    const visibility = body?.visibility === 'private' ? 'private' : 'public'
+
+    if (!filename || !mimeType) {
+      return NextResponse.json({ error: 'filename and mimeType are required' }, { status: 400 })
+    }
+    if (!Number.isInteger(size) || size <= 0) {
+      return NextResponse.json({ error: 'size must be a positive integer' }, { status: 400 })
+    }
+    if (size > MAX_RESUMABLE_UPLOAD_BYTES) {
+      return NextResponse.json({ error: 'File too large', maxBytes: MAX_RESUMABLE_UPLOAD_BYTES }, { status: 413 })
+    }
+
+    // Declared type must be on the allowlist; the first part is sniffed again on arrival
+    const declared = validateFile(Buffer.alloc(0), filename, mimeType)
+    if (!declared.ok) {
+      return NextResponse.json({ error: 'Unsupported file type', reason: declared.reason }, { status: 415 })
+    }
+
+    const backend = await chooseUploadBackend(mimeType, filename)
+    if (!backend) {
+      return NextResponse.json({ error: 'Resumable uploads are not available with the configured storage provider' }, { status: 501 })
+    }
+    const upstream = await createUpstreamSession(backend, { filename, mimeType, size, visibility })
+
+    const supabase = createSupabaseAdmin()
+    const { data, error } = await supabase
+      .from('upload_sessions')
+      .insert({
+        owner_email: userContext.email.toLowerCase(),
+        backend,
+        upstream_url: upstream.upstreamUrl,
+        bucket: upstream.bucket,
+        object_path: upstream.objectPath,
+        filename,
+        mime_type: mimeType,
+        size_bytes: size,
+        visibility
+      })
+      .select('id, expires_at')
+      .single()
+    if (error) throw error
+
+    console.log(`${DEBUG_PREFIX} Started ${backend} upload ${data.id} for ${userContext.email}: ${filename} (${size} bytes)`)
+    return NextResponse.json({
+      uploadId: data.id,
+      chunkSize: UPLOAD_CHUNK_BYTES,
+      received: 0,
+      size,
+      expiresAt: data.expires_at
+    }, { status: 201 })
+  } catch (error) {
+    console.error(`${DEBUG_PREFIX} Failed to start upload:`, error)
+    return NextResponse.json({ error: 'Failed to start upload' }, { status: 500 })
+  }
+}
@@ -0,0 +1,222 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+type ResourceCount = {
+  resource_id: string
+  title: string | null
+  category: string
+  subject: string
+  unit: number | null
+  downloads: number
+  unique_users: number
+  last_downloaded_at: string | null
+}
+
+type SubjectCount = {
+  subject: string
+  downloads: number
+  resources: number
+  unopened_units: number[]
+}
+
+type DayCount = {
+  day: string
+  downloads: number
+  unique_users: number
+}
+
+type DownloadStats = {
+  totals: { downloads: number; resources: number; unopened: number }
+  topResources: ResourceCount[]
+  unopenedResources: ResourceCount[]
+  bySubject: SubjectCount[]
+  byDay: DayCount[]
+}
+
+// Fills days without downloads so the chart's x-axis is continuous
+function fillDays(byDay: DayCount[], days: number): DayCount[] {
+  const counts = new Map(byDay.map((d) => [d.day, d]))
+  const result: DayCount[] = []
+  for (let i = days - 1; i >= 0; i--) {
+    const day = new Date(Date.now() - i * 24 * 60 * 60 * 1000).toLocaleDateString('en-CA')
+    result.push(counts.get(day) || { day, downloads: 0, unique_users: 0 })
+  }
+  return result
+}
+
+function DailyChart({ data }: { data: DayCount[] }) {
+  const max = Math.max(1, ...data.map((d) => d.downloads))
+  return (
+    <div className="flex h-40 items-end gap-px rounded-md border p-2">
+      {data.map((d) => (
+        <div
+          key={d.day}
+          className="flex-1 rounded-t bg-primary/80 hover:bg-primary"
+          style={{ height: `${(d.downloads / max) * 100}%`, minHeight: d.downloads > 0 ? 2 : 0 }}
+          title={`${d.day}: ${d.downloads} downloads, ${d.unique_users} students`}
+        />
+      ))}
+    </div>
+  )
+}
+
+function resourceLabel(r: ResourceCount) {
+  return `${r.subject.toUpperCase()} · ${r.category}${r.unit ? ` · Unit ${r.unit}` : ''}`
+}
+
+export function DownloadsSection() {
+  const [days, setDays] = useState(30)
+  const [stats, setStats] = useState<DownloadStats | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/resources/downloads?days=${days}`)
+      const json = await res.json()
+      if (!res.ok) throw new Error(json?.error || 'Failed to load download stats')
+      setStats(json)
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load download stats')
+    } finally {
+      setLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => { load() }, [load])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex flex-col gap-1 min-w-[160px]">
+          <Label>Period</Label>
+          <Select value={String(days)} onValueChange={(v) => setDays(Number(v))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="180">Last 180 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="secondary" onClick={load} disabled={loading}>Refresh</Button>
+        {stats && (
+          <div className="ml-auto text-sm text-muted-foreground">
+            {stats.totals.downloads} downloads · {stats.totals.unopened} of {stats.totals.resources} resources never opened
+          </div>
+        )}
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      {stats && (
+        <>
+          <div className="space-y-2">
+            <div className="font-medium">Downloads per day</div>
+            <DailyChart data={fillDays(stats.byDay, days)} />
+          </div>
+
+          <div className="space-y-2">
+            <div className="font-medium">By subject</div>
+            <div className="rounded-md border overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Downloads</TableHead>
+                    <TableHead>Resources</TableHead>
+                    <TableHead>Units nobody opened</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stats.bySubject.map((s) => (
+                    <TableRow key={s.subject}>
+                      <TableCell className="font-medium">{s.subject.toUpperCase()}</TableCell>
+                      <TableCell>{s.downloads}</TableCell>
+                      <TableCell>{s.resources}</TableCell>
+                      <TableCell className={s.unopened_units.length > 0 ? 'text-red-500' : undefined}>
+                        {s.unopened_units.length > 0 ? s.unopened_units.join(', ') : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {stats.bySubject.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">No resources found</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="font-medium">Most downloaded</div>
+            <div className="rounded-md border overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Where</TableHead>
+                    <TableHead>Downloads</TableHead>
+                    <TableHead>Students</TableHead>
+                    <TableHead>Last download</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stats.topResources.map((r) => (
+                    <TableRow key={r.resource_id}>
+                      <TableCell className="font-medium">{r.title || '-'}</TableCell>
+                      <TableCell>{resourceLabel(r)}</TableCell>
+                      <TableCell>{r.downloads}</TableCell>
+                      <TableCell>{r.unique_users}</TableCell>
+                      <TableCell>{r.last_downloaded_at ? new Date(r.last_downloaded_at).toLocaleString() : '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                  {stats.topResources.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">No downloads in this period</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          {stats.unopenedResources.length > 0 && (
+            <div className="space-y-2">
+              <div className="font-medium">Never opened ({stats.totals.unopened})</div>
+              <div className="rounded-md border overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Where</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stats.unopenedResources.map((r) => (
+                      <TableRow key={r.resource_id}>
+                        <TableCell className="font-medium">{r.title || '-'}</TableCell>
+                        <TableCell>{resourceLabel(r)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -7,8 +7,7 @@ import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
-
-type Exam = { id: string; subject: string; exam_date: string; description?: string | null }
+import { EXAM_SESSIONS, EXAM_SESSION_LABELS, EXAM_TYPES, EXAM_TYPE_LABELS, formatExamTime, type Exam, type ExamSession, type ExamType } from '@/lib/exams'
 
 type UserContext = {
   role: 'student' | 'representative' | 'admin' | 'superadmin'
@@ -72,6 +71,7 @@ export function ExamsSection({ userContext }: { userContext: UserContext | null
     <div className="space-y-4">
       <div className="flex gap-2 justify-end">
         <Button variant="secondary" onClick={() => setRefreshIndex((i) => i + 1)} disabled={loading}>Refresh</Button>
+        <ImportExamsDialog onImported={() => setRefreshIndex((i) => i + 1)} />
         <CreateExamDialog onCreated={() => setRefreshIndex((i) => i + 1)} userContext={userContext} />
       </div>
       {error && <div className="text-sm text-red-500">{error}</div>}
@@ -80,15 +80,24 @@ export function ExamsSection({ userContext }: { userContext: UserContext | null
           <TableHeader>
             <TableRow>
               <TableHead>Subject</TableHead>
+              <TableHead>Type</TableHead>
               <TableHead>Exam Date</TableHead>
+              <TableHead>Time</TableHead>
+              <TableHead>Venue</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {items.map((r) => (
               <TableRow key={r.id}>
-                <TableCell className="font-medium">{r.subject}</TableCell>
+                <TableCell className="font-medium">
+                  {r.subject}
+                  {r.regulation && <span className="ml-1 text-xs text-muted-foreground">{r.regulation}</span>}
+                </TableCell>
+                <TableCell>{r.exam_type ? EXAM_TYPE_LABELS[r.exam_type] : '-'}</TableCell>
                 <TableCell>{new Date(r.exam_date).toLocaleDateString()}</TableCell>
+                <TableCell className="whitespace-nowrap">{formatExamTime(r) || '-'}</TableCell>
+                <TableCell>{r.venue || '-'}</TableCell>
                 <TableCell className="whitespace-nowrap">
                   <Button variant="destructive" size="sm" onClick={() => handleDelete(r.id)}>Delete</Button>
                 </TableCell>
@@ -96,7 +105,7 @@ export function ExamsSection({ userContext }: { userContext: UserContext | null
             ))}
             {items.length === 0 && (
               <TableRow>
-                <TableCell colSpan={3} className="text-center text-sm text-muted-foreground">{loading ? 'Loading…' : 'No exams found'}</TableCell>
+                <TableCell colSpan={6} className="text-center text-sm text-muted-foreground">{loading ? 'Loading…' : 'No exams found'}</TableCell>
               </TableRow>
             )}
           </TableBody>
@@ -106,12 +115,139 @@ export function ExamsSection({ userContext }: { userContext: UserContext | null
   )
 }
 
+type PlannedRow = {
+  row: number
+  action: 'create' | 'update' | 'error'
+  exam?: Partial<Exam>
+  error?: string
+}
+
+type ImportPlan = {
+  rows: PlannedRow[]
+  summary: { create: number; update: number; error: number }
+}
+
+function ImportExamsDialog({ onImported }: { onImported: () => void }) {
+  const [open, setOpen] = useState(false)
+  const [text, setText] = useState('')
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function send(commit: boolean) {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/admin/exams/import', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ text, commit })
+      })
+      const json = await res.json()
+      if (json?.rows) setPlan({ rows: json.rows, summary: json.summary })
+      if (!res.ok) throw new Error(json?.reason || json?.error || 'Import failed')
+      if (commit) {
+        setOpen(false)
+        setText(''); setPlan(null)
+        onImported()
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Import failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setText(await file.text())
+    setPlan(null)
+  }
+
+  const toWrite = plan ? plan.summary.create + plan.summary.update : 0
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">Import</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Timetable</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          {error && <div className="text-sm text-red-500">{error}</div>}
+          <p className="text-sm text-muted-foreground">
+            Upload a CSV or paste rows copied from a spreadsheet. Columns: subject, exam_date, and optionally
+            start_time, end_time, session, exam_type, venue, regulation, branch, year, semester.
+          </p>
+          <Input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={onFile} />
+          <textarea
+            className="flex min-h-32 w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs"
+            value={text}
+            onChange={(e) => { setText(e.target.value); setPlan(null) }}
+            placeholder={'subject,exam_date,start_time,end_time,exam_type,venue,branch,year\nDBMS,24-11-2025,10:00 AM,1:00 PM,mid-1,Block A,CSE,2023'}
+          />
+          {plan && (
+            <>
+              <div className="text-sm">
+                {plan.summary.create} new, {plan.summary.update} updated
+                {plan.summary.error > 0 && <span className="text-red-500">, {plan.summary.error} with errors</span>}
+              </div>
+              <div className="rounded-md border max-h-64 overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.rows.map((r) => (
+                      <TableRow key={r.row}>
+                        <TableCell>{r.row}</TableCell>
+                        <TableCell>{r.exam?.subject || '-'}</TableCell>
+                        <TableCell>{r.exam?.exam_date || '-'}</TableCell>
+                        <TableCell className="whitespace-nowrap">{(r.exam && formatExamTime(r.exam)) || '-'}</TableCell>
+                        <TableCell className={r.action === 'error' ? 'text-red-500' : undefined}>
+                          {r.action === 'error' ? r.error : r.action === 'update' ? 'Update' : 'New'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => send(false)} disabled={busy || !text.trim()}>Preview</Button>
+            <Button type="button" onClick={() => send(true)} disabled={busy || !plan || plan.summary.error > 0 || toWrite === 0}>
+              {busy ? 'Working…' : `Import ${toWrite} exams`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
 function CreateExamDialog({ onCreated, userContext }: { onCreated: () => void; userContext: UserContext | null }) {
   const [open, setOpen] = useState(false)
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [subject, setSubject] = useState('')
   const [examDate, setExamDate] = useState('')
+  const [examType, setExamType] = useState<ExamType | ''>('')
+  const [session, setSession] = useState<ExamSession | ''>('')
+  const [startTime, setStartTime] = useState('')
+  const [endTime, setEndTime] = useState('')
+  const [venue, setVenue] = useState('')
+  const [regulation, setRegulation] = useState('')
+  const [semester, setSemester] = useState<number | ''>('')
   
   // For representatives, add year and branch fields
   const defaultAssignment = userContext?.representativeAssignments?.[0]
@@ -128,13 +264,20 @@ function CreateExamDialog({ onCreated, userContext }: { onCreated: () => void; u
     try {
       const payload: any = { 
         subject, 
-        exam_date: examDate 
+        exam_date: examDate,
+        exam_type: examType || null,
+        session: session || null,
+        start_time: startTime || null,
+        end_time: endTime || null,
+        venue: venue || null,
+        regulation: regulation || null
       }
       
-      // For representatives, include year and branch
+      // For representatives, include year, branch and semester
       if (isRepresentative) {
         if (year) payload.year = year
         if (branch) payload.branch = branch
+        if (semester) payload.semester = semester
       }
       
       const res = await fetch('/api/admin/exams', { 
@@ -147,6 +290,7 @@ function CreateExamDialog({ onCreated, userContext }: { onCreated: () => void; u
       setOpen(false)
       onCreated()
       setSubject(''); setExamDate(''); setYear(''); setBranch('')
+      setExamType(''); setSession(''); setStartTime(''); setEndTime(''); setVenue(''); setRegulation(''); setSemester('')
     } catch (e: any) {
       setError(e?.message || 'Failed to create')
     } finally {
@@ -159,7 +303,7 @@ function CreateExamDialog({ onCreated, userContext }: { onCreated: () => void; u
       <DialogTrigger asChild>
         <Button>Create</Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create Exam</DialogTitle>
         </DialogHeader>
@@ -173,6 +317,56 @@ function CreateExamDialog({ onCreated, userContext }: { onCreated: () => void; u
             <Label>Exam Date</Label>
             <Input type="date" value={examDate} onChange={(e) => setExamDate(e.target.value)} required />
           </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Exam Type</Label>
+              <Select value={examType || 'none'} onValueChange={(v) => setExamType(v === 'none' ? '' : v as ExamType)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not set</SelectItem>
+                  {EXAM_TYPES.map((t) => (
+                    <SelectItem key={t} value={t}>{EXAM_TYPE_LABELS[t]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Session</Label>
+              <Select value={session || 'none'} onValueChange={(v) => setSession(v === 'none' ? '' : v as ExamSession)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">From start time</SelectItem>
+                  {EXAM_SESSIONS.map((s) => (
+                    <SelectItem key={s} value={s}>{s} ({EXAM_SESSION_LABELS[s]})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Start Time</Label>
+              <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div>
+              <Label>End Time</Label>
+              <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Venue</Label>
+              <Input value={venue} onChange={(e) => setVenue(e.target.value)} placeholder="e.g. Block A, Room 204" />
+            </div>
+            <div>
+              <Label>Regulation</Label>
+              <Input value={regulation} onChange={(e) => setRegulation(e.target.value)} placeholder="e.g. R23" />
+            </div>
+          </div>
           
           {/* Show year and branch fields for representatives */}
           {isRepresentative && (
@@ -215,6 +409,19 @@ function CreateExamDialog({ onCreated, userContext }: { onCreated: () => void; u
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label>Semester</Label>
+                <Select value={semester ? String(semester) : 'none'} onValueChange={(v) => setSemester(v === 'none' ? '' : Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not set</SelectItem>
+                    <SelectItem value="1">Semester 1</SelectItem>
+                    <SelectItem value="2">Semester 2</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
           )}
           <div className="flex justify-end gap-2 pt-2">
@@ -0,0 +1,183 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+type LinkStatus = 'ok' | 'missing' | 'unreadable' | 'error'
+
+type BrokenLink = {
+  resource_id: string
+  title: string | null
+  subject: string | null
+  category: string | null
+  unit: number | null
+  status: LinkStatus
+  provider: string | null
+  error: string | null
+  failing_since: string | null
+  checked_at: string
+}
+
+type Orphan = {
+  provider: string
+  object_key: string
+  container: string | null
+  size_bytes: number | null
+  last_modified: string | null
+  first_seen_at: string
+}
+
+type LinkHealthReport = {
+  counts: Record<LinkStatus, number>
+  unchecked: number
+  lastCheckedAt: string | null
+  broken: BrokenLink[]
+  orphans: Orphan[]
+  orphanCount: number
+}
+
+function formatSize(bytes: number | null) {
+  if (bytes == null) return '-'
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function LinkHealthSection() {
+  const [report, setReport] = useState<LinkHealthReport | null>(null)
+  const [running, setRunning] = useState<'links' | 'orphans' | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function load() {
+    try {
+      const res = await fetch('/api/admin/resources/link-check')
+      const json = await res.json()
+      if (!res.ok) throw new Error(json?.error || 'Failed to load link report')
+      setReport(json)
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load link report')
+    }
+  }
+
+  useEffect(() => { load() }, [])
+
+  async function run(task: 'links' | 'orphans') {
+    setRunning(task)
+    setError(null)
+    setMessage(null)
+    try {
+      const res = await fetch('/api/admin/resources/link-check', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ task })
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json?.error || 'Link check failed')
+      setMessage(task === 'orphans'
+        ? `Scanned ${json.scanned} objects, ${json.orphans} unreferenced${json.errors?.length ? ` (${json.errors.length} locations could not be listed)` : ''}`
+        : `Checked ${json.checked} resources, ${json.broken} broken`)
+      await load()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Link check failed')
+    } finally {
+      setRunning(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="font-medium">Broken links and orphaned files</div>
+        <p className="text-sm text-muted-foreground">
+          A nightly job checks that each resource&apos;s file still exists and can be read, and lists stored files no resource uses.
+          {report?.lastCheckedAt && ` Last check: ${new Date(report.lastCheckedAt).toLocaleString()}.`}
+        </p>
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      {message && <div className="text-sm text-muted-foreground">{message}</div>}
+
+      {report && (
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-sm">
+          <div className="rounded-md border p-2"><div className="text-muted-foreground">Working</div><div className="text-lg font-medium">{report.counts.ok}</div></div>
+          <div className="rounded-md border p-2"><div className="text-muted-foreground">Missing</div><div className={`text-lg font-medium ${report.counts.missing > 0 ? 'text-red-500' : ''}`}>{report.counts.missing}</div></div>
+          <div className="rounded-md border p-2"><div className="text-muted-foreground">Unreadable</div><div className={`text-lg font-medium ${report.counts.unreadable > 0 ? 'text-red-500' : ''}`}>{report.counts.unreadable}</div></div>
+          <div className="rounded-md border p-2"><div className="text-muted-foreground">Check failed</div><div className="text-lg font-medium">{report.counts.error}</div></div>
+          <div className="rounded-md border p-2"><div className="text-muted-foreground">Not checked yet</div><div className="text-lg font-medium">{report.unchecked}</div></div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button onClick={() => run('links')} disabled={running !== null}>{running === 'links' ? 'Checking…' : 'Check links now'}</Button>
+        <Button variant="secondary" onClick={() => run('orphans')} disabled={running !== null}>{running === 'orphans' ? 'Scanning…' : 'Scan for orphaned files'}</Button>
+      </div>
+
+      {report && report.broken.length > 0 && (
+        <div className="space-y-2">
+          <div className="font-medium">Broken resources</div>
+          <div className="rounded-md border overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Resource</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Where</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead>Failing since</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.broken.map((b) => (
+                  <TableRow key={b.resource_id}>
+                    <TableCell className="font-medium">{b.title || b.resource_id}</TableCell>
+                    <TableCell>{[b.subject, b.category, b.unit ? `Unit ${b.unit}` : null].filter(Boolean).join(' · ') || '-'}</TableCell>
+                    <TableCell className="text-red-500">{b.status}</TableCell>
+                    <TableCell>{b.provider || '-'}</TableCell>
+                    <TableCell className="max-w-xs truncate" title={b.error || undefined}>{b.error || '-'}</TableCell>
+                    <TableCell>{b.failing_since ? new Date(b.failing_since).toLocaleString() : '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {report && report.orphans.length > 0 && (
+        <div className="space-y-2">
+          <div className="font-medium">
+            Unreferenced files ({report.orphanCount}{report.orphanCount > report.orphans.length ? `, showing ${report.orphans.length}` : ''})
+          </div>
+          <div className="rounded-md border overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Storage</TableHead>
+                  <TableHead>Object</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>Last modified</TableHead>
+                  <TableHead>First seen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.orphans.map((o) => (
+                  <TableRow key={`${o.provider}:${o.object_key}`}>
+                    <TableCell>{o.provider}</TableCell>
+                    <TableCell className="font-mono text-xs break-all">{o.object_key}</TableCell>
+                    <TableCell>{formatSize(o.size_bytes)}</TableCell>
+                    <TableCell>{o.last_modified ? new Date(o.last_modified).toLocaleString() : '-'}</TableCell>
+                    <TableCell>{new Date(o.first_seen_at).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+
+type Notification = {
+  id: string
+  type: string
+  title: string
+  body: string | null
+  created_at: string
+}
+
+export function NotificationsPanel() {
+  const [items, setItems] = useState<Notification[]>([])
+
+  async function load() {
+    try {
+      const res = await fetch('/api/notifications?unread=true')
+      const json = await res.json()
+      if (res.ok) setItems(json.notifications || [])
+    } catch {
+      // Notifications are best-effort; the dashboard works without them
+    }
+  }
+
+  useEffect(() => { load() }, [])
+
+  async function dismiss(ids?: string[]) {
+    await fetch('/api/notifications', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ids ? { ids } : {})
+    }).catch(() => null)
+    setItems((list) => (ids ? list.filter((n) => !ids.includes(n.id)) : []))
+  }
+
+  if (items.length === 0) return null
+
+  return (
+    <div className="mb-6 rounded-md border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="font-medium">Notifications</div>
+        <Button variant="ghost" size="sm" onClick={() => dismiss()}>Mark all read</Button>
+      </div>
+      {items.map((n) => (
+        <div key={n.id} className="flex items-start justify-between gap-3 text-sm">
+          <div>
+            <div className={n.type === 'resource_rejected' ? 'text-red-500' : undefined}>{n.title}</div>
+            {n.body && <div className="text-muted-foreground">{n.body}</div>}
+            <div className="text-xs text-muted-foreground">{new Date(n.created_at).toLocaleString()}</div>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => dismiss([n.id])}>Dismiss</Button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -8,8 +8,33 @@ import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import {
+  RECURRENCE_FREQUENCIES,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  describeRecurrenceRule,
+  expandRecurrence,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  type RecurrenceFrequency,
+  type Weekday
+} from '@/lib/recurrence'
 
-type Reminder = { id: string; title: string; due_date: string; status?: string | null; year?: number | null; branch?: string | null }
+type Reminder = {
+  id: string
+  title: string
+  due_date: string
+  status?: string | null
+  year?: number | null
+  branch?: string | null
+  recurrence_rule?: string | null
+  recurrence_exdates?: string[] | null
+  recurrence_parent_id?: string | null
+  occurrence_date?: string | null
+}
+
+// Upcoming occurrences offered for editing or skipping one at a time
+const OCCURRENCES_SHOWN = 10
 
 type UserContext = {
   role: 'student' | 'representative' | 'admin' | 'superadmin'
@@ -73,7 +98,7 @@ export function RemindersSection({ userContext }: { userContext: UserContext | n
 
   // Integrate with session cache: prefer cached value and revalidate in background
   const cacheKey = useMemo(() => `reminders:${query}`, [query])
-  const { data: cached, loading: cacheLoading, error: cacheError, refresh: refreshCache } = useSessionCachedResource<{ id: string; title: string; due_date: string; status?: string | null; year?: number | null; branch?: string | null }[]>(cacheKey, async () => {
+  const { data: cached, loading: cacheLoading, error: cacheError, refresh: refreshCache } = useSessionCachedResource<Reminder[]>(cacheKey, async () => {
     const res = await fetch(`/api/admin/reminders?${query}`)
     const json = await res.json()
     if (!res.ok) throw new Error(json?.error || 'Failed')
@@ -94,13 +119,18 @@ export function RemindersSection({ userContext }: { userContext: UserContext | n
     }
   }, [userContext])
 
-  async function handleDelete(id: string) {
-    if (!confirm('Delete this reminder?')) return
-    const res = await fetch(`/api/admin/reminders/${id}`, { method: 'DELETE' })
+  async function handleDelete(r: Reminder) {
+    if (!confirm(r.recurrence_rule ? 'Delete this reminder and all its occurrences?' : 'Delete this reminder?')) return
+    const res = await fetch(`/api/admin/reminders/${r.id}`, { method: 'DELETE' })
     if (res.ok) setRefreshIndex((i) => i + 1)
     else alert('Delete failed')
   }
 
+  async function onChanged() {
+    await refreshCache()
+    setRefreshIndex((i) => i + 1)
+  }
+
   return (
     <div className="space-y-4">
       <div className="flex gap-3 items-end">
@@ -120,6 +150,7 @@ export function RemindersSection({ userContext }: { userContext: UserContext | n
             <TableRow>
               <TableHead>Title</TableHead>
               <TableHead>Due Date</TableHead>
+              <TableHead>Repeats</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
@@ -129,15 +160,18 @@ export function RemindersSection({ userContext }: { userContext: UserContext | n
               <TableRow key={r.id}>
                 <TableCell className="font-medium">{r.title}</TableCell>
                 <TableCell>{new Date(r.due_date).toLocaleDateString()}</TableCell>
+                <TableCell>{describeRule(r.recurrence_rule) || (r.occurrence_date ? 'Edited occurrence' : '-')}</TableCell>
                 <TableCell>{r.status || '-'}</TableCell>
-                <TableCell className="whitespace-nowrap">
-                  <Button variant="destructive" size="sm" onClick={() => handleDelete(r.id)}>Delete</Button>
+                <TableCell className="whitespace-nowrap space-x-2">
+                  <EditReminderDialog reminder={r} onSaved={onChanged} />
+                  {r.recurrence_rule && <OccurrencesDialog reminder={r} onChanged={onChanged} />}
+                  <Button variant="destructive" size="sm" onClick={() => handleDelete(r)}>Delete</Button>
                 </TableCell>
               </TableRow>
             ))}
             {items.length === 0 && (
               <TableRow>
-                <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">{loading ? 'Loading…' : 'No reminders found'}</TableCell>
+                <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">{loading ? 'Loading…' : 'No reminders found'}</TableCell>
               </TableRow>
             )}
           </TableBody>
@@ -161,6 +195,7 @@ function CreateReminderDialog({
   const [title, setTitle] = useState('')
   const [dueDate, setDueDate] = useState('')
   const [status, setStatus] = useState('')
+  const [recurrenceRule, setRecurrenceRule] = useState('')
   
   // For representatives, default to their assignment
   const defaultAssignment = userContext?.representativeAssignments?.[0]
@@ -175,12 +210,12 @@ function CreateReminderDialog({
     setSaving(true)
     setError(null)
     try {
-      const res = await fetch('/api/admin/reminders', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ title, due_date: dueDate, status, year, branch }) })
+      const res = await fetch('/api/admin/reminders', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ title, due_date: dueDate, status, year, branch, recurrence_rule: recurrenceRule || null }) })
       const json = await res.json()
       if (!res.ok) throw new Error(json?.error || 'Failed to create')
       setOpen(false)
       onCreated()
-      setTitle(''); setDueDate(''); setStatus(''); setYear(''); setBranch('')
+      setTitle(''); setDueDate(''); setStatus(''); setYear(''); setBranch(''); setRecurrenceRule('')
     } catch (e: any) {
       setError(e?.message || 'Failed to create')
     } finally {
@@ -193,7 +228,7 @@ function CreateReminderDialog({
       <DialogTrigger asChild>
         <Button>Create</Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create Reminder</DialogTitle>
         </DialogHeader>
@@ -207,6 +242,7 @@ function CreateReminderDialog({
             <Label>Due Date</Label>
             <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} required />
           </div>
+          <RecurrenceFields value={recurrenceRule} onChange={setRecurrenceRule} />
           <div>
             <Label>Status</Label>
             <Input value={status} onChange={(e) => setStatus(e.target.value)} />
@@ -283,4 +319,196 @@ function CreateReminderDialog({
   )
 }
 
+function describeRule(rule?: string | null): string | null {
+  const parsed = rule ? parseRecurrenceRule(rule) : null
+  return parsed?.ok ? describeRecurrenceRule(parsed.value) : null
+}
+
+function RecurrenceFields({ value, onChange }: { value: string; onChange: (rule: string) => void }) {
+  const parsed = value ? parseRecurrenceRule(value) : null
+  const rule = parsed?.ok ? parsed.value : null
+
+  function update(changes: Partial<NonNullable<typeof rule>> & { freq?: RecurrenceFrequency }) {
+    const freq = changes.freq ?? rule?.freq
+    if (!freq) return
+    onChange(formatRecurrenceRule({
+      freq,
+      interval: changes.interval ?? rule?.interval ?? 1,
+      byDay: freq === 'WEEKLY' ? changes.byDay ?? rule?.byDay ?? [] : [],
+      count: null,
+      until: changes.until !== undefined ? changes.until : rule?.until ?? null
+    }))
+  }
+
+  function toggleDay(day: Weekday) {
+    const days = rule?.byDay || []
+    update({ byDay: days.includes(day) ? days.filter((d) => d !== day) : [...days, day] })
+  }
+
+  const unit = rule ? { DAILY: 'days', WEEKLY: 'weeks', MONTHLY: 'months' }[rule.freq] : ''
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label>Repeats</Label>
+          <Select value={rule?.freq || 'none'} onValueChange={(v) => v === 'none' ? onChange('') : update({ freq: v as RecurrenceFrequency })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Does not repeat</SelectItem>
+              {RECURRENCE_FREQUENCIES.map((f) => (
+                <SelectItem key={f} value={f}>{f.charAt(0) + f.slice(1).toLowerCase()}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {rule && (
+          <div>
+            <Label>Every ({unit})</Label>
+            <Input type="number" min={1} max={99} value={rule.interval} onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })} />
+          </div>
+        )}
+      </div>
+      {rule?.freq === 'WEEKLY' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map((d) => (
+            <Button key={d} type="button" size="sm" variant={rule.byDay.includes(d) ? 'default' : 'outline'} onClick={() => toggleDay(d)}>
+              {WEEKDAY_LABELS[d].slice(0, 3)}
+            </Button>
+          ))}
+        </div>
+      )}
+      {rule && (
+        <div>
+          <Label>Until (optional)</Label>
+          <Input type="date" value={rule.until || ''} onChange={(e) => update({ until: e.target.value || null })} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+function EditReminderDialog({
+  reminder,
+  occurrenceDate,
+  onSaved
+}: {
+  reminder: Reminder
+  // Edit only this occurrence of a recurring reminder
+  occurrenceDate?: string
+  onSaved: () => void
+}) {
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [title, setTitle] = useState(reminder.title)
+  const [dueDate, setDueDate] = useState(occurrenceDate || reminder.due_date.slice(0, 10))
+  const [status, setStatus] = useState(reminder.status || '')
+  const [recurrenceRule, setRecurrenceRule] = useState(reminder.recurrence_rule || '')
+  const canRepeat = !occurrenceDate && !reminder.recurrence_parent_id
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    try {
+      const payload: Record<string, unknown> = { title, due_date: dueDate, status: status || null }
+      if (occurrenceDate) payload.occurrence_date = occurrenceDate
+      else if (canRepeat) payload.recurrence_rule = recurrenceRule || null
+      const res = await fetch(`/api/admin/reminders/${reminder.id}`, {
+        method: 'PATCH',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json?.error || 'Failed to save')
+      setOpen(false)
+      onSaved()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">{occurrenceDate ? 'Edit' : reminder.recurrence_rule ? 'Edit series' : 'Edit'}</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{occurrenceDate ? `Edit ${occurrenceDate} only` : reminder.recurrence_rule ? 'Edit All Occurrences' : 'Edit Reminder'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={onSubmit} className="space-y-3">
+          {error && <div className="text-sm text-red-500">{error}</div>}
+          <div>
+            <Label>Title</Label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} required />
+          </div>
+          <div>
+            <Label>{reminder.recurrence_rule && !occurrenceDate ? 'First Occurrence' : 'Due Date'}</Label>
+            <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} required />
+          </div>
+          {canRepeat && <RecurrenceFields value={recurrenceRule} onChange={setRecurrenceRule} />}
+          <div>
+            <Label>Status</Label>
+            <Input value={status} onChange={(e) => setStatus(e.target.value)} />
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button type="submit" disabled={saving}>{saving ? 'Saving…' : 'Save'}</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function OccurrencesDialog({ reminder, onChanged }: { reminder: Reminder; onChanged: () => void }) {
+  const [open, setOpen] = useState(false)
 
+  const occurrences = useMemo(() => {
+    const parsed = reminder.recurrence_rule ? parseRecurrenceRule(reminder.recurrence_rule) : null
+    if (!parsed?.ok) return []
+    const from = new Date().toISOString().slice(0, 10)
+    const to = new Date(Date.now() + 366 * 86400000).toISOString().slice(0, 10)
+    return expandRecurrence(reminder.due_date.slice(0, 10), parsed.value, { from, to, exdates: reminder.recurrence_exdates || [] })
+      .slice(0, OCCURRENCES_SHOWN)
+  }, [reminder])
+
+  async function handleSkip(date: string) {
+    if (!confirm(`Skip the ${date} occurrence?`)) return
+    const res = await fetch(`/api/admin/reminders/${reminder.id}?occurrence=${date}`, { method: 'DELETE' })
+    if (res.ok) onChanged()
+    else alert('Skip failed')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">Occurrences</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{reminder.title}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">{describeRule(reminder.recurrence_rule)}. Changes here apply to one date only.</p>
+        <div className="space-y-2">
+          {occurrences.map((date) => (
+            <div key={date} className="flex items-center justify-between gap-2">
+              <span className="text-sm">{new Date(`${date}T00:00:00`).toDateString()}</span>
+              <div className="space-x-2">
+                <EditReminderDialog reminder={reminder} occurrenceDate={date} onSaved={onChanged} />
+                <Button variant="outline" size="sm" onClick={() => handleSkip(date)}>Skip</Button>
+              </div>
+            </div>
+          ))}
+          {occurrences.length === 0 && <div className="text-sm text-muted-foreground">No upcoming occurrences</div>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
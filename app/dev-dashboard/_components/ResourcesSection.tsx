@@ -7,6 +7,8 @@ import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { CHUNKED_UPLOAD_THRESHOLD, uploadInChunks } from '@/lib/chunked-upload'
+import { toCsv } from '@/lib/csv'
 
 type Resource = {
   id: string
@@ -22,6 +24,22 @@ type Resource = {
   is_pdf: boolean
   url: string
   archived: boolean
+  moderation_status?: 'pending' | 'approved' | 'rejected'
+  moderation_reason?: string | null
+}
+
+type PendingResource = {
+  id: string
+  title?: string | null
+  name?: string | null
+  category: string
+  subject: string
+  url: string
+  year?: number | null
+  branch?: string | null
+  semester?: number | null
+  submitted_by?: string | null
+  created_at: string
 }
 
 type UserContext = {
@@ -138,8 +156,25 @@ export function ResourcesSection({
     }
   }
 
+  async function handleRevokeLinks(id: string) {
+    if (!confirm('Revoke all outstanding download links for this resource?')) return
+    try {
+      const res = await fetch(`/api/admin/resources/${id}/revoke-links`, { method: 'POST' })
+      const json = await res.json().catch(() => null)
+      if (!res.ok) throw new Error(json?.error || 'Revoke failed')
+      alert(`Revoked ${json.revoked} link(s)`)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Revoke failed')
+    }
+  }
+
+  const isAdmin = userContext?.role === 'admin' || userContext?.role === 'superadmin'
+
   return (
     <div className="space-y-4">
+      {isAdmin && !archivedOnly && (
+        <ModerationQueue refreshIndex={refreshIndex} onDecided={() => setRefreshIndex((i) => i + 1)} />
+      )}
       <div className="flex flex-wrap gap-3 items-end">
         {/* Year/Branch derived from profile if present */}
         <div className="flex flex-col gap-1 min-w-[160px]">
@@ -249,6 +284,7 @@ export function ResourcesSection({
         </div>
         <div className="ml-auto flex gap-2">
           <Button variant="secondary" onClick={() => setRefreshIndex((i) => i + 1)} disabled={loading}>Refresh</Button>
+          {isAdmin && <BulkImportDialog onImported={() => setRefreshIndex((i) => i + 1)} />}
           <CreateResourceDialog
             onCreated={() => setRefreshIndex((i) => i + 1)}
             defaultArchived={archivedOnly}
@@ -271,6 +307,7 @@ export function ResourcesSection({
               <TableHead>Type</TableHead>
               <TableHead>Date</TableHead>
               <TableHead>isPDF</TableHead>
+              <TableHead>Status</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
           </TableHeader>
@@ -286,17 +323,19 @@ export function ResourcesSection({
                 <TableCell>{r.type || '-'}</TableCell>
                 <TableCell>{new Date(r.date).toLocaleDateString()}</TableCell>
                 <TableCell>{r.is_pdf ? 'Yes' : 'No'}</TableCell>
+                <TableCell title={r.moderation_reason || undefined}>{r.moderation_status && r.moderation_status !== 'approved' ? r.moderation_status : 'live'}</TableCell>
                 <TableCell className="whitespace-nowrap flex gap-2">
                   <a href={r.url} target="_blank" rel="noreferrer">
                     <Button variant="outline" size="sm">Open</Button>
                   </a>
+                  <Button variant="outline" size="sm" onClick={() => handleRevokeLinks(r.id)}>Revoke links</Button>
                   <Button variant="destructive" size="sm" onClick={() => handleDelete(r.id)}>Delete</Button>
                 </TableCell>
               </TableRow>
             ))}
             {items.length === 0 && (
               <TableRow>
-                <TableCell colSpan={10} className="text-center text-sm text-muted-foreground">{loading ? 'Loading…' : 'No resources found'}</TableCell>
+                <TableCell colSpan={11} className="text-center text-sm text-muted-foreground">{loading ? 'Loading…' : 'No resources found'}</TableCell>
               </TableRow>
             )}
           </TableBody>
@@ -306,6 +345,201 @@ export function ResourcesSection({
   )
 }
 
+function ModerationQueue({ refreshIndex, onDecided }: { refreshIndex: number; onDecided: () => void }) {
+  const [items, setItems] = useState<PendingResource[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function load() {
+    try {
+      const res = await fetch('/api/admin/resources/moderation')
+      const json = await res.json()
+      if (!res.ok) throw new Error(json?.error || 'Failed to load moderation queue')
+      setItems(json.data || [])
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load moderation queue')
+    }
+  }
+
+  useEffect(() => { load() }, [refreshIndex])
+
+  async function decide(id: string, decision: 'approve' | 'reject') {
+    let reason: string | null = null
+    if (decision === 'reject') {
+      reason = prompt('Reason for rejecting (sent to the uploader):')
+      if (!reason || !reason.trim()) return
+    }
+    setBusyId(id)
+    try {
+      const res = await fetch(`/api/admin/resources/${id}/moderate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, reason })
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(json?.error || 'Moderation failed')
+      setItems((list) => list.filter((r) => r.id !== id))
+      onDecided()
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Moderation failed')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (items.length === 0 && !error) return null
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="font-medium">Awaiting approval ({items.length})</div>
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Category</TableHead>
+            <TableHead>Subject</TableHead>
+            <TableHead>Scope</TableHead>
+            <TableHead>Uploaded by</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((r) => (
+            <TableRow key={r.id}>
+              <TableCell className="font-medium">{r.title || r.name}</TableCell>
+              <TableCell>{r.category}</TableCell>
+              <TableCell>{r.subject}</TableCell>
+              <TableCell>{[r.branch, r.year, r.semester != null ? `Sem ${r.semester}` : null].filter(Boolean).join(' · ') || '-'}</TableCell>
+              <TableCell>{r.submitted_by || '-'}</TableCell>
+              <TableCell>{new Date(r.created_at).toLocaleDateString()}</TableCell>
+              <TableCell className="whitespace-nowrap flex gap-2">
+                <a href={r.url} target="_blank" rel="noreferrer">
+                  <Button variant="outline" size="sm">Open</Button>
+                </a>
+                <Button size="sm" onClick={() => decide(r.id, 'approve')} disabled={busyId === r.id}>Approve</Button>
+                <Button variant="destructive" size="sm" onClick={() => decide(r.id, 'reject')} disabled={busyId === r.id}>Reject</Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+type ImportRowResult = {
+  row: number
+  file: string
+  status: 'created' | 'failed'
+  id?: string
+  error?: string
+}
+
+function BulkImportDialog({ onImported }: { onImported: () => void }) {
+  const [open, setOpen] = useState(false)
+  const [archive, setArchive] = useState<File | null>(null)
+  const [manifest, setManifest] = useState<File | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [results, setResults] = useState<ImportRowResult[] | null>(null)
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!archive) return
+    setImporting(true)
+    setError(null)
+    setResults(null)
+    try {
+      const form = new FormData()
+      form.set('archive', archive)
+      if (manifest) form.set('manifest', manifest)
+      const res = await fetch('/api/admin/resources/bulk-import', { method: 'POST', body: form })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(json?.reason || json?.error || 'Import failed')
+      setResults(json.results || [])
+      if (json.created > 0) onImported()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Import failed')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  function downloadReport() {
+    if (!results) return
+    const csv = toCsv([['row', 'file', 'status', 'id', 'error'], ...results.map((r) => [r.row, r.file, r.status, r.id, r.error])])
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }))
+    link.download = 'import-report.csv'
+    link.click()
+    URL.revokeObjectURL(link.href)
+  }
+
+  const failed = results?.filter((r) => r.status === 'failed').length ?? 0
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) setResults(null) }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">Bulk import</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Bulk import resources</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={onSubmit} className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Upload a ZIP of files and a CSV manifest with columns file, subject, category, unit and optionally title, branch, year, semester, description, type.
+            The manifest can also be a single .csv at the top of the ZIP. Archives can be up to 4 MB; split larger imports.
+          </p>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="bulk-archive">ZIP archive</Label>
+            <Input id="bulk-archive" type="file" accept=".zip,application/zip" onChange={(e) => setArchive(e.target.files?.[0] || null)} />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="bulk-manifest">Manifest CSV (optional)</Label>
+            <Input id="bulk-manifest" type="file" accept=".csv,text/csv" onChange={(e) => setManifest(e.target.files?.[0] || null)} />
+          </div>
+          {error && <div className="text-sm text-red-500">{error}</div>}
+          <div className="flex justify-end gap-2">
+            {results && <Button type="button" variant="secondary" onClick={downloadReport}>Download report</Button>}
+            <Button type="submit" disabled={!archive || importing}>{importing ? 'Importing…' : 'Import'}</Button>
+          </div>
+        </form>
+        {results && (
+          <div className="space-y-2">
+            <div className="text-sm">{results.length - failed} imported, {failed} failed</div>
+            <div className="max-h-80 overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>File</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((r) => (
+                    <TableRow key={r.row}>
+                      <TableCell>{r.row}</TableCell>
+                      <TableCell className="break-all">{r.file || '-'}</TableCell>
+                      <TableCell className={r.status === 'failed' ? 'text-red-500' : 'text-green-600'}>
+                        {r.status === 'created' ? 'Imported' : r.error}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
 function CreateResourceDialog({ 
   onCreated, 
   defaultArchived = false, 
@@ -325,6 +559,7 @@ function CreateResourceDialog({
   const [subject, setSubject] = useState('')
   const [unit, setUnit] = useState<number>(1)
   const [type, setType] = useState('')
+  const [restricted, setRestricted] = useState(false)
   
   // For representatives, default to their first assignment
   const defaultAssignment = userContext?.representativeAssignments?.[0]
@@ -332,6 +567,7 @@ function CreateResourceDialog({
   const [branch, setBranch] = useState<string | ''>(defaultAssignment?.branch_code ?? '')
   const [semester, setSemester] = useState<number | ''>('')
   const [file, setFile] = useState<File | null>(null)
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null)
   
   const isRepresentative = userContext?.role === 'representative'
   const assignments = userContext?.representativeAssignments || []
@@ -388,19 +624,31 @@ function CreateResourceDialog({
         setResolving(false)
       }
       if (defaultArchived) form.set('archived', 'true')
-      if (file) form.set('file', file)
+      if (restricted) form.set('restricted', 'true')
+      if (file && file.size > CHUNKED_UPLOAD_THRESHOLD) {
+        // Large files go up in resumable parts first, then the resource references the finished upload
+        setUploadProgress(0)
+        const uploaded = await uploadInChunks(file, { onProgress: setUploadProgress, visibility: restricted ? 'private' : 'public' })
+        form.set('upload_id', uploaded.uploadId)
+      } else if (file) {
+        form.set('file', file)
+      }
 
       const res = await fetch('/api/admin/resources', { method: 'POST', body: form })
       const json = await res.json()
+      if (res.status === 409 && json?.existing) {
+        throw new Error(`${json.error}: "${json.existing.title || json.existing.id}"${json.existing.url ? ` (${json.existing.url})` : ''}`)
+      }
       if (!res.ok) throw new Error(json?.error || 'Failed to create')
       setOpen(false)
       onCreated()
       // reset
-      setName(''); setDescription(''); setCategory('notes'); setSubject(''); setUnit(1); setType(''); setYear(defaultYear ?? ''); setSemester(''); setBranch(defaultBranch ?? ''); setFile(null)
+      setName(''); setDescription(''); setCategory('notes'); setSubject(''); setUnit(1); setType(''); setYear(defaultYear ?? ''); setSemester(''); setBranch(defaultBranch ?? ''); setFile(null); setRestricted(false)
     } catch (e: any) {
       setError(e?.message || 'Failed to create')
     } finally {
       setSaving(false)
+      setUploadProgress(null)
     }
   }
 
@@ -513,14 +761,18 @@ function CreateResourceDialog({
               </Select>
             {fieldErrors.branch && <div className="text-xs text-red-500">{fieldErrors.branch}</div>}
             </div>
+            <div className="col-span-2 flex items-center gap-2">
+              <input id="restricted" type="checkbox" checked={restricted} onChange={(e) => setRestricted(e.target.checked)} />
+              <Label htmlFor="restricted">Restricted: watermark downloaded PDFs with the student&apos;s identity</Label>
+            </div>
             <div className="col-span-2">
               <Label>File</Label>
-              <Input type="file" accept=".pdf,image/png,image/jpeg,image/webp" onChange={(e) => setFile(e.target.files?.[0] || null)} />
+              <Input type="file" accept=".pdf,image/png,image/jpeg,image/webp,video/mp4" onChange={(e) => setFile(e.target.files?.[0] || null)} />
             </div>
           </div>
           <div className="flex justify-end gap-2 pt-2">
             <Button type="button" variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
-            <Button type="submit" disabled={saving || resolving}>{saving ? 'Saving…' : resolving ? 'Resolving…' : 'Create'}</Button>
+            <Button type="submit" disabled={saving || resolving}>{uploadProgress !== null ? `Uploading ${Math.round(uploadProgress * 100)}%` : saving ? 'Saving…' : resolving ? 'Resolving…' : 'Create'}</Button>
           </div>
         </form>
       </DialogContent>
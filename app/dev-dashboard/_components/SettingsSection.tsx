@@ -4,8 +4,23 @@ import { useEffect, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 
-type Settings = { drive_folder_id?: string | null; storage_bucket: string; pdf_to_drive: boolean; non_pdf_to_storage: boolean }
+type Settings = {
+  drive_folder_id?: string | null
+  storage_bucket: string
+  pdf_to_drive: boolean
+  non_pdf_to_storage: boolean
+  require_rep_approval?: boolean
+  rep_approval_categories?: string[]
+}
+
+type ApprovalMode = 'off' | 'papers' | 'all'
+
+function approvalMode(settings: Settings): ApprovalMode {
+  if (!settings.require_rep_approval) return 'off'
+  return settings.rep_approval_categories && settings.rep_approval_categories.length > 0 ? 'papers' : 'all'
+}
 
 export function SettingsSection() {
   const [settings, setSettings] = useState<Settings | null>(null)
@@ -60,6 +75,26 @@ export function SettingsSection() {
           <Label>Storage Bucket</Label>
           <Input value={settings.storage_bucket} onChange={(e) => setSettings((s) => ({ ...(s as Settings), storage_bucket: e.target.value }))} />
         </div>
+        <div className="space-y-2">
+          <Label>Representative uploads need approval</Label>
+          <Select
+            value={approvalMode(settings)}
+            onValueChange={(v) => setSettings((s) => ({
+              ...(s as Settings),
+              require_rep_approval: v !== 'off',
+              rep_approval_categories: v === 'papers' ? ['papers'] : []
+            }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Off (publish immediately)</SelectItem>
+              <SelectItem value="papers">Model papers only</SelectItem>
+              <SelectItem value="all">All uploads</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
       </div>
       <div className="flex gap-2">
         <Button onClick={save} disabled={saving}>{saving ? 'Saving…' : 'Save'}</Button>
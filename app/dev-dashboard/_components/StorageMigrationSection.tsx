@@ -0,0 +1,156 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+type MigrationFailure = {
+  resource_id: string
+  title: string | null
+  error: string | null
+  attempts: number
+  updated_at: string
+}
+
+type MigrationProgress = {
+  remaining: number
+  copying: number
+  done: number
+  failed: number
+  originalsKept: number
+  failures: MigrationFailure[]
+}
+
+type BatchResult = {
+  processed: number
+  migrated: number
+  failed: number
+  originalsDeleted: number
+  remaining: number
+}
+
+export function StorageMigrationSection() {
+  const [progress, setProgress] = useState<MigrationProgress | null>(null)
+  const [running, setRunning] = useState(false)
+  const [deleteOriginals, setDeleteOriginals] = useState(false)
+  const [log, setLog] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const stopRequested = useRef(false)
+
+  async function load() {
+    try {
+      const res = await fetch('/api/admin/resources/drive-migration')
+      const json = await res.json()
+      if (!res.ok) throw new Error(json?.error || 'Failed to load migration progress')
+      setProgress(json)
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load migration progress')
+    }
+  }
+
+  useEffect(() => { load() }, [])
+
+  async function runBatch(retryFailed: boolean): Promise<BatchResult> {
+    const res = await fetch('/api/admin/resources/drive-migration', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ retryFailed, deleteOriginals })
+    })
+    const json = await res.json()
+    if (!res.ok) throw new Error(json?.error || 'Migration batch failed')
+    return json
+  }
+
+  // Batches run one after another until nothing is left, the admin stops, or a batch makes no progress
+  async function run(retryFailed: boolean) {
+    if (deleteOriginals && !confirm('Delete the Google Drive originals once their copies are verified? This cannot be undone.')) return
+    stopRequested.current = false
+    setRunning(true)
+    setError(null)
+    try {
+      for (;;) {
+        const result = await runBatch(retryFailed)
+        setLog((l) => [
+          `${new Date().toLocaleTimeString()}: ${result.migrated} migrated, ${result.failed} failed${result.originalsDeleted ? `, ${result.originalsDeleted} Drive originals deleted` : ''}, ${result.remaining} left`,
+          ...l
+        ].slice(0, 50))
+        await load()
+        const hasWork = retryFailed ? result.processed > 0 : result.remaining > 0
+        if (stopRequested.current || result.migrated === 0 || !hasWork) break
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Migration batch failed')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="font-medium">Move files from Google Drive to Storage</div>
+        <p className="text-sm text-muted-foreground">
+          Copies each Drive-hosted resource into the secure bucket, checks size and hash, then points the resource at the copy.
+          Safe to stop and run again; it continues with the resources not yet moved.
+        </p>
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      {progress && (
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-sm">
+          <div className="rounded-md border p-2"><div className="text-muted-foreground">Still on Drive</div><div className="text-lg font-medium">{progress.remaining}</div></div>
+          <div className="rounded-md border p-2"><div className="text-muted-foreground">Migrated</div><div className="text-lg font-medium">{progress.done}</div></div>
+          <div className="rounded-md border p-2"><div className="text-muted-foreground">Failed</div><div className={`text-lg font-medium ${progress.failed > 0 ? 'text-red-500' : ''}`}>{progress.failed}</div></div>
+          <div className="rounded-md border p-2"><div className="text-muted-foreground">In progress</div><div className="text-lg font-medium">{progress.copying}</div></div>
+          <div className="rounded-md border p-2"><div className="text-muted-foreground">Drive originals kept</div><div className="text-lg font-medium">{progress.originalsKept}</div></div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button onClick={() => run(false)} disabled={running}>{running ? 'Migrating…' : 'Start migration'}</Button>
+        <Button variant="secondary" onClick={() => run(true)} disabled={running || !progress?.failed}>Retry failed</Button>
+        {running && <Button variant="outline" onClick={() => { stopRequested.current = true }}>Stop after this batch</Button>}
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={deleteOriginals} onChange={(e) => setDeleteOriginals(e.target.checked)} disabled={running} />
+          Delete Drive originals after verifying the copy
+        </label>
+      </div>
+
+      {log.length > 0 && (
+        <div className="rounded-md border p-2 text-xs font-mono max-h-40 overflow-auto">
+          {log.map((line, i) => <div key={i}>{line}</div>)}
+        </div>
+      )}
+
+      {progress && progress.failures.length > 0 && (
+        <div className="space-y-2">
+          <div className="font-medium">Failures</div>
+          <div className="rounded-md border overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Resource</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Last attempt</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {progress.failures.map((f) => (
+                  <TableRow key={f.resource_id}>
+                    <TableCell className="font-medium">{f.title || f.resource_id}</TableCell>
+                    <TableCell className="text-red-500">{f.error || '-'}</TableCell>
+                    <TableCell>{f.attempts}</TableCell>
+                    <TableCell>{new Date(f.updated_at).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -10,6 +10,10 @@ import { RecentUpdatesSection } from './_components/RecentUpdatesSection'
 import { ExamsSection } from './_components/ExamsSection'
 import { SettingsSection } from './_components/SettingsSection'
 import { AdminsSection } from './_components/AdminsSection'
+import { NotificationsPanel } from './_components/NotificationsPanel'
+import { DownloadsSection } from './_components/DownloadsSection'
+import { StorageMigrationSection } from './_components/StorageMigrationSection'
+import { LinkHealthSection } from './_components/LinkHealthSection'
 import SimpleYearManager from './_components/SimpleYearManager'
 
 type UserContext = {
@@ -143,6 +147,7 @@ export default function DeveloperDashboardPage() {
           )}
         </p>
       </div>
+      <NotificationsPanel />
       <Tabs defaultValue="resources" className="space-y-6">
         <TabsList className="flex flex-wrap gap-2">
           <TabsTrigger value="resources">Resources</TabsTrigger>
@@ -150,7 +155,9 @@ export default function DeveloperDashboardPage() {
           <TabsTrigger value="reminders">Reminders</TabsTrigger>
           <TabsTrigger value="updates">Recent Updates</TabsTrigger>
           <TabsTrigger value="exams">Exams</TabsTrigger>
+          <TabsTrigger value="downloads">Downloads</TabsTrigger>
           {/* Admin-only tabs */}
+          {isAdmin && <TabsTrigger value="links">Link Health</TabsTrigger>}
           {isAdmin && <TabsTrigger value="settings">Settings</TabsTrigger>}
           {isAdmin && <TabsTrigger value="admins">Admins</TabsTrigger>}
         </TabsList>
@@ -169,9 +176,18 @@ export default function DeveloperDashboardPage() {
         <TabsContent value="exams">
           <Card><CardContent className="p-4"><ExamsSection userContext={userContext} /></CardContent></Card>
         </TabsContent>
+        <TabsContent value="downloads">
+          <Card><CardContent className="p-4"><DownloadsSection /></CardContent></Card>
+        </TabsContent>
+        {isAdmin && (
+          <TabsContent value="links">
+            <Card><CardContent className="p-4"><LinkHealthSection /></CardContent></Card>
+          </TabsContent>
+        )}
         {isAdmin && (
           <TabsContent value="settings">
             <Card><CardContent className="p-4"><SettingsSection /></CardContent></Card>
+            {userContext?.role === 'superadmin' && <Card className="mt-4"><CardContent className="p-4"><StorageMigrationSection /></CardContent></Card>}
           </TabsContent>
         )}
         {isAdmin && (
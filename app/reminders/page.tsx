@@ -24,12 +24,22 @@ import {
 } from 'lucide-react'
 import { useProfile } from '@/lib/enhanced-profile-context'
 import Loader from '@/components/Loader'
+import { describeRecurrenceRule, parseRecurrenceRule } from '@/lib/recurrence'
 
+// Shape returned by /api/reminders; recurring reminders come back once per upcoming occurrence
 interface Reminder {
+  id: string
   title: string
-  dueDate: string
+  due_date: string
   description: string
-  iconType?: string
+  icon_type?: string
+  series_id: string | null
+  recurrence_rule: string | null
+}
+
+function describeRepeat(rule: string | null): string | null {
+  const parsed = rule ? parseRecurrenceRule(rule) : null
+  return parsed?.ok ? describeRecurrenceRule(parsed.value) : null
 }
 
 // helper for icon
@@ -161,29 +171,35 @@ export default function RemindersPage() {
 
       <div className="grid gap-4">
         {!error &&
-          reminders.map((r, idx) => (
-            <Card
-              key={idx}
-              className="border-l-4 border-primary transition-all-smooth hover:shadow-md"
-            >
-              <CardHeader className="flex flex-row items-start gap-4 pb-2">
-                {getIcon(r.iconType)}
-                <div>
-                  <CardTitle>{r.title}</CardTitle>
-                  {r.dueDate && (
-                    <CardDescription>{r.dueDate}</CardDescription>
-                  )}
-                </div>
-              </CardHeader>
-              {r.description && (
-                <CardContent>
-                  <p className="text-sm text-muted-foreground">
-                    {r.description}
-                  </p>
-                </CardContent>
-              )}
-            </Card>
-          ))}
+          reminders.map((r) => {
+            const repeats = describeRepeat(r.recurrence_rule)
+            return (
+              <Card
+                key={`${r.id}:${r.due_date}`}
+                className="border-l-4 border-primary transition-all-smooth hover:shadow-md"
+              >
+                <CardHeader className="flex flex-row items-start gap-4 pb-2">
+                  {getIcon(r.icon_type)}
+                  <div>
+                    <CardTitle>{r.title}</CardTitle>
+                    {r.due_date && (
+                      <CardDescription>
+                        {r.due_date}
+                        {repeats && ` · ${repeats}`}
+                      </CardDescription>
+                    )}
+                  </div>
+                </CardHeader>
+                {r.description && (
+                  <CardContent>
+                    <p className="text-sm text-muted-foreground">
+                      {r.description}
+                    </p>
+                  </CardContent>
+                )}
+              </Card>
+            )
+          })}
       </div>
       <ChatBubble href="https://chat.pecup.in" />
     </div>
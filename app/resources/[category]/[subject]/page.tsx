@@ -8,11 +8,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import Link from "next/link"
+import Image from "next/image"
 import { notFound } from "next/navigation"
 import { Header } from '@/components/Header'
 import ChatBubble from '@/components/ChatBubble'
 import { Breadcrumb } from '@/components/Breadcrumb'
-import { ChevronRight, FileText, ChevronDown, Download, ExternalLink, Loader2, AlertCircle, Search, ArrowUpDown, Filter, RefreshCw, Users } from "lucide-react"
+import { ChevronRight, FileText, ChevronDown, Download, ExternalLink, Loader2, AlertCircle, Search, ArrowUpDown, Filter, RefreshCw, Users, LayoutGrid, List } from "lucide-react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Skeleton } from "@/components/ui/skeleton"
 import { getResourceTypeForCategory } from '@/lib/resource-utils'
@@ -41,6 +42,11 @@ interface ResourceDTO {
   unit?: number
   date?: string
   is_pdf?: boolean
+  thumbnail_url?: string | null
+  thumbnail_path?: string | null // raw column when the row comes from the bulk fetch
+  has_pdf_rendition?: boolean
+  pdf_rendition_path?: string | null // raw column when the row comes from the bulk fetch
+  restricted?: boolean
   branch?: any
   year?: any
   semester?: any
@@ -64,6 +70,9 @@ function transformResourceDTOToResource(dto: ResourceDTO): Resource {
     unit: dto.unit,
     date: dto.date || dto.created_at, // for backward compatibility in UI
     is_pdf: dto.is_pdf,
+    thumbnail_url: dto.thumbnail_url ?? (dto.thumbnail_path ? `/api/resources/${dto.id}/thumbnail` : null),
+    has_pdf_rendition: dto.has_pdf_rendition ?? Boolean(dto.pdf_rendition_path),
+    restricted: Boolean(dto.restricted),
     regulation: undefined, // not provided by current API
     archived: false, // default value
     deleted_at: undefined,
@@ -128,6 +137,8 @@ export default function SubjectPage({
   const [query, setQuery] = useState<string>('')
   const [expandAll, setExpandAll] = useState<boolean>(false)
   const [refreshTrigger, setRefreshTrigger] = useState(0)
+  const [viewMode, setViewMode] = useState<'list' | 'grid'>('list')
+  const [brokenPreviews, setBrokenPreviews] = useState<Set<string>>(new Set())
 
   const lastFetchRef = useRef<number>(0)
   const REVALIDATE_COOLDOWN = 5 * 60 * 1000 // 5 minutes
@@ -231,8 +242,12 @@ export default function SubjectPage({
   }
 
   // Handle file access directly
-  const handleFileAccess = async (resource: Resource, action: 'view' | 'download') => {
-    const url = resource.url || resource.drive_link
+  // Office files with a PDF rendition open as the PDF; 'original' fetches the uploaded file.
+  // Restricted files have no direct link and always go through the secure file endpoint.
+  const handleFileAccess = async (resource: Resource, action: 'view' | 'download' | 'original') => {
+    const url = resource.has_pdf_rendition || resource.restricted
+      ? `/api/resources/${resource.id}/file${action === 'original' ? '?original=1' : ''}`
+      : resource.url || resource.drive_link
     if (!url) {
       console.error('Resource has no URL')
       return
@@ -241,7 +256,7 @@ export default function SubjectPage({
     setLoadingFile(resource.id)
 
     try {
-      if (action === 'download') {
+      if (action === 'download' || action === 'original') {
         const link = document.createElement('a')
         link.href = url
         link.download = resource.name || resource.title || 'resource'
@@ -256,6 +271,72 @@ export default function SubjectPage({
     }
   }
 
+  // Remember the list/grid choice across subjects
+  useEffect(() => {
+    const saved = localStorage.getItem('resources_view_mode')
+    if (saved === 'grid' || saved === 'list') setViewMode(saved)
+  }, [])
+
+  const changeViewMode = (mode: 'list' | 'grid') => {
+    setViewMode(mode)
+    localStorage.setItem('resources_view_mode', mode)
+  }
+
+  // Grid view: preview image on top so similar titles (handwritten vs typed notes) can be told apart
+  const renderResourceGrid = (items: Resource[]) => (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+      {items.map((resource, index) => {
+        const hasPreview = !!resource.thumbnail_url && !brokenPreviews.has(resource.id)
+        return (
+          <div
+            key={resource.id || `${resource.name || resource.title}-${index}`}
+            className="flex flex-col overflow-hidden rounded-md border bg-background"
+          >
+            <button
+              type="button"
+              className="relative aspect-[3/4] w-full bg-muted"
+              onClick={() => handleFileAccess(resource, 'view')}
+              aria-label={`View ${resource.name || resource.title}`}
+            >
+              {hasPreview ? (
+                <Image
+                  src={resource.thumbnail_url!}
+                  alt=""
+                  fill
+                  unoptimized
+                  sizes="(min-width: 1024px) 25vw, (min-width: 640px) 33vw, 50vw"
+                  className="object-cover object-top"
+                  onError={() => setBrokenPreviews(prev => new Set(prev).add(resource.id))}
+                />
+              ) : (
+                <FileText className="absolute inset-0 m-auto h-10 w-10 text-muted-foreground" />
+              )}
+            </button>
+            <div className="flex flex-1 flex-col gap-1 p-2">
+              <h4 className="line-clamp-2 text-sm font-medium">{resource.name || resource.title}</h4>
+              {resource.description && (
+                <p className="line-clamp-2 text-xs text-muted-foreground">{resource.description}</p>
+              )}
+              <div className="mt-auto flex items-center justify-between gap-1 pt-1">
+                <Badge variant="outline" className="truncate text-xs">{resource.type || resource.file_type}</Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => handleFileAccess(resource, 'download')}
+                  disabled={loadingFile === resource.id}
+                  aria-label="Download"
+                >
+                  {loadingFile === resource.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Download className="h-3 w-3" />}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+
   // Fetch resources on mount
   useEffect(() => {
     async function fetchResources(forceRefresh = false) {
@@ -411,6 +492,12 @@ export default function SubjectPage({
   }, [])
 
   const resultCount = visibleResources.length
+  // Zips every file in the subject (or the selected unit) in one download
+  const exportUrl = `/api/resources/export?${new URLSearchParams({
+    category,
+    subject: decodedSubject.toLowerCase(),
+    ...(selectedUnit !== 'all' ? { unit: selectedUnit } : {})
+  }).toString()}`
 
   return (
     <div className="space-y-4 p-4 md:p-6 lg:p-8">
@@ -514,6 +601,26 @@ export default function SubjectPage({
               </div>
 
               <div className="flex items-center gap-2">
+                <div className="flex rounded-md border">
+                  <Button
+                    variant={viewMode === 'list' ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => changeViewMode('list')}
+                    aria-label="List view"
+                    aria-pressed={viewMode === 'list'}
+                  >
+                    <List className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant={viewMode === 'grid' ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => changeViewMode('grid')}
+                    aria-label="Grid view"
+                    aria-pressed={viewMode === 'grid'}
+                  >
+                    <LayoutGrid className="h-4 w-4" />
+                  </Button>
+                </div>
                 <div className="relative w-full md:w-[260px]">
                   <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                   <Input
@@ -538,6 +645,14 @@ export default function SubjectPage({
                   <RefreshCw className="mr-1 h-4 w-4" />
                   Refresh
                 </Button>
+                {resultCount > 0 && (
+                  <Button variant="ghost" size="sm" asChild className="hidden sm:inline-flex">
+                    <a href={exportUrl} download>
+                      <Download className="mr-1 h-4 w-4" />
+                      {selectedUnit === 'all' ? 'Download all' : `Download unit ${selectedUnit}`}
+                    </a>
+                  </Button>
+                )}
                 {selectedUnit === 'all' && (
                   <Button
                     variant="ghost"
@@ -597,7 +712,11 @@ export default function SubjectPage({
                       <ChevronDown className={`h-4 w-4 transition-transform ${expandedUnits.has(unit) ? 'rotate-180' : ''}`} />
                     </Button>
 
-                    {expandedUnits.has(unit) && (
+                    {expandedUnits.has(unit) && viewMode === 'grid' && (
+                      <div className="px-4 pb-4">{renderResourceGrid(resourcesByUnit[unit])}</div>
+                    )}
+
+                    {expandedUnits.has(unit) && viewMode === 'list' && (
                       <div className="px-4 pb-4 space-y-3">
                         {resourcesByUnit[unit].map((resource, index) => (
                           <div
@@ -648,6 +767,19 @@ export default function SubjectPage({
                                     )}
                                     {loadingFile === resource.id ? 'Opening...' : 'View'}
                                   </Button>
+                                  {resource.has_pdf_rendition && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="text-xs"
+                                      onClick={() => handleFileAccess(resource, 'original')}
+                                      disabled={loadingFile === resource.id}
+                                      title="Download the original Office file"
+                                    >
+                                      <FileText className="mr-1 h-3 w-3" />
+                                      Original
+                                    </Button>
+                                  )}
                                 </>
                               )}
                             </div>
@@ -665,6 +797,8 @@ export default function SubjectPage({
                       {resourcesByUnit[parseInt(selectedUnit)]?.length || 0}
                     </Badge>
                   </div>
+                  {viewMode === 'grid' && renderResourceGrid(resourcesByUnit[parseInt(selectedUnit)] || [])}
+                  {viewMode === 'list' && (
                   <div className="space-y-3">
                     {resourcesByUnit[parseInt(selectedUnit)]?.map((resource, index) => (
                       <div
@@ -705,12 +839,25 @@ export default function SubjectPage({
                                 <ExternalLink className="mr-1 h-3 w-3" />
                                 View
                               </Button>
+                              {resource.has_pdf_rendition && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-xs"
+                                  onClick={() => handleFileAccess(resource, 'original')}
+                                  title="Download the original Office file"
+                                >
+                                  <FileText className="mr-1 h-3 w-3" />
+                                  Original
+                                </Button>
+                              )}
                             </>
                           )}
                         </div>
                       </div>
                     ))}
                   </div>
+                  )}
                 </div>
               )}
             </div>
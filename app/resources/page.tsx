@@ -5,8 +5,10 @@ import Link from "next/link"
 import { Header } from '@/components/Header'
 import { Breadcrumb } from '@/components/Breadcrumb'
 import ChatBubble from '@/components/ChatBubble'
-import { FileText, BookOpen, FileCheck, Database, Users, Loader2 } from "lucide-react"
+import { FileText, BookOpen, FileCheck, Database, Users, Loader2, Search } from "lucide-react"
 import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { useRouter } from 'next/navigation'
 import Loader from '@/components/Loader'
 
 import { useEffect, useMemo, useState, useState as useStateClient } from 'react'
@@ -46,6 +48,8 @@ function LiveUsersCount() {
 
 export default function ResourcesPage() {
   const { profile, loading } = useProfile()
+  const router = useRouter()
+  const [searchText, setSearchText] = useState('')
   const [year, setYear] = useState<number | 'all'>('all')
   const [semester, setSemester] = useState<number | 'all'>('all')
   const [branch, setBranch] = useState<string | ''>('')
@@ -134,6 +138,23 @@ export default function ResourcesPage() {
           <h1 className="text-3xl font-bold tracking-tight text-center">Resources</h1>
           <p className="text-muted-foreground text-center">Access all resource materials organized by category</p>
         </div>
+
+        <form
+          className="relative mx-auto w-full max-w-xl"
+          onSubmit={(e) => {
+            e.preventDefault()
+            const q = searchText.trim()
+            if (q.length >= 2) router.push(`/search?q=${encodeURIComponent(q)}`)
+          }}
+        >
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="Search all resources, e.g. dijkstra"
+            className="pl-8"
+          />
+        </form>
       </div>
 
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
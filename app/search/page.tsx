@@ -0,0 +1,245 @@
+"use client"
+
+import { Suspense, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Header } from '@/components/Header'
+import { Breadcrumb } from '@/components/Breadcrumb'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ExternalLink, FileText, Search } from 'lucide-react'
+import { splitHighlight } from '@/lib/search-highlight'
+
+interface SearchResult {
+  id: string
+  title: string | null
+  description: string | null
+  category: string
+  subject: string
+  unit: number | null
+  type: string | null
+  url: string | null
+  drive_link: string | null
+  created_at: string
+  title_highlight: string | null
+  snippet: string | null
+}
+
+interface SearchMeta {
+  page: number
+  limit: number
+  count: number
+  totalPages: number
+}
+
+const CATEGORIES = ['notes', 'assignments', 'papers', 'records']
+
+function Highlighted({ text }: { text: string | null }) {
+  return (
+    <>
+      {splitHighlight(text).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="rounded-sm bg-primary/20 px-0.5 text-foreground">{segment.text}</mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  )
+}
+
+function SearchResults() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const q = searchParams.get('q') || ''
+  const category = searchParams.get('category') || 'all'
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
+
+  const [input, setInput] = useState(q)
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [meta, setMeta] = useState<SearchMeta | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => { setInput(q) }, [q])
+
+  const navigate = (next: { q?: string; category?: string; page?: number }) => {
+    const p = new URLSearchParams()
+    const nextQ = next.q ?? q
+    const nextCategory = next.category ?? category
+    if (nextQ) p.set('q', nextQ)
+    if (nextCategory !== 'all') p.set('category', nextCategory)
+    if (next.page && next.page > 1) p.set('page', String(next.page))
+    router.push(`/search?${p.toString()}`)
+  }
+
+  useEffect(() => {
+    if (q.trim().length < 2) {
+      setResults([])
+      setMeta(null)
+      return
+    }
+    const controller = new AbortController()
+    const load = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const p = new URLSearchParams({ q, page: String(page) })
+        if (category !== 'all') p.set('category', category)
+        const res = await fetch(`/api/search?${p.toString()}`, { signal: controller.signal })
+        const json = await res.json()
+        if (!res.ok) throw new Error(json.error || 'Search failed')
+        setResults(json.data || [])
+        setMeta(json.meta || null)
+      } catch (e) {
+        if (e instanceof DOMException && e.name === 'AbortError') return
+        setError(e instanceof Error ? e.message : 'Search failed')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+    return () => controller.abort()
+  }, [q, category, page])
+
+  return (
+    <div className="space-y-6">
+      <form
+        className="flex flex-col gap-2 sm:flex-row"
+        onSubmit={(e) => {
+          e.preventDefault()
+          navigate({ q: input.trim(), page: 1 })
+        }}
+      >
+        <div className="relative w-full">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Search notes, papers, assignments and records"
+            className="pl-8"
+            autoFocus
+          />
+        </div>
+        <Select value={category} onValueChange={(v) => navigate({ category: v, page: 1 })}>
+          <SelectTrigger className="sm:w-[170px]">
+            <SelectValue placeholder="Category" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All categories</SelectItem>
+            {CATEGORIES.map(c => (
+              <SelectItem key={c} value={c} className="capitalize">{c}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit">Search</Button>
+      </form>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {!loading && meta && (
+        <p className="text-xs text-muted-foreground">
+          {meta.count} {meta.count === 1 ? 'result' : 'results'} for &quot;{q}&quot;
+        </p>
+      )}
+
+      {loading && (
+        <div className="space-y-3">
+          {[1, 2, 3, 4].map(i => (
+            <div key={i} className="rounded-md border p-3 space-y-2">
+              <Skeleton className="h-5 w-64" />
+              <Skeleton className="h-4 w-full" />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!loading && results.length > 0 && (
+        <div className="space-y-3">
+          {results.map(result => {
+            const href = result.drive_link || result.url
+            return (
+              <div key={result.id} className="flex flex-col gap-2 rounded-md border bg-background p-3 sm:flex-row sm:items-start sm:justify-between">
+                <div className="flex items-start gap-3">
+                  <FileText className="h-4 w-4 mt-0.5 text-primary" />
+                  <div className="space-y-1">
+                    <h4 className="font-medium text-sm">
+                      <Highlighted text={result.title_highlight || result.title} />
+                    </h4>
+                    {result.snippet && (
+                      <p className="text-xs text-muted-foreground">
+                        <Highlighted text={result.snippet} />
+                      </p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="secondary" className="text-xs capitalize">{result.category}</Badge>
+                      <Link
+                        href={`/resources/${encodeURIComponent(result.category)}/${encodeURIComponent(result.subject)}`}
+                        className="text-xs uppercase text-primary hover:underline"
+                      >
+                        {result.subject}
+                      </Link>
+                      {result.unit ? <span className="text-xs text-muted-foreground">Unit {result.unit}</span> : null}
+                    </div>
+                  </div>
+                </div>
+                {href && (
+                  <Button variant="outline" size="sm" className="text-xs" asChild>
+                    <a href={href} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="mr-1 h-3 w-3" />
+                      View
+                    </a>
+                  </Button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {!loading && !error && q.trim().length >= 2 && results.length === 0 && (
+        <p className="text-center text-sm text-muted-foreground">No resources matched your search.</p>
+      )}
+
+      {meta && meta.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <Button variant="outline" size="sm" disabled={page <= 1 || loading} onClick={() => navigate({ page: page - 1 })}>
+            Previous
+          </Button>
+          <span className="text-xs text-muted-foreground">Page {page} of {meta.totalPages}</span>
+          <Button variant="outline" size="sm" disabled={page >= meta.totalPages || loading} onClick={() => navigate({ page: page + 1 })}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function SearchPage() {
+  return (
+    <div className="space-y-4 p-4 md:p-6 lg:p-8">
+      <Header />
+
+      <div className="space-y-4">
+        <Breadcrumb items={[
+          { label: "Home", href: "/" },
+          { label: "Resources", href: "/resources" },
+          { label: "Search", isCurrentPage: true }
+        ]} />
+
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight text-center">Search</h1>
+          <p className="text-muted-foreground text-center">Find resources across every subject you have access to</p>
+        </div>
+      </div>
+
+      <Suspense fallback={<Skeleton className="h-10 w-full" />}>
+        <SearchResults />
+      </Suspense>
+    </div>
+  )
+}
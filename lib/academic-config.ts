@@ -288,6 +288,16 @@ export class AcademicConfigManager {
     return subjectConfig[academicYear] || [];
   }
 
+  /**
+   * List common subjects a branch shares with other branches in a given academic year
+   */
+  getCommonSubjectsForBranch(academicYear: number, userBranch: string): string[] {
+    const branch = userBranch.toUpperCase();
+    return Object.entries(COMMON_SUBJECTS_CONFIG)
+      .filter(([, years]) => (years[academicYear] || []).includes(branch))
+      .map(([subjectCode]) => subjectCode);
+  }
+
   clearCache(): void {
     this.yearMappings = null;
     this.cacheExpiry = 0;
@@ -162,6 +162,7 @@ export async function getCurrentUserContext(): Promise<UserContext | null> {
     email: userEmail,
     name: userName,
     role: userRole,
+    rollNumber: typedStudent?.roll_number || undefined,
     year: userYear,
     branch: userBranch,
     branchId: typedStudent?.branch_id,
@@ -260,6 +261,28 @@ export async function canManageResources(branchId: string, yearId: string): Prom
   return false
 }
 
+/**
+ * Synchronous variant of canManageResources for a user context that's already loaded
+ */
+export function canUserManageResource(
+  userContext: UserContext,
+  resource: { branch_id?: string | null; year_id?: string | null }
+): boolean {
+  if (userContext.role === 'admin' || userContext.role === 'yeshh') return true
+  if (userContext.role !== 'representative') return false
+  return userContext.representatives?.some(rep =>
+    rep.branch_id === resource.branch_id && rep.year_id === resource.year_id && rep.active
+  ) || false
+}
+
+/**
+ * PostgREST `or` filter for rows in any of a representative's branch/year pairs
+ * (separate `in` lists on branch_id and year_id would also match the cross combinations)
+ */
+export function representativeScopeFilter(assignments: Array<{ branch_id: string; year_id: string }>): string {
+  return assignments.map(rep => `and(branch_id.eq.${rep.branch_id},year_id.eq.${rep.year_id})`).join(',')
+}
+
 /**
  * Check if current user can promote semester for a specific branch and year
  */
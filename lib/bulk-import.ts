@@ -0,0 +1,241 @@
+import { unzipSync } from 'fflate'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { parseCsvRecords, type CsvRecord } from '@/lib/csv'
+import { validateFile, getFileExtension } from '@/lib/file-validation'
+import { scanUpload } from '@/lib/virus-scan'
+import { storeResourceFile, type StorageSettings } from '@/lib/files'
+import { sha256Hex, findDuplicateResource } from '@/lib/content-hash'
+import { getBranchIdByCode, getYearIdByBatchYear, getSemesterId } from '@/lib/lookup-mappers'
+import { tryRecordResourceVersion } from '@/lib/resource-versions'
+
+export const BULK_IMPORT_MAX_ROWS = 500
+// The archive arrives in one request body, which the platform caps at 4.5MB
+export const BULK_IMPORT_MAX_ARCHIVE_BYTES = 4 * 1024 * 1024
+// Everything is inflated in memory, so the declared sizes in the central directory are capped before
+// anything is inflated (fflate never writes past an entry's declared size)
+export const BULK_IMPORT_MAX_EXPANDED_BYTES = 100 * 1024 * 1024
+const MAX_ARCHIVE_ENTRIES = 2000
+const MAX_FILE_BYTES = 25 * 1024 * 1024
+
+const REQUIRED_COLUMNS = ['file', 'subject', 'category', 'unit'] as const
+
+// Accepted spellings for manifest columns, after header normalization
+const COLUMN_ALIASES: Record<string, string> = {
+  filename: 'file',
+  file_name: 'file',
+  path: 'file',
+  name: 'title',
+  branch_code: 'branch',
+  batch_year: 'year',
+  resource_type: 'type',
+}
+
+export interface ManifestRow {
+  row: number
+  file: string
+  title: string
+  subject: string
+  category: string
+  unit: string
+  branch: string
+  year: string
+  semester: string
+  description: string
+  type: string
+}
+
+export interface ImportRowResult {
+  row: number
+  file: string
+  status: 'created' | 'failed'
+  id?: string
+  error?: string
+}
+
+export interface ImportContext {
+  actor: { email: string; role: 'admin' | 'yeshh' }
+  settings: StorageSettings | null
+  profileId: string | null
+  // Called for each stored PDF so the route can schedule text indexing after responding
+  onPdfCreated?: (resourceId: string, buffer: Buffer) => void
+  // Called for every stored file so the route can schedule preview generation
+  onFileCreated?: (resourceId: string, buffer: Buffer, mimeType: string, fileName: string) => void
+}
+
+export interface ImportArchive {
+  files: Map<string, Uint8Array>
+  oversized: Set<string>
+  manifestText: string | null
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\.?\/+/, '').toLowerCase()
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+/**
+ * Parse a manifest CSV into rows. Row numbers count the header as row 1 so they match spreadsheet lines.
+ */
+export function readManifest(text: string): ManifestRow[] {
+  const { headers, records } = parseCsvRecords(text)
+  const columns = new Set(headers.map(h => COLUMN_ALIASES[h] || h))
+  const missing = REQUIRED_COLUMNS.filter(c => !columns.has(c))
+  if (missing.length > 0) throw new Error(`Manifest is missing column(s): ${missing.join(', ')}`)
+  if (records.length > BULK_IMPORT_MAX_ROWS) throw new Error(`Manifest has more than ${BULK_IMPORT_MAX_ROWS} rows`)
+
+  return records.map((record: CsvRecord, index) => {
+    const get = (column: string) => {
+      for (const [key, value] of Object.entries(record)) {
+        if ((COLUMN_ALIASES[key] || key) === column && value) return value
+      }
+      return ''
+    }
+    return {
+      row: index + 2,
+      file: get('file'),
+      title: get('title'),
+      subject: get('subject'),
+      category: get('category'),
+      unit: get('unit'),
+      branch: get('branch'),
+      year: get('year'),
+      semester: get('semester'),
+      description: get('description'),
+      type: get('type'),
+    }
+  })
+}
+
+/**
+ * Unpack an import ZIP. Files over the upload limit are listed in `oversized` instead of being inflated,
+ * and a single top-level .csv is picked up as the manifest.
+ * Throws when the archive has too many entries or would expand past BULK_IMPORT_MAX_EXPANDED_BYTES.
+ */
+export function readArchive(zip: Uint8Array): ImportArchive {
+  const oversized = new Set<string>()
+  let entryCount = 0
+  let expandedBytes = 0
+  const entries = unzipSync(zip, {
+    filter: info => {
+      if (++entryCount > MAX_ARCHIVE_ENTRIES) throw new Error(`Archive has more than ${MAX_ARCHIVE_ENTRIES} entries`)
+      const name = normalizePath(info.name)
+      if (name.endsWith('/') || name.startsWith('__macosx/')) return false
+      if (info.originalSize > MAX_FILE_BYTES) {
+        oversized.add(name)
+        return false
+      }
+      expandedBytes += info.originalSize
+      if (expandedBytes > BULK_IMPORT_MAX_EXPANDED_BYTES) {
+        throw new Error(`Archive expands to more than ${BULK_IMPORT_MAX_EXPANDED_BYTES / (1024 * 1024)}MB`)
+      }
+      return true
+    }
+  })
+
+  const files = new Map<string, Uint8Array>()
+  for (const [name, data] of Object.entries(entries)) files.set(normalizePath(name), data)
+
+  const csvNames = Array.from(files.keys()).filter(n => !n.includes('/') && n.endsWith('.csv'))
+  const manifestText = csvNames.length === 1 ? new TextDecoder().decode(files.get(csvNames[0])) : null
+  return { files, oversized, manifestText }
+}
+
+/**
+ * Find a manifest's file in the archive by exact path, falling back to a unique file name match
+ */
+export function findArchiveFile(archive: ImportArchive, file: string): { data: Uint8Array } | { error: string } {
+  const wanted = normalizePath(file)
+  if (archive.oversized.has(wanted)) return { error: 'File exceeds the 25MB upload limit' }
+  const exact = archive.files.get(wanted)
+  if (exact) return { data: exact }
+
+  const matches = Array.from(archive.files.keys()).filter(n => baseName(n) === baseName(wanted))
+  if (matches.length === 1) return { data: archive.files.get(matches[0])! }
+  if (matches.length > 1) return { error: `File name matches ${matches.length} files in the archive; use the full path` }
+  return { error: 'File not found in archive' }
+}
+
+/**
+ * Validate, store and insert one manifest row. Never throws; failures are reported on the row.
+ */
+export async function importManifestRow(row: ManifestRow, data: Uint8Array, ctx: ImportContext): Promise<ImportRowResult> {
+  const result: ImportRowResult = { row: row.row, file: row.file, status: 'failed' }
+  try {
+    const missing = REQUIRED_COLUMNS.filter(c => !row[c])
+    if (missing.length > 0) return { ...result, error: `Missing ${missing.join(', ')}` }
+
+    const unit = Number.parseInt(row.unit, 10)
+    if (!Number.isInteger(unit) || unit < 1 || unit > 12) return { ...result, error: 'Unit must be an integer between 1 and 12' }
+    const year = row.year ? Number.parseInt(row.year, 10) : null
+    if (row.year && !Number.isInteger(year)) return { ...result, error: `Invalid year '${row.year}'` }
+    const semester = row.semester ? Number.parseInt(row.semester, 10) : null
+    if (row.semester && !Number.isInteger(semester)) return { ...result, error: `Invalid semester '${row.semester}'` }
+
+    const branch = row.branch ? row.branch.toUpperCase() : null
+    const branchId = branch ? await getBranchIdByCode(branch) : null
+    if (branch && !branchId) return { ...result, error: `Unknown branch '${row.branch}'` }
+    const yearId = year ? await getYearIdByBatchYear(year) : null
+    if (year && !yearId) return { ...result, error: `Unknown year '${row.year}'` }
+    const semesterId = yearId && semester ? await getSemesterId(yearId, semester) : null
+    if (semester && yearId && !semesterId) return { ...result, error: `Unknown semester '${row.semester}' for year ${year}` }
+
+    const fileName = baseName(row.file.replace(/\\/g, '/'))
+    const buffer = Buffer.from(data)
+    const validation = validateFile(buffer, fileName, null)
+    if (!validation.ok) return { ...result, error: validation.reason || 'Unsupported file type' }
+    const mime = validation.detectedMime || 'application/octet-stream'
+    const scan = await scanUpload(buffer, fileName, { mimeType: mime, uploadedBy: ctx.actor.email })
+    if (!scan.ok) return { ...result, error: scan.reason }
+    const isPdf = mime === 'application/pdf' || getFileExtension(fileName) === 'pdf'
+
+    const subject = row.subject.toLowerCase()
+    const contentHash = sha256Hex(buffer)
+    const existing = await findDuplicateResource({ contentHash, subject, branchId, yearId, semesterId })
+    if (existing) return { ...result, id: existing.id, error: `Already uploaded as '${existing.title || existing.id}'` }
+
+    const { url } = await storeResourceFile(buffer, fileName, mime, { isPdf, settings: ctx.settings, description: row.description || undefined })
+
+    const title = row.title || fileName.replace(/\.[^.]+$/, '')
+    const insertPayload = {
+      category: row.category,
+      subject,
+      unit,
+      name: title,
+      title,
+      description: row.description || null,
+      type: row.type || null,
+      year,
+      branch,
+      semester,
+      branch_id: branchId,
+      year_id: yearId,
+      semester_id: semesterId,
+      archived: false,
+      url,
+      is_pdf: isPdf,
+      file_type: mime,
+      drive_link: url.includes('drive.google.com') ? url : null,
+      content_hash: contentHash,
+      submitted_by: ctx.actor.email,
+      moderation_status: 'approved',
+      uploader_id: ctx.profileId,
+      created_by: ctx.profileId,
+    }
+
+    const supabase = createSupabaseAdmin()
+    const { data: inserted, error } = await supabase.from('resources').insert(insertPayload).select('id').single()
+    if (error) throw error
+
+    await tryRecordResourceVersion({ resourceId: inserted.id, after: insertPayload, actor: ctx.actor })
+    if (isPdf) ctx.onPdfCreated?.(inserted.id, buffer)
+    ctx.onFileCreated?.(inserted.id, buffer, mime, fileName)
+    return { row: row.row, file: row.file, status: 'created', id: inserted.id }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err)
+    console.error(`[bulk-import] Row ${row.row} (${row.file}) failed:`, message)
+    return { ...result, error: message }
+  }
+}
@@ -0,0 +1,268 @@
+import { createHash, randomBytes } from 'crypto'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { AcademicConfigManager } from '@/lib/academic-config'
+import { EXAM_TYPE_LABELS, type ExamType } from '@/lib/exams'
+import { expandReminders, loadReminderRows } from '@/lib/reminders'
+
+// Subscribable iCalendar feed of a student's exams and reminders. Calendar apps fetch it without a
+// session, so it is authorised by a random token in the URL that the student can revoke.
+
+// Past events stay in the feed for a while so calendars don't drop them the day after
+const FEED_HISTORY_DAYS = 30
+const FEED_MAX_EVENTS = 500
+// Recurring reminders are listed this far ahead
+const FEED_RECURRENCE_DAYS = 180
+
+export interface CalendarEvent {
+  uid: string
+  // YYYY-MM-DD; all-day unless a start time is known
+  date: string
+  // HH:MM local time
+  startTime?: string | null
+  endTime?: string | null
+  summary: string
+  description?: string | null
+  location?: string | null
+  category: 'Exam' | 'Reminder'
+}
+
+export interface CalendarFeedStatus {
+  active: boolean
+  createdAt: string | null
+  lastUsedAt: string | null
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function calendarFeedUrl(token: string): string {
+  return `${process.env.NEXTAUTH_URL}/api/calendar/${token}.ics`
+}
+
+/**
+ * Issue a new feed token for a student, revoking the previous one. The raw token is only returned here.
+ */
+export async function issueCalendarFeedToken(email: string): Promise<string> {
+  const supabase = createSupabaseAdmin()
+  await revokeCalendarFeedTokens(email)
+  const token = randomBytes(32).toString('base64url')
+  const { error } = await supabase.from('calendar_feed_tokens').insert({
+    email: email.toLowerCase(),
+    token_hash: hashToken(token)
+  })
+  if (error) throw new Error(`Failed to issue calendar feed token: ${error.message}`)
+  return token
+}
+
+/**
+ * Revoke a student's feed; subscribed calendars stop updating
+ */
+export async function revokeCalendarFeedTokens(email: string): Promise<number> {
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('email', email.toLowerCase())
+    .is('revoked_at', null)
+    .select('id')
+  if (error) throw new Error(`Failed to revoke calendar feed tokens: ${error.message}`)
+  return data?.length || 0
+}
+
+export async function getCalendarFeedStatus(email: string): Promise<CalendarFeedStatus> {
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('created_at, last_used_at')
+    .eq('email', email.toLowerCase())
+    .is('revoked_at', null)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load calendar feed: ${error.message}`)
+  return { active: Boolean(data), createdAt: data?.created_at ?? null, lastUsedAt: data?.last_used_at ?? null }
+}
+
+/**
+ * Email of the student a live feed token belongs to, or null for unknown and revoked tokens
+ */
+export async function resolveCalendarFeedToken(token: string): Promise<string | null> {
+  if (!token) return null
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('id, email')
+    .eq('token_hash', hashToken(token))
+    .is('revoked_at', null)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to look up calendar feed token: ${error.message}`)
+  if (!data) return null
+  await supabase.from('calendar_feed_tokens').update({ last_used_at: new Date().toISOString() }).eq('id', data.id)
+  return data.email
+}
+
+function toDateOnly(value: string | null | undefined): string | null {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2})/)
+  return match ? match[1] : null
+}
+
+/**
+ * A student's exams and reminders, scoped to their branch and academic year the same way the home page does
+ */
+export async function loadCalendarEvents(email: string): Promise<CalendarEvent[]> {
+  const supabase = createSupabaseAdmin()
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('id, branch:branches(code), year:years(batch_year)')
+    .eq('email', email.toLowerCase())
+    .maybeSingle()
+  if (profileError) throw new Error(`Failed to load profile: ${profileError.message}`)
+  if (!profile) return []
+
+  // Supabase relations may come back as arrays or objects
+  const branchRel = Array.isArray(profile.branch) ? profile.branch[0] : profile.branch
+  const yearRel = Array.isArray(profile.year) ? profile.year[0] : profile.year
+  const branchCode: string | null = branchRel?.code || null
+  const currentYear = yearRel?.batch_year
+    ? await AcademicConfigManager.getInstance().calculateAcademicYear(yearRel.batch_year)
+    : null
+
+  const since = new Date()
+  since.setUTCHours(0, 0, 0, 0)
+  since.setUTCDate(since.getUTCDate() - FEED_HISTORY_DAYS)
+  const sinceStr = since.toISOString().slice(0, 10)
+  const until = new Date(since)
+  until.setUTCDate(until.getUTCDate() + FEED_HISTORY_DAYS + FEED_RECURRENCE_DAYS)
+  const untilStr = until.toISOString().slice(0, 10)
+
+  let examsQuery = supabase
+    .from('exams')
+    .select('id, subject, exam_date, start_time, end_time, exam_type, venue')
+    .gte('exam_date', sinceStr)
+    .order('exam_date', { ascending: true })
+    .limit(FEED_MAX_EVENTS)
+  if (branchCode) examsQuery = examsQuery.eq('branch', branchCode)
+  if (currentYear) examsQuery = examsQuery.eq('year', currentYear)
+
+  // Series that started earlier can still have occurrences in the feed
+  const remindersQuery = loadReminderRows(supabase, { from: sinceStr, to: untilStr }, { branch: branchCode, year: currentYear, limit: FEED_MAX_EVENTS })
+
+  const [exams, reminders] = await Promise.all([examsQuery, remindersQuery])
+  if (exams.error) throw new Error(`Failed to load exams: ${exams.error.message}`)
+  if (reminders.error) throw new Error(`Failed to load reminders: ${reminders.error.message}`)
+
+  const events: CalendarEvent[] = []
+  for (const exam of exams.data || []) {
+    const date = toDateOnly(exam.exam_date)
+    if (!date) continue
+    const type = exam.exam_type ? EXAM_TYPE_LABELS[exam.exam_type as ExamType] : null
+    events.push({
+      uid: `exam-${exam.id}`,
+      date,
+      startTime: exam.start_time ? String(exam.start_time).slice(0, 5) : null,
+      endTime: exam.end_time ? String(exam.end_time).slice(0, 5) : null,
+      summary: type ? `${type} exam: ${exam.subject}` : `Exam: ${exam.subject}`,
+      location: exam.venue,
+      category: 'Exam'
+    })
+  }
+  for (const reminder of expandReminders(reminders.data || [], { from: sinceStr, to: untilStr })) {
+    const date = toDateOnly(reminder.due_date)
+    if (date) {
+      const uid = reminder.recurring ? `reminder-${reminder.id}-${date}` : `reminder-${reminder.id}`
+      events.push({ uid, date, summary: reminder.title, description: reminder.description, category: 'Reminder' })
+    }
+  }
+  return events.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Escape TEXT values (RFC 5545 3.3.11)
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 3.1) without splitting a UTF-8 character
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char)
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? 75 : 74
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function formatIcsDate(date: string): string {
+  return date.replace(/-/g, '')
+}
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + 1)
+  return d.toISOString().slice(0, 10)
+}
+
+// Floating local time: exam times are wall-clock times at the college
+function formatIcsLocalTime(date: string, time: string): string {
+  return `${formatIcsDate(date)}T${time.replace(':', '')}00`
+}
+
+function formatIcsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Render events as an iCalendar document; events without a start time are all-day
+ */
+export function buildCalendarFeed(events: CalendarEvent[], options: { name?: string; now?: Date } = {}): string {
+  const stamp = formatIcsTimestamp(options.now || new Date())
+  const host = process.env.NEXTAUTH_URL ? new URL(process.env.NEXTAUTH_URL).hostname : 'pecup'
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//PEC.UP//Exams and reminders//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(options.name || 'PEC.UP exams and reminders')}`,
+    // Hint to calendar apps how often to refetch
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H'
+  ]
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@${host}`,
+      `DTSTAMP:${stamp}`
+    )
+    if (event.startTime) {
+      lines.push(`DTSTART:${formatIcsLocalTime(event.date, event.startTime)}`)
+      if (event.endTime) lines.push(`DTEND:${formatIcsLocalTime(event.date, event.endTime)}`)
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(event.date)}`, `DTEND;VALUE=DATE:${formatIcsDate(nextDay(event.date))}`)
+    }
+    lines.push(`SUMMARY:${escapeIcsText(event.summary)}`)
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`)
+    if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`)
+    // All-day entries shouldn't block the day as busy
+    lines.push(`CATEGORIES:${event.category}`, `TRANSP:${event.startTime ? 'OPAQUE' : 'TRANSPARENT'}`, 'END:VEVENT')
+  }
+  lines.push('END:VCALENDAR')
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,129 @@
+// Browser helper for /api/uploads: sends a File in parts and picks up where it left off
+// when a mobile connection drops or the page is reloaded mid-upload.
+
+// Files above this go through /api/uploads instead of a single multipart POST
+export const CHUNKED_UPLOAD_THRESHOLD = 4 * 1024 * 1024
+
+const RESUME_KEY_PREFIX = 'pecup:upload:'
+const MAX_PART_RETRIES = 5
+
+export interface ChunkedUploadResult {
+  uploadId: string
+  url: string
+  mimeType: string
+  size: number
+}
+
+interface UploadState {
+  uploadId: string
+  received: number
+  chunkSize: number
+}
+
+type UploadVisibility = 'public' | 'private'
+
+function resumeKey(file: File, visibility: UploadVisibility): string {
+  return `${RESUME_KEY_PREFIX}${visibility === 'private' ? 'private:' : ''}${file.name}:${file.size}:${file.lastModified}`
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function readJson(res: Response): Promise<Record<string, unknown>> {
+  return res.json().catch(() => ({}))
+}
+
+async function startOrResume(file: File, visibility: UploadVisibility): Promise<UploadState> {
+  const key = resumeKey(file, visibility)
+  const existing = typeof window !== 'undefined' ? window.localStorage.getItem(key) : null
+
+  if (existing) {
+    const res = await fetch(`/api/uploads/${existing}`)
+    const json = await readJson(res)
+    if (res.ok && (json.status === 'uploading' || json.status === 'completed')) {
+      return { uploadId: existing, received: Number(json.received), chunkSize: Number(json.chunkSize) }
+    }
+    window.localStorage.removeItem(key)
+  }
+
+  const res = await fetch('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filename: file.name, size: file.size, mimeType: file.type || 'application/octet-stream', visibility })
+  })
+  const json = await readJson(res)
+  if (!res.ok) throw new Error(String(json.reason || json.error || 'Failed to start upload'))
+
+  window.localStorage.setItem(key, String(json.uploadId))
+  return { uploadId: String(json.uploadId), received: 0, chunkSize: Number(json.chunkSize) }
+}
+
+/**
+ * Upload a file in parts. Resolves with the upload id to pass as `upload_id` when creating the resource.
+ * Private uploads are only reachable through secure URLs (/api/uploadResource requires them).
+ */
+export async function uploadInChunks(
+  file: File,
+  options: { onProgress?: (fraction: number) => void; visibility?: UploadVisibility } = {}
+): Promise<ChunkedUploadResult> {
+  const visibility = options.visibility || 'public'
+  const key = resumeKey(file, visibility)
+  const state = await startOrResume(file, visibility)
+  options.onProgress?.(state.received / file.size)
+
+  let failures = 0
+  while (state.received < file.size) {
+    const part = file.slice(state.received, Math.min(file.size, state.received + state.chunkSize))
+    let res: Response | null = null
+    try {
+      res = await fetch(`/api/uploads/${state.uploadId}`, {
+        method: 'PUT',
+        headers: { 'Upload-Offset': String(state.received), 'Content-Type': 'application/octet-stream' },
+        body: part
+      })
+    } catch {
+      // Network dropped; retried below
+    }
+
+    if (res && (res.ok || res.status === 409)) {
+      // 409 means the server is at a different offset (e.g. a retried part already landed); follow it
+      const json = await readJson(res)
+      if (typeof json.received === 'number') state.received = json.received
+      failures = 0
+      options.onProgress?.(state.received / file.size)
+      continue
+    }
+    if (res && res.status < 500) {
+      const json = await readJson(res)
+      window.localStorage.removeItem(key)
+      throw new Error(String(json.reason || json.error || 'Upload rejected'))
+    }
+
+    failures++
+    if (failures > MAX_PART_RETRIES) throw new Error('Upload interrupted; try again to resume')
+    await sleep(Math.min(30000, 1000 * 2 ** failures))
+
+    // Re-sync with the server in case the part landed before the connection dropped
+    const status = await fetch(`/api/uploads/${state.uploadId}`).catch(() => null)
+    if (status?.ok) {
+      const json = await readJson(status)
+      if (typeof json.received === 'number') state.received = json.received
+    }
+  }
+
+  const res = await fetch(`/api/uploads/${state.uploadId}/complete`, { method: 'POST' })
+  const json = await readJson(res)
+  // A file rejected by the virus scan has been deleted, so there is nothing left to resume
+  if (res.status === 422) window.localStorage.removeItem(key)
+  if (!res.ok) throw new Error(String(json.reason || json.error || 'Failed to finalize upload'))
+
+  window.localStorage.removeItem(key)
+  options.onProgress?.(1)
+  return {
+    uploadId: state.uploadId,
+    url: String(json.url),
+    mimeType: String(json.mimeType),
+    size: Number(json.size)
+  }
+}
@@ -0,0 +1,51 @@
+import { createHash } from 'crypto'
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+export interface DuplicateResource {
+  id: string
+  title: string | null
+  url: string | null
+}
+
+/**
+ * Hex SHA-256 of a file buffer, stored in resources.content_hash
+ */
+export function sha256Hex(buffer: Buffer | Uint8Array): string {
+  return createHash('sha256').update(buffer).digest('hex')
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, m => `\\${m}`)
+}
+
+/**
+ * Find a live resource with the same file in the same subject offering (subject + branch/year/semester).
+ * Subjects are compared case-insensitively because older rows weren't normalized.
+ */
+export async function findDuplicateResource(params: {
+  contentHash: string
+  subject: string
+  branchId: string | null
+  yearId: string | null
+  semesterId: string | null
+}): Promise<DuplicateResource | null> {
+  const supabase = createSupabaseAdmin()
+  let query = supabase
+    .from('resources')
+    .select('id, title, name, url, drive_link')
+    .eq('content_hash', params.contentHash)
+    .ilike('subject', escapeLike(params.subject))
+    .is('deleted_at', null)
+
+  query = params.branchId ? query.eq('branch_id', params.branchId) : query.is('branch_id', null)
+  query = params.yearId ? query.eq('year_id', params.yearId) : query.is('year_id', null)
+  query = params.semesterId ? query.eq('semester_id', params.semesterId) : query.is('semester_id', null)
+
+  const { data, error } = await query.order('created_at', { ascending: true }).limit(1).maybeSingle()
+  if (error) {
+    console.warn('[content-hash] Duplicate lookup failed:', error.message)
+    return null
+  }
+  if (!data) return null
+  return { id: data.id, title: data.title || data.name || null, url: data.url || data.drive_link || null }
+}
@@ -0,0 +1,9 @@
+/**
+ * Vercel Cron sends `Authorization: Bearer $CRON_SECRET`; anything else is rejected.
+ * With no CRON_SECRET configured, scheduled endpoints are disabled.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
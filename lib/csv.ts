@@ -0,0 +1,91 @@
+// Minimal RFC 4180 CSV reading/writing for admin imports and reports (quoted fields, "" escapes, CRLF)
+
+export type CsvRecord = Record<string, string>
+
+/**
+ * Parse CSV text into rows of raw cells. Blank lines are dropped.
+ * Pass '\t' to read tab-separated text, e.g. cells pasted from a spreadsheet.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"' && cell === '') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += ch
+    }
+  }
+  if (inQuotes) throw new Error('Unterminated quoted field')
+  if (cell !== '' || row.length > 0) endRow()
+  return rows
+}
+
+// "File Name" and "file-name" both become "file_name"
+export function normalizeCsvHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by normalized header.
+ * Cells are trimmed; missing trailing cells become empty strings.
+ */
+export function parseCsvRecords(text: string, delimiter = ','): { headers: string[]; records: CsvRecord[] } {
+  const [headerRow, ...rows] = parseCsv(text, delimiter)
+  if (!headerRow) return { headers: [], records: [] }
+  const headers = headerRow.map(normalizeCsvHeader)
+  const records = rows.map(cells => {
+    const record: CsvRecord = {}
+    headers.forEach((h, i) => {
+      if (h) record[h] = (cells[i] ?? '').trim()
+    })
+    return record
+  })
+  return { headers, records }
+}
+
+/**
+ * Tab for text pasted from a spreadsheet (tabs but no commas in the header line), comma otherwise
+ */
+export function detectCsvDelimiter(text: string): ',' | '\t' {
+  const firstLine = text.split(/\r?\n/, 1)[0] || ''
+  return firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ','
+}
+
+function escapeCell(value: unknown): string {
+  const str = value === null || value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(r => r.map(escapeCell).join(',')).join('\r\n')
+}
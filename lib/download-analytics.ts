@@ -0,0 +1,123 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { UserContext } from '@/lib/types/auth'
+
+// signed_url rows predate every link going through the secure file proxy
+export type DownloadSource = 'secure_file' | 'export'
+
+// Day boundaries for the daily chart; the campus runs on IST
+const ANALYTICS_TIMEZONE = process.env.ANALYTICS_TIMEZONE || 'Asia/Kolkata'
+
+export interface ResourceDownloadCount {
+  resource_id: string
+  title: string | null
+  category: string
+  subject: string
+  unit: number | null
+  branch_id: string | null
+  year_id: string | null
+  downloads: number
+  unique_users: number
+  last_downloaded_at: string | null
+}
+
+export interface SubjectDownloadCount {
+  subject: string
+  downloads: number
+  resources: number
+  // Units with resources that nobody downloaded in the window
+  unopened_units: number[]
+}
+
+export interface DailyDownloadCount {
+  day: string
+  downloads: number
+  unique_users: number
+}
+
+/**
+ * Record that a user was given a resource's file.
+ * Never throws: analytics must not block a download.
+ */
+export async function recordResourceDownloads(
+  resourceIds: string[],
+  userContext: Pick<UserContext, 'email' | 'role' | 'branchId' | 'yearId' | 'semesterId'>,
+  source: DownloadSource
+): Promise<void> {
+  if (resourceIds.length === 0) return
+  try {
+    const supabase = createSupabaseAdmin()
+    const { error } = await supabase.from('resource_downloads').insert(
+      resourceIds.map(resourceId => ({
+        resource_id: resourceId,
+        user_email: userContext.email.toLowerCase(),
+        user_role: userContext.role,
+        branch_id: userContext.branchId || null,
+        year_id: userContext.yearId || null,
+        semester_id: userContext.semesterId || null,
+        source
+      }))
+    )
+    if (error) throw error
+  } catch (err) {
+    console.warn(`[download-analytics] Failed to record ${source} download:`, err instanceof Error ? err.message : err)
+  }
+}
+
+// One branch/year pair of a stats scope; a null id matches any branch or year
+export interface DownloadScopeClass {
+  branch_id: string | null
+  year_id: string | null
+}
+
+/**
+ * Download counts for [from, to), scoped to branch/year pairs when given (null means unrestricted)
+ */
+export async function getDownloadStats(params: {
+  from: Date
+  to: Date
+  classes: DownloadScopeClass[] | null
+}): Promise<{ byResource: ResourceDownloadCount[]; bySubject: SubjectDownloadCount[]; byDay: DailyDownloadCount[] }> {
+  const supabase = createSupabaseAdmin()
+  const scope = {
+    p_from: params.from.toISOString(),
+    p_to: params.to.toISOString(),
+    p_classes: params.classes
+  }
+  const [counts, daily] = await Promise.all([
+    supabase.rpc('resource_download_counts', scope),
+    supabase.rpc('resource_download_daily', { ...scope, p_tz: ANALYTICS_TIMEZONE })
+  ])
+  if (counts.error) throw counts.error
+  if (daily.error) throw daily.error
+
+  // bigint columns arrive as strings
+  const byResource: ResourceDownloadCount[] = (counts.data || []).map((r: ResourceDownloadCount) => ({
+    ...r,
+    downloads: Number(r.downloads),
+    unique_users: Number(r.unique_users)
+  }))
+  byResource.sort((a, b) => b.downloads - a.downloads)
+
+  const subjects = new Map<string, { downloads: number; resources: number; units: Map<number, number> }>()
+  for (const r of byResource) {
+    const entry = subjects.get(r.subject) || { downloads: 0, resources: 0, units: new Map<number, number>() }
+    entry.downloads += r.downloads
+    entry.resources += 1
+    if (r.unit) entry.units.set(r.unit, (entry.units.get(r.unit) || 0) + r.downloads)
+    subjects.set(r.subject, entry)
+  }
+  const bySubject: SubjectDownloadCount[] = Array.from(subjects, ([subject, s]) => ({
+    subject,
+    downloads: s.downloads,
+    resources: s.resources,
+    unopened_units: Array.from(s.units).filter(([, n]) => n === 0).map(([unit]) => unit).sort((a, b) => a - b)
+  })).sort((a, b) => b.downloads - a.downloads)
+
+  const byDay: DailyDownloadCount[] = (daily.data || []).map((d: DailyDownloadCount) => ({
+    day: d.day,
+    downloads: Number(d.downloads),
+    unique_users: Number(d.unique_users)
+  }))
+
+  return { byResource, bySubject, byDay }
+}
@@ -0,0 +1,333 @@
+import { createHash } from 'crypto'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { logAudit } from '@/lib/audit'
+import { sha256Hex } from '@/lib/content-hash'
+import { MAX_DOWNLOAD_SIZE_BYTES, resourceFileUrl } from '@/lib/files'
+import { tryRecordResourceVersion } from '@/lib/resource-versions'
+import { STORAGE_LOCATION_LABELS } from '@/lib/storage'
+import { driveStorage, tryParseDriveIdFromUrl } from '@/lib/storage/drive'
+import { supabaseStorage } from '@/lib/storage/supabase'
+
+// Copies Drive-hosted resources into the secure Storage bucket, one batch per call.
+// Progress lives in resource_storage_migrations so an interrupted run picks up where it stopped.
+
+// A batch that died mid-copy leaves its rows in 'copying'; after this long they can be retried
+const STALE_CLAIM_MS = 30 * 60 * 1000
+const DRIVE_LINK_FILTER = 'drive_link.ilike.%drive.google.com/file/d/%,url.ilike.%drive.google.com/file/d/%'
+
+export interface DriveMigrationActor {
+  email: string
+  role: 'admin' | 'yeshh'
+}
+
+export interface DriveMigrationProgress {
+  remaining: number
+  copying: number
+  done: number
+  failed: number
+  originalsKept: number
+  failures: Array<{
+    resource_id: string
+    title: string | null
+    error: string | null
+    attempts: number
+    updated_at: string
+  }>
+}
+
+export interface DriveMigrationBatchResult {
+  processed: number
+  migrated: number
+  failed: number
+  originalsDeleted: number
+  remaining: number
+}
+
+type MigrationRow = {
+  resource_id: string
+  status: 'copying' | 'done' | 'failed'
+  drive_file_id: string
+  attempts: number
+  updated_at: string
+}
+
+type ResourceRow = Record<string, unknown> & {
+  id: string
+  title: string | null
+  url: string | null
+  drive_link: string | null
+  file_path: string | null
+  file_type: string | null
+  content_hash: string | null
+}
+
+function driveFileIdOf(resource: Pick<ResourceRow, 'drive_link' | 'url'>): string | null {
+  return [resource.drive_link, resource.url]
+    .filter((v): v is string => Boolean(v))
+    .map(tryParseDriveIdFromUrl)
+    .find(Boolean) || null
+}
+
+async function countRemaining(): Promise<number> {
+  const supabase = createSupabaseAdmin()
+  const { count } = await supabase
+    .from('resources')
+    .select('id, resource_storage_migrations!left(resource_id)', { count: 'exact', head: true })
+    .is('deleted_at', null)
+    .or(DRIVE_LINK_FILTER)
+    .is('resource_storage_migrations', null)
+  return count || 0
+}
+
+export async function getDriveMigrationProgress(): Promise<DriveMigrationProgress> {
+  const supabase = createSupabaseAdmin()
+  const counts: Record<MigrationRow['status'], number> = { copying: 0, done: 0, failed: 0 }
+  for (const status of Object.keys(counts) as MigrationRow['status'][]) {
+    const { count } = await supabase
+      .from('resource_storage_migrations')
+      .select('resource_id', { count: 'exact', head: true })
+      .eq('status', status)
+    counts[status] = count || 0
+  }
+
+  const { count: originalsKept } = await supabase
+    .from('resource_storage_migrations')
+    .select('resource_id', { count: 'exact', head: true })
+    .eq('status', 'done')
+    .is('drive_deleted_at', null)
+
+  const { data: failures } = await supabase
+    .from('resource_storage_migrations')
+    .select('resource_id, error, attempts, updated_at, resources(title)')
+    .eq('status', 'failed')
+    .order('updated_at', { ascending: false })
+    .limit(50)
+
+  return {
+    remaining: await countRemaining(),
+    ...counts,
+    originalsKept: originalsKept || 0,
+    failures: (failures || []).map(row => {
+      const resource = row.resources as { title: string | null } | { title: string | null }[] | null
+      return {
+        resource_id: row.resource_id,
+        title: (Array.isArray(resource) ? resource[0]?.title : resource?.title) ?? null,
+        error: row.error,
+        attempts: row.attempts,
+        updated_at: row.updated_at
+      }
+    })
+  }
+}
+
+/**
+ * Claim resources for this batch so two admins running the job at once don't copy the same file.
+ * New resources get a 'copying' row; with retryFailed, failed and stale claims are taken over.
+ */
+async function claimCandidates(limit: number, retryFailed: boolean, actor: DriveMigrationActor): Promise<ResourceRow[]> {
+  const supabase = createSupabaseAdmin()
+  const claimed: ResourceRow[] = []
+
+  if (retryFailed) {
+    const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString()
+    const { data: retries, error } = await supabase
+      .from('resource_storage_migrations')
+      .select('resource_id, status, drive_file_id, attempts, updated_at, resources!inner(*)')
+      .or(`status.eq.failed,and(status.eq.copying,updated_at.lt.${staleBefore})`)
+      .is('resources.deleted_at', null)
+      .order('updated_at', { ascending: true })
+      .limit(limit)
+    if (error) throw new Error(`Failed to load failed migrations: ${error.message}`)
+
+    for (const row of retries || []) {
+      const resource = (Array.isArray(row.resources) ? row.resources[0] : row.resources) as ResourceRow | undefined
+      if (!resource || !driveFileIdOf(resource)) continue
+      // Only take over the row if nobody else did since we read it
+      const { data: taken } = await supabase
+        .from('resource_storage_migrations')
+        .update({ status: 'copying', attempts: row.attempts + 1, error: null, created_by: actor.email })
+        .eq('resource_id', row.resource_id)
+        .eq('updated_at', row.updated_at)
+        .select('resource_id')
+      if (taken && taken.length > 0) claimed.push(resource)
+    }
+    return claimed
+  }
+
+  const { data: candidates, error } = await supabase
+    .from('resources')
+    .select('*, resource_storage_migrations!left(resource_id)')
+    .is('deleted_at', null)
+    .or(DRIVE_LINK_FILTER)
+    .is('resource_storage_migrations', null)
+    .order('created_at', { ascending: true })
+    .limit(limit)
+  if (error) throw new Error(`Failed to load Drive resources: ${error.message}`)
+
+  for (const candidate of (candidates || []) as ResourceRow[]) {
+    const driveFileId = driveFileIdOf(candidate)
+    if (!driveFileId) continue
+    const { data: inserted } = await supabase
+      .from('resource_storage_migrations')
+      .upsert({
+        resource_id: candidate.id,
+        drive_file_id: driveFileId,
+        source_url: candidate.drive_link || candidate.url,
+        created_by: actor.email
+      }, { onConflict: 'resource_id', ignoreDuplicates: true })
+      .select('resource_id')
+    if (inserted && inserted.length > 0) claimed.push(candidate)
+  }
+  return claimed
+}
+
+async function markFailed(resourceId: string, message: string) {
+  const supabase = createSupabaseAdmin()
+  await supabase
+    .from('resource_storage_migrations')
+    .update({ status: 'failed', error: message.slice(0, 1000) })
+    .eq('resource_id', resourceId)
+}
+
+/**
+ * Copy one resource's Drive file into the secure bucket, verify the copy and repoint the resource at it.
+ * The Drive original is left in place.
+ */
+async function migrateResource(resource: ResourceRow, actor: DriveMigrationActor): Promise<void> {
+  const supabase = createSupabaseAdmin()
+  const driveFileId = driveFileIdOf(resource)
+  if (!driveFileId) throw new Error('Resource no longer points at a Drive file')
+
+  const stat = await driveStorage.stat(driveFileId)
+  if (!stat) throw new Error('File not found on Drive, or it is a Google Docs file that cannot be downloaded')
+  if (stat.size > MAX_DOWNLOAD_SIZE_BYTES) throw new Error(`File too large to migrate (${stat.size} bytes, max ${MAX_DOWNLOAD_SIZE_BYTES})`)
+
+  const file = await driveStorage.download(driveFileId, { maxBytes: MAX_DOWNLOAD_SIZE_BYTES })
+  if (!file) throw new Error('File disappeared from Drive during migration')
+
+  // Check what we read against Drive's own size and MD5
+  if (file.buffer.length !== stat.size) {
+    throw new Error(`Size mismatch reading from Drive: expected ${stat.size} bytes, got ${file.buffer.length}`)
+  }
+  const driveMd5 = stat.etag?.replace(/"/g, '')
+  if (driveMd5 && createHash('md5').update(file.buffer).digest('hex') !== driveMd5) {
+    throw new Error('MD5 mismatch reading from Drive')
+  }
+  const sha256 = sha256Hex(file.buffer)
+
+  const stored = await supabaseStorage.upload(file.buffer, {
+    fileName: stat.fileName,
+    mimeType: file.mimeType || resource.file_type,
+    visibility: 'private'
+  })
+
+  try {
+    // Read the copy back before repointing the resource at it
+    const copy = await supabaseStorage.download(stored.key)
+    if (!copy || copy.buffer.length !== stat.size || sha256Hex(copy.buffer) !== sha256) {
+      throw new Error('Copy in Storage does not match the Drive original')
+    }
+
+    const update = {
+      url: resourceFileUrl(resource.id),
+      drive_link: null,
+      file_path: stored.url,
+      storage_location: STORAGE_LOCATION_LABELS.supabase,
+      content_hash: resource.content_hash || sha256
+    }
+    const { data: updated, error } = await supabase
+      .from('resources')
+      .update(update)
+      .eq('id', resource.id)
+      .select('id')
+      .maybeSingle()
+    if (error || !updated) throw new Error(`Failed to update resource: ${error?.message || 'resource not found'}`)
+
+    await tryRecordResourceVersion({ resourceId: resource.id, before: resource, after: { ...resource, ...update }, actor })
+  } catch (err) {
+    await supabaseStorage.delete(stored.key).catch(() => {})
+    throw err
+  }
+
+  await supabase
+    .from('resource_storage_migrations')
+    .update({ status: 'done', target_path: stored.url, size_bytes: stat.size, sha256, error: null })
+    .eq('resource_id', resource.id)
+}
+
+/**
+ * Delete Drive originals of migrated resources. A file still linked from another live resource is kept.
+ */
+async function deleteDriveOriginals(limit: number): Promise<number> {
+  const supabase = createSupabaseAdmin()
+  const { data: rows } = await supabase
+    .from('resource_storage_migrations')
+    .select('resource_id, drive_file_id')
+    .eq('status', 'done')
+    .is('drive_deleted_at', null)
+    .order('updated_at', { ascending: true })
+    .limit(limit)
+
+  let deleted = 0
+  for (const row of rows || []) {
+    const { count } = await supabase
+      .from('resources')
+      .select('id', { count: 'exact', head: true })
+      .is('deleted_at', null)
+      .neq('id', row.resource_id)
+      .or(`drive_link.ilike.%${row.drive_file_id}%,url.ilike.%${row.drive_file_id}%`)
+    if (count) {
+      console.warn(`[drive-migration] Keeping Drive file ${row.drive_file_id}: still linked from ${count} other resource(s)`)
+      continue
+    }
+    try {
+      await driveStorage.delete(row.drive_file_id)
+      await supabase
+        .from('resource_storage_migrations')
+        .update({ drive_deleted_at: new Date().toISOString() })
+        .eq('resource_id', row.resource_id)
+      deleted++
+    } catch (err) {
+      console.warn(`[drive-migration] Failed to delete Drive file ${row.drive_file_id}:`, err instanceof Error ? err.message : err)
+    }
+  }
+  return deleted
+}
+
+/**
+ * Migrate up to `limit` resources. With deleteOriginals, Drive files of resources migrated in this or
+ * earlier batches are deleted afterwards (up to `limit` of them).
+ */
+export async function runDriveMigrationBatch(
+  options: { limit: number; retryFailed?: boolean; deleteOriginals?: boolean },
+  actor: DriveMigrationActor
+): Promise<DriveMigrationBatchResult> {
+  const candidates = await claimCandidates(options.limit, Boolean(options.retryFailed), actor)
+
+  const results = { migrated: 0, failed: 0 }
+  for (const resource of candidates) {
+    try {
+      await migrateResource(resource, actor)
+      results.migrated++
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err)
+      console.error(`[drive-migration] Resource ${resource.id} failed:`, message)
+      await markFailed(resource.id, message)
+      results.failed++
+    }
+  }
+
+  const originalsDeleted = options.deleteOriginals ? await deleteDriveOriginals(options.limit) : 0
+  const summary = { processed: candidates.length, ...results, originalsDeleted, remaining: await countRemaining() }
+
+  await logAudit({
+    actor_email: actor.email,
+    actor_role: actor.role,
+    action: 'drive_migration',
+    entity: 'resource',
+    success: results.failed === 0,
+    message: `Migrated ${results.migrated} of ${candidates.length} resources from Google Drive`,
+    after_data: summary
+  })
+  return summary
+}
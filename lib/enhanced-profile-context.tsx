@@ -5,6 +5,7 @@ import { useSession } from 'next-auth/react'
 import { ProfileCache, StaticCache, SubjectsCache, DynamicCache, ProfileDisplayCache, ResourcesCache } from './simple-cache'
 import { PerfMon } from './performance-monitor'
 import { broadcastBulkCacheUpdate, subscribeToBulkCacheUpdates } from './cross-tab'
+import type { ExamSession, ExamType } from './exams'
 
 // Narrow shapes for bulk static and dynamic data with safe extensibility
 export interface EnhancedProfileStaticData {
@@ -18,7 +19,7 @@ export interface EnhancedProfileStaticData {
 export interface EnhancedProfileDynamicData {
 	recentUpdates?: Array<{ id: string; title?: string; created_at?: string }>
 	reminders?: Array<{ id: string; title?: string; due_date?: string; completed?: boolean }>
-	upcomingExams?: Array<{ subject: string; exam_date: string; branch: string; year: string }>
+	upcomingExams?: Array<{ subject: string; exam_date: string; start_time?: string | null; end_time?: string | null; session?: ExamSession | null; exam_type?: ExamType | null; venue?: string | null; branch: string; year: string }>
 	upcomingReminders?: Array<{ id: string; title?: string; due_date?: string; completed?: boolean }>
 	resourcesCount?: number
 	usersCount?: number
@@ -0,0 +1,284 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { detectCsvDelimiter, parseCsvRecords, type CsvRecord } from '@/lib/csv'
+import { getBranchIdByCode, getYearIdByBatchYear, getSemesterId } from '@/lib/lookup-mappers'
+import { AcademicConfigManager } from '@/lib/academic-config'
+import { parseExamInput, type ExamInput } from '@/lib/exams'
+import type { UserContext } from '@/lib/types/auth'
+
+// Exam timetable import: CSV (or cells pasted from a spreadsheet) is checked row by row and previewed,
+// then every row is written in one transaction so a timetable never lands half-imported.
+
+export const EXAM_IMPORT_MAX_ROWS = 500
+
+const REQUIRED_COLUMNS = ['subject', 'exam_date'] as const
+
+// Accepted spellings for timetable columns, after header normalization
+const COLUMN_ALIASES: Record<string, string> = {
+  date: 'exam_date',
+  subject_name: 'subject',
+  subject_code: 'subject',
+  type: 'exam_type',
+  exam: 'exam_type',
+  start: 'start_time',
+  from: 'start_time',
+  end: 'end_time',
+  to: 'end_time',
+  sitting: 'session',
+  room: 'venue',
+  hall: 'venue',
+  branch_code: 'branch',
+  batch_year: 'year',
+  batch: 'year',
+  sem: 'semester',
+}
+
+export interface ExamImportRow {
+  row: number
+  subject: string
+  exam_date: string
+  time: string
+  start_time: string
+  end_time: string
+  session: string
+  exam_type: string
+  venue: string
+  regulation: string
+  branch: string
+  year: string
+  semester: string
+}
+
+export type PlannedExam = ExamInput & { subject: string; exam_date: string; year: number | null; branch: string | null }
+
+export interface PlannedExamRow {
+  row: number
+  action: 'create' | 'update' | 'error'
+  exam?: PlannedExam
+  // Existing exam the row updates
+  existingId?: string
+  error?: string
+}
+
+export interface ExamImportPlan {
+  rows: PlannedExamRow[]
+  summary: { create: number; update: number; error: number }
+}
+
+/**
+ * Parse a timetable into rows. Row numbers count the header as row 1 so they match spreadsheet lines.
+ */
+export function readExamTimetable(text: string): ExamImportRow[] {
+  const { headers, records } = parseCsvRecords(text, detectCsvDelimiter(text))
+  const columns = new Set(headers.map(h => COLUMN_ALIASES[h] || h))
+  const missing = REQUIRED_COLUMNS.filter(c => !columns.has(c))
+  if (missing.length > 0) throw new Error(`Timetable is missing column(s): ${missing.join(', ')}`)
+  if (records.length > EXAM_IMPORT_MAX_ROWS) throw new Error(`Timetable has more than ${EXAM_IMPORT_MAX_ROWS} rows`)
+
+  return records.map((record: CsvRecord, index) => {
+    const get = (column: string) => {
+      for (const [key, value] of Object.entries(record)) {
+        if ((COLUMN_ALIASES[key] || key) === column && value) return value
+      }
+      return ''
+    }
+    return {
+      row: index + 2,
+      subject: get('subject'),
+      exam_date: get('exam_date'),
+      time: get('time'),
+      start_time: get('start_time'),
+      end_time: get('end_time'),
+      session: get('session'),
+      exam_type: get('exam_type'),
+      venue: get('venue'),
+      regulation: get('regulation'),
+      branch: get('branch'),
+      year: get('year'),
+      semester: get('semester'),
+    }
+  })
+}
+
+/**
+ * University timetables write dates day-first (24-11-2025, 24/11/2025); ISO dates pass through
+ */
+export function normalizeImportDate(value: string): string {
+  const dayFirst = value.trim().match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/)
+  if (!dayFirst) return value.trim()
+  const [, day, month, year] = dayFirst
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+}
+
+/**
+ * "2:00 PM", "14.00" or "14:00" as HH:MM; anything else is returned for validation to reject
+ */
+export function normalizeImportTime(value: string): string {
+  const match = value.trim().match(/^(\d{1,2})[:.](\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?$/i)
+  if (!match) return value.trim()
+  let hours = Number(match[1])
+  const meridiem = match[3]?.[0].toLowerCase()
+  if (meridiem === 'p' && hours < 12) hours += 12
+  if (meridiem === 'a' && hours === 12) hours = 0
+  return `${String(hours).padStart(2, '0')}:${match[2]}`
+}
+
+// "10:00 AM - 1:00 PM" or "10.00 to 13.00"
+function splitTimeRange(value: string): [string, string] {
+  const [start = '', end = ''] = value.split(/\s*(?:-|–|to)\s*/i)
+  return [start, end]
+}
+
+type OfferedSubjects = Set<string>
+
+async function loadOfferedSubjects(branch: string, batchYear: number, semester: number | null, regulation: string | null): Promise<OfferedSubjects> {
+  const supabase = createSupabaseAdmin()
+  // Offerings are keyed by academic year (1-4), exams by the batch's admission year
+  const academicYear = await AcademicConfigManager.getInstance().calculateAcademicYear(batchYear)
+  let query = supabase
+    .from('subject_offerings')
+    .select('subject_id')
+    .eq('branch', branch)
+    .eq('year', academicYear)
+    .eq('active', true)
+  if (semester) query = query.eq('semester', semester)
+  if (regulation) query = query.eq('regulation', regulation)
+  const { data: offerings, error } = await query
+  if (error) throw new Error(`Failed to load subject offerings: ${error.message}`)
+
+  const subjectIds = Array.from(new Set((offerings || []).map(o => o.subject_id)))
+  if (subjectIds.length === 0) return new Set()
+  const { data: subjects, error: subjectsError } = await supabase.from('subjects').select('code, name').in('id', subjectIds)
+  if (subjectsError) throw new Error(`Failed to load subjects: ${subjectsError.message}`)
+  return subjectNames(subjects || [])
+}
+
+async function loadAllSubjects(): Promise<OfferedSubjects> {
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase.from('subjects').select('code, name')
+  if (error) throw new Error(`Failed to load subjects: ${error.message}`)
+  return subjectNames(data || [])
+}
+
+function subjectNames(subjects: Array<{ code: string | null; name: string | null }>): OfferedSubjects {
+  const names = new Set<string>()
+  for (const s of subjects) {
+    if (s.code) names.add(s.code.trim().toLowerCase())
+    if (s.name) names.add(s.name.trim().toLowerCase())
+  }
+  return names
+}
+
+/**
+ * Validate every row and work out whether it creates a new exam or updates the existing one for the
+ * same subject, date and class. Representatives may only import for their assigned branch and year,
+ * as with POST /api/admin/exams.
+ */
+export async function planExamImport(rows: ExamImportRow[], actor: Pick<UserContext, 'role' | 'representatives'>): Promise<ExamImportPlan> {
+  const isRepresentative = actor.role === 'representative'
+  const offeredCache = new Map<string, OfferedSubjects>()
+  const offered = async (key: string, load: () => Promise<OfferedSubjects>) => {
+    if (!offeredCache.has(key)) offeredCache.set(key, await load())
+    return offeredCache.get(key)!
+  }
+  const seen = new Map<string, number>()
+  const planned: PlannedExamRow[] = []
+
+  for (const row of rows) {
+    const fail = (error: string) => planned.push({ row: row.row, action: 'error', error })
+
+    const [rangeStart, rangeEnd] = row.time ? splitTimeRange(row.time) : ['', '']
+    const fields: Record<string, unknown> = { subject: row.subject, exam_date: normalizeImportDate(row.exam_date) }
+    const startTime = row.start_time || rangeStart
+    const endTime = row.end_time || rangeEnd
+    if (startTime) fields.start_time = normalizeImportTime(startTime)
+    if (endTime) fields.end_time = normalizeImportTime(endTime)
+    if (row.session) fields.session = row.session
+    if (row.exam_type) fields.exam_type = row.exam_type.replace(/\s+/g, '-')
+    if (row.venue) fields.venue = row.venue
+    if (row.regulation) fields.regulation = row.regulation
+    const parsed = parseExamInput(fields)
+    if (!parsed.ok) {
+      fail(parsed.error)
+      continue
+    }
+
+    const branch = row.branch ? row.branch.toUpperCase() : null
+    const year = row.year ? Number.parseInt(row.year, 10) : null
+    const semester = row.semester ? Number.parseInt(row.semester, 10) : null
+    if (row.year && !Number.isInteger(year)) { fail(`Invalid year '${row.year}'`); continue }
+    if (row.semester && !Number.isInteger(semester)) { fail(`Invalid semester '${row.semester}'`); continue }
+    if (isRepresentative && (!branch || !year)) { fail('Representatives must specify year and branch'); continue }
+
+    const branchId = branch ? await getBranchIdByCode(branch) : null
+    if (branch && !branchId) { fail(`Unknown branch '${row.branch}'`); continue }
+    const yearId = year ? await getYearIdByBatchYear(year) : null
+    if (year && !yearId) { fail(`Unknown year '${row.year}'`); continue }
+    if (isRepresentative) {
+      const canManage = actor.representatives?.some(rep => rep.branch_id === branchId && rep.year_id === yearId && rep.active)
+      if (!canManage) { fail('Outside your assigned scope'); continue }
+    }
+    let semesterId: string | null = null
+    if (semester) {
+      if (!yearId) { fail('Semester requires a year'); continue }
+      semesterId = await getSemesterId(yearId, semester)
+      if (!semesterId) { fail(`Unknown semester '${row.semester}' for year ${year}`); continue }
+    }
+
+    const exam = parsed.value as PlannedExam
+    const subjects = branch && year
+      ? await offered(`${branch}:${year}:${semester ?? ''}:${exam.regulation ?? ''}`, () => loadOfferedSubjects(branch, year, semester, exam.regulation ?? null))
+      : await offered('*', loadAllSubjects)
+    if (!subjects.has(exam.subject.toLowerCase())) {
+      fail(branch && year ? `Subject '${exam.subject}' is not offered for ${branch} ${year}` : `Unknown subject '${exam.subject}'`)
+      continue
+    }
+
+    const key = [branch, year, exam.subject.toLowerCase(), exam.exam_date].join('|')
+    const firstRow = seen.get(key)
+    if (firstRow) { fail(`Same exam as row ${firstRow}`); continue }
+    seen.set(key, row.row)
+
+    planned.push({ row: row.row, action: 'create', exam: { ...exam, year, branch, ...(semesterId ? { semester_id: semesterId } : {}) } })
+  }
+
+  await matchExistingExams(planned)
+  const count = (action: PlannedExamRow['action']) => planned.filter(p => p.action === action).length
+  return { rows: planned, summary: { create: count('create'), update: count('update'), error: count('error') } }
+}
+
+// Rows for an exam that is already scheduled (same subject, date, branch and year) update it instead
+async function matchExistingExams(planned: PlannedExamRow[]): Promise<void> {
+  const candidates = planned.filter(p => p.exam)
+  const dates = Array.from(new Set(candidates.map(p => p.exam!.exam_date)))
+  if (dates.length === 0) return
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase.from('exams').select('id, subject, exam_date, branch, year').in('exam_date', dates)
+  if (error) throw new Error(`Failed to load existing exams: ${error.message}`)
+
+  const existing = new Map<string, string>()
+  for (const e of data || []) {
+    existing.set([e.branch ?? null, e.year ?? null, String(e.subject).toLowerCase(), e.exam_date].join('|'), e.id)
+  }
+  for (const p of candidates) {
+    const exam = p.exam!
+    const id = existing.get([exam.branch, exam.year, exam.subject.toLowerCase(), exam.exam_date].join('|'))
+    if (id) {
+      p.action = 'update'
+      p.existingId = id
+    }
+  }
+}
+
+/**
+ * Write a plan with no errors in one transaction. Updates only overwrite the columns the timetable filled in.
+ */
+export async function applyExamImport(plan: ExamImportPlan): Promise<{ created: number; updated: number }> {
+  if (plan.summary.error > 0) throw new Error('Timetable has rows with errors')
+  const rows = plan.rows.map(p => ({ ...p.exam, id: p.existingId ?? null }))
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase
+    .rpc('import_exam_timetable', { p_rows: rows })
+    .single<{ created: number; updated: number }>()
+  if (error || !data) throw new Error(`Failed to import timetable: ${error?.message || 'no result'}`)
+  return data
+}
@@ -0,0 +1,132 @@
+// Exam timetable entries: besides subject and date, each exam can carry its sitting (FN/AN), times,
+// kind of exam, venue, regulation and semester so students know when and where to turn up.
+
+export const EXAM_TYPES = ['mid-1', 'mid-2', 'semester', 'supplementary', 'lab'] as const
+export type ExamType = typeof EXAM_TYPES[number]
+
+export const EXAM_TYPE_LABELS: Record<ExamType, string> = {
+  'mid-1': 'Mid 1',
+  'mid-2': 'Mid 2',
+  semester: 'Semester',
+  supplementary: 'Supplementary',
+  lab: 'Lab'
+}
+
+export const EXAM_SESSIONS = ['FN', 'AN'] as const
+export type ExamSession = typeof EXAM_SESSIONS[number]
+
+export const EXAM_SESSION_LABELS: Record<ExamSession, string> = {
+  FN: 'Forenoon',
+  AN: 'Afternoon'
+}
+
+export interface Exam {
+  id: string
+  subject: string
+  exam_date: string
+  start_time: string | null
+  end_time: string | null
+  session: ExamSession | null
+  exam_type: ExamType | null
+  venue: string | null
+  regulation: string | null
+  semester_id: string | null
+  year: number | null
+  branch: string | null
+  description?: string | null
+}
+
+export const EXAM_COLUMNS = 'id, subject, exam_date, start_time, end_time, session, exam_type, venue, regulation, semester_id, year, branch'
+
+export type ExamInput = Partial<Omit<Exam, 'id'>>
+
+export type ParsedExamInput =
+  | { ok: true; value: ExamInput }
+  | { ok: false; error: string }
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)(:[0-5]\d)?$/
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function optionalText(value: unknown): string | null {
+  const text = String(value ?? '').trim()
+  return text || null
+}
+
+/**
+ * Validate exam fields from an admin request. With `partial`, only the fields present are checked
+ * (PATCH); otherwise subject and exam_date are required. The sitting is inferred from the start time
+ * when it isn't given.
+ */
+export function parseExamInput(body: Record<string, unknown>, options: { partial?: boolean } = {}): ParsedExamInput {
+  const value: ExamInput = {}
+  const has = (key: string) => key in body
+
+  if (has('subject') || !options.partial) {
+    const subject = optionalText(body.subject)
+    if (!subject) return { ok: false, error: 'subject is required' }
+    value.subject = subject
+  }
+  if (has('exam_date') || !options.partial) {
+    const date = String(body.exam_date ?? '')
+    if (!DATE_RE.test(date) || Number.isNaN(Date.parse(date))) return { ok: false, error: 'exam_date must be YYYY-MM-DD' }
+    value.exam_date = date
+  }
+
+  for (const key of ['start_time', 'end_time'] as const) {
+    if (!has(key)) continue
+    const time = optionalText(body[key])
+    if (time && !TIME_RE.test(time)) return { ok: false, error: `${key} must be HH:MM` }
+    value[key] = time ? time.slice(0, 5) : null
+  }
+  if (value.start_time && value.end_time && value.end_time <= value.start_time) {
+    return { ok: false, error: 'end_time must be after start_time' }
+  }
+
+  if (has('session')) {
+    const session = optionalText(body.session)?.toUpperCase() ?? null
+    if (session && !(EXAM_SESSIONS as readonly string[]).includes(session)) return { ok: false, error: `session must be one of ${EXAM_SESSIONS.join(', ')}` }
+    value.session = session as ExamSession | null
+  }
+  if (!value.session && value.start_time) value.session = value.start_time < '12:00' ? 'FN' : 'AN'
+
+  if (has('exam_type')) {
+    const type = optionalText(body.exam_type)?.toLowerCase() ?? null
+    if (type && !(EXAM_TYPES as readonly string[]).includes(type)) return { ok: false, error: `exam_type must be one of ${EXAM_TYPES.join(', ')}` }
+    value.exam_type = type as ExamType | null
+  }
+
+  if (has('semester_id')) {
+    const semesterId = optionalText(body.semester_id)
+    if (semesterId && !UUID_RE.test(semesterId)) return { ok: false, error: 'semester_id must be a UUID' }
+    value.semester_id = semesterId
+  }
+  if (has('year')) {
+    const year = body.year === null || body.year === '' ? null : Number.parseInt(String(body.year), 10)
+    if (year !== null && !Number.isFinite(year)) return { ok: false, error: 'year must be a number' }
+    value.year = year
+  }
+  if (has('venue')) value.venue = optionalText(body.venue)
+  if (has('regulation')) value.regulation = optionalText(body.regulation)?.toUpperCase() ?? null
+  if (has('branch')) value.branch = optionalText(body.branch)
+  if (has('description')) value.description = optionalText(body.description)
+  return { ok: true, value }
+}
+
+function formatClock(time: string): string {
+  const [h, m] = time.split(':').map(Number)
+  const suffix = h < 12 ? 'AM' : 'PM'
+  return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${suffix}`
+}
+
+/**
+ * "10:00 AM – 1:00 PM (FN)", falling back to the sitting alone or null when neither is known
+ */
+export function formatExamTime(exam: Partial<Pick<Exam, 'start_time' | 'end_time' | 'session'>>): string | null {
+  const session = exam.session ? `(${exam.session})` : null
+  if (exam.start_time) {
+    const range = exam.end_time ? `${formatClock(exam.start_time)} – ${formatClock(exam.end_time)}` : formatClock(exam.start_time)
+    return session ? `${range} ${session}` : range
+  }
+  return exam.session ? EXAM_SESSION_LABELS[exam.session] : null
+}
@@ -13,6 +13,7 @@ const DEFAULT_ALLOWED_MIME_TYPES: string[] = [
   'image/png',
   'image/jpeg',
   'image/webp',
+  'video/mp4',
 ];
 
 const DEFAULT_ALLOWED_EXTENSIONS: string[] = [
@@ -21,6 +22,7 @@ const DEFAULT_ALLOWED_EXTENSIONS: string[] = [
   'jpg',
   'jpeg',
   'webp',
+  'mp4',
 ];
 
 export function getAllowedMimeTypes(): Set<string> {
@@ -110,6 +112,18 @@ export function sniffMimeFromMagicBytes(buffer: Buffer): string | null {
     return 'image/webp';
   }
 
+  // ISO base media (MP4/MOV): ....ftyp<brand>
+  if (
+    buffer.length >= 12 &&
+    buffer[4] === 0x66 && // f
+    buffer[5] === 0x74 && // t
+    buffer[6] === 0x79 && // y
+    buffer[7] === 0x70 // p
+  ) {
+    const brand = buffer.subarray(8, 12).toString('latin1');
+    return brand === 'qt  ' ? 'video/quicktime' : 'video/mp4';
+  }
+
   return null;
 }
 
@@ -1,62 +1,24 @@
-import { google } from 'googleapis'
 import { createSupabaseAdmin } from '@/lib/supabase'
 import { UserContext } from '@/lib/types/auth'
+import { issueSecureFileToken } from '@/lib/secure-file-tokens'
+import type { ByteRange } from '@/lib/http-range'
+import { locateResourceFile, selectUploadProvider, STORAGE_LOCATION_LABELS, type StorageSettings } from '@/lib/storage'
+import type { StorageObjectStat, StorageProviderName } from '@/lib/storage/types'
+import { supabaseStorage, splitStorageKey, SECURE_STORAGE_BUCKET } from '@/lib/storage/supabase'
+import { driveViewUrl, makeDriveFilePrivate } from '@/lib/storage/drive'
 import jwt from 'jsonwebtoken'
 
-// Simple in-memory rate limiter for file operations
-// In production, this should be replaced with Redis or similar
-const operationCache = new Map<string, { count: number; resetTime: number }>()
+export type { StorageSettings }
 
-/**
- * Simple rate limiter - limits operations per user per time window
- */
-export function checkRateLimit(userId: string, operation: string, maxOperations = 10, windowMs = 60000): boolean {
-  const key = `${userId}:${operation}`
-  const now = Date.now()
-  const record = operationCache.get(key)
-
-  if (!record || now > record.resetTime) {
-    operationCache.set(key, { count: 1, resetTime: now + windowMs })
-    return true
-  }
-
-  if (record.count >= maxOperations) {
-    return false
-  }
-
-  record.count++
-  return true
-}
-
-// Configuration for secure storage - configurable via environment variables
-const SECURE_STORAGE_BUCKET = process.env.SECURE_STORAGE_BUCKET || 'secure-resources'
 const SIGNED_URL_EXPIRY_SECONDS = (() => {
   const parsed = parseInt(process.env.SIGNED_URL_EXPIRY_SECONDS || '3600', 10)
   return isFinite(parsed) && parsed > 0 ? parsed : 3600
 })()
-const MAX_DOWNLOAD_SIZE_BYTES = (() => {
+export const MAX_DOWNLOAD_SIZE_BYTES = (() => {
   const parsed = parseInt(process.env.MAX_DOWNLOAD_SIZE_BYTES || '104857600', 10) // 100MB default
   return isFinite(parsed) && parsed > 0 ? parsed : 100 * 1024 * 1024
 })()
 
-/**
- * Extract and parse Google credentials from environment variables
- */
-function getGoogleCredentials(): any {
-  try {
-    const rawB64 = process.env.GOOGLE_APPLICATION_CREDENTIALS_B64
-    const rawJson = process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON
-    let raw = rawJson || '{}'
-    if (rawB64) {
-      raw = Buffer.from(rawB64, 'base64').toString('utf8')
-    }
-    return JSON.parse(raw)
-  } catch (e) {
-    console.error('Failed to parse Google credentials:', e)
-    throw new Error('Google Drive configuration error')
-  }
-}
-
 /**
  * Validate that a string is a valid UUID v4 or v1
  */
@@ -68,7 +30,7 @@ function isValidUUID(uuid: string): boolean {
 /**
  * Determine file extension from MIME type or filename, with safe fallback
  */
-function determineFileExtension(mimeType?: string, originalFilename?: string): string {
+export function determineFileExtension(mimeType?: string, originalFilename?: string): string {
   // Try to extract extension from original filename first
   if (originalFilename) {
     const ext = originalFilename.split('.').pop()?.toLowerCase()
@@ -101,35 +63,47 @@ function determineFileExtension(mimeType?: string, originalFilename?: string): s
   return 'bin'
 }
 
-export async function deleteDriveFile(fileId: string) {
-  const credentials = getGoogleCredentials()
-  const auth = new google.auth.GoogleAuth({ credentials, scopes: ['https://www.googleapis.com/auth/drive'] })
-  const drive = google.drive({ version: 'v3', auth })
-  await drive.files.delete({ fileId })
-}
-
-export async function deleteStorageObject(bucket: string, path: string) {
-  const supabase = createSupabaseAdmin()
-  await supabase.storage.from(bucket).remove([path])
-}
-
-export function tryParseDriveIdFromUrl(url: string): string | null {
-  const match = url.match(/\/file\/d\/([a-zA-Z0-9_-]+)/)
-  return match?.[1] || null
+/**
+ * Store a new resource file on the backend chosen by selectUploadProvider (Drive for PDFs when
+ * settings.pdf_to_drive is on, Supabase Storage otherwise, or the STORAGE_PROVIDER override).
+ * Returns the URL to save on the resource row.
+ */
+export async function storeResourceFile(
+  fileBuffer: Buffer,
+  fileName: string,
+  mime: string,
+  options: { isPdf: boolean; settings: StorageSettings | null; description?: string; visibility?: 'public' | 'private' }
+): Promise<{ url: string; key: string; location: StorageProviderName }> {
+  const { settings } = options
+  const provider = selectUploadProvider(settings, options.isPdf)
+  const container = provider.name === 'drive' ? settings?.drive_folder_id : provider.name === 'supabase' ? settings?.storage_bucket : null
+  const stored = await provider.upload(fileBuffer, {
+    fileName,
+    mimeType: mime,
+    description: options.description,
+    container,
+    visibility: options.visibility ?? 'public'
+  })
+  return { ...stored, location: provider.name }
 }
 
-export function tryParseStoragePathFromUrl(url: string): { bucket: string; path: string } | null {
-  const match = url.match(/\/object\/public\/([^/]+)\/(.+)$/)
-  if (!match) return null
-  return { bucket: match[1], path: match[2] }
+/**
+ * Stable link for a resource whose file lives in private storage; /api/resources/[id]/file redirects
+ * to a fresh secure URL on every visit
+ */
+export function resourceFileUrl(resourceId: string): string {
+  return `${process.env.NEXTAUTH_URL || ''}/api/resources/${resourceId}/file`
 }
 
 /**
- * Generate a signed URL for secure file access with permission checks
+ * Generate a signed URL for secure file access with permission checks.
+ * Office files with a PDF rendition open as the PDF through the proxy unless `original` is set
+ * (ignored for restricted files).
  */
 export async function generateSecureFileUrl(
   resourceId: string,
-  userContext: UserContext
+  userContext: UserContext,
+  options: { original?: boolean } = {}
 ): Promise<{ url: string; expiresAt: Date } | null> {
   // Validate resourceId input
   if (!resourceId || typeof resourceId !== 'string' || resourceId.trim() === '') {
@@ -148,8 +122,9 @@ export async function generateSecureFileUrl(
   console.log(`[DEBUG generateSecureFileUrl] Fetching resource details for ID: ${resourceId}`)
   const { data: resource, error: resourceError } = await supabase
     .from('resources')
-    .select('file_path, storage_location, branch_id, year_id, semester_id')
+    .select('file_path, storage_location, branch_id, year_id, semester_id, secure_link_max_uses, restricted, pdf_rendition_path, moderation_status, submitted_by')
     .eq('id', resourceId)
+    .is('deleted_at', null)
     .single()
 
   if (resourceError || !resource) {
@@ -160,7 +135,7 @@ export async function generateSecureFileUrl(
 
   // 2. Check user permissions for this resource
   console.log(`[DEBUG generateSecureFileUrl] Checking access for user ${userContext.email} to resource ${resourceId}`)
-  const hasAccess = await checkResourceAccess(resource, userContext)
+  const hasAccess = await checkResourceAccess(resource, userContext) && isModerationVisible(resource, userContext)
   console.log(`[DEBUG generateSecureFileUrl] Access check result: ${hasAccess}`)
   if (!hasAccess) {
     console.warn(`[DEBUG generateSecureFileUrl] Access denied for user ${userContext.email} to resource ${resourceId}`)
@@ -169,20 +144,46 @@ export async function generateSecureFileUrl(
 
   // 3. Generate signed URL based on storage location
   console.log(`[DEBUG generateSecureFileUrl] Generating URL for storage: ${resource.storage_location}`)
-  if (resource.storage_location === 'Supabase Storage' && resource.file_path) {
-    return await generateSupabaseSignedUrl(resource.file_path)
-  } else if (resource.storage_location === 'Google Drive' && resource.file_path) {
-    return await generateDriveSignedUrl(resource.file_path)
+  // Every link goes through the proxy with a registered jti, even on backends that can sign their own
+  // URLs, so use limits and revocation apply to all of them and restricted files get watermarked
+  // Restricted files only go out as watermarked PDFs, never as the uploaded original
+  const original = Boolean(options.original) && !resource.restricted
+  const useRendition = Boolean(resource.pdf_rendition_path) && !original
+  const located = useRendition
+    ? locateResourceFile({ file_path: resource.pdf_rendition_path })
+    : resource.file_path ? locateResourceFile({ file_path: resource.file_path }) : null
+  if (!located) {
+    if (resource.storage_location === 'Google Drive' && resource.file_path) {
+      throw new Error('Invalid Google Drive file path')
+    }
+    console.warn(`[DEBUG generateSecureFileUrl] Unsupported storage location: ${resource.storage_location}`)
+    return null
   }
 
-  console.warn(`[DEBUG generateSecureFileUrl] Unsupported storage location: ${resource.storage_location}`)
-  return null
+  // The download is recorded by the proxy when the link is opened
+  return generateProxyFileUrl(
+    located.key,
+    { resourceId, issuedTo: userContext.email, maxUses: resource.secure_link_max_uses },
+    { original }
+  )
+}
+
+/**
+ * Pending and rejected uploads can only be opened by admins and the representative who uploaded them
+ */
+export function isModerationVisible(
+  resource: { moderation_status: string | null; submitted_by: string | null },
+  userContext: UserContext
+): boolean {
+  if (resource.moderation_status === 'approved') return true
+  if (userContext.role === 'admin' || userContext.role === 'yeshh') return true
+  return Boolean(resource.submitted_by) && resource.submitted_by!.toLowerCase() === userContext.email.toLowerCase()
 }
 
 /**
  * Check if user has access to a specific resource based on their role and assignments
  */
-async function checkResourceAccess(
+export async function checkResourceAccess(
   resource: { branch_id: string; year_id: string; semester_id: string },
   userContext: UserContext
 ): Promise<boolean> {
@@ -213,41 +214,15 @@ async function checkResourceAccess(
 }
 
 /**
- * Generate signed URL for Supabase Storage files
+ * Generate a URL through our secure proxy (/api/secure-file). `fileId` is the object key on the
+ * file's storage backend.
+ * The token's jti is registered so the link can be revoked or limited to a number of uses.
  */
-async function generateSupabaseSignedUrl(filePath: string): Promise<{ url: string; expiresAt: Date }> {
-  const supabase = createSupabaseAdmin()
-
-  const expiresAt = new Date(Date.now() + SIGNED_URL_EXPIRY_SECONDS * 1000)
-
-  const { data, error } = await supabase.storage
-    .from(SECURE_STORAGE_BUCKET)
-    .createSignedUrl(filePath, SIGNED_URL_EXPIRY_SECONDS, {
-      download: true
-    })
-
-  if (error || !data) {
-    throw new Error(`Failed to generate signed URL: ${error?.message}`)
-  }
-
-  return {
-    url: data.signedUrl,
-    expiresAt
-  }
-}
-
-/**
- * Generate signed URL for Google Drive files (temporary solution during migration)
- */
-async function generateDriveSignedUrl(filePath: string): Promise<{ url: string; expiresAt: Date }> {
-  // For Google Drive files, we'll create a temporary signed URL that includes
-  // permission validation. This is a bridge solution until migration is complete.
-
-  const driveFileId = tryParseDriveIdFromUrl(filePath)
-  if (!driveFileId) {
-    throw new Error('Invalid Google Drive file path')
-  }
-
+async function generateProxyFileUrl(
+  fileId: string,
+  token: { resourceId: string; issuedTo: string; maxUses?: number | null },
+  options: { original?: boolean } = {}
+): Promise<{ url: string; expiresAt: Date }> {
   // Create a JWT token that expires in configured time
   const expiresAt = new Date(Date.now() + SIGNED_URL_EXPIRY_SECONDS * 1000)
 
@@ -256,15 +231,19 @@ async function generateDriveSignedUrl(filePath: string): Promise<{ url: string;
     throw new Error('JWT_SECRET environment variable is required')
   }
 
+  const jti = await issueSecureFileToken({ ...token, fileId, expiresAt })
+
   const payload = {
-    fileId: driveFileId,
+    fileId,
+    rid: token.resourceId,
+    jti,
     exp: Math.floor(expiresAt.getTime() / 1000)
   }
 
   const tempToken = jwt.sign(payload, jwtSecret, { algorithm: 'HS256' })
 
   // Return a URL that goes through our secure proxy
-  const secureUrl = `${process.env.NEXTAUTH_URL}/api/secure-file/${tempToken}`
+  const secureUrl = `${process.env.NEXTAUTH_URL}/api/secure-file/${tempToken}${options.original ? '?original=1' : ''}`
 
   return {
     url: secureUrl,
@@ -273,153 +252,169 @@ async function generateDriveSignedUrl(filePath: string): Promise<{ url: string;
 }
 
 /**
- * Migrate a file from public storage to secure storage
+ * Migrate a file from Drive or a public bucket into the secure Storage bucket.
+ * Returns the new path in the secure bucket, or null when the file couldn't be migrated.
  */
 export async function migrateFileToSecureStorage(
   currentPath: string,
   storageLocation: string
 ): Promise<string | null> {
-  const supabase = createSupabaseAdmin()
-
   try {
-    if (storageLocation === 'Google Drive') {
-      // Download from Google Drive and upload to secure storage
-      const driveFileId = tryParseDriveIdFromUrl(currentPath)
-      if (!driveFileId) {
-        console.error('Invalid Google Drive file path for migration:', currentPath)
-        return null
-      }
-
-      // Get Google Drive credentials
-      const credentials = getGoogleCredentials()
-
-      const auth = new google.auth.GoogleAuth({ credentials, scopes: ['https://www.googleapis.com/auth/drive'] })
-      const drive = google.drive({ version: 'v3', auth })
-
-      // Get file metadata first to determine the correct extension
-      let fileMetadata
-      try {
-        const metadataResponse = await drive.files.get({
-          fileId: driveFileId,
-          fields: 'name,mimeType,size'
-        })
-        fileMetadata = metadataResponse.data
-      } catch (metadataError: any) {
-        console.error('Failed to get Google Drive file metadata:', {
-          fileId: driveFileId,
-          error: metadataError?.message || metadataError,
-          operation: 'getFileMetadata'
-        })
-        return null
-      }
-
-      const originalFilename = fileMetadata.name
-      const mimeType = fileMetadata.mimeType
-      const fileSize = Number(fileMetadata.size) || 0
-
-      // Check file size before downloading
-      if (fileSize > MAX_DOWNLOAD_SIZE_BYTES) {
-        console.error(`File too large for migration: ${fileSize} bytes (max: ${MAX_DOWNLOAD_SIZE_BYTES}) for file ${driveFileId}`)
-        return null
-      }
-
-      // Download file content
-      let response
-      try {
-        response = await drive.files.get({
-          fileId: driveFileId,
-          alt: 'media'
-        }, {
-          responseType: 'arraybuffer'
-        })
-      } catch (downloadError: any) {
-        console.error('Failed to download from Google Drive:', {
-          fileId: driveFileId,
-          fileSize,
-          error: downloadError?.message || downloadError,
-          operation: 'downloadFile'
-        })
-        return null
-      }
-
-      const buffer = Buffer.from(response.data as ArrayBuffer)
-      const extension = determineFileExtension(mimeType, originalFilename as any)
-      const fileName = `migrated-${Date.now()}-${driveFileId}.${extension}`
-
-      // Upload to secure Supabase storage
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from(SECURE_STORAGE_BUCKET)
-        .upload(fileName, buffer, {
-          contentType: 'application/pdf'
-        })
-
-      if (uploadError) {
-        console.error('Failed to upload migrated file to secure storage:', uploadError)
-        return null
-      }
-
-      console.log('Successfully migrated file from Google Drive to secure storage:', fileName)
-      return fileName
-
-    } else if (storageLocation === 'Supabase Storage') {
-      // Move from public bucket to secure bucket
-      const publicPath = tryParseStoragePathFromUrl(currentPath)
-      if (!publicPath || publicPath.bucket === SECURE_STORAGE_BUCKET) {
-        return publicPath?.path || null
-      }
-
-      // Download from public bucket
-      const { data: fileData, error: downloadError } = await supabase.storage
-        .from(publicPath.bucket)
-        .download(publicPath.path)
-
-      if (downloadError || !fileData) {
-        console.error('Failed to download file from public storage:', downloadError, 'for path:', publicPath.path)
-        return null
-      }
-
-      // Check file size before uploading
-      const fileSize = fileData.size
-      if (fileSize > MAX_DOWNLOAD_SIZE_BYTES) {
-        console.error(`File too large for migration: ${fileSize} bytes (max: ${MAX_DOWNLOAD_SIZE_BYTES}) for path ${publicPath.bucket}/${publicPath.path}`)
-        return null
-      }
-
-      // Upload to secure bucket
-      const secureFileName = `migrated-${Date.now()}-${publicPath.path}`
-      const { error: uploadError } = await supabase.storage
-        .from(SECURE_STORAGE_BUCKET)
-        .upload(secureFileName, fileData, {
-          // No duplex property needed for buffer uploads
-        })
-
-      if (uploadError) {
-        console.error('Failed to upload migrated file to secure storage:', uploadError)
-        return null
-      }
-
-      // Remove from public bucket
-      await supabase.storage
-        .from(publicPath.bucket)
-        .remove([publicPath.path])
-
-      console.log('Successfully migrated file from public to secure storage:', secureFileName)
-      return secureFileName
+    const located = locateResourceFile({ file_path: currentPath })
+    if (!located) {
+      console.warn('Unsupported storage location for migration:', storageLocation)
+      return null
+    }
+    const { provider, key } = located
+    if (provider.name === 'supabase') {
+      const { bucket, path } = splitStorageKey(key)
+      if (bucket === SECURE_STORAGE_BUCKET) return path
     }
 
-    console.warn('Unsupported storage location for migration:', storageLocation)
-    return null
+    const stat = await provider.stat(key)
+    const file = await provider.download(key, { maxBytes: MAX_DOWNLOAD_SIZE_BYTES })
+    if (!file) {
+      console.error(`File missing or too large for migration (max: ${MAX_DOWNLOAD_SIZE_BYTES} bytes):`, `${provider.name}:${key}`)
+      return null
+    }
+
+    const extension = determineFileExtension(file.mimeType || undefined, stat?.fileName)
+    const baseName = (stat?.fileName || key.slice(key.lastIndexOf('/') + 1)).replace(/\.[^.]*$/, '')
+    const stored = await supabaseStorage.upload(file.buffer, {
+      fileName: `migrated-${baseName}.${extension}`,
+      mimeType: file.mimeType,
+      visibility: 'private'
+    })
+
+    // Files in public buckets are removed once copied; Drive originals stay until the resource row is updated
+    if (provider.name === 'supabase') {
+      await provider.delete(key)
+    }
 
-  } catch (error: any) {
+    console.log(`Successfully migrated file from ${storageLocation} to secure storage:`, stored.url)
+    return stored.url
+  } catch (error) {
     console.error('File migration error:', {
       operation: 'migrateFileToSecureStorage',
       currentPath,
       storageLocation,
-      error: error?.message || error,
-      stack: error?.stack
+      error: error instanceof Error ? error.message : error
     })
     return null
   }
 }
 
+type ResourceFileRef = {
+  url?: string | null
+  drive_link?: string | null
+  file_path?: string | null
+}
+
+/**
+ * Permanently delete a resource's file from its storage backend.
+ * A file that is already gone counts as deleted; returns false when there was nothing to delete.
+ */
+export async function deleteResourceFile(resource: ResourceFileRef): Promise<boolean> {
+  const located = locateResourceFile(resource)
+  if (!located) return false
+  await located.provider.delete(located.key)
+  return true
+}
+
+// Resource columns pointing at a file that is only reachable through /api/resources/[id]/file
+export interface PrivateResourceFileFields {
+  url: string
+  drive_link: null
+  file_path: string
+  storage_location: string
+}
 
+/**
+ * Make sure a resource's file can't be read without a secure link, e.g. when it becomes restricted.
+ * Drive files lose their "anyone with the link" permission in place; public Storage, S3 and local
+ * objects are copied to private storage. `copied` tells the caller to delete the original once the
+ * resource row points at the copy. Returns null for resources that only point at an external link.
+ */
+export async function makeResourceFilePrivate(
+  resource: ResourceFileRef & { id: string }
+): Promise<{ fields: PrivateResourceFileFields; copied: boolean } | null> {
+  const located = locateResourceFile(resource)
+  if (!located) return null
+  const { provider, key } = located
+  const fields = (filePath: string): PrivateResourceFileFields => ({
+    url: resourceFileUrl(resource.id),
+    drive_link: null,
+    file_path: filePath,
+    storage_location: STORAGE_LOCATION_LABELS[provider.name]
+  })
+
+  if (provider.name === 'drive') {
+    await makeDriveFilePrivate(key)
+    return { fields: fields(driveViewUrl(key)), copied: false }
+  }
+
+  const alreadyPrivate = provider.name === 'supabase'
+    ? splitStorageKey(key).bucket === SECURE_STORAGE_BUCKET
+    : key.startsWith('private/')
+  if (alreadyPrivate) {
+    return { fields: fields(resource.file_path || resource.url || key), copied: false }
+  }
+
+  const stat = await provider.stat(key)
+  const file = await provider.download(key, { maxBytes: MAX_DOWNLOAD_SIZE_BYTES })
+  if (!file) throw new Error(`File missing or too large to move to private storage (max: ${MAX_DOWNLOAD_SIZE_BYTES} bytes)`)
+  const stored = await provider.upload(file.buffer, {
+    fileName: stat?.fileName || key.slice(key.lastIndexOf('/') + 1),
+    mimeType: file.mimeType,
+    visibility: 'private'
+  })
+  return { fields: fields(stored.url), copied: true }
+}
+
+/**
+ * Links to expose for a resource. Restricted files are only opened through
+ * /api/resources/[id]/file, so their stored links are left out.
+ */
+export function resourceLinks(resource: { restricted?: boolean | null; url?: string | null; drive_link?: string | null }): {
+  url: string | null
+  drive_link: string | null
+} {
+  if (resource.restricted) return { url: null, drive_link: null }
+  return { url: resource.url ?? null, drive_link: resource.drive_link ?? null }
+}
+
+/**
+ * Download a resource's file into memory from wherever it is stored
+ * (Drive, Supabase Storage, S3 or local disk)
+ */
+export async function downloadResourceFile(resource: ResourceFileRef): Promise<{ buffer: Buffer; mimeType: string | null } | null> {
+  const located = locateResourceFile(resource)
+  if (!located) return null
+  return located.provider.download(located.key, { maxBytes: MAX_DOWNLOAD_SIZE_BYTES })
+}
+
+export type ResourceFileStat = StorageObjectStat
+
+/**
+ * Size, type and cache validators of a resource's file, without downloading it.
+ * Returns null when the resource isn't stored on one of our backends, or the file is gone.
+ */
+export async function statResourceFile(resource: ResourceFileRef): Promise<ResourceFileStat | null> {
+  const located = locateResourceFile(resource)
+  if (!located) return null
+  return located.provider.stat(located.key)
+}
+
+/**
+ * Open a resource's file as a stream instead of loading it into memory, for large downloads.
+ * With `range`, only those bytes are fetched from the backend.
+ * Returns null when the resource isn't stored on one of our backends (e.g. an external link).
+ */
+export async function openResourceFileStream(
+  resource: ResourceFileRef,
+  range?: ByteRange
+): Promise<{ stream: AsyncIterable<Uint8Array>; mimeType: string | null; fileName: string } | null> {
+  const located = locateResourceFile(resource)
+  if (!located) return null
+  return located.provider.openStream(located.key, range)
+}
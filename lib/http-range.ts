@@ -0,0 +1,112 @@
+// HTTP byte ranges and conditional requests (RFC 9110) for file downloads served through our own routes
+
+export interface ByteRange {
+  start: number
+  // Inclusive
+  end: number
+}
+
+export interface FileValidators {
+  etag: string | null
+  lastModified: Date | null
+}
+
+/**
+ * Parse a Range header against a file of `size` bytes.
+ * Returns null when the whole file should be sent (no header, an unsupported unit, bad syntax or several
+ * ranges, which servers may ignore), or 'unsatisfiable' for a well-formed range outside the file.
+ */
+export function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/i)
+  if (!match) return null
+  const [, rawStart, rawEnd] = match
+  if (!rawStart && !rawEnd) return null
+
+  if (!rawStart) {
+    // Suffix range: the last N bytes
+    const length = Number(rawEnd)
+    if (length === 0 || size === 0) return 'unsatisfiable'
+    return { start: Math.max(0, size - length), end: size - 1 }
+  }
+
+  const start = Number(rawStart)
+  if (start >= size) return 'unsatisfiable'
+  const end = rawEnd ? Math.min(Number(rawEnd), size - 1) : size - 1
+  if (end < start) return null
+  return { start, end }
+}
+
+/**
+ * True when the Range header asks for something other than the start of the file, i.e. the client
+ * claims to be resuming or seeking within a download it already began. The header alone proves
+ * nothing; callers still check the link's own state (checkSecureFileToken).
+ */
+export function isContinuationRange(header: string | null): boolean {
+  const match = header?.trim().match(/^bytes=(\d*)-/i)
+  if (!match) return false
+  return !match[1] || Number(match[1]) > 0
+}
+
+function opaqueTag(etag: string): string {
+  return etag.startsWith('W/') ? etag.slice(2) : etag
+}
+
+function listMatches(header: string, etag: string | null, weak: boolean): boolean {
+  if (!etag) return false
+  if (header.trim() === '*') return true
+  return header.split(',').map(tag => tag.trim()).some(tag => {
+    if (weak) return opaqueTag(tag) === opaqueTag(etag)
+    return !tag.startsWith('W/') && !etag.startsWith('W/') && tag === etag
+  })
+}
+
+// HTTP dates have one-second precision
+function notAfter(lastModified: Date, header: string): boolean | null {
+  const date = Date.parse(header)
+  if (Number.isNaN(date)) return null
+  return Math.floor(lastModified.getTime() / 1000) <= Math.floor(date / 1000)
+}
+
+/**
+ * Evaluate If-Match / If-Unmodified-Since / If-None-Match / If-Modified-Since for a GET or HEAD.
+ * Returns the status to answer with (412 or 304), or null to serve the file.
+ */
+export function checkConditionalRequest(headers: Headers, validators: FileValidators): 304 | 412 | null {
+  const ifMatch = headers.get('if-match')
+  if (ifMatch) {
+    if (!listMatches(ifMatch, validators.etag, false)) return 412
+  } else {
+    const ifUnmodifiedSince = headers.get('if-unmodified-since')
+    if (ifUnmodifiedSince && validators.lastModified && notAfter(validators.lastModified, ifUnmodifiedSince) === false) return 412
+  }
+
+  const ifNoneMatch = headers.get('if-none-match')
+  if (ifNoneMatch) {
+    return listMatches(ifNoneMatch, validators.etag, true) ? 304 : null
+  }
+  const ifModifiedSince = headers.get('if-modified-since')
+  if (ifModifiedSince && validators.lastModified && notAfter(validators.lastModified, ifModifiedSince)) return 304
+  return null
+}
+
+/**
+ * If-Range: honour the Range header only if the client's copy is still current; otherwise send the whole file
+ */
+export function isRangeStillValid(headers: Headers, validators: FileValidators): boolean {
+  const ifRange = headers.get('if-range')?.trim()
+  if (!ifRange) return true
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) return listMatches(ifRange, validators.etag, false)
+  if (!validators.lastModified) return false
+  const date = Date.parse(ifRange)
+  return !Number.isNaN(date) && Math.floor(date / 1000) === Math.floor(validators.lastModified.getTime() / 1000)
+}
+
+/**
+ * Content-Disposition with an ASCII fallback and the UTF-8 name (RFC 6266 / RFC 8187)
+ */
+export function contentDisposition(disposition: 'inline' | 'attachment', fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encoded}`
+}
@@ -0,0 +1,359 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getSettings } from '@/lib/admin-auth'
+import { getStorageProvider, locateResourceFile, storageProviderOverride, type StorageProviderName } from '@/lib/storage'
+import { SECURE_STORAGE_BUCKET } from '@/lib/storage/supabase'
+import { isS3Configured } from '@/lib/storage/s3'
+
+// Finds resources whose file or link no longer works, and stored objects nothing points at.
+// Runs from the daily cron and on demand from the dev dashboard.
+
+export type LinkCheckStatus = 'ok' | 'missing' | 'unreadable' | 'error'
+
+export interface LinkCheckResult {
+  status: LinkCheckStatus
+  provider: StorageProviderName | 'external' | null
+  objectKey: string | null
+  httpStatus: number | null
+  error: string | null
+}
+
+type CheckableResource = {
+  id: string
+  url: string | null
+  drive_link: string | null
+  file_path: string | null
+}
+
+const EXTERNAL_TIMEOUT_MS = 10_000
+const PAGE_SIZE = 1000
+// Objects younger than this may belong to an upload that hasn't been attached to a resource yet
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000
+
+function errorMessage(err: unknown): string {
+  return (err instanceof Error ? err.message : String(err)).slice(0, 1000)
+}
+
+async function checkExternalUrl(url: string): Promise<LinkCheckResult> {
+  const result = (status: LinkCheckStatus, httpStatus: number | null, error: string | null): LinkCheckResult =>
+    ({ status, provider: 'external', objectKey: null, httpStatus, error })
+  try {
+    let res = await fetch(url, { method: 'HEAD', redirect: 'follow', signal: AbortSignal.timeout(EXTERNAL_TIMEOUT_MS) })
+    // Plenty of hosts refuse HEAD; ask for a single byte instead
+    if (res.status === 405 || res.status === 403 || res.status === 501) {
+      res = await fetch(url, { headers: { Range: 'bytes=0-0' }, redirect: 'follow', signal: AbortSignal.timeout(EXTERNAL_TIMEOUT_MS) })
+      await res.body?.cancel()
+    }
+    if (res.status === 404 || res.status === 410) return result('missing', res.status, `Link returned ${res.status}`)
+    if (res.status >= 400) return result('unreadable', res.status, `Link returned ${res.status}`)
+    return result('ok', res.status, null)
+  } catch (err) {
+    return result('error', null, errorMessage(err))
+  }
+}
+
+/**
+ * Check that a resource's stored object exists and its first byte can be read, or for plain links
+ * that the page still answers
+ */
+export async function checkResourceLink(resource: CheckableResource): Promise<LinkCheckResult> {
+  const located = locateResourceFile(resource)
+  if (!located) {
+    const url = [resource.url, resource.drive_link].find(u => u && /^https?:\/\//i.test(u))
+    if (!url) return { status: 'missing', provider: null, objectKey: null, httpStatus: null, error: 'Resource has no file or link' }
+    return checkExternalUrl(url)
+  }
+
+  const { provider, key } = located
+  const result = (status: LinkCheckStatus, error: string | null): LinkCheckResult =>
+    ({ status, provider: provider.name, objectKey: key, httpStatus: null, error })
+  try {
+    const stat = await provider.stat(key)
+    if (!stat) return result('missing', 'Object not found in storage')
+    if (stat.size > 0) {
+      try {
+        const file = await provider.openStream(key, { start: 0, end: 0 })
+        for await (const chunk of file.stream) {
+          if (chunk.length > 0) break
+        }
+      } catch (err) {
+        return result('unreadable', errorMessage(err))
+      }
+    }
+    return result('ok', null)
+  } catch (err) {
+    return result('error', errorMessage(err))
+  }
+}
+
+/**
+ * Check up to `limit` live resources: never-checked ones first, then those checked longest ago
+ */
+export async function runLinkCheck(limit = 200): Promise<{ checked: number; broken: number }> {
+  const supabase = createSupabaseAdmin()
+
+  const { data: unchecked, error } = await supabase
+    .from('resources')
+    .select('id, url, drive_link, file_path, resource_link_checks!left(resource_id)')
+    .is('deleted_at', null)
+    .is('resource_link_checks', null)
+    .limit(limit)
+  if (error) throw new Error(`Failed to load unchecked resources: ${error.message}`)
+
+  const batch: CheckableResource[] = (unchecked || []).map(({ id, url, drive_link, file_path }) => ({ id, url, drive_link, file_path }))
+  if (batch.length < limit) {
+    const { data: stale, error: staleError } = await supabase
+      .from('resource_link_checks')
+      .select('resource_id, resources!inner(id, url, drive_link, file_path)')
+      .is('resources.deleted_at', null)
+      .order('checked_at', { ascending: true })
+      .limit(limit - batch.length)
+    if (staleError) throw new Error(`Failed to load checked resources: ${staleError.message}`)
+    for (const row of stale || []) {
+      const resource = (Array.isArray(row.resources) ? row.resources[0] : row.resources) as CheckableResource | undefined
+      if (resource) batch.push(resource)
+    }
+  }
+  if (batch.length === 0) return { checked: 0, broken: 0 }
+
+  const { data: previous } = await supabase
+    .from('resource_link_checks')
+    .select('resource_id, failing_since')
+    .in('resource_id', batch.map(r => r.id))
+  const failingSince = new Map((previous || []).map(row => [row.resource_id as string, row.failing_since as string | null]))
+
+  let broken = 0
+  for (const resource of batch) {
+    const result = await checkResourceLink(resource)
+    const now = new Date().toISOString()
+    if (result.status !== 'ok') broken++
+    const { error: saveError } = await supabase.from('resource_link_checks').upsert({
+      resource_id: resource.id,
+      status: result.status,
+      provider: result.provider,
+      object_key: result.objectKey,
+      http_status: result.httpStatus,
+      error: result.error,
+      checked_at: now,
+      failing_since: result.status === 'ok' ? null : failingSince.get(resource.id) || now
+    }, { onConflict: 'resource_id' })
+    if (saveError) console.error(`[link-check] Failed to save result for ${resource.id}:`, saveError.message)
+  }
+
+  console.log(`[link-check] Checked ${batch.length} resources, ${broken} broken`)
+  return { checked: batch.length, broken }
+}
+
+async function selectAll<T>(table: string, columns: string): Promise<T[]> {
+  const supabase = createSupabaseAdmin()
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase.from(table).select(columns).range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to read ${table}: ${error.message}`)
+    rows.push(...((data || []) as T[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+/**
+ * Every stored object the database points at, as "provider:key". Trashed resources, previews, PDF renditions, old
+ * versions, in-flight uploads and Drive originals kept after migration all count as references.
+ */
+async function collectReferencedObjects(): Promise<Set<string>> {
+  const referenced = new Set<string>()
+  const add = (ref: { url?: string | null; drive_link?: string | null; file_path?: string | null }) => {
+    const located = locateResourceFile(ref)
+    if (located) referenced.add(`${located.provider.name}:${located.key}`)
+  }
+
+  const resources = await selectAll<CheckableResource & { thumbnail_path: string | null; pdf_rendition_path: string | null }>('resources', 'id, url, drive_link, file_path, thumbnail_path, pdf_rendition_path')
+  for (const r of resources) {
+    // A resource may link both a Drive file and a Storage copy; count each
+    add({ drive_link: r.drive_link })
+    add({ url: r.url })
+    if (r.file_path) add({ file_path: r.file_path })
+    if (r.thumbnail_path) add({ file_path: r.thumbnail_path })
+    if (r.pdf_rendition_path) add({ file_path: r.pdf_rendition_path })
+  }
+
+  const versions = await selectAll<{ url: string | null; drive_link: string | null }>('resource_versions', 'url, drive_link')
+  for (const v of versions) {
+    add({ url: v.url })
+    add({ drive_link: v.drive_link })
+  }
+
+  const uploads = await selectAll<{ status: string; bucket: string | null; object_path: string | null; drive_file_id: string | null }>(
+    'upload_sessions', 'status, bucket, object_path, drive_file_id'
+  )
+  for (const u of uploads) {
+    if (u.status === 'aborted') continue
+    if (u.drive_file_id) referenced.add(`drive:${u.drive_file_id}`)
+    if (u.bucket && u.object_path) referenced.add(`supabase:${u.bucket}/${u.object_path}`)
+  }
+
+  const migrations = await selectAll<{ drive_file_id: string; drive_deleted_at: string | null }>(
+    'resource_storage_migrations', 'drive_file_id, drive_deleted_at'
+  )
+  for (const m of migrations) {
+    if (!m.drive_deleted_at) referenced.add(`drive:${m.drive_file_id}`)
+  }
+
+  return referenced
+}
+
+/**
+ * Containers to scan: the Drive folder and buckets uploads go to, plus S3 and local disk when in use
+ */
+async function orphanScanTargets(): Promise<Array<{ provider: StorageProviderName; container: string | null }>> {
+  const settings = await getSettings()
+  const targets: Array<{ provider: StorageProviderName; container: string | null }> = []
+  const driveFolderId = settings?.drive_folder_id || process.env.GOOGLE_DRIVE_FOLDER_ID
+  if (driveFolderId) targets.push({ provider: 'drive', container: driveFolderId })
+  const buckets = new Set([settings?.storage_bucket || 'resources', SECURE_STORAGE_BUCKET])
+  for (const bucket of buckets) targets.push({ provider: 'supabase', container: bucket })
+  if (isS3Configured()) targets.push({ provider: 's3', container: null })
+  if (storageProviderOverride() === 'local') targets.push({ provider: 'local', container: null })
+  return targets
+}
+
+/**
+ * List every object in the scanned containers and record those nothing references in storage_orphans.
+ * Rows for objects that were deleted or became referenced since the last scan are cleared.
+ */
+export async function scanOrphanedObjects(): Promise<{ scanned: number; orphans: number; errors: string[] }> {
+  const supabase = createSupabaseAdmin()
+  const scanStartedAt = new Date().toISOString()
+  const graceCutoff = Date.now() - ORPHAN_GRACE_MS
+  const referenced = await collectReferencedObjects()
+
+  let scanned = 0
+  let orphans = 0
+  const errors: string[] = []
+  for (const target of await orphanScanTargets()) {
+    const label = `${target.provider}${target.container ? `:${target.container}` : ''}`
+    const found: Array<Record<string, unknown>> = []
+    try {
+      for await (const object of getStorageProvider(target.provider).list(target.container)) {
+        scanned++
+        if (referenced.has(`${target.provider}:${object.key}`)) continue
+        if (object.lastModified && object.lastModified.getTime() > graceCutoff) continue
+        found.push({
+          provider: target.provider,
+          object_key: object.key,
+          container: target.container,
+          size_bytes: object.size,
+          last_modified: object.lastModified?.toISOString() ?? null,
+          last_seen_at: scanStartedAt
+        })
+      }
+    } catch (err) {
+      // Leave the previous results for this container in place rather than clearing them on a failed listing
+      console.error(`[link-check] Failed to list ${label}:`, errorMessage(err))
+      errors.push(`${label}: ${errorMessage(err)}`)
+      continue
+    }
+
+    for (let i = 0; i < found.length; i += 500) {
+      const { error } = await supabase.from('storage_orphans').upsert(found.slice(i, i + 500), { onConflict: 'provider,object_key' })
+      if (error) throw new Error(`Failed to save orphans for ${label}: ${error.message}`)
+    }
+    let cleanup = supabase.from('storage_orphans').delete().eq('provider', target.provider).lt('last_seen_at', scanStartedAt)
+    cleanup = target.container ? cleanup.eq('container', target.container) : cleanup.is('container', null)
+    await cleanup
+    orphans += found.length
+  }
+
+  console.log(`[link-check] Scanned ${scanned} stored objects, ${orphans} orphaned`)
+  return { scanned, orphans, errors }
+}
+
+export interface LinkHealthReport {
+  counts: Record<LinkCheckStatus, number>
+  unchecked: number
+  lastCheckedAt: string | null
+  broken: Array<{
+    resource_id: string
+    title: string | null
+    subject: string | null
+    category: string | null
+    unit: number | null
+    status: LinkCheckStatus
+    provider: string | null
+    error: string | null
+    failing_since: string | null
+    checked_at: string
+  }>
+  orphans: Array<{
+    provider: string
+    object_key: string
+    container: string | null
+    size_bytes: number | null
+    last_modified: string | null
+    first_seen_at: string
+  }>
+  orphanCount: number
+}
+
+export async function getLinkHealthReport(): Promise<LinkHealthReport> {
+  const supabase = createSupabaseAdmin()
+  const counts: Record<LinkCheckStatus, number> = { ok: 0, missing: 0, unreadable: 0, error: 0 }
+  for (const status of Object.keys(counts) as LinkCheckStatus[]) {
+    const { count } = await supabase
+      .from('resource_link_checks')
+      .select('resource_id, resources!inner(deleted_at)', { count: 'exact', head: true })
+      .eq('status', status)
+      .is('resources.deleted_at', null)
+    counts[status] = count || 0
+  }
+
+  const { count: unchecked } = await supabase
+    .from('resources')
+    .select('id, resource_link_checks!left(resource_id)', { count: 'exact', head: true })
+    .is('deleted_at', null)
+    .is('resource_link_checks', null)
+
+  const { data: latest } = await supabase
+    .from('resource_link_checks')
+    .select('checked_at')
+    .order('checked_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data: broken } = await supabase
+    .from('resource_link_checks')
+    .select('resource_id, status, provider, error, failing_since, checked_at, resources!inner(title, subject, category, unit, deleted_at)')
+    .neq('status', 'ok')
+    .is('resources.deleted_at', null)
+    .order('failing_since', { ascending: true })
+    .limit(200)
+
+  const { data: orphans, count: orphanCount } = await supabase
+    .from('storage_orphans')
+    .select('provider, object_key, container, size_bytes, last_modified, first_seen_at', { count: 'exact' })
+    .order('first_seen_at', { ascending: true })
+    .limit(200)
+
+  return {
+    counts,
+    unchecked: unchecked || 0,
+    lastCheckedAt: latest?.checked_at ?? null,
+    broken: (broken || []).map(row => {
+      const resource = (Array.isArray(row.resources) ? row.resources[0] : row.resources) as
+        { title: string | null; subject: string | null; category: string | null; unit: number | null } | undefined
+      return {
+        resource_id: row.resource_id,
+        title: resource?.title ?? null,
+        subject: resource?.subject ?? null,
+        category: resource?.category ?? null,
+        unit: resource?.unit ?? null,
+        status: row.status,
+        provider: row.provider,
+        error: row.error,
+        failing_since: row.failing_since,
+        checked_at: row.checked_at
+      }
+    }),
+    orphans: orphans || [],
+    orphanCount: orphanCount || 0
+  }
+}
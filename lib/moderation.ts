@@ -0,0 +1,13 @@
+import { getSettings } from '@/lib/admin-auth'
+
+export type ModerationStatus = 'pending' | 'approved' | 'rejected'
+
+/**
+ * Whether a representative upload in this category must wait for admin approval
+ */
+export async function requiresRepApproval(category: string): Promise<boolean> {
+  const settings = await getSettings().catch(() => null)
+  if (!settings?.require_rep_approval) return false
+  const categories: string[] = Array.isArray(settings.rep_approval_categories) ? settings.rep_approval_categories : []
+  return categories.length === 0 || categories.includes(category.toLowerCase())
+}
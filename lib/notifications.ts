@@ -0,0 +1,87 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+
+export interface Notification {
+  id: string
+  recipient_email: string
+  type: string
+  title: string
+  body: string | null
+  link: string | null
+  data: Record<string, unknown> | null
+  read_at: string | null
+  created_at: string
+}
+
+/**
+ * Queue an in-app notification. Never throws: a failed notification must not fail the action behind it.
+ */
+export async function createNotification(notification: {
+  recipientEmail: string
+  type: string
+  title: string
+  body?: string | null
+  link?: string | null
+  data?: Record<string, unknown> | null
+}): Promise<boolean> {
+  try {
+    const supabase = createSupabaseAdmin()
+    const { error } = await supabase.from('notifications').insert({
+      recipient_email: notification.recipientEmail.toLowerCase(),
+      type: notification.type,
+      title: notification.title,
+      body: notification.body ?? null,
+      link: notification.link ?? null,
+      data: notification.data ?? null
+    })
+    if (error) {
+      console.error('Notification insertion failed:', error)
+      return false
+    }
+    return true
+  } catch (error) {
+    console.error('Notification insertion error:', error)
+    return false
+  }
+}
+
+export async function listNotifications(
+  email: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<{ notifications: Notification[]; unread: number }> {
+  const supabase = createSupabaseAdmin()
+  const recipient = email.toLowerCase()
+
+  let query = supabase
+    .from('notifications')
+    .select('*')
+    .eq('recipient_email', recipient)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(100, Math.max(1, options.limit ?? 20)))
+  if (options.unreadOnly) query = query.is('read_at', null)
+
+  const [{ data, error }, { count }] = await Promise.all([
+    query,
+    supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('recipient_email', recipient)
+      .is('read_at', null)
+  ])
+  if (error) throw error
+  return { notifications: (data || []) as Notification[], unread: count || 0 }
+}
+
+/**
+ * Mark the given notifications (or all of them when `ids` is omitted) as read
+ */
+export async function markNotificationsRead(email: string, ids?: string[]): Promise<void> {
+  const supabase = createSupabaseAdmin()
+  let query = supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('recipient_email', email.toLowerCase())
+    .is('read_at', null)
+  if (ids && ids.length > 0) query = query.in('id', ids)
+  const { error } = await query
+  if (error) throw error
+}
@@ -0,0 +1,173 @@
+import { execFile } from 'child_process'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getSettings } from '@/lib/admin-auth'
+import { downloadResourceFile } from '@/lib/files'
+import { getFileExtension } from '@/lib/file-validation'
+import { locateResourceFile, selectUploadProvider } from '@/lib/storage'
+import { indexResourceText } from '@/lib/pdf-text'
+import { generateResourceThumbnail } from '@/lib/thumbnails'
+
+// Word and PowerPoint uploads get a PDF rendition made by a local headless LibreOffice, since phones
+// open PDFs far better than Office files. The secure-file route serves the rendition unless the
+// original is asked for.
+
+// On by default; set OFFICE_TO_PDF_ENABLED=false on hosts without LibreOffice
+const CONVERSION_ENABLED = process.env.OFFICE_TO_PDF_ENABLED !== 'false'
+const SOFFICE_PATH = process.env.LIBREOFFICE_PATH || 'soffice'
+const CONVERSION_TIMEOUT_MS = (() => {
+  const parsed = parseInt(process.env.OFFICE_TO_PDF_TIMEOUT_MS || '120000', 10)
+  return isFinite(parsed) && parsed > 0 ? parsed : 120000
+})()
+
+const OFFICE_TYPES: Record<string, string> = {
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+}
+const OFFICE_MIME_TYPES = new Set(Object.values(OFFICE_TYPES))
+
+type ResourceFileRef = { url?: string | null; drive_link?: string | null; file_path?: string | null }
+
+export function isConvertibleOfficeFile(mimeType: string | null | undefined, fileName: string | null | undefined): boolean {
+  if (mimeType && OFFICE_MIME_TYPES.has(mimeType)) return true
+  return Boolean(fileName && OFFICE_TYPES[getFileExtension(fileName)])
+}
+
+// One LibreOffice process at a time: each instance is memory hungry and they fight over the profile
+let conversionQueue: Promise<unknown> = Promise.resolve()
+
+function runSoffice(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(SOFFICE_PATH, args, { timeout: CONVERSION_TIMEOUT_MS, killSignal: 'SIGKILL' }, (error, _stdout, stderr) => {
+      if (!error) return resolve()
+      const code = (error as NodeJS.ErrnoException).code
+      if (code === 'ENOENT') return reject(new Error(`LibreOffice not found at '${SOFFICE_PATH}'; set LIBREOFFICE_PATH`))
+      if (error.killed) return reject(new Error(`LibreOffice conversion timed out after ${CONVERSION_TIMEOUT_MS}ms`))
+      reject(new Error(`LibreOffice conversion failed: ${(stderr || error.message).trim().slice(0, 500)}`))
+    })
+  })
+}
+
+/**
+ * Convert a Word or PowerPoint file to PDF with headless LibreOffice
+ */
+export function convertOfficeToPdf(buffer: Buffer, fileName: string): Promise<Buffer> {
+  const run = async () => {
+    const workDir = await mkdtemp(path.join(tmpdir(), 'office-convert-'))
+    try {
+      const ext = getFileExtension(fileName) || 'docx'
+      const inputPath = path.join(workDir, `input.${ext}`)
+      await writeFile(inputPath, buffer)
+      await runSoffice([
+        '--headless',
+        '--norestore',
+        '--nolockcheck',
+        // Private profile so a stuck or concurrent desktop instance can't block the conversion
+        `-env:UserInstallation=${pathToFileURL(path.join(workDir, 'profile')).href}`,
+        '--convert-to', 'pdf',
+        '--outdir', workDir,
+        inputPath
+      ])
+      const pdf = await readFile(path.join(workDir, 'input.pdf')).catch(() => null)
+      if (!pdf || pdf.length === 0) throw new Error('LibreOffice produced no PDF')
+      return pdf
+    } finally {
+      await rm(workDir, { recursive: true, force: true })
+    }
+  }
+  const result = conversionQueue.then(run, run)
+  conversionQueue = result.catch(() => {})
+  return result
+}
+
+/**
+ * Delete a stored PDF rendition; missing files are ignored
+ */
+export async function deletePdfRendition(renditionPath: string | null | undefined): Promise<void> {
+  if (!renditionPath) return
+  const located = locateResourceFile({ file_path: renditionPath })
+  if (!located) return
+  try {
+    await located.provider.delete(located.key)
+  } catch (err) {
+    console.warn(`[office-convert] Failed to delete rendition ${renditionPath}:`, err instanceof Error ? err.message : err)
+  }
+}
+
+/**
+ * Drop a resource's PDF rendition, e.g. when its file was replaced by a non-Office file
+ */
+export async function clearPdfRendition(resourceId: string, renditionPath: string | null | undefined): Promise<void> {
+  if (!renditionPath) return
+  const supabase = createSupabaseAdmin()
+  await supabase.from('resources').update({ pdf_rendition_path: null, pdf_rendition_status: null }).eq('id', resourceId)
+  await deletePdfRendition(renditionPath)
+}
+
+/**
+ * Convert an uploaded Office file, store the PDF next to the original, then index its text and
+ * build the preview from it. Never throws: upload routes call this best-effort after responding.
+ */
+export async function convertResourceToPdf(resourceId: string, buffer: Buffer, fileName: string): Promise<boolean> {
+  if (!CONVERSION_ENABLED) return false
+  const supabase = createSupabaseAdmin()
+  try {
+    const { data: resource, error: loadError } = await supabase
+      .from('resources')
+      .select('url, drive_link, file_path, pdf_rendition_path')
+      .eq('id', resourceId)
+      .maybeSingle()
+    if (loadError) throw new Error(loadError.message)
+    if (!resource) return false
+
+    const pdf = await convertOfficeToPdf(buffer, fileName)
+
+    const settings = await getSettings()
+    const provider = locateResourceFile(resource)?.provider ?? selectUploadProvider(settings, true)
+    const container = provider.name === 'drive' ? settings?.drive_folder_id : null
+    const stored = await provider.upload(pdf, {
+      fileName: `${fileName.replace(/\.[^.]+$/, '')}.pdf`,
+      mimeType: 'application/pdf',
+      container,
+      visibility: 'private'
+    })
+
+    const { error } = await supabase
+      .from('resources')
+      .update({ pdf_rendition_path: stored.url, pdf_rendition_status: 'done' })
+      .eq('id', resourceId)
+    if (error) {
+      await provider.delete(stored.key).catch(() => {})
+      throw new Error(error.message)
+    }
+    if (resource.pdf_rendition_path && resource.pdf_rendition_path !== stored.url) await deletePdfRendition(resource.pdf_rendition_path)
+    console.log(`[office-convert] Converted resource ${resourceId} to PDF (${pdf.length} bytes) on ${provider.name}`)
+
+    // Search and the subject page grid work from the PDF
+    await indexResourceText(resourceId, pdf)
+    await generateResourceThumbnail(resourceId, pdf, 'application/pdf')
+    return true
+  } catch (err) {
+    console.error(`[office-convert] Failed to convert resource ${resourceId}:`, err instanceof Error ? err.message : err)
+    await supabase.from('resources').update({ pdf_rendition_status: 'failed' }).eq('id', resourceId)
+    return false
+  }
+}
+
+/**
+ * Convert an Office file that is already stored (e.g. finished chunked uploads) by downloading it first
+ */
+export async function convertStoredResourceToPdf(resourceId: string, location: ResourceFileRef, fileName: string): Promise<boolean> {
+  if (!CONVERSION_ENABLED) return false
+  const file = await downloadResourceFile(location).catch(() => null)
+  if (!file) {
+    console.warn(`[office-convert] File for resource ${resourceId} unavailable or too large to convert`)
+    return false
+  }
+  return convertResourceToPdf(resourceId, file.buffer, fileName)
+}
@@ -0,0 +1,140 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { downloadResourceFile } from '@/lib/files'
+
+// OCR is on by default because most handouts are scans; set PDF_OCR_ENABLED=false to use the text layer only
+const OCR_ENABLED = process.env.PDF_OCR_ENABLED !== 'false'
+const OCR_LANG = process.env.PDF_OCR_LANG || 'eng'
+const OCR_MAX_PAGES = (() => {
+  const parsed = parseInt(process.env.PDF_OCR_MAX_PAGES || '30', 10)
+  return isFinite(parsed) && parsed > 0 ? parsed : 30
+})()
+const OCR_RENDER_SCALE = 2
+
+// Pages with less text than this are treated as scanned images
+const MIN_PAGE_TEXT_CHARS = 25
+// Keeps the generated tsvector well under Postgres' 1MB limit
+const MAX_INDEXED_CHARS = 200_000
+
+export type PdfTextMethod = 'text' | 'ocr' | 'mixed' | 'none'
+
+export interface PdfTextResult {
+  text: string
+  pageCount: number
+  method: PdfTextMethod
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\u0000/g, '').replace(/[ \t]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim()
+}
+
+/**
+ * Extract text from a PDF, falling back to OCR for pages without a text layer
+ */
+export async function extractPdfText(buffer: Buffer): Promise<PdfTextResult> {
+  const { getDocumentProxy, extractText, renderPageAsImage } = await import('unpdf')
+
+  // Copy so pdf.js can't detach the caller's buffer
+  const pdf = await getDocumentProxy(new Uint8Array(buffer))
+  const { totalPages, text: pages } = await extractText(pdf, { mergePages: false })
+
+  const texts = pages.map(normalizeText)
+  const scannedPages = texts
+    .map((t, i) => (t.length < MIN_PAGE_TEXT_CHARS ? i + 1 : null))
+    .filter((n): n is number => n !== null)
+    .slice(0, OCR_MAX_PAGES)
+
+  let ocrPages = 0
+  if (OCR_ENABLED && scannedPages.length > 0) {
+    const { createWorker } = await import('tesseract.js')
+    const worker = await createWorker(OCR_LANG)
+    try {
+      for (const pageNumber of scannedPages) {
+        try {
+          const image = await renderPageAsImage(pdf, pageNumber, {
+            canvasImport: () => import('@napi-rs/canvas'),
+            scale: OCR_RENDER_SCALE
+          })
+          const { data } = await worker.recognize(Buffer.from(image))
+          const ocrText = normalizeText(data.text || '')
+          if (ocrText.length > 0) {
+            texts[pageNumber - 1] = ocrText
+            ocrPages++
+          }
+        } catch (err) {
+          console.warn(`[pdf-text] OCR failed on page ${pageNumber}:`, err instanceof Error ? err.message : err)
+        }
+      }
+    } finally {
+      await worker.terminate()
+    }
+  }
+
+  const text = texts.filter(Boolean).join('\n\n').slice(0, MAX_INDEXED_CHARS)
+  const textLayerPages = texts.length - scannedPages.length
+  let method: PdfTextMethod = 'none'
+  if (text.length > 0) {
+    if (ocrPages === 0) method = 'text'
+    else method = textLayerPages > 0 ? 'mixed' : 'ocr'
+  }
+
+  return { text, pageCount: totalPages, method }
+}
+
+/**
+ * Extract and store a resource's PDF text in resource_texts.
+ * Never throws: upload routes call this best-effort and failures are retried by the backfill job.
+ */
+export async function indexResourceText(resourceId: string, buffer: Buffer): Promise<boolean> {
+  const supabase = createSupabaseAdmin()
+  try {
+    const result = await extractPdfText(buffer)
+    const { error } = await supabase.from('resource_texts').upsert({
+      resource_id: resourceId,
+      content: result.text || null,
+      page_count: result.pageCount,
+      method: result.method,
+      status: 'done',
+      error: null,
+      extracted_at: new Date().toISOString()
+    }, { onConflict: 'resource_id' })
+    if (error) throw new Error(error.message)
+    console.log(`[pdf-text] Indexed resource ${resourceId}: ${result.pageCount} pages via ${result.method}`)
+    return true
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    console.error(`[pdf-text] Failed to index resource ${resourceId}:`, message)
+    await supabase.from('resource_texts').upsert({
+      resource_id: resourceId,
+      status: 'failed',
+      error: message.slice(0, 1000)
+    }, { onConflict: 'resource_id' })
+    return false
+  }
+}
+
+/**
+ * Mark a resource as not indexable (not a PDF or file unavailable) so the backfill skips it
+ */
+export async function markResourceTextSkipped(resourceId: string, reason: string): Promise<void> {
+  const supabase = createSupabaseAdmin()
+  await supabase.from('resource_texts').upsert({
+    resource_id: resourceId,
+    status: 'skipped',
+    error: reason
+  }, { onConflict: 'resource_id' })
+}
+
+/**
+ * Index a PDF that is already stored (e.g. finished chunked uploads) by downloading it first
+ */
+export async function indexStoredResourceText(
+  resourceId: string,
+  location: { url?: string | null; drive_link?: string | null; file_path?: string | null }
+): Promise<boolean> {
+  const file = await downloadResourceFile(location).catch(() => null)
+  if (!file) {
+    await markResourceTextSkipped(resourceId, 'File unavailable or too large')
+    return false
+  }
+  return indexResourceText(resourceId, file.buffer)
+}
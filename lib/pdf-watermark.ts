@@ -0,0 +1,61 @@
+import { PDFDocument, StandardFonts, degrees, rgb } from 'pdf-lib'
+
+export interface WatermarkIdentity {
+  email: string
+  rollNumber?: string | null
+  downloadedAt: Date
+}
+
+// The standard fonts only cover WinAnsi; anything else would make pdf-lib throw
+function toPrintable(value: string): string {
+  return value.replace(/[^\x20-\x7e]/g, '?')
+}
+
+export function watermarkLabel(identity: WatermarkIdentity): string {
+  const who = [identity.rollNumber, identity.email].filter(Boolean).join(' | ')
+  return toPrintable(`${who} | ${identity.downloadedAt.toISOString()}`)
+}
+
+/**
+ * Stamp every page with the downloader's identity (a faint diagonal mark plus a footer line)
+ * and record it in the document metadata, so a leaked copy can be traced back to the download.
+ * Throws for PDFs that can't be rewritten (e.g. encrypted ones); callers should refuse to serve those.
+ */
+export async function watermarkPdf(buffer: Uint8Array, identity: WatermarkIdentity): Promise<Uint8Array> {
+  const doc = await PDFDocument.load(buffer, { updateMetadata: false })
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  const label = watermarkLabel(identity)
+  const footer = `Downloaded by ${label} - do not redistribute`
+
+  for (const page of doc.getPages()) {
+    const { width, height } = page.getSize()
+
+    // Diagonal mark across the page, scaled so it fits the diagonal
+    const diagonal = Math.sqrt(width * width + height * height)
+    const size = Math.min(36, (diagonal * 0.8) / Math.max(1, font.widthOfTextAtSize(label, 1)))
+    const angle = Math.atan2(height, width)
+    const textWidth = font.widthOfTextAtSize(label, size)
+    page.drawText(label, {
+      x: width / 2 - (Math.cos(angle) * textWidth) / 2,
+      y: height / 2 - (Math.sin(angle) * textWidth) / 2,
+      size,
+      font,
+      color: rgb(0.5, 0.5, 0.5),
+      opacity: 0.18,
+      rotate: degrees((angle * 180) / Math.PI)
+    })
+
+    const footerSize = Math.min(8, (width - 20) / Math.max(1, font.widthOfTextAtSize(footer, 1)))
+    page.drawText(footer, { x: 10, y: 8, size: footerSize, font, color: rgb(0.35, 0.35, 0.35), opacity: 0.7 })
+  }
+
+  doc.setSubject(`Downloaded by ${label}`)
+  doc.setKeywords([
+    `downloaded-by:${toPrintable(identity.email)}`,
+    ...(identity.rollNumber ? [`roll-number:${toPrintable(identity.rollNumber)}`] : []),
+    `downloaded-at:${identity.downloadedAt.toISOString()}`
+  ])
+  doc.setModificationDate(identity.downloadedAt)
+
+  return doc.save()
+}
@@ -0,0 +1,266 @@
+import webpush from 'web-push'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getBranchIdByCode, getYearIdByBatchYear } from '@/lib/lookup-mappers'
+import { EXAM_TYPE_LABELS, formatExamTime, type Exam } from '@/lib/exams'
+
+// Web Push to students' browsers and installed PWAs. Each profile can have a subscription per device;
+// when something is published for a class, every subscribed student in that branch and year gets a push.
+// Configured with a VAPID key pair (generate one with `npx web-push generate-vapid-keys`).
+
+const PUSH_TTL_SECONDS = 24 * 60 * 60
+const PUSH_BATCH_SIZE = 25
+const PUSH_MAX_RECIPIENTS = 5000
+const PUSH_BODY_MAX_CHARS = 200
+
+export interface PushPayload {
+  title: string
+  body: string
+  // Opened when the notification is clicked
+  url: string
+  // Replaces an earlier notification with the same tag instead of stacking
+  tag?: string
+}
+
+export interface PushSubscriptionKeys {
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+// A class by branch and year ids; a missing id matches every branch or year
+export interface PushAudience {
+  branchId: string | null
+  yearId: string | null
+}
+
+export function getVapidPublicKey(): string | null {
+  return process.env.VAPID_PUBLIC_KEY || null
+}
+
+function getVapidDetails() {
+  const publicKey = process.env.VAPID_PUBLIC_KEY
+  const privateKey = process.env.VAPID_PRIVATE_KEY
+  const subject = process.env.VAPID_SUBJECT || process.env.NEXTAUTH_URL
+  if (!publicKey || !privateKey || !subject) return null
+  return { subject, publicKey, privateKey }
+}
+
+export function isPushConfigured(): boolean {
+  return getVapidDetails() !== null
+}
+
+const BASE64URL_RE = /^[A-Za-z0-9_-]+=*$/
+
+/**
+ * Validate a PushSubscription as serialised by the browser (subscription.toJSON())
+ */
+export function parsePushSubscription(value: unknown): PushSubscriptionKeys | null {
+  if (!value || typeof value !== 'object') return null
+  const { endpoint, keys } = value as { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } }
+  if (typeof endpoint !== 'string' || endpoint.length > 2048) return null
+  try {
+    if (new URL(endpoint).protocol !== 'https:') return null
+  } catch {
+    return null
+  }
+  const p256dh = keys?.p256dh
+  const auth = keys?.auth
+  if (typeof p256dh !== 'string' || typeof auth !== 'string') return null
+  if (!BASE64URL_RE.test(p256dh) || !BASE64URL_RE.test(auth) || p256dh.length > 200 || auth.length > 100) return null
+  return { endpoint, p256dh, auth }
+}
+
+async function getProfileId(email: string): Promise<string | null> {
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase.from('profiles').select('id').eq('email', email.toLowerCase()).maybeSingle()
+  if (error) throw new Error(`Failed to load profile: ${error.message}`)
+  return data?.id ?? null
+}
+
+/**
+ * Store a device's subscription; a device that signs in to another account moves to that profile
+ */
+export async function savePushSubscription(email: string, subscription: PushSubscriptionKeys, userAgent?: string | null): Promise<void> {
+  const profileId = await getProfileId(email)
+  if (!profileId) throw new Error('No profile for this account')
+  const supabase = createSupabaseAdmin()
+  const { error } = await supabase.from('push_subscriptions').upsert({
+    profile_id: profileId,
+    endpoint: subscription.endpoint,
+    p256dh: subscription.p256dh,
+    auth: subscription.auth,
+    user_agent: userAgent ? userAgent.slice(0, 500) : null
+  }, { onConflict: 'endpoint' })
+  if (error) throw new Error(`Failed to save push subscription: ${error.message}`)
+}
+
+/**
+ * Remove one device's subscription, or all of a profile's when no endpoint is given
+ */
+export async function deletePushSubscriptions(email: string, endpoint?: string): Promise<number> {
+  const profileId = await getProfileId(email)
+  if (!profileId) return 0
+  const supabase = createSupabaseAdmin()
+  let query = supabase.from('push_subscriptions').delete().eq('profile_id', profileId)
+  if (endpoint) query = query.eq('endpoint', endpoint)
+  const { data, error } = await query.select('id')
+  if (error) throw new Error(`Failed to delete push subscriptions: ${error.message}`)
+  return data?.length || 0
+}
+
+export async function countPushSubscriptions(email: string): Promise<number> {
+  const profileId = await getProfileId(email)
+  if (!profileId) return 0
+  const supabase = createSupabaseAdmin()
+  const { count, error } = await supabase
+    .from('push_subscriptions')
+    .select('id', { count: 'exact', head: true })
+    .eq('profile_id', profileId)
+  if (error) throw new Error(`Failed to load push subscriptions: ${error.message}`)
+  return count || 0
+}
+
+/**
+ * Audience for items stored with a branch code and batch year (exams, reminders, recent updates).
+ * Null when the branch or year is given but unknown, so nobody is pushed to by mistake.
+ */
+export async function resolvePushAudience(branch: string | null | undefined, batchYear: number | null | undefined): Promise<PushAudience | null> {
+  const branchId = branch ? await getBranchIdByCode(branch) : null
+  const yearId = batchYear ? await getYearIdByBatchYear(batchYear) : null
+  if ((branch && !branchId) || (batchYear && !yearId)) return null
+  return { branchId, yearId }
+}
+
+/**
+ * Push to the class an exam, reminder or recent update was posted for. Never throws.
+ */
+export async function sendPushToClass(branch: string | null | undefined, batchYear: number | null | undefined, payload: PushPayload) {
+  try {
+    return await sendPushToAudience(await resolvePushAudience(branch, batchYear), payload)
+  } catch (error) {
+    console.error('Push audience lookup failed:', error)
+    return { sent: 0, removed: 0, failed: 0 }
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text
+}
+
+/**
+ * Push to every subscribed student in the audience. Never throws: a failed push must not fail the
+ * action behind it. Subscriptions the push service reports as gone are removed.
+ */
+export async function sendPushToAudience(audience: PushAudience | null, payload: PushPayload): Promise<{ sent: number; removed: number; failed: number }> {
+  const result = { sent: 0, removed: 0, failed: 0 }
+  const vapidDetails = getVapidDetails()
+  if (!vapidDetails || !audience) return result
+
+  try {
+    const supabase = createSupabaseAdmin()
+    let query = supabase
+      .from('push_subscriptions')
+      .select('id, endpoint, p256dh, auth, profile:profiles!inner(branch_id, year_id)')
+      .limit(PUSH_MAX_RECIPIENTS)
+    if (audience.branchId) query = query.eq('profile.branch_id', audience.branchId)
+    if (audience.yearId) query = query.eq('profile.year_id', audience.yearId)
+    const { data: subscriptions, error } = await query
+    if (error) {
+      console.error('Push recipients query failed:', error)
+      return result
+    }
+
+    const message = JSON.stringify({ ...payload, body: truncate(payload.body, PUSH_BODY_MAX_CHARS) })
+    const gone: string[] = []
+    for (let i = 0; i < (subscriptions || []).length; i += PUSH_BATCH_SIZE) {
+      const batch = subscriptions!.slice(i, i + PUSH_BATCH_SIZE)
+      const outcomes = await Promise.allSettled(batch.map(s => webpush.sendNotification(
+        { endpoint: s.endpoint, keys: { p256dh: s.p256dh, auth: s.auth } },
+        message,
+        { vapidDetails, TTL: PUSH_TTL_SECONDS }
+      )))
+      outcomes.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          result.sent++
+          return
+        }
+        const statusCode = (outcome.reason as { statusCode?: number })?.statusCode
+        // Unsubscribed or expired in the browser
+        if (statusCode === 404 || statusCode === 410) gone.push(batch[index].id)
+        else result.failed++
+      })
+    }
+
+    if (gone.length > 0) {
+      const { error: deleteError } = await supabase.from('push_subscriptions').delete().in('id', gone)
+      if (deleteError) console.error('Failed to remove expired push subscriptions:', deleteError)
+      else result.removed = gone.length
+    }
+    if (result.failed > 0) console.warn(`Push "${payload.title}": ${result.failed} of ${subscriptions?.length} deliveries failed`)
+  } catch (error) {
+    console.error('Push delivery error:', error)
+  }
+  return result
+}
+
+export function resourcePushPayload(resource: { id: string; title?: string | null; name?: string | null; category?: string | null; subject?: string | null }): PushPayload {
+  const subject = resource.subject && resource.subject !== 'general' ? resource.subject.toUpperCase() : null
+  return {
+    title: subject ? `New in ${subject}` : 'New resource',
+    body: resource.title || resource.name || 'A new resource was added',
+    url: resource.category && resource.subject
+      ? `/resources/${encodeURIComponent(resource.category)}/${encodeURIComponent(resource.subject)}`
+      : '/resources',
+    tag: `resource-${resource.id}`
+  }
+}
+
+export function reminderPushPayload(reminder: { id: string; title: string; due_date: string }): PushPayload {
+  return {
+    title: `Reminder: ${reminder.title}`,
+    body: `Due ${reminder.due_date}`,
+    url: '/reminders',
+    tag: `reminder-${reminder.id}`
+  }
+}
+
+type PushExam = Partial<Pick<Exam, 'subject' | 'exam_date' | 'start_time' | 'end_time' | 'session' | 'exam_type' | 'venue'>>
+
+function examPushTitle(exam: PushExam): string {
+  const type = exam.exam_type ? EXAM_TYPE_LABELS[exam.exam_type] : null
+  return type ? `${type} exam: ${exam.subject}` : `Exam: ${exam.subject}`
+}
+
+export function examPushPayload(exam: { id: string } & PushExam): PushPayload {
+  return {
+    title: examPushTitle(exam),
+    body: [exam.exam_date, formatExamTime(exam), exam.venue].filter(Boolean).join(' · '),
+    url: '/home',
+    tag: `exam-${exam.id}`
+  }
+}
+
+/**
+ * One push for the exams an imported timetable added to a class, rather than one per exam
+ */
+export function examTimetablePushPayload(exams: PushExam[]): PushPayload {
+  const sorted = [...exams].sort((a, b) => String(a.exam_date).localeCompare(String(b.exam_date)))
+  const first = sorted[0]
+  return {
+    title: sorted.length === 1 ? examPushTitle(first) : `${sorted.length} new exams`,
+    body: sorted.length === 1
+      ? [first.exam_date, formatExamTime(first), first.venue].filter(Boolean).join(' · ')
+      : sorted.map(e => `${e.subject} (${e.exam_date})`).join(', '),
+    url: '/home',
+    tag: `exam-timetable-${first.exam_date}`
+  }
+}
+
+export function recentUpdatePushPayload(update: { id: string; title: string; description?: string | null }): PushPayload {
+  return {
+    title: update.title,
+    body: update.description || 'New update on PEC.UP',
+    url: '/home',
+    tag: `update-${update.id}`
+  }
+}
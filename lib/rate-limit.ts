@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { redis } from '@/lib/redis'
+
+// Sliding-window rate limiting shared across instances through Redis.
+// Without REDIS_URL (local dev) or when Redis is unreachable, limits are tracked per process instead.
+
+export interface RateLimitPolicy {
+  limit: number
+  windowMs: number
+}
+
+export const RATE_LIMIT_POLICIES = {
+  download: { limit: 20, windowMs: 60 * 1000 },
+  // Follow-up range requests of a started download (seeking in a PDF or video)
+  download_range: { limit: 300, windowMs: 60 * 1000 },
+  export: { limit: 5, windowMs: 10 * 60 * 1000 },
+  upload: { limit: 30, windowMs: 10 * 60 * 1000 },
+  promotion: { limit: 5, windowMs: 60 * 60 * 1000 },
+  profile: { limit: 10, windowMs: 60 * 1000 },
+} satisfies Record<string, RateLimitPolicy>
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  windowMs: number
+  // Milliseconds until the oldest counted request leaves the window
+  resetMs: number
+}
+
+const KEY_PREFIX = 'ratelimit:'
+
+// KEYS[1] = bucket; ARGV = now, window, limit, member. Returns { allowed, count, resetMs }
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  redis.call('PEXPIRE', KEYS[1], window)
+  count = count + 1
+  allowed = 1
+end
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local reset = window
+if oldest[2] then reset = tonumber(oldest[2]) + window - now end
+return { allowed, count, reset }
+`
+
+const memoryBuckets = new Map<string, { hits: number[]; windowMs: number }>()
+
+function memoryHit(key: string, policy: RateLimitPolicy, now: number): RateLimitResult {
+  const hits = (memoryBuckets.get(key)?.hits || []).filter(t => t > now - policy.windowMs)
+  const allowed = hits.length < policy.limit
+  if (allowed) hits.push(now)
+  memoryBuckets.set(key, { hits, windowMs: policy.windowMs })
+
+  // Drop idle buckets occasionally so long-lived processes don't grow without bound
+  if (memoryBuckets.size > 10000) {
+    for (const [k, bucket] of memoryBuckets) {
+      if (bucket.hits[bucket.hits.length - 1] <= now - bucket.windowMs) memoryBuckets.delete(k)
+    }
+  }
+
+  return {
+    allowed,
+    limit: policy.limit,
+    remaining: Math.max(0, policy.limit - hits.length),
+    windowMs: policy.windowMs,
+    resetMs: hits.length > 0 ? hits[0] + policy.windowMs - now : policy.windowMs
+  }
+}
+
+/**
+ * Count a request from `identifier` (usually the user's email) against a named policy
+ */
+export async function rateLimit(policyName: RateLimitPolicyName, identifier: string): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[policyName]
+  const key = `${KEY_PREFIX}${policyName}:${identifier.toLowerCase()}`
+  const now = Date.now()
+
+  if (redis) {
+    try {
+      const [allowed, count, reset] = await redis.eval(
+        SLIDING_WINDOW_SCRIPT, 1, key, now, policy.windowMs, policy.limit, `${now}:${randomUUID()}`
+      ) as [number, number, number]
+      return {
+        allowed: allowed === 1,
+        limit: policy.limit,
+        remaining: Math.max(0, policy.limit - count),
+        windowMs: policy.windowMs,
+        resetMs: Math.max(0, reset)
+      }
+    } catch (err) {
+      console.warn(`[rate-limit] Redis unavailable, using in-process limit for ${policyName}:`, err instanceof Error ? err.message : err)
+    }
+  }
+  return memoryHit(key, policy, now)
+}
+
+/**
+ * IETF RateLimit-* headers (plus Retry-After once blocked)
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.ceil(result.resetMs / 1000)
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`
+  }
+  if (!result.allowed) headers['Retry-After'] = String(Math.max(1, resetSeconds))
+  return headers
+}
+
+export function rateLimitExceededResponse(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    { error: 'Rate limit exceeded', retryAfter: Math.max(1, Math.ceil(result.resetMs / 1000)) },
+    { status: 429, headers: rateLimitHeaders(result) }
+  )
+}
@@ -0,0 +1,212 @@
+// Recurrence rules for date-only events, using the RRULE syntax from RFC 5545 (e.g.
+// "FREQ=WEEKLY;BYDAY=MO" for an every-Monday quiz). Only the parts the dashboard can author are
+// supported: FREQ (daily, weekly, monthly), INTERVAL, BYDAY for weekly rules, and COUNT or UNTIL.
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number]
+
+// Monday first, as weeks start on Monday (WKST=MO)
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const
+export type Weekday = typeof WEEKDAYS[number]
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday'
+}
+
+export const MAX_RECURRENCE_COUNT = 366
+const MAX_INTERVAL = 99
+// Bounds the work done for old series expanded into a far window
+const MAX_ITERATIONS = 10000
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  // Weekly rules only; empty means the weekday of the first occurrence
+  byDay: Weekday[]
+  count: number | null
+  // YYYY-MM-DD, inclusive
+  until: string | null
+}
+
+export type ParsedRecurrenceRule =
+  | { ok: true; value: RecurrenceRule }
+  | { ok: false; error: string }
+
+const DAY_MS = 86400000
+
+function toDayNumber(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / DAY_MS
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10)
+}
+
+// 0 = Monday
+function weekdayIndex(day: number): number {
+  return (new Date(day * DAY_MS).getUTCDay() + 6) % 7
+}
+
+/**
+ * Parse an RRULE value, with or without the "RRULE:" prefix
+ */
+export function parseRecurrenceRule(text: string): ParsedRecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, '')
+  if (!body) return { ok: false, error: 'Recurrence rule is empty' }
+
+  const parts = new Map<string, string>()
+  for (const part of body.split(';')) {
+    if (!part) continue
+    const [key, value] = part.split('=')
+    if (!key || value === undefined) return { ok: false, error: `Invalid rule part '${part}'` }
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase())
+  }
+
+  const freq = parts.get('FREQ')
+  if (!freq || !(RECURRENCE_FREQUENCIES as readonly string[]).includes(freq)) {
+    return { ok: false, error: `FREQ must be one of ${RECURRENCE_FREQUENCIES.join(', ')}` }
+  }
+  const rule: RecurrenceRule = { freq: freq as RecurrenceFrequency, interval: 1, byDay: [], count: null, until: null }
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break
+      case 'INTERVAL': {
+        const interval = Number(value)
+        if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) return { ok: false, error: `INTERVAL must be between 1 and ${MAX_INTERVAL}` }
+        rule.interval = interval
+        break
+      }
+      case 'BYDAY': {
+        if (rule.freq !== 'WEEKLY') return { ok: false, error: 'BYDAY is only supported for weekly rules' }
+        const days = value.split(',').map(d => d.trim())
+        if (days.some(d => !(WEEKDAYS as readonly string[]).includes(d))) return { ok: false, error: `BYDAY must list days from ${WEEKDAYS.join(', ')}` }
+        rule.byDay = WEEKDAYS.filter(d => days.includes(d))
+        break
+      }
+      case 'COUNT': {
+        const count = Number(value)
+        if (!Number.isInteger(count) || count < 1 || count > MAX_RECURRENCE_COUNT) return { ok: false, error: `COUNT must be between 1 and ${MAX_RECURRENCE_COUNT}` }
+        rule.count = count
+        break
+      }
+      case 'UNTIL': {
+        // Date or UTC date-time; only the date matters for date-only events
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/)
+        const until = match ? `${match[1]}-${match[2]}-${match[3]}` : ''
+        if (!until || Number.isNaN(toDayNumber(until))) return { ok: false, error: 'UNTIL must be a date like 20260301' }
+        rule.until = until
+        break
+      }
+      case 'WKST':
+        if (value !== 'MO') return { ok: false, error: 'Only WKST=MO is supported' }
+        break
+      default:
+        return { ok: false, error: `Unsupported rule part '${key}'` }
+    }
+  }
+  if (rule.count && rule.until) return { ok: false, error: 'Use either COUNT or UNTIL, not both' }
+  return { ok: true, value: rule }
+}
+
+/**
+ * Canonical RRULE value (without the "RRULE:" prefix) for storage
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.freq === 'WEEKLY' && rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.join(',')}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`)
+  return parts.join(';')
+}
+
+/**
+ * "Every week on Monday", "Every 2 months, 6 times", "Every day until 2026-03-01"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq]
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`
+  if (rule.freq === 'WEEKLY' && rule.byDay.length > 0) text += ` on ${rule.byDay.map(d => WEEKDAY_LABELS[d]).join(', ')}`
+  if (rule.count) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`
+  if (rule.until) text += ` until ${rule.until}`
+  return text
+}
+
+/**
+ * Occurrence dates (YYYY-MM-DD) of a series starting on `start`, within [from, to] inclusive.
+ * The start date is the first occurrence. COUNT counts occurrences from the start, including
+ * excluded dates and ones before the window, as in RFC 5545. Monthly rules skip months that are
+ * too short for the start's day of month.
+ */
+export function expandRecurrence(
+  start: string,
+  rule: RecurrenceRule,
+  window: { from: string; to: string; exdates?: string[] }
+): string[] {
+  const first = toDayNumber(start)
+  const from = toDayNumber(window.from)
+  let last = toDayNumber(window.to)
+  if (rule.until) last = Math.min(last, toDayNumber(rule.until))
+  if ([first, from, last].some(Number.isNaN) || last < first) return []
+
+  const excluded = new Set(window.exdates || [])
+  const dates: string[] = []
+  let generated = 0
+  // Returns false once the series is past the window or exhausted
+  const emit = (day: number): boolean => {
+    if (day > last || (rule.count && generated >= rule.count)) return false
+    generated++
+    const date = fromDayNumber(day)
+    if (day >= from && !excluded.has(date)) dates.push(date)
+    return true
+  }
+
+  if (rule.freq === 'DAILY') {
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+      if (!emit(first + i * rule.interval)) break
+    }
+  } else if (rule.freq === 'WEEKLY') {
+    const offsets = rule.byDay.length > 0 ? rule.byDay.map(d => WEEKDAYS.indexOf(d)) : [weekdayIndex(first)]
+    const weekStart = first - weekdayIndex(first)
+    weeks: for (let w = 0; w < MAX_ITERATIONS; w++) {
+      for (const offset of offsets) {
+        const day = weekStart + w * 7 * rule.interval + offset
+        if (day < first) continue
+        if (!emit(day)) break weeks
+      }
+    }
+  } else {
+    const startDate = new Date(first * DAY_MS)
+    const dayOfMonth = startDate.getUTCDate()
+    for (let m = 0; m < MAX_ITERATIONS; m++) {
+      const month = startDate.getUTCMonth() + m * rule.interval
+      const candidate = new Date(Date.UTC(startDate.getUTCFullYear(), month, dayOfMonth))
+      // Rolled into the next month: this month has no such day
+      if (candidate.getUTCDate() !== dayOfMonth) {
+        if (candidate.getTime() / DAY_MS > last) break
+        continue
+      }
+      if (!emit(candidate.getTime() / DAY_MS)) break
+    }
+  }
+  return dates
+}
+
+/**
+ * Last possible occurrence (YYYY-MM-DD) of a series starting on `start`: the UNTIL date, or the
+ * COUNT-th occurrence. Null for series that never end.
+ */
+export function recurrenceEndDate(start: string, rule: RecurrenceRule): string | null {
+  if (rule.until) return rule.until
+  if (!rule.count) return null
+  const dates = expandRecurrence(start, rule, { from: start, to: '9999-12-31' })
+  return dates.length > 0 ? dates[dates.length - 1] : start
+}
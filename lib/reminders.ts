@@ -0,0 +1,113 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { expandRecurrence, parseRecurrenceRule } from '@/lib/recurrence'
+
+// Reminders are one-shot rows or recurring series. A series row's due_date is its first occurrence;
+// skipped occurrences are listed in recurrence_exdates, and an occurrence edited on its own becomes a
+// one-shot row pointing back at the series (recurrence_parent_id, occurrence_date) whose date is
+// also excluded from the series.
+
+export const REMINDER_COLUMNS = 'id,title,due_date,description,icon_type,status,year,branch,recurrence_rule,recurrence_exdates,recurrence_parent_id,occurrence_date'
+
+// Default span of occurrences listed for a recurring reminder
+export const REMINDER_WINDOW_DAYS = 60
+const MAX_REMINDER_WINDOW_DAYS = 366
+
+export interface ReminderRow {
+  id: string
+  title: string
+  due_date: string
+  description?: string | null
+  icon_type?: string | null
+  status?: string | null
+  year?: number | null
+  branch?: string | null
+  recurrence_rule?: string | null
+  recurrence_exdates?: string[] | null
+  recurrence_parent_id?: string | null
+  occurrence_date?: string | null
+}
+
+export type ReminderOccurrence = ReminderRow & {
+  // Series the occurrence belongs to, for occurrences and edited occurrences
+  series_id: string | null
+  recurring: boolean
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * Window to expand recurring reminders in: from today for REMINDER_WINDOW_DAYS unless given,
+ * capped at a year. Returns null for malformed dates.
+ */
+export function reminderWindow(from?: string | null, to?: string | null, today = new Date()): { from: string; to: string } | null {
+  if ((from && !DATE_RE.test(from)) || (to && !DATE_RE.test(to))) return null
+  const start = from || today.toISOString().slice(0, 10)
+  const end = to || addDays(start, REMINDER_WINDOW_DAYS)
+  if (end < start) return null
+  const maxEnd = addDays(start, MAX_REMINDER_WINDOW_DAYS)
+  return { from: start, to: end > maxEnd ? maxEnd : end }
+}
+
+/**
+ * Replace each recurring series with its occurrences in the window; other rows pass through.
+ * A series with a rule that no longer parses is shown once, on its due date.
+ */
+export function expandReminders(rows: ReminderRow[], window: { from: string; to: string }): ReminderOccurrence[] {
+  const result: ReminderOccurrence[] = []
+  for (const row of rows) {
+    const parsed = row.recurrence_rule ? parseRecurrenceRule(row.recurrence_rule) : null
+    if (!parsed?.ok) {
+      result.push({ ...row, series_id: row.recurrence_parent_id ?? null, recurring: false })
+      continue
+    }
+    const dates = expandRecurrence(row.due_date.slice(0, 10), parsed.value, { ...window, exdates: row.recurrence_exdates || [] })
+    for (const date of dates) {
+      result.push({ ...row, due_date: date, occurrence_date: date, series_id: row.id, recurring: true })
+    }
+  }
+  return result.sort((a, b) => a.due_date.localeCompare(b.due_date))
+}
+
+/**
+ * Reminder rows that can fall in the window: one-shot reminders due from its start, and series that
+ * have started by its end and not finished before its start. The two are loaded separately so
+ * long-running series don't use up the limit meant for upcoming reminders.
+ */
+export async function loadReminderRows(
+  supabase: SupabaseClient,
+  window: { from: string; to: string },
+  options: { branch?: string | null; year?: number | null; limit: number }
+): Promise<{ data: ReminderRow[] | null; error: { message: string } | null }> {
+  let oneShotQuery = supabase
+    .from('reminders')
+    .select(REMINDER_COLUMNS)
+    .is('deleted_at', null)
+    .is('recurrence_rule', null)
+    .gte('due_date', window.from)
+    .order('due_date', { ascending: true })
+    .limit(options.limit)
+  let seriesQuery = supabase
+    .from('reminders')
+    .select(REMINDER_COLUMNS)
+    .is('deleted_at', null)
+    .not('recurrence_rule', 'is', null)
+    .lte('due_date', window.to)
+    .or(`recurrence_end_date.is.null,recurrence_end_date.gte.${window.from}`)
+    .order('due_date', { ascending: true })
+    .limit(options.limit)
+  if (options.branch && options.year) {
+    oneShotQuery = oneShotQuery.eq('branch', options.branch).eq('year', options.year)
+    seriesQuery = seriesQuery.eq('branch', options.branch).eq('year', options.year)
+  }
+
+  const [oneShot, series] = await Promise.all([oneShotQuery, seriesQuery])
+  const error = oneShot.error || series.error
+  if (error) return { data: null, error }
+  return { data: [...(oneShot.data || []), ...(series.data || [])] as ReminderRow[], error: null }
+}
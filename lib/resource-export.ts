@@ -0,0 +1,132 @@
+import { Zip, ZipPassThrough, strToU8 } from 'fflate'
+import { openResourceFileStream, determineFileExtension } from '@/lib/files'
+
+// Keeps a single export from tying up a serverless function for too long
+export const EXPORT_MAX_FILES = 300
+
+export interface ExportableResource {
+  id: string
+  name: string | null
+  title?: string | null
+  category: string
+  subject: string
+  unit: number | null
+  url: string | null
+  drive_link: string | null
+  file_path?: string | null
+  restricted?: boolean | null
+  created_at?: string | null
+}
+
+function safeSegment(value: string): string {
+  const cleaned = value.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ').replace(/\s+/g, ' ').trim()
+  return cleaned.slice(0, 120) || 'untitled'
+}
+
+/**
+ * Path of a resource inside the archive: [subject/][category/]Unit N/<title>.<ext>, made unique within the archive
+ */
+function entryPath(
+  resource: ExportableResource,
+  source: { mimeType: string | null; fileName: string },
+  options: { bySubject: boolean; byCategory: boolean },
+  used: Set<string>
+): string {
+  const folders: string[] = []
+  if (options.bySubject) folders.push(safeSegment(resource.subject.toUpperCase()))
+  if (options.byCategory) folders.push(safeSegment(resource.category))
+  folders.push(resource.unit ? `Unit ${resource.unit}` : 'Other')
+
+  const ext = determineFileExtension(source.mimeType || undefined, source.fileName)
+  const base = safeSegment(resource.title || resource.name || resource.id).replace(new RegExp(`\\.${ext}$`, 'i'), '')
+  let path = `${folders.join('/')}/${base}.${ext}`
+  for (let n = 2; used.has(path.toLowerCase()); n++) path = `${folders.join('/')}/${base} (${n}).${ext}`
+  used.add(path.toLowerCase())
+  return path
+}
+
+async function* zipChunks(
+  resources: ExportableResource[],
+  options: { bySubject: boolean; byCategory: boolean }
+): AsyncGenerator<Uint8Array> {
+  const queue: Uint8Array[] = []
+  let zipError: Error | null = null
+  const zip = new Zip((err, chunk) => {
+    if (err) zipError = err
+    else queue.push(chunk)
+  })
+  const drain = function* () {
+    if (zipError) throw zipError
+    while (queue.length > 0) yield queue.shift()!
+  }
+
+  const used = new Set<string>()
+  const missing: string[] = []
+  for (const resource of resources) {
+    const label = resource.title || resource.name || resource.id
+    // Restricted files are watermarked per download, so they are never exported as plain bytes
+    if (resource.restricted) {
+      missing.push(`${label} (restricted, open it from the resources page)`)
+      continue
+    }
+    const source = await openResourceFileStream(resource).catch((err) => {
+      console.warn(`[resource-export] Could not open ${resource.id}:`, err instanceof Error ? err.message : err)
+      return null
+    })
+    if (!source) {
+      missing.push(`${label}${resource.url ? ` - ${resource.url}` : ''}`)
+      continue
+    }
+
+    // Stored rather than deflated: PDFs and images barely compress and this keeps CPU low
+    const entry = new ZipPassThrough(entryPath(resource, source, options, used))
+    if (resource.created_at) entry.mtime = new Date(resource.created_at)
+    zip.add(entry)
+    try {
+      for await (const chunk of source.stream) {
+        entry.push(chunk)
+        yield* drain()
+      }
+    } catch (err) {
+      // The entry is already in the archive, so close it and flag it rather than abort the whole download
+      console.warn(`[resource-export] Download of ${resource.id} failed mid-stream:`, err instanceof Error ? err.message : err)
+      missing.push(`${label} (incomplete, download failed)`)
+    }
+    entry.push(new Uint8Array(0), true)
+    yield* drain()
+  }
+
+  if (missing.length > 0) {
+    const note = new ZipPassThrough('NOT-INCLUDED.txt')
+    zip.add(note)
+    note.push(strToU8(`These resources could not be added to the archive:\r\n\r\n${missing.join('\r\n')}\r\n`), true)
+  }
+  zip.end()
+  yield* drain()
+}
+
+/**
+ * Stream a ZIP of the given resources' files, fetched one at a time from Drive or Storage.
+ * Restricted resources and those that can't be fetched are listed in NOT-INCLUDED.txt inside the archive.
+ */
+export function createResourceZipStream(
+  resources: ExportableResource[],
+  options: { bySubject: boolean; byCategory: boolean }
+): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(resources, options)
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next()
+        if (done) controller.close()
+        else controller.enqueue(value)
+      } catch (err) {
+        console.error('[resource-export] Archive stream failed:', err instanceof Error ? err.message : err)
+        controller.error(err)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    }
+  })
+}
@@ -0,0 +1,191 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { deleteResourceFile } from '@/lib/files'
+
+// Resource columns captured in each version; restoring a version writes these back
+export const VERSIONED_FIELDS = [
+  'title', 'name', 'description', 'category', 'subject', 'unit', 'type',
+  'year', 'branch', 'semester', 'branch_id', 'year_id', 'semester_id',
+  'archived', 'url', 'drive_link', 'file_type', 'is_pdf', 'content_hash'
+] as const
+
+// A change to any of these means a new file rather than a metadata edit
+const FILE_FIELDS = ['url', 'drive_link', 'content_hash']
+
+export type VersionedField = typeof VERSIONED_FIELDS[number]
+export type ResourceSnapshot = Partial<Record<VersionedField, unknown>>
+export type VersionChangeType = 'create' | 'metadata' | 'file' | 'restore'
+
+export interface ResourceVersion {
+  id: string
+  resource_id: string
+  version_number: number
+  change_type: VersionChangeType
+  changed_fields: string[]
+  snapshot: ResourceSnapshot
+  url: string | null
+  drive_link: string | null
+  file_type: string | null
+  content_hash: string | null
+  restored_from: number | null
+  created_by_email: string | null
+  created_by_role: string | null
+  created_at: string
+}
+
+export interface FieldChange {
+  field: VersionedField
+  from: unknown
+  to: unknown
+}
+
+export function snapshotResource(row: Record<string, unknown>): ResourceSnapshot {
+  const snapshot: ResourceSnapshot = {}
+  for (const field of VERSIONED_FIELDS) snapshot[field] = row[field] ?? null
+  return snapshot
+}
+
+/**
+ * Field-by-field differences between two snapshots
+ */
+export function diffSnapshots(from: ResourceSnapshot, to: ResourceSnapshot): FieldChange[] {
+  const changes: FieldChange[] = []
+  for (const field of VERSIONED_FIELDS) {
+    const a = from[field] ?? null
+    const b = to[field] ?? null
+    if (JSON.stringify(a) !== JSON.stringify(b)) changes.push({ field, from: a, to: b })
+  }
+  return changes
+}
+
+export async function listResourceVersions(resourceId: string): Promise<ResourceVersion[]> {
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase
+    .from('resource_versions')
+    .select('*')
+    .eq('resource_id', resourceId)
+    .order('version_number', { ascending: false })
+  if (error) throw error
+  return (data || []) as ResourceVersion[]
+}
+
+export async function getResourceVersion(resourceId: string, versionNumber: number): Promise<ResourceVersion | null> {
+  const supabase = createSupabaseAdmin()
+  const { data } = await supabase
+    .from('resource_versions')
+    .select('*')
+    .eq('resource_id', resourceId)
+    .eq('version_number', versionNumber)
+    .maybeSingle()
+  return (data as ResourceVersion | null) || null
+}
+
+async function insertVersion(
+  resourceId: string,
+  snapshot: ResourceSnapshot,
+  fields: Omit<ResourceVersion, 'id' | 'resource_id' | 'version_number' | 'snapshot' | 'url' | 'drive_link' | 'file_type' | 'content_hash' | 'created_at'>
+): Promise<number> {
+  const supabase = createSupabaseAdmin()
+
+  // Two writers can race for the same number; the unique constraint catches it and we take the next one
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: latest } = await supabase
+      .from('resource_versions')
+      .select('version_number')
+      .eq('resource_id', resourceId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    const versionNumber = (latest?.version_number || 0) + 1
+
+    const { error } = await supabase.from('resource_versions').insert({
+      resource_id: resourceId,
+      version_number: versionNumber,
+      snapshot,
+      url: (snapshot.url as string) ?? null,
+      drive_link: (snapshot.drive_link as string) ?? null,
+      file_type: (snapshot.file_type as string) ?? null,
+      content_hash: (snapshot.content_hash as string) ?? null,
+      ...fields
+    })
+    if (!error) return versionNumber
+    if (error.code !== '23505') throw error
+  }
+  throw new Error('Failed to allocate version number')
+}
+
+/**
+ * Record a resource's state after a change as its next version.
+ * Pass `before` for edits so resources created before versioning get a baseline version first.
+ * Returns null when nothing versioned changed.
+ */
+export async function recordResourceVersion(params: {
+  resourceId: string
+  after: Record<string, unknown>
+  before?: Record<string, unknown> | null
+  changeType?: VersionChangeType
+  restoredFrom?: number | null
+  actor: { email: string; role: string }
+}): Promise<number | null> {
+  const afterSnapshot = snapshotResource(params.after)
+  let changedFields: string[] = []
+
+  if (params.before) {
+    const beforeSnapshot = snapshotResource(params.before)
+    changedFields = diffSnapshots(beforeSnapshot, afterSnapshot).map(c => c.field)
+    if (changedFields.length === 0 && params.changeType !== 'restore') return null
+
+    const supabase = createSupabaseAdmin()
+    const { count } = await supabase
+      .from('resource_versions')
+      .select('id', { count: 'exact', head: true })
+      .eq('resource_id', params.resourceId)
+    if (!count) {
+      await insertVersion(params.resourceId, beforeSnapshot, {
+        change_type: 'create',
+        changed_fields: [],
+        restored_from: null,
+        created_by_email: null,
+        created_by_role: null
+      })
+    }
+  }
+
+  const changeType: VersionChangeType = params.changeType
+    || (!params.before ? 'create' : changedFields.some(f => FILE_FIELDS.includes(f)) ? 'file' : 'metadata')
+
+  return insertVersion(params.resourceId, afterSnapshot, {
+    change_type: changeType,
+    changed_fields: changedFields,
+    restored_from: params.restoredFrom ?? null,
+    created_by_email: params.actor.email.toLowerCase(),
+    created_by_role: params.actor.role
+  })
+}
+
+/**
+ * Best-effort wrapper for upload routes: a versioning failure must not fail the edit itself
+ */
+export async function tryRecordResourceVersion(params: Parameters<typeof recordResourceVersion>[0]): Promise<void> {
+  try {
+    await recordResourceVersion(params)
+  } catch (err) {
+    console.error(`[resource-versions] Failed to record version for ${params.resourceId}:`, err instanceof Error ? err.message : err)
+  }
+}
+
+/**
+ * Delete the stored files of every version of a resource except `keepUrl`.
+ * Called before a resource row is removed for good, since versions keep replaced files around.
+ */
+export async function deleteVersionFiles(resourceId: string, keepUrl?: string | null): Promise<void> {
+  const versions = await listResourceVersions(resourceId)
+  const urls = new Set(versions.map(v => v.url).filter((u): u is string => !!u && u !== keepUrl))
+
+  for (const url of urls) {
+    try {
+      await deleteResourceFile({ url })
+    } catch (err) {
+      console.warn(`[resource-versions] Failed to delete old file ${url}:`, err instanceof Error ? err.message : err)
+    }
+  }
+}
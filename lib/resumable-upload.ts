@@ -0,0 +1,335 @@
+import { createHash } from 'crypto'
+import { google } from 'googleapis'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getSettings } from '@/lib/admin-auth'
+import { selectUploadProvider } from '@/lib/storage'
+import { getDriveAuth, makeDriveFilePublic, driveStorage, driveViewUrl } from '@/lib/storage/drive'
+import { supabaseStorage, storageKey, SECURE_STORAGE_BUCKET } from '@/lib/storage/supabase'
+import { scanStoredUpload, type UploadScanResult } from '@/lib/virus-scan'
+
+// Each part is one request body, so it has to stay under Vercel's 4.5MB limit; it is also a multiple of
+// Drive's 256KiB requirement. Supabase's TUS endpoint holds parts smaller than its own 6MB until the next one.
+export const UPLOAD_CHUNK_BYTES = 4 * 1024 * 1024
+export const MAX_RESUMABLE_UPLOAD_BYTES = (() => {
+  const parsed = parseInt(process.env.MAX_RESUMABLE_UPLOAD_BYTES || String(1024 * 1024 * 1024), 10) // 1GB default
+  return isFinite(parsed) && parsed > 0 ? parsed : 1024 * 1024 * 1024
+})()
+
+export type UploadBackend = 'drive' | 'storage'
+export type UploadVisibility = 'public' | 'private'
+
+export interface UploadSession {
+  id: string
+  owner_email: string
+  backend: UploadBackend
+  upstream_url: string
+  bucket: string | null
+  object_path: string | null
+  drive_file_id: string | null
+  filename: string
+  mime_type: string
+  size_bytes: number
+  visibility: UploadVisibility
+  received_bytes: number
+  status: 'uploading' | 'completed' | 'consumed' | 'aborted'
+  file_url: string | null
+  content_hash: string | null
+  resource_id: string | null
+  expires_at: string
+}
+
+async function getDriveAccessToken(): Promise<string> {
+  const token = await getDriveAuth().getAccessToken()
+  if (!token) throw new Error('Google Drive configuration error')
+  return token
+}
+
+function storageAuthHeaders(): Record<string, string> {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!key) throw new Error('Missing required environment variable: SUPABASE_SERVICE_ROLE_KEY')
+  return { Authorization: `Bearer ${key}`, apikey: key }
+}
+
+function tusHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  return { ...storageAuthHeaders(), 'Tus-Resumable': '1.0.0', ...extra }
+}
+
+function b64(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64')
+}
+
+function sanitizeObjectName(filename: string): string {
+  return filename.replace(/[^a-zA-Z0-9._-]+/g, '_').slice(-120)
+}
+
+/**
+ * Pick where a file goes using the same rules as direct uploads (selectUploadProvider).
+ * Returns null when the chosen provider has no resumable protocol (S3, local disk); those deployments
+ * only take direct uploads.
+ */
+export async function chooseUploadBackend(mimeType: string, filename: string): Promise<UploadBackend | null> {
+  const isPdf = mimeType === 'application/pdf' || filename.toLowerCase().endsWith('.pdf')
+  const settings = await getSettings()
+  const provider = selectUploadProvider(settings, isPdf)
+  if (provider.name === 'drive') return 'drive'
+  if (provider.name === 'supabase') return 'storage'
+  return null
+}
+
+/**
+ * Open a resumable session with the upstream store. Private uploads go to the secure bucket
+ * (or stay unshared on Drive) like private direct uploads.
+ */
+export async function createUpstreamSession(
+  backend: UploadBackend,
+  file: { filename: string; mimeType: string; size: number; visibility?: UploadVisibility }
+): Promise<{ upstreamUrl: string; bucket: string | null; objectPath: string | null }> {
+  const settings = await getSettings()
+
+  if (backend === 'drive') {
+    const folderId = settings?.drive_folder_id || process.env.GOOGLE_DRIVE_FOLDER_ID
+    if (!folderId) throw new Error('Drive folder id not configured')
+    const token = await getDriveAccessToken()
+    const res = await fetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=resumable&fields=id,webViewLink', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json; charset=UTF-8',
+        'X-Upload-Content-Type': file.mimeType,
+        'X-Upload-Content-Length': String(file.size)
+      },
+      body: JSON.stringify({ name: file.filename, parents: [folderId] })
+    })
+    const location = res.headers.get('location')
+    if (!res.ok || !location) throw new Error(`Drive session init failed (${res.status})`)
+    return { upstreamUrl: location, bucket: null, objectPath: null }
+  }
+
+  const bucket = file.visibility === 'private' ? SECURE_STORAGE_BUCKET : settings?.storage_bucket || 'resources'
+  const objectPath = `${Date.now()}-${sanitizeObjectName(file.filename)}`
+  const endpoint = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`
+  const res = await fetch(endpoint, {
+    method: 'POST',
+    headers: tusHeaders({
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': [
+        `bucketName ${b64(bucket)}`,
+        `objectName ${b64(objectPath)}`,
+        `contentType ${b64(file.mimeType)}`
+      ].join(','),
+      'x-upsert': 'false'
+    })
+  })
+  const location = res.headers.get('location')
+  if (res.status !== 201 || !location) throw new Error(`Storage session init failed (${res.status})`)
+  return { upstreamUrl: new URL(location, endpoint).toString(), bucket, objectPath }
+}
+
+function parseDriveRange(range: string | null): number {
+  // "bytes=0-12345" means bytes 0..12345 are stored
+  const match = range?.match(/bytes=0-(\d+)/)
+  return match ? Number(match[1]) + 1 : 0
+}
+
+/**
+ * Send one part upstream. Returns the new acknowledged offset.
+ */
+export async function appendUpstream(
+  session: UploadSession,
+  offset: number,
+  chunk: Uint8Array<ArrayBuffer>
+): Promise<{ received: number; complete: boolean; driveFileId?: string }> {
+  const end = offset + chunk.byteLength
+
+  if (session.backend === 'drive') {
+    const res = await fetch(session.upstream_url, {
+      method: 'PUT',
+      headers: {
+        'Content-Length': String(chunk.byteLength),
+        'Content-Range': `bytes ${offset}-${end - 1}/${session.size_bytes}`
+      },
+      body: chunk
+    })
+    if (res.status === 308) return { received: parseDriveRange(res.headers.get('range')), complete: false }
+    if (res.status === 200 || res.status === 201) {
+      const json = await res.json().catch(() => ({}))
+      return { received: session.size_bytes, complete: true, driveFileId: json?.id }
+    }
+    if (res.status === 404 || res.status === 410) throw new Error('Upload session expired')
+    throw new Error(`Drive rejected part (${res.status})`)
+  }
+
+  const res = await fetch(session.upstream_url, {
+    method: 'PATCH',
+    headers: tusHeaders({
+      'Upload-Offset': String(offset),
+      'Content-Type': 'application/offset+octet-stream'
+    }),
+    body: chunk
+  })
+  if (res.status === 204) {
+    const received = Number(res.headers.get('upload-offset') ?? end)
+    return { received, complete: received >= session.size_bytes }
+  }
+  if (res.status === 404 || res.status === 410) throw new Error('Upload session expired')
+  if (res.status === 409) throw new Error('Offset mismatch with storage')
+  throw new Error(`Storage rejected part (${res.status})`)
+}
+
+/**
+ * Ask the upstream store how many bytes it actually has (source of truth when resuming)
+ */
+export async function queryUpstreamOffset(session: UploadSession): Promise<{ received: number; complete: boolean; driveFileId?: string }> {
+  if (session.backend === 'drive') {
+    const res = await fetch(session.upstream_url, {
+      method: 'PUT',
+      headers: { 'Content-Length': '0', 'Content-Range': `bytes */${session.size_bytes}` }
+    })
+    if (res.status === 308) return { received: parseDriveRange(res.headers.get('range')), complete: false }
+    if (res.status === 200 || res.status === 201) {
+      const json = await res.json().catch(() => ({}))
+      return { received: session.size_bytes, complete: true, driveFileId: json?.id }
+    }
+    throw new Error('Upload session expired')
+  }
+
+  const res = await fetch(session.upstream_url, { method: 'HEAD', headers: tusHeaders() })
+  if (!res.ok) throw new Error('Upload session expired')
+  const received = Number(res.headers.get('upload-offset') || 0)
+  return { received, complete: received >= session.size_bytes }
+}
+
+/**
+ * Cancel an unfinished upstream session (best-effort)
+ */
+export async function abortUpstream(session: UploadSession): Promise<void> {
+  try {
+    if (session.backend === 'drive') {
+      await fetch(session.upstream_url, { method: 'DELETE' })
+    } else {
+      await fetch(session.upstream_url, { method: 'DELETE', headers: tusHeaders() })
+    }
+  } catch (err) {
+    console.warn('[resumable-upload] Failed to abort upstream session:', err instanceof Error ? err.message : err)
+  }
+}
+
+/**
+ * Virus-scan a finished upload where it is stored, before it is made public or can be attached
+ * to a resource (direct uploads are scanned before they are stored)
+ */
+export async function scanCompletedUpload(session: UploadSession): Promise<UploadScanResult> {
+  const open = async () => {
+    if (session.backend === 'drive') {
+      if (!session.drive_file_id) throw new Error('Drive file id missing for completed upload')
+      return (await driveStorage.openStream(session.drive_file_id)).stream
+    }
+    return (await supabaseStorage.openStream(storageKey(session.bucket as string, session.object_path as string))).stream
+  }
+  return scanStoredUpload(open, session.filename, { size: session.size_bytes, mimeType: session.mime_type, uploadedBy: session.owner_email })
+}
+
+/**
+ * Resolve the final URL for a completed upload, matching the URLs direct uploads store
+ */
+export async function resolveCompletedUrl(session: UploadSession): Promise<string> {
+  if (session.backend === 'drive') {
+    if (!session.drive_file_id) throw new Error('Drive file id missing for completed upload')
+    return session.visibility === 'private' ? driveViewUrl(session.drive_file_id) : makeDriveFilePublic(session.drive_file_id)
+  }
+  // The bare secure-bucket path, as private direct uploads store it
+  if (session.visibility === 'private') return session.object_path as string
+
+  const supabase = createSupabaseAdmin()
+  const { data } = supabase.storage.from(session.bucket as string).getPublicUrl(session.object_path as string)
+  return data.publicUrl
+}
+
+/**
+ * SHA-256 of a completed upload without holding it in memory.
+ * Drive computes the checksum itself; storage objects are streamed back through the hash.
+ */
+export async function hashCompletedUpload(session: UploadSession): Promise<string> {
+  if (session.backend === 'drive') {
+    if (!session.drive_file_id) throw new Error('Drive file id missing for completed upload')
+    const drive = google.drive({ version: 'v3', auth: getDriveAuth() })
+    const { data } = await drive.files.get({ fileId: session.drive_file_id, fields: 'sha256Checksum' })
+    if (!data.sha256Checksum) throw new Error('Drive did not return a checksum')
+    return data.sha256Checksum.toLowerCase()
+  }
+
+  const objectUrl = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/${session.bucket}/${session.object_path}`
+  const res = await fetch(objectUrl, { headers: storageAuthHeaders() })
+  if (!res.ok || !res.body) throw new Error(`Failed to read stored upload (${res.status})`)
+
+  const hash = createHash('sha256')
+  const reader = res.body.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    hash.update(value)
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * Delete the stored file of a completed upload that won't be attached to a resource (best-effort)
+ */
+export async function discardCompletedUpload(session: UploadSession): Promise<void> {
+  try {
+    if (session.backend === 'drive') {
+      if (session.drive_file_id) await driveStorage.delete(session.drive_file_id)
+    } else if (session.bucket && session.object_path) {
+      await supabaseStorage.delete(storageKey(session.bucket, session.object_path))
+    }
+  } catch (err) {
+    console.warn('[resumable-upload] Failed to delete discarded upload:', err instanceof Error ? err.message : err)
+  }
+  const supabase = createSupabaseAdmin()
+  await supabase.from('upload_sessions').update({ status: 'aborted' }).eq('id', session.id)
+}
+
+/**
+ * Take a completed upload owned by `email` so a create route can attach it to a resource.
+ * The claim is one conditional update, so two requests with the same upload id can't both get it;
+ * null means the upload doesn't exist, isn't finished or was already used.
+ */
+export async function claimCompletedUpload(uploadId: string, email: string): Promise<UploadSession | null> {
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase
+    .from('upload_sessions')
+    .update({ status: 'consumed' })
+    .eq('id', uploadId)
+    .eq('owner_email', email.toLowerCase())
+    .eq('status', 'completed')
+    .select('*')
+  if (error) {
+    console.error('[resumable-upload] Failed to claim upload:', error.message)
+    return null
+  }
+  return (data?.[0] as UploadSession | undefined) || null
+}
+
+/**
+ * Record the resource a claimed upload was attached to
+ */
+export async function markUploadConsumed(uploadId: string, resourceId: string): Promise<void> {
+  const supabase = createSupabaseAdmin()
+  await supabase
+    .from('upload_sessions')
+    .update({ status: 'consumed', resource_id: resourceId })
+    .eq('id', uploadId)
+}
+
+/**
+ * Hand a claimed upload back when its resource couldn't be created, so the client can retry with it
+ */
+export async function releaseUploadClaim(uploadId: string): Promise<void> {
+  const supabase = createSupabaseAdmin()
+  await supabase
+    .from('upload_sessions')
+    .update({ status: 'completed' })
+    .eq('id', uploadId)
+    .eq('status', 'consumed')
+    .is('resource_id', null)
+}
@@ -0,0 +1,37 @@
+// Markers emitted by ts_headline in public.search_resources()
+export const HIGHLIGHT_START = '⟦'
+export const HIGHLIGHT_STOP = '⟧'
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * Split a ts_headline string into plain and highlighted segments so the UI
+ * can render matches without injecting HTML.
+ */
+export function splitHighlight(text: string | null | undefined): HighlightSegment[] {
+  if (!text) return []
+
+  const segments: HighlightSegment[] = []
+  let rest = text
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START)
+    if (start === -1) {
+      segments.push({ text: rest, match: false })
+      break
+    }
+    if (start > 0) segments.push({ text: rest.slice(0, start), match: false })
+
+    const stop = rest.indexOf(HIGHLIGHT_STOP, start + HIGHLIGHT_START.length)
+    if (stop === -1) {
+      segments.push({ text: rest.slice(start + HIGHLIGHT_START.length), match: true })
+      break
+    }
+    segments.push({ text: rest.slice(start + HIGHLIGHT_START.length, stop), match: true })
+    rest = rest.slice(stop + HIGHLIGHT_STOP.length)
+  }
+
+  return segments.filter(s => s.text.length > 0)
+}
@@ -0,0 +1,76 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { academicConfig } from '@/lib/academic-config'
+import { UserContext } from '@/lib/types/auth'
+
+export interface ScopeClass {
+  branch_id: string
+  year_id: string
+}
+
+export interface SharedSubjectScope {
+  subject: string
+  year_id: string
+  branch_ids: string[]
+}
+
+export interface SearchScope {
+  unrestricted: boolean
+  // Branch/year pairs matched together, so a rep of CSE/Y1 and ECE/Y2 doesn't also see CSE/Y2
+  classes: ScopeClass[]
+  semesterId: string | null
+  shared: SharedSubjectScope[]
+}
+
+/**
+ * Resolve which resources a user may search.
+ * Mirrors /api/resources: students see their branch/year/semester plus any
+ * COMMON_SUBJECTS_CONFIG subjects shared with other branches; representatives
+ * see their assigned branch/year pairs; admins see everything.
+ * Returns null when the user has no academic context to search within.
+ */
+export async function resolveSearchScope(userContext: UserContext): Promise<SearchScope | null> {
+  if (userContext.role === 'admin' || userContext.role === 'yeshh') {
+    return { unrestricted: true, classes: [], semesterId: null, shared: [] }
+  }
+
+  if (userContext.role === 'representative' && userContext.representatives?.length) {
+    return {
+      unrestricted: false,
+      classes: userContext.representatives.map(a => ({ branch_id: a.branch_id, year_id: a.year_id })),
+      semesterId: null,
+      shared: []
+    }
+  }
+
+  if (!userContext.branchId || !userContext.yearId) return null
+
+  const shared: SharedSubjectScope[] = []
+  if (userContext.branch && userContext.year) {
+    const subjects = academicConfig.getCommonSubjectsForBranch(userContext.year, userContext.branch)
+    const codes = Array.from(new Set(subjects.flatMap(s => academicConfig.getCommonSubjectBranches(s, userContext.year!))))
+
+    if (codes.length > 0) {
+      const supabase = createSupabaseAdmin()
+      const { data: branchRows } = await supabase
+        .from('branches')
+        .select('id, code')
+        .in('code', codes)
+
+      const idByCode = new Map((branchRows || []).map((b: { id: string; code: string }) => [b.code, b.id]))
+      for (const subject of subjects) {
+        const branchIds = academicConfig
+          .getCommonSubjectBranches(subject, userContext.year)
+          .map(code => idByCode.get(code))
+          .filter((id): id is string => Boolean(id))
+        if (branchIds.length > 0) shared.push({ subject: subject.toLowerCase(), year_id: userContext.yearId, branch_ids: branchIds })
+      }
+    }
+  }
+
+  return {
+    unrestricted: false,
+    classes: [{ branch_id: userContext.branchId, year_id: userContext.yearId }],
+    semesterId: userContext.semesterId || null,
+    shared
+  }
+}
@@ -0,0 +1,131 @@
+import { randomUUID } from 'crypto'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { logAudit } from '@/lib/audit'
+
+export type SecureTokenStatus = 'ok' | 'not_found' | 'revoked' | 'expired' | 'exhausted'
+
+export interface SecureTokenActor {
+  email: string
+  role: 'admin' | 'yeshh'
+}
+
+export interface ConsumedSecureToken {
+  status: SecureTokenStatus
+  resourceId: string | null
+  fileId: string | null
+  // null when the link has no use limit
+  usesRemaining: number | null
+}
+
+/**
+ * Record a new secure file link and return its jti for the JWT
+ */
+export async function issueSecureFileToken(params: {
+  resourceId: string
+  fileId: string
+  issuedTo: string
+  expiresAt: Date
+  maxUses?: number | null
+}): Promise<string> {
+  const supabase = createSupabaseAdmin()
+  const jti = randomUUID()
+  const { error } = await supabase.from('secure_file_tokens').insert({
+    jti,
+    resource_id: params.resourceId,
+    file_id: params.fileId,
+    issued_to: params.issuedTo.toLowerCase(),
+    max_uses: params.maxUses ?? null,
+    expires_at: params.expiresAt.toISOString()
+  })
+  if (error) throw new Error(`Failed to register secure file token: ${error.message}`)
+  return jti
+}
+
+/**
+ * Count one use of a link. The check, the increment and the use-log entry happen in one transaction,
+ * so a single-use link can't be redeemed twice by concurrent requests.
+ */
+export async function consumeSecureFileToken(jti: string, userEmail: string): Promise<ConsumedSecureToken> {
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase
+    .rpc('consume_secure_file_token', { p_jti: jti, p_user_email: userEmail.toLowerCase() })
+    .single<{ status: SecureTokenStatus; resource_id: string | null; file_id: string | null; uses_remaining: number | null }>()
+  if (error || !data) throw new Error(`Failed to redeem secure file token: ${error?.message || 'no result'}`)
+  return {
+    status: data.status,
+    resourceId: data.resource_id,
+    fileId: data.file_id,
+    usesRemaining: data.uses_remaining
+  }
+}
+
+// How long after a counted use follow-up range requests may continue that download without counting again
+export const SECURE_FILE_CONTINUATION_MS = 10 * 60 * 1000
+
+/**
+ * Check a link without counting a use, for follow-up range requests of a download already started
+ * (PDF viewers and video players fetch a file in many pieces). Only the user the link was issued to
+ * may continue, only while it is neither revoked nor expired, and only within
+ * SECURE_FILE_CONTINUATION_MS of the use that started the download. 'not_started' means the request
+ * has to be counted as a new download.
+ */
+export async function checkSecureFileToken(jti: string, userEmail: string): Promise<SecureTokenStatus | 'not_started'> {
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase
+    .from('secure_file_tokens')
+    .select('issued_to, expires_at, revoked_at, use_count, last_used_at')
+    .eq('jti', jti)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to check secure file token: ${error.message}`)
+  if (!data || data.issued_to !== userEmail.toLowerCase()) return 'not_found'
+  if (data.revoked_at) return 'revoked'
+  if (new Date(data.expires_at) <= new Date()) return 'expired'
+  if (!data.use_count || !data.last_used_at) return 'not_started'
+  if (new Date(data.last_used_at).getTime() + SECURE_FILE_CONTINUATION_MS <= Date.now()) return 'not_started'
+  return 'ok'
+}
+
+/**
+ * Revoke every outstanding link for a resource. Returns how many links were revoked.
+ */
+export async function revokeResourceFileTokens(
+  resourceId: string,
+  actor: SecureTokenActor,
+  reason: string
+): Promise<number> {
+  const supabase = createSupabaseAdmin()
+  const { data, error } = await supabase
+    .from('secure_file_tokens')
+    .update({ revoked_at: new Date().toISOString(), revoked_by: actor.email, revoke_reason: reason })
+    .eq('resource_id', resourceId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('jti')
+  if (error) {
+    await logAudit({ actor_email: actor.email, actor_role: actor.role, action: 'revoke_links', entity: 'resource', entity_id: resourceId, success: false, message: error.message })
+    throw new Error(`Failed to revoke secure file tokens: ${error.message}`)
+  }
+
+  const revoked = (data || []).length
+  await logAudit({
+    actor_email: actor.email,
+    actor_role: actor.role,
+    action: 'revoke_links',
+    entity: 'resource',
+    entity_id: resourceId,
+    message: `Revoked ${revoked} secure file link(s): ${reason}`,
+    after_data: { jtis: (data || []).map(row => row.jti) }
+  })
+  return revoked
+}
+
+/**
+ * Same as revokeResourceFileTokens but never throws, for cleanup after deletes and archives
+ */
+export async function tryRevokeResourceFileTokens(resourceId: string, actor: SecureTokenActor, reason: string): Promise<void> {
+  try {
+    await revokeResourceFileTokens(resourceId, actor, reason)
+  } catch (err) {
+    console.warn(`[secure-file-tokens] Could not revoke links for ${resourceId}:`, err instanceof Error ? err.message : err)
+  }
+}
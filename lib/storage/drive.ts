@@ -0,0 +1,171 @@
+import { google, type Auth } from 'googleapis'
+import { Readable } from 'stream'
+import type { StorageProvider, StorageObjectStat } from '@/lib/storage/types'
+
+const DRIVE_SCOPES = ['https://www.googleapis.com/auth/drive']
+
+/**
+ * Extract and parse Google credentials from environment variables
+ */
+export function getGoogleCredentials(): Auth.JWTInput {
+  try {
+    const rawB64 = process.env.GOOGLE_APPLICATION_CREDENTIALS_B64
+    const rawJson = process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON
+    let raw = rawJson || '{}'
+    if (rawB64) {
+      raw = Buffer.from(rawB64, 'base64').toString('utf8')
+    }
+    const credentials: Auth.JWTInput = JSON.parse(raw)
+    if (typeof credentials.private_key === 'string') credentials.private_key = credentials.private_key.replace(/\\n/g, '\n')
+    return credentials
+  } catch (e) {
+    console.error('Failed to parse Google credentials:', e)
+    throw new Error('Google Drive configuration error')
+  }
+}
+
+/**
+ * Service-account auth from GOOGLE_APPLICATION_CREDENTIALS_B64/_JSON, or a key file at GOOGLE_APPLICATION_CREDENTIALS
+ */
+export function getDriveAuth() {
+  const keyFile = process.env.GOOGLE_APPLICATION_CREDENTIALS
+  const hasInlineCredentials = Boolean(process.env.GOOGLE_APPLICATION_CREDENTIALS_B64 || process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON)
+  if (!hasInlineCredentials && !keyFile) throw new Error('Google Drive configuration error: no credentials provided')
+  return hasInlineCredentials
+    ? new google.auth.GoogleAuth({ credentials: getGoogleCredentials(), scopes: DRIVE_SCOPES })
+    : new google.auth.GoogleAuth({ keyFilename: keyFile, scopes: DRIVE_SCOPES })
+}
+
+function getDrive() {
+  return google.drive({ version: 'v3', auth: getDriveAuth() })
+}
+
+export function tryParseDriveIdFromUrl(url: string): string | null {
+  const match = url.match(/\/file\/d\/([a-zA-Z0-9_-]+)/)
+  return match?.[1] || null
+}
+
+export function driveViewUrl(fileId: string): string {
+  return `https://drive.google.com/file/d/${fileId}/view?usp=sharing`
+}
+
+/**
+ * Let anyone with the link read the file, as resource links are opened directly
+ */
+export async function makeDriveFilePublic(fileId: string): Promise<string> {
+  const drive = getDrive()
+  await drive.permissions.create({ fileId, requestBody: { role: 'reader', type: 'anyone' } })
+  const { data } = await drive.files.get({ fileId, fields: 'webViewLink' })
+  return data.webViewLink || driveViewUrl(fileId)
+}
+
+/**
+ * Remove "anyone with the link" access, so the file is only readable by the service account
+ */
+export async function makeDriveFilePrivate(fileId: string): Promise<void> {
+  const drive = getDrive()
+  const { data } = await drive.permissions.list({ fileId, fields: 'permissions(id,type)' })
+  for (const permission of data.permissions || []) {
+    if (permission.type === 'anyone' && permission.id) {
+      await drive.permissions.delete({ fileId, permissionId: permission.id })
+    }
+  }
+}
+
+function isNotFound(err: unknown): boolean {
+  const status = err as { code?: number; response?: { status?: number } }
+  return status?.code === 404 || status?.response?.status === 404
+}
+
+export const driveStorage: StorageProvider = {
+  name: 'drive',
+
+  async upload(body, options) {
+    const folderId = options.container || process.env.GOOGLE_DRIVE_FOLDER_ID
+    if (!folderId) throw new Error('Drive folder id not configured')
+    const drive = getDrive()
+    const { data } = await drive.files.create({
+      requestBody: { name: options.fileName, parents: [folderId], description: options.description },
+      media: { mimeType: options.mimeType || 'application/octet-stream', body: Readable.from(body) },
+      fields: 'id,webViewLink',
+    })
+    if (!data.id) throw new Error('Drive upload failed')
+    // Private files stay readable only by the service account and are served through /api/secure-file
+    const url = options.visibility === 'private'
+      ? data.webViewLink || driveViewUrl(data.id)
+      : await makeDriveFilePublic(data.id)
+    return { key: data.id, url }
+  },
+
+  async stat(key) {
+    try {
+      const { data } = await getDrive().files.get({ fileId: key, fields: 'name,mimeType,size,md5Checksum,modifiedTime' })
+      // Native Google Docs have no size and can't be downloaded as-is
+      if (!data.size) return null
+      const stat: StorageObjectStat = {
+        size: Number(data.size),
+        mimeType: data.mimeType || null,
+        fileName: data.name || key,
+        etag: data.md5Checksum ? `"${data.md5Checksum}"` : null,
+        lastModified: data.modifiedTime ? new Date(data.modifiedTime) : null
+      }
+      return stat
+    } catch (err) {
+      if (isNotFound(err)) return null
+      throw err
+    }
+  },
+
+  async download(key, options) {
+    const drive = getDrive()
+    const meta = await drive.files.get({ fileId: key, fields: 'mimeType,size' }).catch((err) => {
+      if (isNotFound(err)) return null
+      throw err
+    })
+    if (!meta) return null
+    if (options?.maxBytes && Number(meta.data.size) > options.maxBytes) {
+      console.warn(`File too large to download: ${meta.data.size} bytes for Drive file ${key}`)
+      return null
+    }
+    const response = await drive.files.get({ fileId: key, alt: 'media' }, { responseType: 'arraybuffer' })
+    return { buffer: Buffer.from(response.data as ArrayBuffer), mimeType: meta.data.mimeType || null }
+  },
+
+  async openStream(key, range) {
+    const drive = getDrive()
+    const headers: Record<string, string> = range ? { Range: `bytes=${range.start}-${range.end}` } : {}
+    const meta = await drive.files.get({ fileId: key, fields: 'name,mimeType' })
+    const response = await drive.files.get({ fileId: key, alt: 'media' }, { responseType: 'stream', headers })
+    return { stream: response.data, mimeType: meta.data.mimeType || null, fileName: meta.data.name || key }
+  },
+
+  async delete(key) {
+    try {
+      await getDrive().files.delete({ fileId: key })
+    } catch (err) {
+      if (!isNotFound(err)) throw err
+    }
+  },
+
+  keyFromUrl: tryParseDriveIdFromUrl,
+
+  async *list(container) {
+    const folderId = container || process.env.GOOGLE_DRIVE_FOLDER_ID
+    if (!folderId) throw new Error('Drive folder id not configured')
+    const drive = getDrive()
+    let pageToken: string | undefined
+    do {
+      const { data } = await drive.files.list({
+        q: `'${folderId.replace(/'/g, "\\'")}' in parents and trashed = false`,
+        fields: 'nextPageToken, files(id, size, modifiedTime)',
+        pageSize: 1000,
+        pageToken
+      })
+      for (const file of data.files || []) {
+        if (!file.id) continue
+        yield { key: file.id, size: file.size ? Number(file.size) : null, lastModified: file.modifiedTime ? new Date(file.modifiedTime) : null }
+      }
+      pageToken = data.nextPageToken || undefined
+    } while (pageToken)
+  },
+}
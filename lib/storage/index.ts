@@ -0,0 +1,83 @@
+import { driveStorage } from '@/lib/storage/drive'
+import { supabaseStorage, SECURE_STORAGE_BUCKET, storageKey } from '@/lib/storage/supabase'
+import { s3Storage } from '@/lib/storage/s3'
+import { localDiskStorage } from '@/lib/storage/local'
+import type { StorageProvider, StorageProviderName } from '@/lib/storage/types'
+
+export type { StorageProvider, StorageProviderName, StoredFile, StorageObjectStat, StorageObjectSummary, StorageUploadOptions } from '@/lib/storage/types'
+
+const PROVIDERS: Record<StorageProviderName, StorageProvider> = {
+  drive: driveStorage,
+  supabase: supabaseStorage,
+  s3: s3Storage,
+  local: localDiskStorage,
+}
+
+// Order matters when recognising a stored URL: the most specific patterns first
+const LOOKUP_ORDER: StorageProviderName[] = ['drive', 'supabase', 's3', 'local']
+
+// Values written to resources.storage_location
+export const STORAGE_LOCATION_LABELS: Record<StorageProviderName, string> = {
+  drive: 'Google Drive',
+  supabase: 'Supabase Storage',
+  s3: 'S3 Storage',
+  local: 'Local Storage',
+}
+
+export interface StorageSettings {
+  pdf_to_drive?: boolean | null
+  drive_folder_id?: string | null
+  storage_bucket?: string | null
+}
+
+export function isStorageProviderName(value: unknown): value is StorageProviderName {
+  return typeof value === 'string' && value in PROVIDERS
+}
+
+export function getStorageProvider(name: StorageProviderName): StorageProvider {
+  return PROVIDERS[name]
+}
+
+/**
+ * STORAGE_PROVIDER pins every new upload to one backend (e.g. `local` in development, `s3` in a self-hosted
+ * deployment). Unset, uploads follow the admin settings.
+ */
+export function storageProviderOverride(): StorageProviderName | null {
+  const value = process.env.STORAGE_PROVIDER?.trim().toLowerCase()
+  if (!value) return null
+  if (!isStorageProviderName(value)) {
+    console.warn(`[storage] Ignoring unknown STORAGE_PROVIDER "${value}"`)
+    return null
+  }
+  return value
+}
+
+/**
+ * Backend for a new upload: PDFs go to Google Drive when settings.pdf_to_drive is on, everything else to Supabase Storage
+ */
+export function selectUploadProvider(settings: StorageSettings | null, isPdf: boolean): StorageProvider {
+  const override = storageProviderOverride()
+  if (override) return PROVIDERS[override]
+  return isPdf && settings?.pdf_to_drive ? driveStorage : supabaseStorage
+}
+
+/**
+ * Work out which backend holds a resource's file and its key there, from the links saved on the row.
+ * A bare file_path (no scheme) is an object in the secure Supabase bucket.
+ * Returns null for resources that only point at an external link.
+ */
+export function locateResourceFile(resource: {
+  url?: string | null
+  drive_link?: string | null
+  file_path?: string | null
+}): { provider: StorageProvider; key: string } | null {
+  const candidates = [resource.drive_link, resource.url, resource.file_path].filter((v): v is string => Boolean(v))
+  for (const name of LOOKUP_ORDER) {
+    const provider = PROVIDERS[name]
+    const key = candidates.map(candidate => provider.keyFromUrl(candidate)).find(Boolean)
+    if (key) return { provider, key }
+  }
+  return resource.file_path && !/^https?:\/\//i.test(resource.file_path)
+    ? { provider: supabaseStorage, key: storageKey(SECURE_STORAGE_BUCKET, resource.file_path) }
+    : null
+}
@@ -0,0 +1,165 @@
+import { createReadStream } from 'fs'
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import type { StorageProvider } from '@/lib/storage/types'
+
+// Local disk storage for development and tests, so uploads work without Google or Supabase credentials.
+// Public files are served by /api/storage/local; private ones only through /api/secure-file.
+
+const LOCAL_URL_PREFIX = '/api/storage/local/'
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  txt: 'text/plain',
+  zip: 'application/zip'
+}
+
+export function localStorageRoot(): string {
+  return path.resolve(process.env.LOCAL_STORAGE_DIR || '.storage')
+}
+
+/**
+ * Absolute path of a key, refusing anything that would escape the storage root
+ */
+export function resolveLocalPath(key: string): string {
+  const root = localStorageRoot()
+  const resolved = path.resolve(root, key)
+  if (!resolved.startsWith(root + path.sep)) throw new Error(`Invalid local storage key: ${key}`)
+  return resolved
+}
+
+/**
+ * Key of a public object from the URL path segments of /api/storage/local/[...key], or null when the
+ * segments don't name a file under public/. Segments are decoded one by one, so an encoded "/" or ".."
+ * can't step out into private/ or beyond the root.
+ */
+export function publicLocalKey(segments: string[]): string | null {
+  let decoded: string[]
+  try {
+    decoded = segments.map(decodeURIComponent)
+  } catch {
+    return null
+  }
+  if (decoded[0] !== 'public' || decoded.length < 2) return null
+  if (decoded.some(segment => !segment || segment === '.' || segment === '..' || /[\\/\0]/.test(segment))) return null
+  const key = decoded.join('/')
+  const publicRoot = path.join(localStorageRoot(), 'public')
+  return path.resolve(localStorageRoot(), key).startsWith(publicRoot + path.sep) ? key : null
+}
+
+export function localMimeType(fileName: string): string | null {
+  const ext = fileName.split('.').pop()?.toLowerCase() || ''
+  return EXTENSION_MIME_TYPES[ext] || null
+}
+
+function isNotFound(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
+
+function baseName(key: string): string {
+  return key.slice(key.lastIndexOf('/') + 1)
+}
+
+export const localDiskStorage: StorageProvider = {
+  name: 'local',
+
+  async upload(body, options) {
+    const folder = options.visibility === 'private' ? 'private' : 'public'
+    const safeName = options.fileName.replace(/[^a-zA-Z0-9._-]/g, '_')
+    const key = `${folder}/${Date.now()}-${safeName}`
+    const filePath = resolveLocalPath(key)
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, body)
+    return { key, url: `${process.env.NEXTAUTH_URL || ''}${LOCAL_URL_PREFIX}${key}` }
+  },
+
+  async stat(key) {
+    try {
+      const info = await stat(resolveLocalPath(key))
+      if (!info.isFile()) return null
+      return {
+        size: info.size,
+        mimeType: localMimeType(key),
+        fileName: baseName(key),
+        etag: `W/"${info.size.toString(16)}-${Math.floor(info.mtimeMs).toString(16)}"`,
+        lastModified: info.mtime
+      }
+    } catch (err) {
+      if (isNotFound(err)) return null
+      throw err
+    }
+  },
+
+  async download(key, options) {
+    const filePath = resolveLocalPath(key)
+    try {
+      const info = await stat(filePath)
+      if (options?.maxBytes && info.size > options.maxBytes) {
+        console.warn(`File too large to download: ${info.size} bytes for local file ${key}`)
+        return null
+      }
+      return { buffer: await readFile(filePath), mimeType: localMimeType(key) }
+    } catch (err) {
+      if (isNotFound(err)) return null
+      throw err
+    }
+  },
+
+  async openStream(key, range) {
+    const filePath = resolveLocalPath(key)
+    // Fail before handing back a stream, so a missing file surfaces as an error rather than a broken body
+    await stat(filePath)
+    const stream = createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined)
+    return { stream, mimeType: localMimeType(key), fileName: baseName(key) }
+  },
+
+  async delete(key) {
+    try {
+      await unlink(resolveLocalPath(key))
+    } catch (err) {
+      if (!isNotFound(err)) throw err
+    }
+  },
+
+  keyFromUrl(url) {
+    const index = url.indexOf(LOCAL_URL_PREFIX)
+    if (index === -1) return null
+    const key = decodeURIComponent(url.slice(index + LOCAL_URL_PREFIX.length).split(/[?#]/)[0])
+    return key || null
+  },
+
+  async *list() {
+    const root = localStorageRoot()
+    const dirs = ['']
+    while (dirs.length > 0) {
+      const dir = dirs.shift() as string
+      let entries
+      try {
+        entries = await readdir(path.join(root, dir), { withFileTypes: true })
+      } catch (err) {
+        if (isNotFound(err)) continue
+        throw err
+      }
+      for (const entry of entries) {
+        const key = dir ? `${dir}/${entry.name}` : entry.name
+        if (entry.isDirectory()) {
+          dirs.push(key)
+        } else if (entry.isFile()) {
+          const info = await stat(path.join(root, key))
+          yield { key, size: info.size, lastModified: info.mtime }
+        }
+      }
+    }
+  },
+}
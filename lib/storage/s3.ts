@@ -0,0 +1,165 @@
+import { Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+import { AwsClient } from 'aws4fetch'
+import type { StorageProvider } from '@/lib/storage/types'
+
+// S3-compatible object storage (AWS S3, Cloudflare R2, MinIO, ...) using path-style URLs
+
+interface S3Config {
+  endpoint: string
+  bucket: string
+  publicUrl: string | null
+  client: AwsClient
+}
+
+let cachedConfig: S3Config | null = null
+
+function getS3Config(): S3Config {
+  if (cachedConfig) return cachedConfig
+  const endpoint = process.env.S3_ENDPOINT
+  const bucket = process.env.S3_BUCKET
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY
+  if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('S3 storage configuration error: S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required')
+  }
+  cachedConfig = {
+    endpoint: endpoint.replace(/\/+$/, ''),
+    bucket,
+    publicUrl: process.env.S3_PUBLIC_URL?.replace(/\/+$/, '') || null,
+    client: new AwsClient({ accessKeyId, secretAccessKey, service: 's3', region: process.env.S3_REGION || 'auto' })
+  }
+  return cachedConfig
+}
+
+export function isS3Configured(): boolean {
+  return Boolean(process.env.S3_ENDPOINT && process.env.S3_BUCKET && process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY)
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeURIComponent).join('/')
+}
+
+function objectUrl(key: string): string {
+  const config = getS3Config()
+  return `${config.endpoint}/${config.bucket}/${encodeKey(key)}`
+}
+
+function xmlValue(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))
+  if (!match) return null
+  return match[1]
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function baseName(key: string): string {
+  return key.slice(key.lastIndexOf('/') + 1)
+}
+
+export const s3Storage: StorageProvider = {
+  name: 's3',
+
+  async upload(body, options) {
+    const config = getS3Config()
+    const folder = options.visibility === 'private' ? 'private' : 'public'
+    const key = `${folder}/${Date.now()}-${options.fileName}`
+    const res = await config.client.fetch(objectUrl(key), {
+      method: 'PUT',
+      body: new Uint8Array(body),
+      headers: { 'Content-Type': options.mimeType || 'application/octet-stream' }
+    })
+    if (!res.ok) throw new Error(`S3 upload failed (${res.status}): ${await res.text()}`)
+    // Public objects are read straight from the bucket (or its CDN); private ones need a presigned URL
+    const url = options.visibility !== 'private' && config.publicUrl ? `${config.publicUrl}/${encodeKey(key)}` : objectUrl(key)
+    return { key, url }
+  },
+
+  async stat(key) {
+    const res = await getS3Config().client.fetch(objectUrl(key), { method: 'HEAD' })
+    if (res.status === 404) return null
+    if (!res.ok) throw new Error(`S3 HEAD failed (${res.status}) for ${key}`)
+    const lastModified = res.headers.get('last-modified')
+    return {
+      size: Number(res.headers.get('content-length') || 0),
+      mimeType: res.headers.get('content-type'),
+      fileName: baseName(key),
+      etag: res.headers.get('etag'),
+      lastModified: lastModified ? new Date(lastModified) : null
+    }
+  },
+
+  async download(key, options) {
+    const res = await getS3Config().client.fetch(objectUrl(key))
+    if (res.status === 404) return null
+    if (!res.ok) throw new Error(`S3 download failed (${res.status}) for ${key}`)
+    if (options?.maxBytes && Number(res.headers.get('content-length')) > options.maxBytes) {
+      await res.body?.cancel()
+      console.warn(`File too large to download: ${res.headers.get('content-length')} bytes for S3 object ${key}`)
+      return null
+    }
+    return { buffer: Buffer.from(await res.arrayBuffer()), mimeType: res.headers.get('content-type') }
+  },
+
+  async openStream(key, range) {
+    const headers: Record<string, string> = range ? { Range: `bytes=${range.start}-${range.end}` } : {}
+    const res = await getS3Config().client.fetch(objectUrl(key), { headers })
+    if (!res.ok || !res.body) throw new Error(`S3 download failed (${res.status}) for ${key}`)
+    if (range && res.status !== 206) {
+      await res.body.cancel()
+      throw new Error(`S3 ignored the range request for ${key}`)
+    }
+    return {
+      stream: Readable.fromWeb(res.body as NodeReadableStream<Uint8Array>),
+      mimeType: res.headers.get('content-type'),
+      fileName: baseName(key)
+    }
+  },
+
+  async delete(key) {
+    // S3 answers 204 for missing keys as well
+    const res = await getS3Config().client.fetch(objectUrl(key), { method: 'DELETE' })
+    if (!res.ok && res.status !== 404) throw new Error(`S3 delete failed (${res.status}) for ${key}`)
+  },
+
+  keyFromUrl(url) {
+    if (!isS3Configured()) return null
+    const config = getS3Config()
+    const prefixes = [config.publicUrl, `${config.endpoint}/${config.bucket}`].filter((p): p is string => Boolean(p))
+    const prefix = prefixes.find(p => url.startsWith(`${p}/`))
+    if (!prefix) return null
+    const key = url.slice(prefix.length + 1).split(/[?#]/)[0]
+    return key ? decodeURIComponent(key) : null
+  },
+
+  async createSignedUrl(key, expiresInSeconds) {
+    const url = new URL(objectUrl(key))
+    url.searchParams.set('X-Amz-Expires', String(expiresInSeconds))
+    const signed = await getS3Config().client.sign(url.toString(), { method: 'GET', aws: { signQuery: true } })
+    return signed.url
+  },
+
+  async *list() {
+    const config = getS3Config()
+    let continuationToken: string | null = null
+    do {
+      const url = new URL(`${config.endpoint}/${config.bucket}`)
+      url.searchParams.set('list-type', '2')
+      if (continuationToken) url.searchParams.set('continuation-token', continuationToken)
+      const res = await config.client.fetch(url.toString())
+      if (!res.ok) throw new Error(`S3 list failed (${res.status})`)
+      const xml = await res.text()
+      for (const [, item] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const key = xmlValue(item, 'Key')
+        if (!key) continue
+        const size = xmlValue(item, 'Size')
+        const lastModified = xmlValue(item, 'LastModified')
+        yield { key, size: size ? Number(size) : null, lastModified: lastModified ? new Date(lastModified) : null }
+      }
+      continuationToken = xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : null
+    } while (continuationToken)
+  },
+}
@@ -0,0 +1,152 @@
+import { Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import type { StorageProvider } from '@/lib/storage/types'
+
+// Configuration for secure storage - configurable via environment variables
+export const SECURE_STORAGE_BUCKET = process.env.SECURE_STORAGE_BUCKET || 'secure-resources'
+const DEFAULT_PUBLIC_BUCKET = 'resources'
+const LIST_PAGE_SIZE = 1000
+
+export function tryParseStoragePathFromUrl(url: string): { bucket: string; path: string } | null {
+  const match = url.match(/\/object\/public\/([^/]+)\/(.+)$/)
+  if (!match) return null
+  return { bucket: match[1], path: match[2] }
+}
+
+// Keys are "bucket/path"
+export function storageKey(bucket: string, path: string): string {
+  return `${bucket}/${path}`
+}
+
+export function splitStorageKey(key: string): { bucket: string; path: string } {
+  const slash = key.indexOf('/')
+  if (slash <= 0) throw new Error(`Invalid storage key: ${key}`)
+  return { bucket: key.slice(0, slash), path: key.slice(slash + 1) }
+}
+
+export async function deleteStorageObject(bucket: string, path: string) {
+  const supabase = createSupabaseAdmin()
+  const { error } = await supabase.storage.from(bucket).remove([path])
+  if (error) throw error
+}
+
+function storageObjectRequest(key: string, headers: Record<string, string> = {}) {
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceKey) throw new Error('Missing required environment variable: SUPABASE_SERVICE_ROLE_KEY')
+  const { bucket, path } = splitStorageKey(key)
+  return fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/${bucket}/${path}`, {
+    headers: { Authorization: `Bearer ${serviceKey}`, apikey: serviceKey, ...headers }
+  })
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+export const supabaseStorage: StorageProvider = {
+  name: 'supabase',
+
+  async upload(body, options) {
+    const supabase = createSupabaseAdmin()
+    // Private uploads always land in the secure bucket; the row keeps the bare path for signed URLs
+    const bucket = options.visibility === 'private' ? SECURE_STORAGE_BUCKET : options.container || DEFAULT_PUBLIC_BUCKET
+    const uploadPath = `${Date.now()}-${options.fileName}`
+    const { error } = await supabase.storage.from(bucket).upload(uploadPath, body, { contentType: options.mimeType || undefined })
+    if (error) throw error
+    const url = options.visibility === 'private'
+      ? uploadPath
+      : supabase.storage.from(bucket).getPublicUrl(uploadPath).data.publicUrl
+    return { key: storageKey(bucket, uploadPath), url }
+  },
+
+  async stat(key) {
+    // Ask for the first byte: Content-Range carries the total size and the body stays tiny
+    const res = await storageObjectRequest(key, { Range: 'bytes=0-0' })
+    await res.body?.cancel()
+    if (res.status !== 206 && res.status !== 200 && res.status !== 416) return null
+    const total = res.headers.get('content-range')?.match(/\/(\d+)$/)?.[1]
+    const size = total ? Number(total) : res.status === 200 ? Number(res.headers.get('content-length') || 0) : 0
+    const lastModified = res.headers.get('last-modified')
+    return {
+      size,
+      mimeType: res.headers.get('content-type'),
+      fileName: baseName(key),
+      etag: res.headers.get('etag'),
+      lastModified: lastModified ? new Date(lastModified) : null
+    }
+  },
+
+  async download(key, options) {
+    const { bucket, path } = splitStorageKey(key)
+    const supabase = createSupabaseAdmin()
+    const { data, error } = await supabase.storage.from(bucket).download(path)
+    if (error || !data) {
+      console.warn('Failed to download file from storage:', error?.message, 'for path:', key)
+      return null
+    }
+    if (options?.maxBytes && data.size > options.maxBytes) {
+      console.warn(`File too large to download: ${data.size} bytes for path ${key}`)
+      return null
+    }
+    return { buffer: Buffer.from(await data.arrayBuffer()), mimeType: data.type || null }
+  },
+
+  async openStream(key, range) {
+    const res = await storageObjectRequest(key, range ? { Range: `bytes=${range.start}-${range.end}` } : {})
+    if (!res.ok || !res.body) throw new Error(`Storage download failed (${res.status}) for ${key}`)
+    if (range && res.status !== 206) {
+      await res.body.cancel()
+      throw new Error(`Storage ignored the range request for ${key}`)
+    }
+    return {
+      stream: Readable.fromWeb(res.body as NodeReadableStream<Uint8Array>),
+      mimeType: res.headers.get('content-type'),
+      fileName: baseName(key)
+    }
+  },
+
+  async delete(key) {
+    const { bucket, path } = splitStorageKey(key)
+    await deleteStorageObject(bucket, path)
+  },
+
+  keyFromUrl(url) {
+    const location = tryParseStoragePathFromUrl(url)
+    return location ? storageKey(location.bucket, location.path) : null
+  },
+
+  async createSignedUrl(key, expiresInSeconds) {
+    const { bucket, path } = splitStorageKey(key)
+    const supabase = createSupabaseAdmin()
+    const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, expiresInSeconds, { download: true })
+    if (error || !data) {
+      throw new Error(`Failed to generate signed URL: ${error?.message}`)
+    }
+    return data.signedUrl
+  },
+
+  async *list(container) {
+    const bucket = container || DEFAULT_PUBLIC_BUCKET
+    const supabase = createSupabaseAdmin()
+    const prefixes = ['']
+    while (prefixes.length > 0) {
+      const prefix = prefixes.shift() as string
+      for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+        const { data, error } = await supabase.storage.from(bucket).list(prefix, { limit: LIST_PAGE_SIZE, offset })
+        if (error) throw new Error(`Failed to list ${bucket}/${prefix}: ${error.message}`)
+        for (const entry of data || []) {
+          const path = prefix ? `${prefix}/${entry.name}` : entry.name
+          // Folders come back without an id
+          if (!entry.id) {
+            prefixes.push(path)
+            continue
+          }
+          const size = (entry.metadata as { size?: number } | null)?.size
+          yield { key: storageKey(bucket, path), size: size ?? null, lastModified: entry.updated_at ? new Date(entry.updated_at) : null }
+        }
+        if (!data || data.length < LIST_PAGE_SIZE) break
+      }
+    }
+  },
+}
@@ -0,0 +1,61 @@
+import type { ByteRange } from '@/lib/http-range'
+
+export type StorageProviderName = 'drive' | 'supabase' | 's3' | 'local'
+
+export interface StoredFile {
+  // Provider-specific object key (Drive file id, "bucket/path", S3 key or local path)
+  key: string
+  // What to save on the resource row: a public URL, or for private objects the reference
+  // generateSecureFileUrl resolves (Drive view link, bare secure-bucket path, ...)
+  url: string
+}
+
+export interface StorageObjectStat {
+  size: number
+  mimeType: string | null
+  fileName: string
+  etag: string | null
+  lastModified: Date | null
+}
+
+export interface StorageObjectSummary {
+  key: string
+  size: number | null
+  lastModified: Date | null
+}
+
+export interface StorageUploadOptions {
+  fileName: string
+  mimeType?: string | null
+  description?: string
+  // Drive folder id or bucket from settings; providers without the concept ignore it
+  container?: string | null
+  // public: readable by anyone with the URL (resource links); private: only via signed or proxied access
+  visibility?: 'public' | 'private'
+}
+
+export interface StorageProvider {
+  readonly name: StorageProviderName
+
+  upload(body: Buffer, options: StorageUploadOptions): Promise<StoredFile>
+
+  // null when the object doesn't exist
+  stat(key: string): Promise<StorageObjectStat | null>
+
+  // null when the object doesn't exist or is larger than maxBytes
+  download(key: string, options?: { maxBytes?: number }): Promise<{ buffer: Buffer; mimeType: string | null } | null>
+
+  openStream(key: string, range?: ByteRange): Promise<{ stream: AsyncIterable<Uint8Array>; mimeType: string | null; fileName: string }>
+
+  // Deleting an object that is already gone is not an error
+  delete(key: string): Promise<void>
+
+  // Object key for a URL this provider produced, or null if it isn't one of ours
+  keyFromUrl(url: string): string | null
+
+  // Short-lived direct URL that bypasses the token registry; resource links always go through /api/secure-file
+  createSignedUrl?(key: string, expiresInSeconds: number): Promise<string>
+
+  // Every object in a container (Drive folder, bucket); S3 and local disk list the whole store
+  list(container?: string | null): AsyncIterable<StorageObjectSummary>
+}
@@ -0,0 +1,151 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getSettings } from '@/lib/admin-auth'
+import { downloadResourceFile } from '@/lib/files'
+import { sniffMimeFromMagicBytes } from '@/lib/file-validation'
+import { locateResourceFile, selectUploadProvider } from '@/lib/storage'
+
+// Small preview images for the subject page grid: the first page of a PDF or a downscaled image.
+// Previews are stored privately on the same backend as the file and served by /api/resources/[id]/thumbnail.
+
+export const THUMBNAIL_WIDTH = (() => {
+  const parsed = parseInt(process.env.THUMBNAIL_WIDTH || '320', 10)
+  return isFinite(parsed) && parsed > 0 ? parsed : 320
+})()
+const THUMBNAIL_QUALITY = 75
+const THUMBNAIL_MIME = 'image/webp'
+
+const PREVIEWABLE_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp'])
+
+type ResourceFileRef = { url?: string | null; drive_link?: string | null; file_path?: string | null }
+
+export function canGenerateThumbnail(mimeType: string | null | undefined): boolean {
+  return mimeType === 'application/pdf' || PREVIEWABLE_IMAGE_TYPES.has(mimeType || '')
+}
+
+async function downscaleImage(buffer: Buffer): Promise<Buffer> {
+  const { createCanvas, loadImage } = await import('@napi-rs/canvas')
+  const image = await loadImage(buffer)
+  const width = Math.min(THUMBNAIL_WIDTH, image.width)
+  const height = Math.max(1, Math.round(image.height * (width / image.width)))
+  const canvas = createCanvas(width, height)
+  const ctx = canvas.getContext('2d')
+  // Transparent PNGs would otherwise turn black in the preview
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, width, height)
+  ctx.drawImage(image, 0, 0, width, height)
+  return canvas.encode('webp', THUMBNAIL_QUALITY)
+}
+
+/**
+ * Render a preview image for a file, or null when the type has no preview (e.g. video)
+ */
+export async function renderThumbnail(buffer: Buffer, mimeType: string | null): Promise<Buffer | null> {
+  const mime = sniffMimeFromMagicBytes(buffer) || mimeType
+  if (mime === 'application/pdf') {
+    const { getDocumentProxy, renderPageAsImage } = await import('unpdf')
+    // Copy so pdf.js can't detach the caller's buffer
+    const pdf = await getDocumentProxy(new Uint8Array(buffer))
+    const page = await renderPageAsImage(pdf, 1, {
+      canvasImport: () => import('@napi-rs/canvas'),
+      width: THUMBNAIL_WIDTH
+    })
+    return downscaleImage(Buffer.from(page))
+  }
+  if (mime && PREVIEWABLE_IMAGE_TYPES.has(mime)) return downscaleImage(buffer)
+  return null
+}
+
+/**
+ * Delete a resource's stored preview; missing previews are ignored
+ */
+export async function deleteResourceThumbnail(thumbnailPath: string | null | undefined): Promise<void> {
+  if (!thumbnailPath) return
+  const located = locateResourceFile({ file_path: thumbnailPath })
+  if (!located) return
+  try {
+    await located.provider.delete(located.key)
+  } catch (err) {
+    console.warn(`[thumbnails] Failed to delete preview ${thumbnailPath}:`, err instanceof Error ? err.message : err)
+  }
+}
+
+/**
+ * Drop a resource's preview, e.g. when its file was replaced by one that has none
+ */
+export async function clearResourceThumbnail(resourceId: string, thumbnailPath: string | null | undefined): Promise<void> {
+  const supabase = createSupabaseAdmin()
+  await supabase.from('resources').update({ thumbnail_path: null, thumbnail_status: 'skipped' }).eq('id', resourceId)
+  await deleteResourceThumbnail(thumbnailPath)
+}
+
+/**
+ * Generate and store a resource's preview, replacing any previous one.
+ * Never throws: upload routes call this best-effort and failures are retried by the backfill job.
+ */
+export async function generateResourceThumbnail(resourceId: string, buffer: Buffer, mimeType: string | null): Promise<boolean> {
+  const supabase = createSupabaseAdmin()
+  try {
+    const { data: resource, error: loadError } = await supabase
+      .from('resources')
+      .select('url, drive_link, file_path, thumbnail_path')
+      .eq('id', resourceId)
+      .maybeSingle()
+    if (loadError) throw new Error(loadError.message)
+    if (!resource) return false
+
+    const image = await renderThumbnail(buffer, mimeType)
+    if (!image) {
+      // A replacement file without a preview must not keep showing the old one
+      await clearResourceThumbnail(resourceId, resource.thumbnail_path)
+      return false
+    }
+
+    // Keep the preview next to the file; external links fall back to the default upload backend
+    const settings = await getSettings()
+    const provider = locateResourceFile(resource)?.provider ?? selectUploadProvider(settings, false)
+    const container = provider.name === 'drive' ? settings?.drive_folder_id : null
+    const stored = await provider.upload(image, {
+      fileName: `${resourceId}-thumbnail.webp`,
+      mimeType: THUMBNAIL_MIME,
+      container,
+      visibility: 'private'
+    })
+
+    const { error } = await supabase
+      .from('resources')
+      .update({ thumbnail_path: stored.url, thumbnail_status: 'done' })
+      .eq('id', resourceId)
+    if (error) {
+      await provider.delete(stored.key).catch(() => {})
+      throw new Error(error.message)
+    }
+    if (resource.thumbnail_path && resource.thumbnail_path !== stored.url) await deleteResourceThumbnail(resource.thumbnail_path)
+
+    console.log(`[thumbnails] Generated preview for resource ${resourceId} on ${provider.name}`)
+    return true
+  } catch (err) {
+    console.error(`[thumbnails] Failed to generate preview for resource ${resourceId}:`, err instanceof Error ? err.message : err)
+    await supabase.from('resources').update({ thumbnail_status: 'failed' }).eq('id', resourceId)
+    return false
+  }
+}
+
+/**
+ * Generate a preview for a file that is already stored (e.g. finished chunked uploads) by downloading it first
+ */
+export async function generateStoredResourceThumbnail(resourceId: string, location: ResourceFileRef): Promise<boolean> {
+  const file = await downloadResourceFile(location).catch(() => null)
+  if (!file) {
+    const supabase = createSupabaseAdmin()
+    await supabase.from('resources').update({ thumbnail_status: 'skipped' }).eq('id', resourceId)
+    return false
+  }
+  return generateResourceThumbnail(resourceId, file.buffer, file.mimeType)
+}
+
+/**
+ * Link students' browsers use to load a resource's preview
+ */
+export function resourceThumbnailUrl(resourceId: string): string {
+  return `/api/resources/${resourceId}/thumbnail`
+}
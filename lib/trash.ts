@@ -0,0 +1,110 @@
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { logAudit } from '@/lib/audit'
+import { deleteResourceFile } from '@/lib/files'
+import { deleteVersionFiles } from '@/lib/resource-versions'
+import { deleteResourceThumbnail } from '@/lib/thumbnails'
+import { deletePdfRendition } from '@/lib/office-convert'
+
+const DEFAULT_RETENTION_DAYS = 30
+
+export interface TrashActor {
+  email: string
+  role: 'admin' | 'yeshh'
+}
+
+export interface TrashedResource {
+  id: string
+  title?: string | null
+  name?: string | null
+  url?: string | null
+  drive_link?: string | null
+  file_path?: string | null
+  thumbnail_path?: string | null
+  pdf_rendition_path?: string | null
+  deleted_at?: string | null
+}
+
+// Used as the audit actor when the scheduled job purges expired rows
+export const PURGE_JOB_ACTOR: TrashActor = { email: 'system:trash-purge', role: 'yeshh' }
+
+/**
+ * Days a trashed resource stays restorable (settings.trash_retention_days, then TRASH_RETENTION_DAYS)
+ */
+export async function getTrashRetentionDays(): Promise<number> {
+  const supabase = createSupabaseAdmin()
+  const { data } = await supabase.from('settings').select('trash_retention_days').maybeSingle()
+  const configured = Number(data?.trash_retention_days ?? process.env.TRASH_RETENTION_DAYS)
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_RETENTION_DAYS
+}
+
+export function purgeDateFor(deletedAt: string, retentionDays: number): string {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000).toISOString()
+}
+
+/**
+ * Permanently delete a trashed resource: its current file, files kept by older versions, its preview and PDF rendition, then the row.
+ * The row is kept when the current file can't be removed so the next run retries instead of orphaning it.
+ */
+export async function purgeResource(resource: TrashedResource, actor: TrashActor): Promise<{ ok: boolean; error?: string }> {
+  const supabase = createSupabaseAdmin()
+  try {
+    await deleteResourceFile(resource)
+    await deleteVersionFiles(resource.id, resource.url)
+    await deleteResourceThumbnail(resource.thumbnail_path)
+    await deletePdfRendition(resource.pdf_rendition_path)
+
+    const { error } = await supabase.from('resources').delete().eq('id', resource.id).not('deleted_at', 'is', null)
+    if (error) throw error
+
+    await logAudit({
+      actor_email: actor.email,
+      actor_role: actor.role,
+      action: 'purge',
+      entity: 'resource',
+      entity_id: resource.id,
+      message: `Permanently deleted ${resource.title || resource.name || resource.id}`,
+      before_data: resource
+    })
+    return { ok: true }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    console.error(`[trash] Failed to purge resource ${resource.id}:`, message)
+    await logAudit({
+      actor_email: actor.email,
+      actor_role: actor.role,
+      action: 'purge',
+      entity: 'resource',
+      entity_id: resource.id,
+      success: false,
+      message
+    })
+    return { ok: false, error: message }
+  }
+}
+
+/**
+ * Purge resources that have been in the trash longer than the retention period
+ */
+export async function purgeExpiredResources(limit = 50): Promise<{ retentionDays: number; purged: number; failed: number }> {
+  const supabase = createSupabaseAdmin()
+  const retentionDays = await getTrashRetentionDays()
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString()
+
+  const { data, error } = await supabase
+    .from('resources')
+    .select('*')
+    .not('deleted_at', 'is', null)
+    .lt('deleted_at', cutoff)
+    .order('deleted_at', { ascending: true })
+    .limit(limit)
+  if (error) throw error
+
+  let purged = 0
+  let failed = 0
+  for (const resource of data || []) {
+    const result = await purgeResource(resource, PURGE_JOB_ACTOR)
+    if (result.ok) purged++
+    else failed++
+  }
+  return { retentionDays, purged, failed }
+}
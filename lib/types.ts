@@ -56,6 +56,12 @@ export interface Resource {
   unit?: number;
   date?: string;
   is_pdf?: boolean;
+  // Preview image (first PDF page or downscaled image), served by /api/resources/[id]/thumbnail
+  thumbnail_url?: string | null;
+  // Office file with a PDF copy: /api/resources/[id]/file opens the PDF, ?original=1 the uploaded file
+  has_pdf_rendition?: boolean;
+  // Watermarked per download; no direct link, always opened through /api/resources/[id]/file
+  restricted?: boolean;
   // Additional legacy compatibility fields for UI backward compatibility
   name?: string; // legacy alias for title
   url?: string; // legacy alias for drive_link
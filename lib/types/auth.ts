@@ -5,6 +5,7 @@ export interface UserContext {
   email: string;
   name: string;
   role: UserRole;
+  rollNumber?: string;
   year?: number;
   branch?: string;
   branchId?: string;
@@ -0,0 +1,280 @@
+import { createHash } from 'crypto'
+import net from 'net'
+import { createSupabaseAdmin } from '@/lib/supabase'
+import { getFileExtension } from '@/lib/file-validation'
+
+// Malware scan run on every uploaded file after type validation and before it is stored.
+// ClamAV is used when CLAMAV_SOCKET (unix socket) or CLAMAV_HOST is set; otherwise only the
+// built-in Office macro check runs.
+
+export type ScanVerdict =
+  | { clean: true }
+  | { clean: false; signature: string }
+
+export interface VirusScanner {
+  name: string
+  // Large stored uploads are passed as a stream so they never have to fit in memory
+  scan(input: Buffer | AsyncIterable<Uint8Array>): Promise<ScanVerdict>
+}
+
+export type UploadScanResult =
+  | { ok: true; scanner: string }
+  | { ok: false; scanner: string; reason: string; unavailable?: boolean }
+
+export const QUARANTINE_BUCKET = process.env.QUARANTINE_BUCKET || 'quarantine'
+
+const CLAMAV_TIMEOUT_MS = (() => {
+  const parsed = parseInt(process.env.CLAMAV_TIMEOUT_MS || '30000', 10)
+  return isFinite(parsed) && parsed > 0 ? parsed : 30000
+})()
+// clamd rejects chunks above StreamMaxLength anyway; keep each write modest
+const CLAMAV_CHUNK_BYTES = 64 * 1024
+// Stored uploads up to this size are read into memory and scanned like direct uploads;
+// larger ones are streamed to the scanner
+const SCAN_IN_MEMORY_BYTES = 25 * 1024 * 1024
+
+export const noopScanner: VirusScanner = {
+  name: 'none',
+  async scan() {
+    return { clean: true }
+  }
+}
+
+/**
+ * clamd INSTREAM: length-prefixed chunks terminated by a zero-length chunk, answered with
+ * "stream: OK" or "stream: <signature> FOUND"
+ */
+export function createClamAvScanner(target: { socketPath: string } | { host: string; port: number }): VirusScanner {
+  return {
+    name: 'clamav',
+    scan(input) {
+      return new Promise<ScanVerdict>((resolve, reject) => {
+        const socket = 'socketPath' in target ? net.createConnection(target.socketPath) : net.createConnection(target.port, target.host)
+        const response: Buffer[] = []
+        let settled = false
+        const fail = (err: Error) => {
+          if (settled) return
+          settled = true
+          socket.destroy()
+          reject(err)
+        }
+
+        socket.setTimeout(CLAMAV_TIMEOUT_MS, () => fail(new Error('ClamAV scan timed out')))
+        socket.on('error', fail)
+        socket.on('data', (data) => response.push(data))
+        socket.on('end', () => {
+          if (settled) return
+          settled = true
+          const reply = Buffer.concat(response).toString('utf8').replace(/\0/g, '').trim()
+          if (/:\s*OK$/.test(reply)) return resolve({ clean: true })
+          const found = reply.match(/:\s*(.+)\s+FOUND$/)
+          if (found) return resolve({ clean: false, signature: found[1] })
+          reject(new Error(`Unexpected ClamAV reply: ${reply || '(empty)'}`))
+        })
+        socket.on('connect', async () => {
+          try {
+            socket.write('zINSTREAM\0')
+            for await (const part of Buffer.isBuffer(input) ? [input] : input) {
+              for (let offset = 0; offset < part.length; offset += CLAMAV_CHUNK_BYTES) {
+                if (settled) return
+                const chunk = part.subarray(offset, offset + CLAMAV_CHUNK_BYTES)
+                const size = Buffer.alloc(4)
+                size.writeUInt32BE(chunk.length)
+                socket.write(size)
+                // Wait for the socket to drain so a large stream isn't buffered in memory
+                if (!socket.write(chunk)) await new Promise(resolve => socket.once('drain', resolve))
+              }
+            }
+            socket.end(Buffer.alloc(4))
+          } catch (err) {
+            fail(err instanceof Error ? err : new Error(String(err)))
+          }
+        })
+      })
+    }
+  }
+}
+
+export function getVirusScanner(): VirusScanner {
+  if (process.env.CLAMAV_SOCKET) return createClamAvScanner({ socketPath: process.env.CLAMAV_SOCKET })
+  if (process.env.CLAMAV_HOST) {
+    const port = parseInt(process.env.CLAMAV_PORT || '3310', 10)
+    return createClamAvScanner({ host: process.env.CLAMAV_HOST, port: isFinite(port) ? port : 3310 })
+  }
+  return noopScanner
+}
+
+const MACRO_OFFICE_EXTENSIONS = new Set(['docm', 'dotm', 'xlsm', 'xltm', 'xlsb', 'pptm', 'potm', 'ppsm'])
+
+/**
+ * Office documents carrying VBA: OOXML zips store macros in vbaProject.bin (the entry name is
+ * stored uncompressed in the zip headers), legacy OLE2 files in a "Macros" or "_VBA_PROJECT" stream.
+ * Plain .docx/.xlsx/.pptx should never contain either.
+ */
+export function detectOfficeMacros(buffer: Buffer, filename: string): string | null {
+  const ext = getFileExtension(filename)
+  if (MACRO_OFFICE_EXTENSIONS.has(ext)) return 'Office.MacroEnabledFormat'
+  const isZip = buffer.length >= 4 && buffer.readUInt32BE(0) === 0x504b0304
+  if (isZip && buffer.includes('vbaProject.bin', 0, 'latin1')) return 'Office.Macro.OOXML'
+  const isOle2 = buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]))
+  if (isOle2 && (buffer.includes('_VBA_PROJECT', 0, 'utf16le') || buffer.includes('Macros', 0, 'utf16le'))) return 'Office.Macro.OLE2'
+  return null
+}
+
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04])
+const OLE2_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+const OOXML_MACRO_MARKERS = [Buffer.from('vbaProject.bin', 'latin1')]
+const OLE2_MACRO_MARKERS = [Buffer.from('_VBA_PROJECT', 'utf16le'), Buffer.from('Macros', 'utf16le')]
+const MARKER_OVERLAP = Math.max(...[...OOXML_MACRO_MARKERS, ...OLE2_MACRO_MARKERS].map(m => m.length)) - 1
+
+/**
+ * detectOfficeMacros for a file read in chunks: feed every chunk to update(), then read signature().
+ * Markers split across chunks are still found.
+ */
+export function createOfficeMacroCheck(filename: string): { update(chunk: Uint8Array): void; signature(): string | null } {
+  let found: string | null = MACRO_OFFICE_EXTENSIONS.has(getFileExtension(filename)) ? 'Office.MacroEnabledFormat' : null
+  let head = Buffer.alloc(0)
+  let tail = Buffer.alloc(0)
+  return {
+    update(chunk) {
+      if (found) return
+      const bytes = Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+      if (head.length < OLE2_MAGIC.length) head = Buffer.concat([head, bytes.subarray(0, OLE2_MAGIC.length - head.length)])
+      const window = Buffer.concat([tail, bytes])
+      if (head.subarray(0, ZIP_MAGIC.length).equals(ZIP_MAGIC) && OOXML_MACRO_MARKERS.some(m => window.includes(m))) {
+        found = 'Office.Macro.OOXML'
+      } else if (head.equals(OLE2_MAGIC) && OLE2_MACRO_MARKERS.some(m => window.includes(m))) {
+        found = 'Office.Macro.OLE2'
+      }
+      tail = Buffer.from(window.subarray(Math.max(0, window.length - MARKER_OVERLAP)))
+    },
+    signature: () => found
+  }
+}
+
+/**
+ * Keep a flagged file out of the resource buckets for later inspection, and record who sent it.
+ * Streamed files (no buffer) are only recorded; the caller deletes the stored upload.
+ */
+async function quarantineFile(
+  file: { buffer: Buffer } | { sha256: string; size: number },
+  filename: string,
+  mimeType: string | null,
+  signature: string,
+  scanner: string,
+  uploadedBy: string | null
+) {
+  const supabase = createSupabaseAdmin()
+  const sha256 = 'buffer' in file ? createHash('sha256').update(file.buffer).digest('hex') : file.sha256
+  let storedPath: string | null = null
+  if ('buffer' in file) {
+    const objectPath = `${new Date().toISOString().slice(0, 10)}/${sha256}`
+    const { error: uploadError } = await supabase.storage
+      .from(QUARANTINE_BUCKET)
+      .upload(objectPath, file.buffer, { contentType: 'application/octet-stream', upsert: true })
+    if (uploadError) console.error('[virus-scan] Failed to store quarantined file:', uploadError.message)
+    else storedPath = objectPath
+  }
+  const { error } = await supabase.from('quarantined_uploads').insert({
+    file_name: filename,
+    mime_type: mimeType,
+    size_bytes: 'buffer' in file ? file.buffer.length : file.size,
+    sha256,
+    signature,
+    scanner,
+    bucket: storedPath ? QUARANTINE_BUCKET : null,
+    object_path: storedPath,
+    uploaded_by: uploadedBy
+  })
+  if (error) console.error('[virus-scan] Failed to record quarantined file:', error.message)
+}
+
+/**
+ * Scan an upload before it is persisted. Flagged files are quarantined and rejected with the
+ * detection name. When the scanner can't be reached the upload is refused unless
+ * VIRUS_SCAN_FAIL_OPEN=true.
+ */
+export async function scanUpload(
+  buffer: Buffer,
+  filename: string,
+  options: { mimeType?: string | null; uploadedBy?: string | null } = {}
+): Promise<UploadScanResult> {
+  const scanner = getVirusScanner()
+  let signature = detectOfficeMacros(buffer, filename)
+  const scannerName = signature ? 'macro-check' : scanner.name
+
+  if (!signature) {
+    try {
+      const verdict = await scanner.scan(buffer)
+      if (!verdict.clean) signature = verdict.signature
+    } catch (err) {
+      console.error(`[virus-scan] ${scanner.name} scan failed for '${filename}':`, err)
+      if (process.env.VIRUS_SCAN_FAIL_OPEN === 'true') return { ok: true, scanner: scanner.name }
+      return { ok: false, scanner: scanner.name, reason: 'The file could not be scanned for viruses. Please try again later.', unavailable: true }
+    }
+  }
+
+  if (!signature) return { ok: true, scanner: scannerName }
+
+  console.warn(`[virus-scan] Rejected '${filename}' from ${options.uploadedBy || 'unknown'}: ${signature}`)
+  await quarantineFile({ buffer }, filename, options.mimeType ?? null, signature, scannerName, options.uploadedBy ?? null)
+  return { ok: false, scanner: scannerName, reason: rejectionReason(signature) }
+}
+
+function rejectionReason(signature: string): string {
+  return signature.startsWith('Office.Macro')
+    ? 'Documents containing macros are not allowed. Save the file without macros (for example as PDF) and upload it again.'
+    : `The file was flagged by the virus scanner (${signature}) and has been quarantined.`
+}
+
+/**
+ * Scan an upload that is already stored (sent in parts through /api/uploads), before it is made
+ * public or attached to a resource. Files up to SCAN_IN_MEMORY_BYTES get exactly the checks of
+ * scanUpload; larger ones are streamed through the macro check and to the scanner.
+ * The caller deletes a rejected upload.
+ */
+export async function scanStoredUpload(
+  open: () => Promise<AsyncIterable<Uint8Array>>,
+  filename: string,
+  options: { size: number; mimeType?: string | null; uploadedBy?: string | null }
+): Promise<UploadScanResult> {
+  if (options.size <= SCAN_IN_MEMORY_BYTES) {
+    const chunks: Buffer[] = []
+    for await (const chunk of await open()) chunks.push(Buffer.from(chunk))
+    return scanUpload(Buffer.concat(chunks), filename, options)
+  }
+
+  const scanner = getVirusScanner()
+  const macros = createOfficeMacroCheck(filename)
+  const hash = createHash('sha256')
+  let verdict: ScanVerdict = { clean: true }
+  try {
+    const stream = await open()
+    const checked = (async function* () {
+      for await (const chunk of stream) {
+        hash.update(chunk)
+        macros.update(chunk)
+        yield chunk
+      }
+    })()
+    // Macro-enabled formats are rejected by name; they are only read for the quarantine hash
+    if (scanner === noopScanner || macros.signature()) {
+      for await (const chunk of checked) void chunk
+    } else {
+      verdict = await scanner.scan(checked)
+    }
+  } catch (err) {
+    console.error(`[virus-scan] ${scanner.name} scan failed for '${filename}':`, err)
+    if (process.env.VIRUS_SCAN_FAIL_OPEN === 'true') return { ok: true, scanner: scanner.name }
+    return { ok: false, scanner: scanner.name, reason: 'The file could not be scanned for viruses. Please try again later.', unavailable: true }
+  }
+
+  const macroSignature = macros.signature()
+  const signature = macroSignature || (verdict.clean ? null : verdict.signature)
+  const scannerName = macroSignature ? 'macro-check' : scanner.name
+  if (!signature) return { ok: true, scanner: scannerName }
+
+  console.warn(`[virus-scan] Rejected '${filename}' from ${options.uploadedBy || 'unknown'}: ${signature}`)
+  await quarantineFile({ sha256: hash.digest('hex'), size: options.size }, filename, options.mimeType ?? null, signature, scannerName, options.uploadedBy ?? null)
+  return { ok: false, scanner: scannerName, reason: rejectionReason(signature) }
+}
@@ -22,6 +22,8 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // Native/wasm packages used for PDF text extraction must not be bundled
+  serverExternalPackages: ['@napi-rs/canvas', 'tesseract.js'],
   experimental: {
     webpackBuildWorker: true,
     parallelServerBuildTraces: true,
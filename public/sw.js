@@ -0,0 +1,32 @@
+// Service worker for Web Push: shows pushes sent by lib/push.ts and opens their link on click.
+
+self.addEventListener('push', (event) => {
+  let payload = {}
+  try {
+    payload = event.data ? event.data.json() : {}
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' }
+  }
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'PEC.UP', {
+      body: payload.body || '',
+      tag: payload.tag,
+      icon: '/icon.png',
+      badge: '/icon.png',
+      data: { url: payload.url || '/' }
+    })
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // Reuse an open tab of the app if there is one
+      const existing = windows.find((w) => w.url.startsWith(self.location.origin))
+      if (existing) return existing.navigate(url).then((w) => (w || existing).focus())
+      return self.clients.openWindow(url)
+    })
+  )
+})
@@ -0,0 +1,131 @@
+-- Migration: Full-text search over resources
+-- Adds a generated tsvector column, a GIN index and a scoped search_resources() RPC used by /api/search
+
+BEGIN;
+
+-- 1) Generated search vector (title > subject > category > description)
+ALTER TABLE public.resources
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(title, name, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(subject, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(category, '')), 'C') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'D')
+  ) STORED;
+
+COMMENT ON COLUMN public.resources.search_vector IS 'Weighted full-text vector over title, subject, category and description';
+
+-- 2) Index
+CREATE INDEX IF NOT EXISTS idx_resources_search_vector ON public.resources USING gin (search_vector);
+
+-- 3) Search function
+-- Scope is resolved by the API (lib/search.ts) and passed in:
+--   p_unrestricted  admins/superadmins see everything
+--   p_classes       [{ "branch_id": ..., "year_id": ... }] branch/year pairs the caller can read
+--   p_semester_id   student semester (resources without a semester always match)
+--   p_shared        [{ "subject": "cn", "year_id": ..., "branch_ids": [...] }] common subjects shared across branches
+-- Highlights are wrapped in U+27E6/U+27E7 markers so the client can render them without raw HTML.
+CREATE OR REPLACE FUNCTION public.search_resources(
+  p_query text,
+  p_unrestricted boolean DEFAULT false,
+  p_classes jsonb DEFAULT '[]'::jsonb,
+  p_semester_id uuid DEFAULT NULL,
+  p_shared jsonb DEFAULT '[]'::jsonb,
+  p_category text DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  category text,
+  subject text,
+  unit integer,
+  type text,
+  url text,
+  drive_link text,
+  branch_id uuid,
+  year_id uuid,
+  semester_id uuid,
+  created_at timestamptz,
+  rank real,
+  title_highlight text,
+  snippet text,
+  total_count bigint
+) AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english'::regconfig, p_query) ||
+      coalesce(
+        (
+          SELECT to_tsquery('simple'::regconfig, string_agg(quote_literal(term) || ':*', ' & '))
+          FROM unnest(regexp_split_to_array(trim(regexp_replace(lower(p_query), '[^a-z0-9]+', ' ', 'g')), '\s+')) AS term
+          WHERE term <> ''
+        ),
+        ''::tsquery
+      ) AS query
+  ),
+  matches AS (
+    SELECT r.*, ts_rank_cd(r.search_vector, q.query) AS rank, q.query
+    FROM public.resources r, q
+    WHERE r.search_vector @@ q.query
+      AND r.deleted_at IS NULL
+      AND coalesce(r.archived, false) = false
+      AND (p_category IS NULL OR r.category = p_category)
+      AND (
+        p_unrestricted
+        OR (
+          (p_semester_id IS NULL OR r.semester_id IS NULL OR r.semester_id = p_semester_id)
+          AND (
+            EXISTS (
+              SELECT 1
+              FROM jsonb_array_elements(p_classes) AS c
+              WHERE c->>'branch_id' = r.branch_id::text
+                AND c->>'year_id' = r.year_id::text
+            )
+            OR EXISTS (
+              SELECT 1
+              FROM jsonb_array_elements(p_shared) AS s
+              WHERE lower(s->>'subject') = lower(r.subject)
+                AND s->>'year_id' = r.year_id::text
+                AND r.branch_id::text IN (SELECT jsonb_array_elements_text(s->'branch_ids'))
+            )
+          )
+        )
+      )
+  )
+  SELECT
+    m.id,
+    coalesce(m.title, m.name) AS title,
+    m.description,
+    m.category,
+    m.subject,
+    m.unit,
+    m.type,
+    m.url,
+    m.drive_link,
+    m.branch_id,
+    m.year_id,
+    m.semester_id,
+    m.created_at,
+    m.rank,
+    ts_headline('english'::regconfig, coalesce(m.title, m.name, ''), m.query,
+      'StartSel="⟦", StopSel="⟧", HighlightAll=true') AS title_highlight,
+    ts_headline('english'::regconfig, coalesce(m.description, ''), m.query,
+      'StartSel="⟦", StopSel="⟧", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "') AS snippet,
+    count(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY m.rank DESC, m.created_at DESC
+  LIMIT greatest(1, least(p_limit, 100))
+  OFFSET greatest(0, p_offset);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION public.search_resources IS 'Ranked, scoped full-text search over resources with highlighted title and snippet';
+
+-- 4) Only server-side code (service role) may call the search RPC
+REVOKE ALL ON FUNCTION public.search_resources(text, boolean, jsonb, uuid, jsonb, text, integer, integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.search_resources(text, boolean, jsonb, uuid, jsonb, text, integer, integer) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_resources(text, boolean, jsonb, uuid, jsonb, text, integer, integer) TO service_role;
+
+COMMIT;
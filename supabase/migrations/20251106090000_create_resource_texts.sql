@@ -0,0 +1,164 @@
+-- Migration: Extracted PDF text for resources
+-- Stores text pulled from uploaded PDFs (text layer or OCR) and makes it part of search_resources()
+
+BEGIN;
+
+-- 1) Table
+CREATE TABLE IF NOT EXISTS public.resource_texts (
+  resource_id uuid PRIMARY KEY REFERENCES public.resources(id) ON DELETE CASCADE,
+  content text,
+  page_count integer,
+  method text NOT NULL DEFAULT 'none' CHECK (method IN ('text', 'ocr', 'mixed', 'none')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done', 'failed', 'skipped')),
+  error text,
+  search_vector tsvector GENERATED ALWAYS AS (to_tsvector('english'::regconfig, coalesce(content, ''))) STORED,
+  extracted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.resource_texts IS 'Text extracted from resource PDFs for full-text search';
+COMMENT ON COLUMN public.resource_texts.content IS 'Extracted text, truncated to the indexing limit';
+COMMENT ON COLUMN public.resource_texts.method IS 'text = PDF text layer, ocr = scanned pages, mixed = both, none = nothing extracted';
+COMMENT ON COLUMN public.resource_texts.status IS 'pending, done, failed (retried by backfill) or skipped (not a PDF / file unavailable)';
+
+CREATE INDEX IF NOT EXISTS idx_resource_texts_search_vector ON public.resource_texts USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_resource_texts_status ON public.resource_texts(status);
+
+-- 2) updated_at trigger
+CREATE OR REPLACE FUNCTION public.set_updated_at_timestamp()
+RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_resource_texts_updated_at ON public.resource_texts;
+CREATE TRIGGER set_resource_texts_updated_at
+BEFORE UPDATE ON public.resource_texts
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at_timestamp();
+
+-- 3) RLS configuration (service role only)
+ALTER TABLE public.resource_texts ENABLE ROW LEVEL SECURITY;
+
+-- 4) Search over metadata and extracted content
+-- Same signature as before; content matches rank below metadata matches and
+-- fall back to a content snippet when the description has nothing to highlight.
+CREATE OR REPLACE FUNCTION public.search_resources(
+  p_query text,
+  p_unrestricted boolean DEFAULT false,
+  p_classes jsonb DEFAULT '[]'::jsonb,
+  p_semester_id uuid DEFAULT NULL,
+  p_shared jsonb DEFAULT '[]'::jsonb,
+  p_category text DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  category text,
+  subject text,
+  unit integer,
+  type text,
+  url text,
+  drive_link text,
+  branch_id uuid,
+  year_id uuid,
+  semester_id uuid,
+  created_at timestamptz,
+  rank real,
+  title_highlight text,
+  snippet text,
+  total_count bigint
+) AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english'::regconfig, p_query) ||
+      coalesce(
+        (
+          SELECT to_tsquery('simple'::regconfig, string_agg(quote_literal(term) || ':*', ' & '))
+          FROM unnest(regexp_split_to_array(trim(regexp_replace(lower(p_query), '[^a-z0-9]+', ' ', 'g')), '\s+')) AS term
+          WHERE term <> ''
+        ),
+        ''::tsquery
+      ) AS query
+  ),
+  matches AS (
+    SELECT
+      r.*,
+      t.content,
+      (ts_rank_cd(r.search_vector, q.query) + 0.5 * coalesce(ts_rank_cd(t.search_vector, q.query), 0))::real AS rank,
+      (t.search_vector IS NOT NULL AND t.search_vector @@ q.query) AS content_match,
+      (r.description IS NOT NULL AND to_tsvector('english'::regconfig, r.description) @@ q.query) AS description_match,
+      q.query
+    FROM public.resources r
+    CROSS JOIN q
+    LEFT JOIN public.resource_texts t ON t.resource_id = r.id AND t.status = 'done'
+    WHERE (r.search_vector @@ q.query OR t.search_vector @@ q.query)
+      AND r.deleted_at IS NULL
+      AND coalesce(r.archived, false) = false
+      AND (p_category IS NULL OR r.category = p_category)
+      AND (
+        p_unrestricted
+        OR (
+          (p_semester_id IS NULL OR r.semester_id IS NULL OR r.semester_id = p_semester_id)
+          AND (
+            EXISTS (
+              SELECT 1
+              FROM jsonb_array_elements(p_classes) AS c
+              WHERE c->>'branch_id' = r.branch_id::text
+                AND c->>'year_id' = r.year_id::text
+            )
+            OR EXISTS (
+              SELECT 1
+              FROM jsonb_array_elements(p_shared) AS s
+              WHERE lower(s->>'subject') = lower(r.subject)
+                AND s->>'year_id' = r.year_id::text
+                AND r.branch_id::text IN (SELECT jsonb_array_elements_text(s->'branch_ids'))
+            )
+          )
+        )
+      )
+  ),
+  page AS (
+    SELECT m.*, count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.created_at DESC
+    LIMIT greatest(1, least(p_limit, 100))
+    OFFSET greatest(0, p_offset)
+  )
+  SELECT
+    p.id,
+    coalesce(p.title, p.name) AS title,
+    p.description,
+    p.category,
+    p.subject,
+    p.unit,
+    p.type,
+    p.url,
+    p.drive_link,
+    p.branch_id,
+    p.year_id,
+    p.semester_id,
+    p.created_at,
+    p.rank,
+    ts_headline('english'::regconfig, coalesce(p.title, p.name, ''), p.query,
+      'StartSel="⟦", StopSel="⟧", HighlightAll=true') AS title_highlight,
+    CASE
+      WHEN p.content_match AND NOT p.description_match THEN
+        ts_headline('english'::regconfig, p.content, p.query,
+          'StartSel="⟦", StopSel="⟧", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+      ELSE
+        ts_headline('english'::regconfig, coalesce(p.description, ''), p.query,
+          'StartSel="⟦", StopSel="⟧", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+    END AS snippet,
+    p.total_count
+  FROM page p
+  ORDER BY p.rank DESC, p.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+COMMIT;
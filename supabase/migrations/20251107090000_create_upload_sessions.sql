@@ -0,0 +1,56 @@
+-- Migration: Resumable chunked upload sessions
+-- Tracks uploads relayed in parts to a Google Drive resumable session or Supabase Storage (TUS)
+
+BEGIN;
+
+-- 1) Table
+CREATE TABLE IF NOT EXISTS public.upload_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_email text NOT NULL,
+  backend text NOT NULL CHECK (backend IN ('drive', 'storage')),
+  upstream_url text NOT NULL,
+  bucket text,
+  object_path text,
+  drive_file_id text,
+  filename text NOT NULL,
+  mime_type text NOT NULL,
+  size_bytes bigint NOT NULL CHECK (size_bytes > 0),
+  visibility text NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'private')),
+  received_bytes bigint NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'uploading' CHECK (status IN ('uploading', 'completed', 'consumed', 'aborted')),
+  file_url text,
+  resource_id uuid REFERENCES public.resources(id) ON DELETE SET NULL,
+  expires_at timestamptz NOT NULL DEFAULT (now() + interval '7 days'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.upload_sessions IS 'Resumable chunked uploads; one row per file being uploaded in parts';
+COMMENT ON COLUMN public.upload_sessions.upstream_url IS 'Drive resumable session URI or Supabase TUS upload URL (server-side only)';
+COMMENT ON COLUMN public.upload_sessions.visibility IS 'public: stored like resource links; private: secure bucket / unshared Drive file';
+COMMENT ON COLUMN public.upload_sessions.received_bytes IS 'Bytes acknowledged by the upstream store; next part must start here';
+COMMENT ON COLUMN public.upload_sessions.status IS 'uploading -> completed (all bytes stored) -> consumed (claimed by a create request, resource_id set once created), or aborted';
+COMMENT ON COLUMN public.upload_sessions.file_url IS 'Final file URL once completed';
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_owner ON public.upload_sessions(owner_email);
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_status_expires ON public.upload_sessions(status, expires_at);
+
+-- 2) updated_at trigger
+CREATE OR REPLACE FUNCTION public.set_updated_at_timestamp()
+RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_upload_sessions_updated_at ON public.upload_sessions;
+CREATE TRIGGER set_upload_sessions_updated_at
+BEFORE UPDATE ON public.upload_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at_timestamp();
+
+-- 3) RLS configuration (service role only; upstream URLs must never reach clients)
+ALTER TABLE public.upload_sessions ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
@@ -0,0 +1,18 @@
+-- Migration: Content-hash deduplication for resources
+-- Stores a SHA-256 of each uploaded file so the same notes can't be uploaded twice for one subject offering
+
+BEGIN;
+
+-- 1) Hash columns
+ALTER TABLE public.resources ADD COLUMN IF NOT EXISTS content_hash text;
+ALTER TABLE public.upload_sessions ADD COLUMN IF NOT EXISTS content_hash text;
+
+COMMENT ON COLUMN public.resources.content_hash IS 'Hex SHA-256 of the uploaded file; NULL for link-only resources and uploads made before hashing';
+COMMENT ON COLUMN public.upload_sessions.content_hash IS 'Hex SHA-256 of the assembled file, computed when the upload completes';
+
+-- 2) Lookup index for duplicate checks (same file within a subject offering)
+CREATE INDEX IF NOT EXISTS idx_resources_content_hash_offering
+  ON public.resources(content_hash, branch_id, year_id, semester_id)
+  WHERE content_hash IS NOT NULL AND deleted_at IS NULL;
+
+COMMIT;
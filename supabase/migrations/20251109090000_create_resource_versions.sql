@@ -0,0 +1,60 @@
+-- Migration: Resource version history
+-- Every create, metadata edit, file replacement or rollback stores a snapshot of the resource.
+-- Replaced files are no longer deleted, so any version's file can be restored.
+
+BEGIN;
+
+-- 1) Table
+CREATE TABLE IF NOT EXISTS public.resource_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id uuid NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+  version_number integer NOT NULL CHECK (version_number > 0),
+  change_type text NOT NULL CHECK (change_type IN ('create', 'metadata', 'file', 'restore')),
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  snapshot jsonb NOT NULL,
+  url text,
+  drive_link text,
+  file_type text,
+  content_hash text,
+  restored_from integer,
+  created_by_email text,
+  created_by_role text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (resource_id, version_number)
+);
+
+COMMENT ON TABLE public.resource_versions IS 'Snapshots of a resource after each change; the highest version_number matches the live row';
+COMMENT ON COLUMN public.resource_versions.snapshot IS 'Versioned resource fields as they were after this change';
+COMMENT ON COLUMN public.resource_versions.url IS 'File URL for this version; the storage object is kept until the resource is purged';
+COMMENT ON COLUMN public.resource_versions.restored_from IS 'Version number copied when change_type = restore';
+COMMENT ON COLUMN public.resource_versions.created_by_email IS 'Who made the change (uploader for file versions); NULL for backfilled rows';
+
+CREATE INDEX IF NOT EXISTS idx_resource_versions_resource ON public.resource_versions(resource_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_resource_versions_url ON public.resource_versions(url);
+
+-- 2) Backfill version 1 for existing resources
+INSERT INTO public.resource_versions (resource_id, version_number, change_type, snapshot, url, drive_link, file_type, content_hash, created_at)
+SELECT
+  r.id,
+  1,
+  'create',
+  jsonb_build_object(
+    'title', r.title, 'name', r.name, 'description', r.description,
+    'category', r.category, 'subject', r.subject, 'unit', r.unit, 'type', r.type,
+    'year', r.year, 'branch', r.branch, 'semester', r.semester,
+    'branch_id', r.branch_id, 'year_id', r.year_id, 'semester_id', r.semester_id,
+    'archived', r.archived, 'url', r.url, 'drive_link', r.drive_link,
+    'file_type', r.file_type, 'is_pdf', r.is_pdf, 'content_hash', r.content_hash
+  ),
+  r.url,
+  r.drive_link,
+  r.file_type,
+  r.content_hash,
+  coalesce(r.created_at, now())
+FROM public.resources r
+WHERE NOT EXISTS (SELECT 1 FROM public.resource_versions v WHERE v.resource_id = r.id);
+
+-- 3) RLS configuration (service role only)
+ALTER TABLE public.resource_versions ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
@@ -0,0 +1,21 @@
+-- Migration: Trash bin for soft-deleted resources
+-- Deleting a resource now only moves it to the trash; a scheduled job purges it after the retention period
+
+BEGIN;
+
+-- 1) Who trashed the resource
+ALTER TABLE public.resources ADD COLUMN IF NOT EXISTS deleted_by text;
+
+COMMENT ON COLUMN public.resources.deleted_at IS 'Set when the resource is moved to the trash; purged after settings.trash_retention_days';
+COMMENT ON COLUMN public.resources.deleted_by IS 'Email of the user who moved the resource to the trash';
+
+CREATE INDEX IF NOT EXISTS idx_resources_trash ON public.resources(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- 2) Retention setting
+ALTER TABLE IF EXISTS public.settings
+  ADD COLUMN IF NOT EXISTS trash_retention_days integer NOT NULL DEFAULT 30
+  CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+COMMENT ON COLUMN public.settings.trash_retention_days IS 'Days a trashed resource can be restored before it and its files are permanently deleted';
+
+COMMIT;
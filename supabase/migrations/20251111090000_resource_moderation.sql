@@ -0,0 +1,170 @@
+-- Migration: Moderation queue for representative uploads
+-- When settings.require_rep_approval is on, rep uploads start as pending and stay hidden from students
+-- until an admin approves them. Uploaders are told the outcome through in-app notifications.
+
+BEGIN;
+
+-- 1) Moderation state on resources (existing rows are already published)
+ALTER TABLE public.resources
+  ADD COLUMN IF NOT EXISTS moderation_status text NOT NULL DEFAULT 'approved'
+    CHECK (moderation_status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS moderation_reason text,
+  ADD COLUMN IF NOT EXISTS moderated_by text,
+  ADD COLUMN IF NOT EXISTS moderated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS submitted_by text;
+
+COMMENT ON COLUMN public.resources.moderation_status IS 'pending (awaiting admin review), approved (visible to students) or rejected';
+COMMENT ON COLUMN public.resources.moderation_reason IS 'Reviewer note; required when rejecting';
+COMMENT ON COLUMN public.resources.submitted_by IS 'Email of the uploader, used to notify them of the moderation decision';
+
+CREATE INDEX IF NOT EXISTS idx_resources_moderation_pending
+  ON public.resources(created_at)
+  WHERE moderation_status = 'pending' AND deleted_at IS NULL;
+
+-- 2) Settings flag
+ALTER TABLE IF EXISTS public.settings
+  ADD COLUMN IF NOT EXISTS require_rep_approval boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS rep_approval_categories text[] NOT NULL DEFAULT '{papers}';
+
+COMMENT ON COLUMN public.settings.require_rep_approval IS 'Hold representative uploads for admin approval';
+COMMENT ON COLUMN public.settings.rep_approval_categories IS 'Categories that need approval when require_rep_approval is on; empty means every category';
+
+-- 3) In-app notifications
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_email text NOT NULL,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text,
+  link text,
+  data jsonb,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.notifications IS 'In-app notifications shown to a user (e.g. moderation decisions on their uploads)';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient ON public.notifications(recipient_email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications(recipient_email) WHERE read_at IS NULL;
+
+-- 4) RLS configuration (service role only)
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- 5) Search only returns approved resources
+CREATE OR REPLACE FUNCTION public.search_resources(
+  p_query text,
+  p_unrestricted boolean DEFAULT false,
+  p_classes jsonb DEFAULT '[]'::jsonb,
+  p_semester_id uuid DEFAULT NULL,
+  p_shared jsonb DEFAULT '[]'::jsonb,
+  p_category text DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  category text,
+  subject text,
+  unit integer,
+  type text,
+  url text,
+  drive_link text,
+  branch_id uuid,
+  year_id uuid,
+  semester_id uuid,
+  created_at timestamptz,
+  rank real,
+  title_highlight text,
+  snippet text,
+  total_count bigint
+) AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english'::regconfig, p_query) ||
+      coalesce(
+        (
+          SELECT to_tsquery('simple'::regconfig, string_agg(quote_literal(term) || ':*', ' & '))
+          FROM unnest(regexp_split_to_array(trim(regexp_replace(lower(p_query), '[^a-z0-9]+', ' ', 'g')), '\s+')) AS term
+          WHERE term <> ''
+        ),
+        ''::tsquery
+      ) AS query
+  ),
+  matches AS (
+    SELECT
+      r.*,
+      t.content,
+      (ts_rank_cd(r.search_vector, q.query) + 0.5 * coalesce(ts_rank_cd(t.search_vector, q.query), 0))::real AS rank,
+      (t.search_vector IS NOT NULL AND t.search_vector @@ q.query) AS content_match,
+      (r.description IS NOT NULL AND to_tsvector('english'::regconfig, r.description) @@ q.query) AS description_match,
+      q.query
+    FROM public.resources r
+    CROSS JOIN q
+    LEFT JOIN public.resource_texts t ON t.resource_id = r.id AND t.status = 'done'
+    WHERE (r.search_vector @@ q.query OR t.search_vector @@ q.query)
+      AND r.deleted_at IS NULL
+      AND r.moderation_status = 'approved'
+      AND coalesce(r.archived, false) = false
+      AND (p_category IS NULL OR r.category = p_category)
+      AND (
+        p_unrestricted
+        OR (
+          (p_semester_id IS NULL OR r.semester_id IS NULL OR r.semester_id = p_semester_id)
+          AND (
+            EXISTS (
+              SELECT 1
+              FROM jsonb_array_elements(p_classes) AS c
+              WHERE c->>'branch_id' = r.branch_id::text
+                AND c->>'year_id' = r.year_id::text
+            )
+            OR EXISTS (
+              SELECT 1
+              FROM jsonb_array_elements(p_shared) AS s
+              WHERE lower(s->>'subject') = lower(r.subject)
+                AND s->>'year_id' = r.year_id::text
+                AND r.branch_id::text IN (SELECT jsonb_array_elements_text(s->'branch_ids'))
+            )
+          )
+        )
+      )
+  ),
+  page AS (
+    SELECT m.*, count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY m.rank DESC, m.created_at DESC
+    LIMIT greatest(1, least(p_limit, 100))
+    OFFSET greatest(0, p_offset)
+  )
+  SELECT
+    p.id,
+    coalesce(p.title, p.name) AS title,
+    p.description,
+    p.category,
+    p.subject,
+    p.unit,
+    p.type,
+    p.url,
+    p.drive_link,
+    p.branch_id,
+    p.year_id,
+    p.semester_id,
+    p.created_at,
+    p.rank,
+    ts_headline('english'::regconfig, coalesce(p.title, p.name, ''), p.query,
+      'StartSel="⟦", StopSel="⟧", HighlightAll=true') AS title_highlight,
+    CASE
+      WHEN p.content_match AND NOT p.description_match THEN
+        ts_headline('english'::regconfig, p.content, p.query,
+          'StartSel="⟦", StopSel="⟧", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+      ELSE
+        ts_headline('english'::regconfig, coalesce(p.description, ''), p.query,
+          'StartSel="⟦", StopSel="⟧", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+    END AS snippet,
+    p.total_count
+  FROM page p
+  ORDER BY p.rank DESC, p.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+COMMIT;
@@ -0,0 +1,120 @@
+-- Migration: Per-resource download analytics
+-- One row per file access served through secure URLs, the secure-file proxy or ZIP exports,
+-- plus aggregation RPCs for the admin analytics API.
+
+BEGIN;
+
+-- 1) Download events
+CREATE TABLE IF NOT EXISTS public.resource_downloads (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  resource_id uuid NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+  user_email text,
+  user_role text,
+  branch_id uuid,
+  year_id uuid,
+  semester_id uuid,
+  source text NOT NULL CHECK (source IN ('signed_url', 'secure_file', 'export')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.resource_downloads IS 'File accesses per resource, used for download analytics';
+COMMENT ON COLUMN public.resource_downloads.branch_id IS 'Downloader''s branch at the time (null for staff)';
+COMMENT ON COLUMN public.resource_downloads.source IS 'signed_url (generateSecureFileUrl), secure_file (/api/secure-file proxy) or export (ZIP download)';
+
+CREATE INDEX IF NOT EXISTS idx_resource_downloads_resource ON public.resource_downloads(resource_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_resource_downloads_created ON public.resource_downloads(created_at);
+
+-- 2) RLS configuration (service role only)
+ALTER TABLE public.resource_downloads ENABLE ROW LEVEL SECURITY;
+
+-- 3) Per-resource counts, including resources nobody downloaded in the window
+CREATE OR REPLACE FUNCTION public.resource_download_counts(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_classes jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  resource_id uuid,
+  title text,
+  category text,
+  subject text,
+  unit integer,
+  branch_id uuid,
+  year_id uuid,
+  downloads bigint,
+  unique_users bigint,
+  last_downloaded_at timestamptz
+) AS $$
+  SELECT
+    r.id,
+    coalesce(r.title, r.name),
+    r.category,
+    r.subject,
+    r.unit,
+    r.branch_id,
+    r.year_id,
+    count(d.id),
+    count(DISTINCT d.user_email),
+    max(d.created_at)
+  FROM public.resources r
+  LEFT JOIN public.resource_downloads d
+    ON d.resource_id = r.id AND d.created_at >= p_from AND d.created_at < p_to
+  WHERE r.deleted_at IS NULL
+    AND r.moderation_status = 'approved'
+    AND (
+      p_classes IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_classes) AS c
+        WHERE (c->>'branch_id' IS NULL OR c->>'branch_id' = r.branch_id::text)
+          AND (c->>'year_id' IS NULL OR c->>'year_id' = r.year_id::text)
+      )
+    )
+  GROUP BY r.id
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION public.resource_download_counts IS 'Download and unique-user counts per live resource within [p_from, p_to), optionally scoped to branch/year pairs';
+
+-- 4) Daily totals
+CREATE OR REPLACE FUNCTION public.resource_download_daily(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_classes jsonb DEFAULT NULL,
+  p_tz text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  day date,
+  downloads bigint,
+  unique_users bigint
+) AS $$
+  SELECT
+    (d.created_at AT TIME ZONE p_tz)::date AS day,
+    count(*),
+    count(DISTINCT d.user_email)
+  FROM public.resource_downloads d
+  JOIN public.resources r ON r.id = d.resource_id
+  WHERE d.created_at >= p_from AND d.created_at < p_to
+    AND (
+      p_classes IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_classes) AS c
+        WHERE (c->>'branch_id' IS NULL OR c->>'branch_id' = r.branch_id::text)
+          AND (c->>'year_id' IS NULL OR c->>'year_id' = r.year_id::text)
+      )
+    )
+  GROUP BY 1
+  ORDER BY 1
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION public.resource_download_daily IS 'Downloads per day in time zone p_tz within [p_from, p_to), optionally scoped to branch/year pairs';
+
+-- 5) Only server-side code (service role) may call the analytics RPCs
+REVOKE ALL ON FUNCTION public.resource_download_counts(timestamptz, timestamptz, jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.resource_download_counts(timestamptz, timestamptz, jsonb) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resource_download_counts(timestamptz, timestamptz, jsonb) TO service_role;
+REVOKE ALL ON FUNCTION public.resource_download_daily(timestamptz, timestamptz, jsonb, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.resource_download_daily(timestamptz, timestamptz, jsonb, text) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resource_download_daily(timestamptz, timestamptz, jsonb, text) TO service_role;
+
+COMMIT;
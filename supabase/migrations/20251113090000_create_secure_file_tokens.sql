@@ -0,0 +1,99 @@
+-- Migration: Registry for secure file tokens
+-- Every /api/secure-file token carries a jti recorded here, so outstanding links can be revoked
+-- (e.g. when a resource is deleted or archived) and limited to a number of uses.
+
+BEGIN;
+
+-- 1) Per-resource use limit for new links (null = unlimited until expiry)
+ALTER TABLE public.resources
+  ADD COLUMN IF NOT EXISTS secure_link_max_uses integer CHECK (secure_link_max_uses IS NULL OR secure_link_max_uses > 0);
+
+COMMENT ON COLUMN public.resources.secure_link_max_uses IS 'Uses allowed per secure file link (1 = single use); null for unlimited';
+
+-- 2) Issued tokens
+CREATE TABLE IF NOT EXISTS public.secure_file_tokens (
+  jti uuid PRIMARY KEY,
+  resource_id uuid NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+  file_id text NOT NULL,
+  issued_to text NOT NULL,
+  max_uses integer CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  revoked_by text,
+  revoke_reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.secure_file_tokens IS 'Outstanding and past /api/secure-file links, keyed by the JWT jti';
+COMMENT ON COLUMN public.secure_file_tokens.issued_to IS 'Email of the user the link was generated for';
+COMMENT ON COLUMN public.secure_file_tokens.max_uses IS 'Copied from resources.secure_link_max_uses when the link was issued';
+
+CREATE INDEX IF NOT EXISTS idx_secure_file_tokens_resource_active
+  ON public.secure_file_tokens(resource_id)
+  WHERE revoked_at IS NULL;
+
+-- 3) Use log: every redemption attempt, allowed or not
+CREATE TABLE IF NOT EXISTS public.secure_file_token_uses (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  jti uuid NOT NULL REFERENCES public.secure_file_tokens(jti) ON DELETE CASCADE,
+  user_email text,
+  status text NOT NULL CHECK (status IN ('ok', 'revoked', 'expired', 'exhausted')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.secure_file_token_uses IS 'Audit trail of secure file link redemptions, including refused ones';
+
+CREATE INDEX IF NOT EXISTS idx_secure_file_token_uses_jti ON public.secure_file_token_uses(jti, created_at);
+
+-- 4) RLS configuration (service role only)
+ALTER TABLE public.secure_file_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.secure_file_token_uses ENABLE ROW LEVEL SECURITY;
+
+-- 5) Redeem a token atomically: checks state, counts the use and logs the attempt
+CREATE OR REPLACE FUNCTION public.consume_secure_file_token(p_jti uuid, p_user_email text)
+RETURNS TABLE (
+  status text,
+  resource_id uuid,
+  file_id text,
+  uses_remaining integer
+) AS $$
+DECLARE
+  t public.secure_file_tokens%ROWTYPE;
+  v_status text;
+BEGIN
+  SELECT * INTO t FROM public.secure_file_tokens WHERE jti = p_jti FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::uuid, NULL::text, NULL::integer;
+    RETURN;
+  END IF;
+
+  IF t.revoked_at IS NOT NULL THEN
+    v_status := 'revoked';
+  ELSIF t.expires_at <= now() THEN
+    v_status := 'expired';
+  ELSIF t.max_uses IS NOT NULL AND t.use_count >= t.max_uses THEN
+    v_status := 'exhausted';
+  ELSE
+    v_status := 'ok';
+    UPDATE public.secure_file_tokens
+      SET use_count = use_count + 1, last_used_at = now()
+      WHERE jti = p_jti
+      RETURNING * INTO t;
+  END IF;
+
+  INSERT INTO public.secure_file_token_uses (jti, user_email, status) VALUES (p_jti, p_user_email, v_status);
+
+  RETURN QUERY SELECT v_status, t.resource_id, t.file_id,
+    CASE WHEN t.max_uses IS NULL THEN NULL ELSE t.max_uses - t.use_count END;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.consume_secure_file_token IS 'Count one use of a secure file link; status is ok, not_found, revoked, expired or exhausted';
+
+REVOKE ALL ON FUNCTION public.consume_secure_file_token(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.consume_secure_file_token(uuid, text) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_secure_file_token(uuid, text) TO service_role;
+
+COMMIT;
@@ -0,0 +1,13 @@
+-- Migration: Restricted resources
+-- Files of restricted resources (e.g. faculty question banks) are only served through /api/secure-file,
+-- which stamps PDFs with the downloading student's identity so leaked copies can be traced.
+
+BEGIN;
+
+-- 1) Restricted flag (existing resources stay unrestricted)
+ALTER TABLE public.resources
+  ADD COLUMN IF NOT EXISTS restricted boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.resources.restricted IS 'Serve only through the secure file proxy and watermark PDFs per download';
+
+COMMIT;
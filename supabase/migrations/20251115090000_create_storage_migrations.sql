@@ -0,0 +1,43 @@
+-- Migration: Track copying Drive-hosted resources into the secure Storage bucket
+-- One row per resource the admin migration job has picked up, so the job can resume where it
+-- stopped and failures stay visible until retried.
+
+BEGIN;
+
+-- 1) Table
+CREATE TABLE IF NOT EXISTS public.resource_storage_migrations (
+  resource_id uuid PRIMARY KEY REFERENCES public.resources(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'copying' CHECK (status IN ('copying', 'done', 'failed')),
+  drive_file_id text NOT NULL,
+  source_url text,
+  target_path text,
+  size_bytes bigint,
+  sha256 text,
+  attempts integer NOT NULL DEFAULT 1,
+  error text,
+  drive_deleted_at timestamptz,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.resource_storage_migrations IS 'Progress of moving resource files from Google Drive into the secure Storage bucket';
+COMMENT ON COLUMN public.resource_storage_migrations.status IS 'copying (claimed by a running batch), done, or failed (retried on request)';
+COMMENT ON COLUMN public.resource_storage_migrations.source_url IS 'Drive link the resource pointed at before migration';
+COMMENT ON COLUMN public.resource_storage_migrations.target_path IS 'Object path in the secure bucket, as stored in resources.file_path';
+COMMENT ON COLUMN public.resource_storage_migrations.sha256 IS 'Hex SHA-256 of the copy, verified after upload';
+COMMENT ON COLUMN public.resource_storage_migrations.drive_deleted_at IS 'When the Drive original was deleted; null while it is kept';
+
+CREATE INDEX IF NOT EXISTS idx_resource_storage_migrations_status ON public.resource_storage_migrations(status, updated_at);
+
+-- 2) updated_at trigger
+DROP TRIGGER IF EXISTS set_resource_storage_migrations_updated_at ON public.resource_storage_migrations;
+CREATE TRIGGER set_resource_storage_migrations_updated_at
+BEFORE UPDATE ON public.resource_storage_migrations
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at_timestamp();
+
+-- 3) RLS configuration (service role only)
+ALTER TABLE public.resource_storage_migrations ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
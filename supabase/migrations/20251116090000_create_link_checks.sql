@@ -0,0 +1,46 @@
+-- Migration: Broken-link and orphaned-object checks
+-- The scheduled link checker records the last result for every resource and the storage objects
+-- that no resource references, so admins hear about missing files before students do.
+
+BEGIN;
+
+-- 1) Last check per resource
+CREATE TABLE IF NOT EXISTS public.resource_link_checks (
+  resource_id uuid PRIMARY KEY REFERENCES public.resources(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('ok', 'missing', 'unreadable', 'error')),
+  provider text,
+  object_key text,
+  http_status integer,
+  error text,
+  checked_at timestamptz NOT NULL DEFAULT now(),
+  failing_since timestamptz
+);
+
+COMMENT ON TABLE public.resource_link_checks IS 'Latest result of checking that each resource''s file or link still works';
+COMMENT ON COLUMN public.resource_link_checks.status IS 'ok, missing (object or page gone), unreadable (exists but cannot be read) or error (check itself failed)';
+COMMENT ON COLUMN public.resource_link_checks.provider IS 'Storage backend holding the file (drive, supabase, s3, local), or external for plain links';
+COMMENT ON COLUMN public.resource_link_checks.failing_since IS 'First check in the current run of failures; null while the link works';
+
+CREATE INDEX IF NOT EXISTS idx_resource_link_checks_status ON public.resource_link_checks(status, checked_at);
+CREATE INDEX IF NOT EXISTS idx_resource_link_checks_checked_at ON public.resource_link_checks(checked_at);
+
+-- 2) Stored objects no resource, version or pending upload points at
+CREATE TABLE IF NOT EXISTS public.storage_orphans (
+  provider text NOT NULL,
+  object_key text NOT NULL,
+  container text,
+  size_bytes bigint,
+  last_modified timestamptz,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (provider, object_key)
+);
+
+COMMENT ON TABLE public.storage_orphans IS 'Objects found in storage during the last orphan scan that nothing in the database references';
+COMMENT ON COLUMN public.storage_orphans.container IS 'Drive folder id or bucket the object was listed from';
+
+-- 3) RLS configuration (service role only)
+ALTER TABLE public.resource_link_checks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.storage_orphans ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
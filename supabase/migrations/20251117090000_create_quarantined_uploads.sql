@@ -0,0 +1,37 @@
+-- Migration: Quarantined uploads
+-- Files rejected by the upload virus scan (ClamAV or the Office macro check) are kept in a private
+-- quarantine bucket and recorded here so admins can see who sent what.
+
+BEGIN;
+
+-- 1) Quarantine log
+CREATE TABLE IF NOT EXISTS public.quarantined_uploads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_name text NOT NULL,
+  mime_type text,
+  size_bytes bigint NOT NULL,
+  sha256 text NOT NULL,
+  signature text NOT NULL,
+  scanner text NOT NULL,
+  bucket text,
+  object_path text,
+  uploaded_by text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.quarantined_uploads IS 'Uploads rejected by the virus scan, with the detection name and where the file was quarantined';
+COMMENT ON COLUMN public.quarantined_uploads.signature IS 'Detection reported by the scanner, e.g. a ClamAV signature or Office.Macro.OOXML';
+COMMENT ON COLUMN public.quarantined_uploads.object_path IS 'Path in the quarantine bucket; null if storing the file failed';
+
+CREATE INDEX IF NOT EXISTS idx_quarantined_uploads_created_at ON public.quarantined_uploads(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quarantined_uploads_uploaded_by ON public.quarantined_uploads(uploaded_by);
+
+-- 2) Private bucket for the quarantined files themselves
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('quarantine', 'quarantine', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- 3) RLS configuration (service role only)
+ALTER TABLE public.quarantined_uploads ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Migration: Resource preview images
+-- Each uploaded PDF or image gets a small preview (first page or downscaled copy) so the subject page
+-- can show resources in a grid. Previews are private and served through /api/resources/[id]/thumbnail.
+
+BEGIN;
+
+-- 1) Preview location and generation state
+ALTER TABLE public.resources
+  ADD COLUMN IF NOT EXISTS thumbnail_path text,
+  ADD COLUMN IF NOT EXISTS thumbnail_status text
+    CHECK (thumbnail_status IS NULL OR thumbnail_status IN ('done', 'failed', 'skipped'));
+
+COMMENT ON COLUMN public.resources.thumbnail_path IS 'Stored preview image, in the same form as file_path; null when there is no preview';
+COMMENT ON COLUMN public.resources.thumbnail_status IS 'done, failed (retried by the backfill), skipped (no preview for this file type) or null when not attempted yet';
+
+-- 2) Backfill looks up resources without a preview attempt
+CREATE INDEX IF NOT EXISTS idx_resources_thumbnail_pending ON public.resources(created_at DESC)
+  WHERE thumbnail_status IS NULL AND deleted_at IS NULL;
+
+COMMIT;
@@ -0,0 +1,16 @@
+-- Migration: PDF renditions of Office uploads
+-- Word and PowerPoint uploads are converted to PDF with headless LibreOffice; the secure-file route
+-- serves the PDF by default and the original on request.
+
+BEGIN;
+
+-- 1) Rendition location and conversion state
+ALTER TABLE public.resources
+  ADD COLUMN IF NOT EXISTS pdf_rendition_path text,
+  ADD COLUMN IF NOT EXISTS pdf_rendition_status text
+    CHECK (pdf_rendition_status IS NULL OR pdf_rendition_status IN ('done', 'failed'));
+
+COMMENT ON COLUMN public.resources.pdf_rendition_path IS 'Stored PDF converted from an Office original, in the same form as file_path';
+COMMENT ON COLUMN public.resources.pdf_rendition_status IS 'done or failed; null for files that are not converted';
+
+COMMIT;
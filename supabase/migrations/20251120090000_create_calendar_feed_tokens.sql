@@ -0,0 +1,30 @@
+-- Migration: Calendar feed tokens
+-- Each student can subscribe to an .ics feed of their exams and reminders. Calendar apps can't sign
+-- in, so the feed URL carries a random token; only its hash is stored and it can be revoked anytime.
+
+BEGIN;
+
+-- 1) Issued feed tokens
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  token_hash text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+COMMENT ON TABLE public.calendar_feed_tokens IS 'Tokens in /api/calendar/<token>.ics subscription URLs';
+COMMENT ON COLUMN public.calendar_feed_tokens.email IS 'Student whose exams and reminders the feed shows';
+COMMENT ON COLUMN public.calendar_feed_tokens.token_hash IS 'SHA-256 of the URL token; the token itself is only shown when issued';
+COMMENT ON COLUMN public.calendar_feed_tokens.last_used_at IS 'Last time a calendar app fetched the feed';
+
+-- One live feed per student; issuing a new one revokes the old
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feed_tokens_email_active
+  ON public.calendar_feed_tokens(email)
+  WHERE revoked_at IS NULL;
+
+-- 2) RLS configuration (service role only)
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
@@ -0,0 +1,36 @@
+-- Migration: Structured exam timetable
+-- Exams only had a subject and a date. Add the sitting, times, kind of exam, venue, regulation and
+-- semester so students can see whether an exam is a mid or an end-sem and when it starts.
+
+BEGIN;
+
+-- 1) Timetable columns
+ALTER TABLE public.exams
+  ADD COLUMN IF NOT EXISTS start_time time,
+  ADD COLUMN IF NOT EXISTS end_time time,
+  ADD COLUMN IF NOT EXISTS session text CHECK (session IS NULL OR session IN ('FN', 'AN')),
+  ADD COLUMN IF NOT EXISTS exam_type text CHECK (exam_type IS NULL OR exam_type IN ('mid-1', 'mid-2', 'semester', 'supplementary', 'lab')),
+  ADD COLUMN IF NOT EXISTS venue text,
+  ADD COLUMN IF NOT EXISTS regulation text,
+  ADD COLUMN IF NOT EXISTS semester_id uuid REFERENCES public.semesters(id) ON DELETE SET NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'exams_time_range_check') THEN
+    ALTER TABLE public.exams
+      ADD CONSTRAINT exams_time_range_check CHECK (start_time IS NULL OR end_time IS NULL OR end_time > start_time);
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.exams.start_time IS 'Local start time; null when only the sitting is known';
+COMMENT ON COLUMN public.exams.end_time IS 'Local end time';
+COMMENT ON COLUMN public.exams.session IS 'FN (forenoon) or AN (afternoon) sitting';
+COMMENT ON COLUMN public.exams.exam_type IS 'mid-1, mid-2, semester, supplementary or lab';
+COMMENT ON COLUMN public.exams.venue IS 'Exam hall or lab, free text';
+COMMENT ON COLUMN public.exams.regulation IS 'Regulation the exam is set under (e.g. R23)';
+
+-- 2) Timetable lookups by class and date
+CREATE INDEX IF NOT EXISTS idx_exams_branch_year_date ON public.exams(branch, year, exam_date);
+CREATE INDEX IF NOT EXISTS idx_exams_semester_id ON public.exams(semester_id);
+
+COMMIT;
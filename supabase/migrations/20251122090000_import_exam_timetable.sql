@@ -0,0 +1,62 @@
+-- Migration: Exam timetable import
+-- Imported timetables are written by one function call so every row lands or none do. Rows with an
+-- id update that exam, only overwriting the columns the timetable filled in; the rest are inserted.
+
+BEGIN;
+
+-- 1) Import a validated timetable in a single transaction
+CREATE OR REPLACE FUNCTION public.import_exam_timetable(p_rows jsonb)
+RETURNS TABLE (
+  created integer,
+  updated integer
+) AS $$
+DECLARE
+  r jsonb;
+  v_created integer := 0;
+  v_updated integer := 0;
+BEGIN
+  FOR r IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    IF r->>'id' IS NOT NULL THEN
+      UPDATE public.exams SET
+        start_time = COALESCE((r->>'start_time')::time, start_time),
+        end_time = COALESCE((r->>'end_time')::time, end_time),
+        session = COALESCE(r->>'session', session),
+        exam_type = COALESCE(r->>'exam_type', exam_type),
+        venue = COALESCE(r->>'venue', venue),
+        regulation = COALESCE(r->>'regulation', regulation),
+        semester_id = COALESCE((r->>'semester_id')::uuid, semester_id)
+      WHERE id = (r->>'id')::uuid;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exam % no longer exists', r->>'id';
+      END IF;
+      v_updated := v_updated + 1;
+    ELSE
+      INSERT INTO public.exams (subject, exam_date, start_time, end_time, session, exam_type, venue, regulation, semester_id, year, branch)
+      VALUES (
+        r->>'subject',
+        (r->>'exam_date')::date,
+        (r->>'start_time')::time,
+        (r->>'end_time')::time,
+        r->>'session',
+        r->>'exam_type',
+        r->>'venue',
+        r->>'regulation',
+        (r->>'semester_id')::uuid,
+        (r->>'year')::integer,
+        r->>'branch'
+      );
+      v_created := v_created + 1;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT v_created, v_updated;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.import_exam_timetable IS 'Insert or update a validated exam timetable atomically; returns how many exams were created and updated';
+
+REVOKE ALL ON FUNCTION public.import_exam_timetable(jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.import_exam_timetable(jsonb) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.import_exam_timetable(jsonb) TO service_role;
+
+COMMIT;
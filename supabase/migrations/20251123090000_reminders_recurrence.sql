@@ -0,0 +1,63 @@
+-- Migration: Recurring reminders
+-- Reminders were one-shot rows. A reminder can now repeat by an RRULE (e.g. FREQ=WEEKLY;BYDAY=MO),
+-- starting on its due_date. Skipped occurrences are listed on the series, and an occurrence edited
+-- on its own is stored as a separate reminder linked to its series. A series stores its last possible
+-- occurrence (from UNTIL or COUNT) so reminder lists can skip finished ones.
+
+BEGIN;
+
+-- 1) Recurrence columns
+ALTER TABLE public.reminders
+  ADD COLUMN IF NOT EXISTS recurrence_rule text,
+  ADD COLUMN IF NOT EXISTS recurrence_exdates date[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS recurrence_parent_id uuid REFERENCES public.reminders(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS occurrence_date date,
+  ADD COLUMN IF NOT EXISTS recurrence_end_date date;
+
+COMMENT ON COLUMN public.reminders.recurrence_rule IS 'RRULE value (FREQ, INTERVAL, BYDAY, COUNT/UNTIL); due_date is the first occurrence';
+COMMENT ON COLUMN public.reminders.recurrence_exdates IS 'Occurrences of the series that were skipped or edited separately';
+COMMENT ON COLUMN public.reminders.recurrence_parent_id IS 'Series this reminder replaces one occurrence of';
+COMMENT ON COLUMN public.reminders.occurrence_date IS 'Date of the series occurrence this reminder replaces';
+COMMENT ON COLUMN public.reminders.recurrence_end_date IS 'Last possible occurrence of the series (UNTIL or the COUNT-th date); NULL when it never ends';
+
+-- 2) An edited occurrence is a one-shot reminder tied to one date of its series
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'reminders_occurrence_check') THEN
+    ALTER TABLE public.reminders
+      ADD CONSTRAINT reminders_occurrence_check CHECK (
+        recurrence_parent_id IS NULL
+        OR (recurrence_rule IS NULL AND occurrence_date IS NOT NULL)
+      );
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reminders_occurrence
+  ON public.reminders(recurrence_parent_id, occurrence_date)
+  WHERE recurrence_parent_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reminders_recurring
+  ON public.reminders(recurrence_end_date, due_date)
+  WHERE recurrence_rule IS NOT NULL AND deleted_at IS NULL;
+
+-- 3) Exclude one occurrence from a series in a single statement, so concurrent edits of the same
+-- series don't drop each other's dates
+CREATE OR REPLACE FUNCTION public.add_reminder_exdate(p_reminder_id uuid, p_date date)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE public.reminders
+  SET recurrence_exdates = array_append(recurrence_exdates, p_date)
+  WHERE id = p_reminder_id
+    AND recurrence_rule IS NOT NULL
+    AND NOT (p_date = ANY(recurrence_exdates));
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.add_reminder_exdate IS 'Append a date to a series'' recurrence_exdates; returns false when it was already excluded or the reminder is not a series';
+
+REVOKE ALL ON FUNCTION public.add_reminder_exdate(uuid, date) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.add_reminder_exdate(uuid, date) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_reminder_exdate(uuid, date) TO service_role;
+
+COMMIT;
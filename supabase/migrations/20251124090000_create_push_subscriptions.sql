@@ -0,0 +1,29 @@
+-- Migration: Web Push subscriptions
+-- Students can turn on push notifications per browser or installed app. Each device's PushSubscription
+-- is stored against the profile so new resources, reminders, exams and updates for their branch and
+-- year can be pushed to them.
+
+BEGIN;
+
+-- 1) One row per device subscription
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.push_subscriptions IS 'Web Push subscriptions of students, one per browser or installed app';
+COMMENT ON COLUMN public.push_subscriptions.endpoint IS 'Push service URL for the device; removed when the service reports it gone';
+COMMENT ON COLUMN public.push_subscriptions.p256dh IS 'Client public key (base64url) used to encrypt payloads';
+COMMENT ON COLUMN public.push_subscriptions.auth IS 'Client auth secret (base64url)';
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_profile ON public.push_subscriptions(profile_id);
+
+-- 2) RLS configuration (service role only)
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+COMMIT;